@@ -0,0 +1,34 @@
+/**
+ * Alert Inbox Page
+ *
+ * Everything the rules engine has raised, in one place: what needs
+ * attention now, what has been shelved, and what has been resolved.
+ *
+ * USER CONTEXT:
+ * - Operators triage from here at the start of a shift and after a
+ *   notification storm
+ * - Acknowledge, shelve and escalate must work underground; they are
+ *   queued and sent when the device reconnects
+ */
+
+import type { Metadata } from "next";
+
+import { AlertInbox } from "@/components/alert-inbox";
+
+export const metadata: Metadata = {
+  title: "Alerts | FleetOps",
+};
+
+export default function AlertsPage() {
+  return (
+    <main className="container mx-auto max-w-5xl space-y-6 p-4 md:p-8">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Alerts</h1>
+        <p className="text-sm text-muted-foreground">
+          Active alerts are sorted by severity, then newest first.
+        </p>
+      </header>
+      <AlertInbox />
+    </main>
+  );
+}
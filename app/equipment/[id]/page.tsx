@@ -0,0 +1,31 @@
+/**
+ * Equipment Detail Page
+ *
+ * One unit: live sensors, stored history, its alerts and maintenance log.
+ *
+ * USER CONTEXT:
+ * - Opened from a fleet card or an alert notification, often underground;
+ *   every panel must render offline and say how old its data is
+ */
+
+import type { Metadata } from "next";
+
+import { EquipmentDetail } from "@/components/equipment-detail";
+
+interface EquipmentPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export async function generateMetadata({ params }: EquipmentPageProps): Promise<Metadata> {
+  const { id } = await params;
+  return { title: `${decodeURIComponent(id)} | FleetOps` };
+}
+
+export default async function EquipmentPage({ params }: EquipmentPageProps) {
+  const { id } = await params;
+  return (
+    <main className="container mx-auto max-w-6xl p-4 md:p-8">
+      <EquipmentDetail equipmentId={decodeURIComponent(id)} />
+    </main>
+  );
+}
@@ -0,0 +1,36 @@
+/**
+ * Fleet Overview Page
+ *
+ * Every unit in the fleet with its live status, key readings and data age,
+ * plus status counts rolled up by site or equipment type.
+ *
+ * USER CONTEXT:
+ * - Supervisors scan for red first, so the default sort is worst first
+ * - Filters live in the URL so a view can be shared or bookmarked
+ *
+ * TECHNICAL CONTEXT:
+ * - useSearchParams() needs a Suspense boundary for static rendering
+ */
+
+import type { Metadata } from "next";
+import { Suspense } from "react";
+
+import { FleetOverview } from "@/components/fleet-overview";
+
+export const metadata: Metadata = {
+  title: "Fleet | FleetOps",
+};
+
+export default function FleetPage() {
+  return (
+    <main className="container mx-auto space-y-6 p-4 md:p-8">
+      <header>
+        <h1 className="text-2xl font-bold tracking-tight">Fleet</h1>
+        <p className="text-sm text-muted-foreground">Live status of every unit, worst first.</p>
+      </header>
+      <Suspense fallback={<p className="text-sm text-muted-foreground">Loading fleet…</p>}>
+        <FleetOverview />
+      </Suspense>
+    </main>
+  );
+}
@@ -25,6 +25,8 @@
  * - Large touch targets for gloved hands
  */
 
+import { DiagnosticsActions } from '@/components/diagnostics-actions';
+
 export default function OfflinePage() {
   return (
     <div className="min-h-screen bg-neutral-900 flex items-center justify-center p-4">
@@ -99,6 +101,10 @@ export default function OfflinePage() {
             >
               Home Screen
             </button>
+            <DiagnosticsActions
+              buttonClassName="w-full px-6 py-3 border border-neutral-600 text-neutral-300 font-medium rounded-lg hover:bg-neutral-700 transition-colors disabled:opacity-50"
+              statusClassName="text-xs text-neutral-400 text-center"
+            />
           </div>
 
           {/* Help Text */}
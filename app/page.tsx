@@ -16,6 +16,7 @@ import {
   Truck,
   Zap,
 } from "lucide-react";
+import Link from "next/link";
 import { useState } from "react";
 
 import { ThemeToggle } from "@/components/theme-toggle";
@@ -39,6 +40,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useTelemetryStore } from "@/lib/telemetry/stores/telemetry-hooks";
 
 // Logo Components
 const NextLogo = () => (
@@ -172,6 +174,9 @@ function ShowcaseHeader({
 // shadcn/ui Showcase
 function ShadcnShowcase() {
   const [open, setOpen] = useState(false);
+  const activeMachines = useTelemetryStore(
+    (state) => Object.values(state.equipmentStatus).filter((status) => status !== "offline").length
+  );
   
   return (
     <section id="shadcn" className="scroll-mt-20">
@@ -192,7 +197,7 @@ function ShadcnShowcase() {
           <CardContent>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-2xl font-bold">47</p>
+                <p className="text-2xl font-bold">{activeMachines}</p>
                 <p className="text-xs text-gray-600">Active machines</p>
               </div>
               <div className="flex items-center gap-1">
@@ -202,7 +207,9 @@ function ShadcnShowcase() {
             </div>
           </CardContent>
           <CardFooter className="flex gap-2">
-            <Button size="sm" variant="outline">View Fleet</Button>
+            <Button size="sm" variant="outline" asChild>
+              <Link href="/fleet">View Fleet</Link>
+            </Button>
             <Button size="sm">Generate Report</Button>
           </CardFooter>
         </Card>
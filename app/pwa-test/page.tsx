@@ -3,6 +3,8 @@
 import Link from 'next/link';
 import { useEffect, useState } from 'react';
 
+import { DiagnosticsActions } from '@/components/diagnostics-actions';
+
 export default function PWATestPage() {
   const [swStatus, setSwStatus] = useState<'checking' | 'registered' | 'failed' | 'unsupported'>('checking');
   const [isOnline, setIsOnline] = useState(true);
@@ -125,6 +127,19 @@ export default function PWATestPage() {
           <p className="text-gray-300">{cacheStatus || 'Checking...'}</p>
         </div>
 
+        <div className="bg-gray-800 p-6 rounded-lg">
+          <h2 className="text-xl font-semibold mb-3">Diagnostics</h2>
+          <p className="text-gray-300 mb-4 text-sm">
+            Error journal, build info, cache inventory and connectivity history in one JSON file.
+          </p>
+          <div className="flex flex-wrap items-center gap-3">
+            <DiagnosticsActions
+              buttonClassName="px-4 py-2 bg-blue-600 rounded-lg text-sm font-medium hover:bg-blue-500 disabled:opacity-50"
+              statusClassName="text-sm text-gray-300"
+            />
+          </div>
+        </div>
+
         <div className="bg-gray-800 p-6 rounded-lg">
           <h2 className="text-xl font-semibold mb-3">Test Instructions</h2>
           <ol className="list-decimal list-inside space-y-2 text-gray-300">
@@ -14,7 +14,7 @@
  * TECHNICAL CONTEXT:
  * - Uses Serwist (modern Workbox wrapper) for caching strategies
  * - Implements progressive enhancement - basic offline in Phase 1
- * - Future phases will add background sync and push notifications
+ * - Background sync replays the offline outbox; push shows alert notifications
  * - Precaches all static assets for instant loading
  * 
  * CAUTION:
@@ -28,7 +28,12 @@ import { defaultCache } from "@serwist/next/worker";
 import type { PrecacheEntry, SerwistOptions } from "serwist";
 import { Serwist } from "serwist";
 
+import { fleetCacheStrategies } from "@/lib/pwa/cache-strategies";
 import { CACHE_NAMES, PWA_CONFIG, PWA_VERSION } from "@/lib/pwa/constants";
+import { recordDiagnostic } from "@/lib/pwa/diagnostics/diagnostics-journal";
+import { OUTBOX_SYNC_TAG } from "@/lib/pwa/outbox/outbox-database";
+import { syncOutbox } from "@/lib/pwa/outbox/outbox-sync";
+import { handleAlertNotificationClick, showAlertPush } from "@/lib/pwa/push/alert-notifications";
 import { handleSWError } from "@/lib/pwa/utils";
 
 // TypeScript declaration for service worker global scope
@@ -58,7 +63,8 @@ try {
       { url: '/offline', revision: PWA_VERSION },
     ],
     
-    // Aggressive update strategy for safety fixes
+    // Updates wait for SKIP_WAITING from the page's update manager, which
+    // holds them while a critical operation (e.g. safety checklist) runs
     skipWaiting: PWA_CONFIG.skipWaiting,
     clientsClaim: PWA_CONFIG.clientsClaim,
     
@@ -68,15 +74,14 @@ try {
     
     // Runtime caching strategies
     runtimeCaching: [
-      // Use Serwist's default strategies for common assets
-      ...defaultCache,
-      
-      // Phase 1: Basic app shell caching is handled by precache manifest
-      // Phase 2 will add:
+      // Fleet data routes first - the first matching route wins:
       // - NetworkFirst for telemetry API
-      // - StaleWhileRevalidate for equipment data  
+      // - StaleWhileRevalidate for equipment data
       // - CacheFirst for MapBox tiles
-      // - Background sync for offline actions
+      ...fleetCacheStrategies,
+      
+      // Use Serwist's default strategies for common assets
+      ...defaultCache,
     ],
     
     // Offline fallback configuration
@@ -125,6 +130,7 @@ self.addEventListener('activate', (event) => {
     }).then(() => {
       // eslint-disable-next-line no-console
       console.log(`[SW] Activated with version: ${PWA_VERSION}`);
+      return recordDiagnostic({ level: 'info', category: 'lifecycle', message: `Activated ${PWA_VERSION}` });
     })
   );
 });
@@ -139,17 +145,29 @@ self.addEventListener('message', (event) => {
   }
 });
 
-// Future: Handle background sync for offline telemetry
-// self.addEventListener('sync', (event) => {
-//   if (event.tag === 'telemetry-sync') {
-//     event.waitUntil(syncTelemetryData());
-//   }
-// });
+// Replay the offline outbox (readings, acknowledgements, inspections)
+// Rejecting tells the browser to retry the sync later with its own backoff
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(
+      syncOutbox(self, event.lastChance).catch((error: Error) => {
+        handleSWError(error);
+        throw error;
+      })
+    );
+  }
+});
+
+// Alert push notifications: critical/error alerts stand alone with
+// Acknowledge / Open equipment actions, lower severities share a digest
+self.addEventListener('push', (event) => {
+  event.waitUntil(showAlertPush(self, event.data).catch(handleSWError));
+});
 
-// Future: Handle push notifications for critical alerts
-// self.addEventListener('push', (event) => {
-//   const data = event.data?.json();
-//   if (data?.priority === 'critical') {
-//     event.waitUntil(showCriticalAlert(data));
-//   }
-// });
\ No newline at end of file
+// Route notification taps: acknowledge via the outbox, otherwise open the
+// equipment page (or the alert list for a digest)
+self.addEventListener('notificationclick', (event) => {
+  event.waitUntil(
+    handleAlertNotificationClick(self, event.notification, event.action).catch(handleSWError)
+  );
+});
@@ -0,0 +1,373 @@
+"use client"
+
+import { BellOff, Check, ChevronDown, Siren } from "lucide-react"
+import * as React from "react"
+
+import { LiveAlertPriorityIndicators } from "@/components/patterns/industrial-patterns"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { alertVariants } from "@/components/ui/fleet-variants"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { VirtualList } from "@/components/ui/virtual-list"
+import {
+  ALERT_SHELVE_DURATIONS,
+  queueAlertAcknowledgement,
+  queueAlertEscalation,
+  queueAlertShelve,
+} from "@/lib/alerts/alert-actions"
+import {
+  AlertFilter,
+  AlertGroupBy,
+  filterAlerts,
+  getAlertFilterOptions,
+  groupAlerts,
+} from "@/lib/alerts/alert-filters"
+import { useAlertLists } from "@/lib/alerts/alert-hooks"
+import { Alert, ALERT_PRIORITY_BY_SEVERITY } from "@/lib/alerts/alert-store"
+import type { AlertSeverity } from "@/lib/theme/fleet-theme-context"
+import { cn } from "@/lib/utils"
+
+const ALL = "all"
+
+const GROUP_BY_LABELS: Record<AlertGroupBy, string> = {
+  severity: "Severity",
+  equipment: "Equipment",
+  sensor: "Sensor",
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+function formatTime(at: number): string {
+  return new Date(at).toLocaleString()
+}
+
+type PendingAction = { kind: "acknowledge" | "escalate"; alert: Alert } | null
+
+/**
+ * Dialog asking for an optional note before acknowledging or escalating
+ */
+function AlertNoteDialog({
+  pending,
+  onCancel,
+  onConfirm,
+}: {
+  pending: PendingAction
+  onCancel: () => void
+  onConfirm: (note: string) => void
+}) {
+  const [note, setNote] = React.useState("")
+  const escalating = pending?.kind === "escalate"
+
+  React.useEffect(() => setNote(""), [pending])
+
+  return (
+    <Dialog open={pending !== null} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{escalating ? "Escalate alert" : "Acknowledge alert"}</DialogTitle>
+          <DialogDescription>{pending?.alert.message}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-2">
+          <Label htmlFor="alert-note">{escalating ? "Reason" : "Note (optional)"}</Label>
+          <textarea
+            id="alert-note"
+            rows={3}
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            className={cn(SELECT_CLASS, "h-auto py-2")}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(note.trim())}>{escalating ? "Escalate" : "Acknowledge"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+function AlertRow({
+  alert,
+  onAction,
+  onShelve,
+}: {
+  alert: Alert
+  onAction: (pending: NonNullable<PendingAction>) => void
+  onShelve: (alert: Alert, durationMs: number) => void
+}) {
+  const resolved = alert.state === "resolved"
+
+  return (
+    <div className="flex flex-wrap items-start justify-between gap-3">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-medium">{alert.message}</span>
+          {alert.cleared && !resolved && <Badge variant="outline">Cleared</Badge>}
+          {alert.state === "acknowledged" && <Badge variant="secondary">Acknowledged</Badge>}
+          {alert.escalatedAt !== null && <Badge variant="destructive">Escalated</Badge>}
+        </div>
+        <div className="text-xs opacity-80">
+          {alert.equipmentId} · {alert.sensorType}
+          {alert.value !== null && ` · ${alert.value}`} · raised {formatTime(alert.raisedAt)}
+          {alert.shelvedUntil !== null && ` · shelved until ${formatTime(alert.shelvedUntil)}`}
+          {alert.resolvedAt !== null && ` · resolved ${formatTime(alert.resolvedAt)}`}
+        </div>
+        {alert.acknowledgedNote && <p className="text-xs">Note: {alert.acknowledgedNote}</p>}
+        {alert.escalationNote && <p className="text-xs">Escalation: {alert.escalationNote}</p>}
+      </div>
+
+      {!resolved && (
+        <div className="flex shrink-0 gap-2">
+          {alert.state === "open" && (
+            <Button size="sm" variant="outline" onClick={() => onAction({ kind: "acknowledge", alert })}>
+              <Check aria-hidden="true" />
+              Acknowledge
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button size="sm" variant="outline">
+                <BellOff aria-hidden="true" />
+                Shelve
+                <ChevronDown aria-hidden="true" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Hide for</DropdownMenuLabel>
+              {ALERT_SHELVE_DURATIONS.map(({ label, durationMs }) => (
+                <DropdownMenuItem key={durationMs} onSelect={() => onShelve(alert, durationMs)}>
+                  {label}
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {alert.escalatedAt === null && (
+            <Button size="sm" variant="outline" onClick={() => onAction({ kind: "escalate", alert })}>
+              <Siren aria-hidden="true" />
+              Escalate
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+type AlertListEntry = { kind: "group"; key: string; count: number } | { kind: "alert"; alert: Alert }
+
+function AlertGroupList({
+  alerts,
+  groupBy,
+  empty,
+  ...rowProps
+}: {
+  alerts: Alert[]
+  groupBy: AlertGroupBy
+  empty: string
+  onAction: (pending: NonNullable<PendingAction>) => void
+  onShelve: (alert: Alert, durationMs: number) => void
+}) {
+  const { entries, groupIndices } = React.useMemo(() => {
+    const entries: AlertListEntry[] = []
+    const groupIndices: number[] = []
+    for (const group of groupAlerts(alerts, groupBy)) {
+      groupIndices.push(entries.length)
+      entries.push({ kind: "group", key: group.key, count: group.alerts.length })
+      group.alerts.forEach((alert) => entries.push({ kind: "alert", alert }))
+    }
+    return { entries, groupIndices }
+  }, [alerts, groupBy])
+
+  if (alerts.length === 0) {
+    return <p className="py-8 text-center text-sm text-muted-foreground">{empty}</p>
+  }
+
+  return (
+    <VirtualList
+      aria-label="Alerts"
+      className="h-[65vh] rounded-lg border"
+      items={entries}
+      getKey={(entry) => (entry.kind === "group" ? `group:${entry.key}` : entry.alert.id)}
+      estimateSize={(entry) => (entry.kind === "group" ? 36 : 96)}
+      stickyIndices={groupIndices}
+      itemClassName={(entry) =>
+        entry.kind === "group"
+          ? "border-b bg-background"
+          : cn(
+              alertVariants({ severity: ALERT_PRIORITY_BY_SEVERITY[entry.alert.severity] }),
+              "rounded-none border-x-0 border-t-0",
+              (entry.alert.state === "resolved" || entry.alert.shelvedUntil !== null) && "animate-none opacity-80"
+            )
+      }
+      renderItem={(entry) =>
+        entry.kind === "group" ? (
+          <h2 className="px-4 py-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+            {entry.key} ({entry.count})
+          </h2>
+        ) : (
+          <AlertRow alert={entry.alert} {...rowProps} />
+        )
+      }
+    />
+  )
+}
+
+/**
+ * Alert inbox: active, shelved and resolved alerts with filters, grouping
+ * and the acknowledge / shelve / escalate workflows
+ *
+ * Actions update the list immediately and are delivered through the
+ * outbox, so they work offline; the status line only reports a failure to
+ * store the action on the device.
+ */
+export function AlertInbox() {
+  const { active, shelved, history } = useAlertLists()
+  const [severities, setSeverities] = React.useState<AlertSeverity[]>([])
+  const [equipmentId, setEquipmentId] = React.useState(ALL)
+  const [sensorType, setSensorType] = React.useState(ALL)
+  const [groupBy, setGroupBy] = React.useState<AlertGroupBy>("severity")
+  const [pending, setPending] = React.useState<PendingAction>(null)
+  const [error, setError] = React.useState<string | null>(null)
+
+  const options = React.useMemo(
+    () => getAlertFilterOptions([...active, ...shelved, ...history]),
+    [active, shelved, history]
+  )
+  const filter: AlertFilter = {
+    severities,
+    ...(equipmentId !== ALL && { equipmentId }),
+    ...(sensorType !== ALL && { sensorType }),
+  }
+
+  const toggleSeverity = (severity: AlertSeverity) =>
+    setSeverities((current) =>
+      current.includes(severity) ? current.filter((s) => s !== severity) : [...current, severity]
+    )
+
+  const run = (action: Promise<unknown>) => {
+    setError(null)
+    action.catch(() => setError("Saved on this device only - it could not be queued for sync."))
+  }
+
+  const confirmPending = (note: string) => {
+    if (!pending) return
+    const { kind, alert } = pending
+    setPending(null)
+    run(
+      kind === "acknowledge"
+        ? queueAlertAcknowledgement(alert.id, note || undefined)
+        : queueAlertEscalation(alert.id, note || undefined)
+    )
+  }
+
+  const listProps = {
+    groupBy,
+    onAction: setPending,
+    onShelve: (alert: Alert, durationMs: number) => run(queueAlertShelve(alert.id, durationMs)),
+  }
+
+  return (
+    <div className="space-y-6">
+      <LiveAlertPriorityIndicators onSelect={toggleSeverity} selected={severities} />
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="alert-equipment">Equipment</Label>
+          <select
+            id="alert-equipment"
+            className={SELECT_CLASS}
+            value={equipmentId}
+            onChange={(event) => setEquipmentId(event.target.value)}
+          >
+            <option value={ALL}>All equipment</option>
+            {options.equipmentIds.map((id) => (
+              <option key={id} value={id}>
+                {id}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="alert-sensor">Sensor</Label>
+          <select
+            id="alert-sensor"
+            className={SELECT_CLASS}
+            value={sensorType}
+            onChange={(event) => setSensorType(event.target.value)}
+          >
+            <option value={ALL}>All sensors</option>
+            {options.sensorTypes.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="alert-group">Group by</Label>
+          <select
+            id="alert-group"
+            className={SELECT_CLASS}
+            value={groupBy}
+            onChange={(event) => setGroupBy(event.target.value as AlertGroupBy)}
+          >
+            {Object.entries(GROUP_BY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {severities.length > 0 && (
+          <Button variant="ghost" size="sm" onClick={() => setSeverities([])}>
+            Clear severity filter
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-fleet-status-critical">
+          {error}
+        </p>
+      )}
+
+      <Tabs defaultValue="active">
+        <TabsList>
+          <TabsTrigger value="active">Active ({active.length})</TabsTrigger>
+          <TabsTrigger value="shelved">Shelved ({shelved.length})</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
+        <TabsContent value="active" className="pt-4">
+          <AlertGroupList alerts={filterAlerts(active, filter)} empty="No active alerts" {...listProps} />
+        </TabsContent>
+        <TabsContent value="shelved" className="pt-4">
+          <AlertGroupList alerts={filterAlerts(shelved, filter)} empty="No shelved alerts" {...listProps} />
+        </TabsContent>
+        <TabsContent value="history" className="pt-4">
+          <AlertGroupList alerts={filterAlerts(history, filter)} empty="No resolved alerts" {...listProps} />
+        </TabsContent>
+      </Tabs>
+
+      <AlertNoteDialog pending={pending} onCancel={() => setPending(null)} onConfirm={confirmPending} />
+    </div>
+  )
+}
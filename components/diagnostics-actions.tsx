@@ -0,0 +1,82 @@
+"use client"
+
+import * as React from "react"
+
+import {
+  collectDiagnosticsBundle,
+  DiagnosticsUploadStatus,
+  downloadDiagnosticsBundle,
+  getDiagnosticsUploadEndpoint,
+  uploadDiagnosticsBundle,
+} from "@/lib/pwa/diagnostics/diagnostics-bundle"
+
+type Status = "idle" | "working" | "downloaded" | DiagnosticsUploadStatus | "failed"
+
+const STATUS_TEXT: Record<Status, string> = {
+  idle: "",
+  working: "Collecting diagnostics…",
+  downloaded: "Diagnostics saved - email the file to support",
+  sent: "Diagnostics sent to support",
+  queued: "Diagnostics queued - they will be sent when the connection allows",
+  rejected: "Support did not accept the diagnostics - download them instead",
+  failed: "Could not collect diagnostics",
+}
+
+/**
+ * "Download diagnostics" (and "Send to support" when an upload endpoint
+ * is configured) for techs who can't open devtools on site
+ */
+export function DiagnosticsActions({
+  buttonClassName,
+  statusClassName,
+}: {
+  buttonClassName?: string
+  statusClassName?: string
+}) {
+  const [status, setStatus] = React.useState<Status>("idle")
+  const canUpload = getDiagnosticsUploadEndpoint() !== null
+
+  const run = async (action: "download" | "upload") => {
+    setStatus("working")
+    try {
+      const bundle = await collectDiagnosticsBundle()
+      if (action === "download") {
+        downloadDiagnosticsBundle(bundle)
+        setStatus("downloaded")
+      } else {
+        const { status: uploadStatus } = await uploadDiagnosticsBundle(bundle)
+        setStatus(uploadStatus)
+      }
+    } catch {
+      setStatus("failed")
+    }
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        disabled={status === "working"}
+        onClick={() => void run("download")}
+        className={buttonClassName}
+      >
+        Download diagnostics
+      </button>
+      {canUpload && (
+        <button
+          type="button"
+          disabled={status === "working"}
+          onClick={() => void run("upload")}
+          className={buttonClassName}
+        >
+          Send diagnostics to support
+        </button>
+      )}
+      {status !== "idle" && (
+        <p role="status" className={statusClassName}>
+          {STATUS_TEXT[status]}
+        </p>
+      )}
+    </>
+  )
+}
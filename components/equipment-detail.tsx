@@ -0,0 +1,338 @@
+"use client"
+
+import { CloudOff, Radio } from "lucide-react"
+import Link from "next/link"
+import * as React from "react"
+
+import {
+  DataAgeIndicator,
+  EquipmentState,
+  StatusBadge,
+  TelemetryValue,
+} from "@/components/patterns/industrial-patterns"
+import { LiveSensorChart, SensorChart } from "@/components/sensor-chart"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardAction, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { alertVariants } from "@/components/ui/fleet-variants"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { useAlertLists } from "@/lib/alerts/alert-hooks"
+import { ALERT_PRIORITY_BY_SEVERITY } from "@/lib/alerts/alert-store"
+import {
+  useEquipment,
+  useEquipmentSensorTypes,
+  useMaintenanceLog,
+  useSensorDefinitions,
+  useSensorHistory,
+} from "@/lib/equipment/equipment-hooks"
+import type { SensorDefinition } from "@/lib/equipment/equipment-model"
+import { CachedResource, isCachedData } from "@/lib/equipment/equipment-resources"
+import { SENSOR_HISTORY_RANGES } from "@/lib/equipment/sensor-history"
+import { getStatusPresentation } from "@/lib/fleet/equipment-health"
+import { useOnlineStatus } from "@/lib/pwa/use-online-status"
+import { useEquipmentStatus, useSensorLatest } from "@/lib/telemetry/stores/telemetry-hooks"
+import { cn } from "@/lib/utils"
+
+/** Stored history older than this is flagged as stale */
+const HISTORY_STALE_MS = 5 * 60_000
+
+const LAST_DAY_MS = 24 * 60 * 60_000
+
+/**
+ * "Live" or "Cached · 3h ago" for a panel, so old data is never mistaken
+ * for current readings
+ */
+function DataSourceNotice({ cached, timestamp }: { cached: boolean; timestamp: number | null }) {
+  if (!cached) {
+    return (
+      <Badge variant="secondary">
+        <Radio aria-hidden="true" />
+        Live
+      </Badge>
+    )
+  }
+  return (
+    <span className="inline-flex items-center gap-2">
+      <Badge variant="outline" className="border-fleet-status-warning text-fleet-status-warning">
+        <CloudOff aria-hidden="true" />
+        Cached
+      </Badge>
+      {timestamp !== null && <DataAgeIndicator timestamp={timestamp} maxAge={HISTORY_STALE_MS} />}
+    </span>
+  )
+}
+
+function ResourceNotice({ resource }: { resource: CachedResource<unknown> | undefined }) {
+  if (!resource) return null
+  return <DataSourceNotice cached={isCachedData(resource, Date.now())} timestamp={resource.fetchedAt} />
+}
+
+function LiveSensorPanel({
+  equipmentId,
+  sensorType,
+  definition,
+}: {
+  equipmentId: string
+  sensorType: string
+  definition: SensorDefinition | undefined
+}) {
+  const latest = useSensorLatest(equipmentId, sensorType)
+  const label = definition?.label ?? sensorType
+  const unit = definition?.unit ?? latest?.unit ?? ""
+  const threshold = definition?.thresholds
+
+  return (
+    <div className="space-y-2">
+      {latest && <TelemetryValue label={label} value={latest.value} unit={unit} {...(threshold && { threshold })} />}
+      <LiveSensorChart
+        equipmentId={equipmentId}
+        sensorType={sensorType}
+        label={label}
+        unit={unit}
+        {...(threshold && { threshold })}
+      />
+    </div>
+  )
+}
+
+function OverviewTab({ equipmentId }: { equipmentId: string }) {
+  const sensorTypes = useEquipmentSensorTypes(equipmentId)
+  const definitions = useSensorDefinitions(equipmentId)
+  const online = useOnlineStatus()
+  // Nothing in memory (reload while offline): fall back to the last stored values
+  const stored = useSensorHistory(equipmentId, LAST_DAY_MS)
+
+  if (sensorTypes.length > 0) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Live sensors</CardTitle>
+          <CardAction>
+            <DataSourceNotice cached={!online} timestamp={null} />
+          </CardAction>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          {sensorTypes.map((sensorType) => (
+            <LiveSensorPanel
+              key={sensorType}
+              equipmentId={equipmentId}
+              sensorType={sensorType}
+              definition={definitions.data?.data.find((definition) => definition.sensorType === sensorType)}
+            />
+          ))}
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const sensors = stored.data?.sensors ?? []
+  const newest = sensors.length > 0 ? Math.max(...sensors.map((sensor) => sensor.newest)) : null
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Last stored readings</CardTitle>
+        <CardDescription>No live data from this unit yet.</CardDescription>
+        <CardAction>
+          <DataSourceNotice cached timestamp={newest} />
+        </CardAction>
+      </CardHeader>
+      <CardContent className="grid gap-4 md:grid-cols-3">
+        {sensors.length === 0 && <p className="text-sm text-muted-foreground">No stored readings on this device.</p>}
+        {sensors.map(({ sensorType, aggregates }) => {
+          const last = aggregates[aggregates.length - 1]
+          return last && <TelemetryValue key={sensorType} label={sensorType} value={last.avg} unit="" />
+        })}
+      </CardContent>
+    </Card>
+  )
+}
+
+function HistoryTab({ equipmentId }: { equipmentId: string }) {
+  const [durationMs, setDurationMs] = React.useState(SENSOR_HISTORY_RANGES[1]?.durationMs ?? LAST_DAY_MS)
+  const history = useSensorHistory(equipmentId, durationMs)
+  const sensors = history.data?.sensors ?? []
+  const newest = sensors.length > 0 ? Math.max(...sensors.map((sensor) => sensor.newest)) : null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sensor history</CardTitle>
+        <CardDescription>
+          {history.data && !history.data.persisted
+            ? "Stored history is unavailable on this device; showing data from this session only."
+            : "One-second aggregates, stored on this device for 24 hours."}
+        </CardDescription>
+        <CardAction>
+          <DataSourceNotice
+            cached={newest === null || Date.now() - newest > HISTORY_STALE_MS}
+            timestamp={newest}
+          />
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2" role="group" aria-label="Time range">
+          {SENSOR_HISTORY_RANGES.map((range) => (
+            <Button
+              key={range.durationMs}
+              size="sm"
+              variant={range.durationMs === durationMs ? "secondary" : "outline"}
+              aria-pressed={range.durationMs === durationMs}
+              onClick={() => setDurationMs(range.durationMs)}
+            >
+              {range.label}
+            </Button>
+          ))}
+        </div>
+        {history.isPending && <p className="text-sm text-muted-foreground">Loading history…</p>}
+        {history.data && sensors.length === 0 && (
+          <p className="text-sm text-muted-foreground">No data in this range.</p>
+        )}
+        <div className="grid gap-4 md:grid-cols-2">
+          {sensors.map(({ sensorType, aggregates }) => (
+            <SensorChart key={sensorType} series={aggregates} label={sensorType} unit="" variant="area" height={140} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function AlertsTab({ equipmentId }: { equipmentId: string }) {
+  const { active, shelved, history } = useAlertLists()
+  const alerts = React.useMemo(
+    () => [...active, ...shelved, ...history].filter((alert) => alert.equipmentId === equipmentId),
+    [active, shelved, history, equipmentId]
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Alerts</CardTitle>
+        <CardDescription>Raised on this device for this unit.</CardDescription>
+        <CardAction>
+          <Button size="sm" variant="outline" asChild>
+            <Link href="/alerts">Open alert inbox</Link>
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {alerts.length === 0 && <p className="text-sm text-muted-foreground">No alerts.</p>}
+        <ul className="space-y-2">
+          {alerts.map((alert) => (
+            <li
+              key={alert.id}
+              className={cn(
+                alertVariants({ severity: ALERT_PRIORITY_BY_SEVERITY[alert.severity] }),
+                alert.state === "resolved" && "animate-none opacity-70"
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <span className="font-medium">{alert.message}</span>
+                <Badge variant="outline">{alert.state}</Badge>
+              </div>
+              <p className="text-xs opacity-80">
+                {alert.sensorType} · raised {new Date(alert.raisedAt).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
+
+function MaintenanceTab({ equipmentId }: { equipmentId: string }) {
+  const log = useMaintenanceLog(equipmentId)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Maintenance log</CardTitle>
+        <CardAction>
+          <ResourceNotice resource={log.data} />
+        </CardAction>
+      </CardHeader>
+      <CardContent>
+        {log.isPending && <p className="text-sm text-muted-foreground">Loading maintenance log…</p>}
+        {log.isError && (
+          <p className="text-sm text-muted-foreground">
+            Maintenance log unavailable - it has not been downloaded to this device yet.
+          </p>
+        )}
+        {log.data?.data.length === 0 && <p className="text-sm text-muted-foreground">No maintenance recorded.</p>}
+        <ol className="space-y-3">
+          {log.data?.data.map((entry) => (
+            <li key={entry.id} className="border-l-2 pl-3">
+              <p className="text-sm font-medium">{entry.summary}</p>
+              <p className="text-xs text-muted-foreground">
+                <span className="capitalize">{entry.kind}</span> · {new Date(entry.performedAt).toLocaleDateString()}
+                {entry.technician && ` · ${entry.technician}`}
+              </p>
+            </li>
+          ))}
+        </ol>
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Equipment detail: live sensors, stored history, alerts and maintenance
+ *
+ * Works without a connection - the unit's details and maintenance log come
+ * from the equipment cache and history from IndexedDB, and every panel
+ * says whether it is live or cached and how old its data is.
+ */
+export function EquipmentDetail({ equipmentId }: { equipmentId: string }) {
+  const detail = useEquipment(equipmentId)
+  const status = useEquipmentStatus(equipmentId)
+  const { active } = useAlertLists()
+  const unitAlerts = React.useMemo(() => active.filter((alert) => alert.equipmentId === equipmentId), [active, equipmentId])
+  const summary = detail.data?.data
+  const presentation = getStatusPresentation(status, unitAlerts)
+
+  return (
+    <div className="space-y-6">
+      <header className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">{summary?.name ?? equipmentId}</h1>
+          <p className="text-sm text-muted-foreground">
+            {summary ? `${summary.site.name} · ${summary.type} · ${equipmentId}` : equipmentId}
+          </p>
+          <div className="mt-2">
+            {detail.isError ? (
+              <span className="text-xs text-muted-foreground">Details not available offline</span>
+            ) : (
+              <ResourceNotice resource={detail.data} />
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <EquipmentState state={presentation.state} />
+          <StatusBadge status={presentation.level} />
+        </div>
+      </header>
+
+      <Tabs defaultValue="overview">
+        <TabsList>
+          <TabsTrigger value="overview">Overview</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+          <TabsTrigger value="alerts">Alerts ({unitAlerts.length})</TabsTrigger>
+          <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+        </TabsList>
+        <TabsContent value="overview" className="pt-4">
+          <OverviewTab equipmentId={equipmentId} />
+        </TabsContent>
+        <TabsContent value="history" className="pt-4">
+          <HistoryTab equipmentId={equipmentId} />
+        </TabsContent>
+        <TabsContent value="alerts" className="pt-4">
+          <AlertsTab equipmentId={equipmentId} />
+        </TabsContent>
+        <TabsContent value="maintenance" className="pt-4">
+          <MaintenanceTab equipmentId={equipmentId} />
+        </TabsContent>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,398 @@
+"use client"
+
+import { LayoutGrid, List } from "lucide-react"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import * as React from "react"
+
+import {
+  DataAgeIndicator,
+  EquipmentState,
+  StatusBadge,
+  TelemetryValue,
+} from "@/components/patterns/industrial-patterns"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { VirtualList } from "@/components/ui/virtual-list"
+import { useFleetUnits } from "@/lib/fleet/fleet-hooks"
+import {
+  filterFleetUnits,
+  FLEET_ROLLUP_KEYS,
+  FLEET_SORTS,
+  FleetQuery,
+  FleetRollUpBy,
+  FleetSort,
+  FleetUnit,
+  parseFleetQuery,
+  rollUpFleet,
+  toFleetSearchParams,
+} from "@/lib/fleet/fleet-overview"
+import { getEquipmentUrl } from "@/lib/pwa/push/alert-payload"
+import type { StatusLevel } from "@/lib/theme/fleet-theme-context"
+import { cn } from "@/lib/utils"
+
+const ALL = "all"
+
+const MIN_CARD_WIDTH = 300
+/** Row heights until measured */
+const GRID_ROW_HEIGHT = 380
+const LIST_ROW_HEIGHT = 120
+
+/** Readings older than this show as stale */
+const STALE_AFTER_MS = 30_000
+
+const STATUS_LABELS: Record<StatusLevel, string> = {
+  critical: "Critical",
+  warning: "Warning",
+  offline: "Offline",
+  operational: "Operational",
+}
+
+const SORT_LABELS: Record<FleetSort, string> = {
+  status: "Status (worst first)",
+  name: "Name",
+  site: "Site",
+  type: "Type",
+  age: "Data age (oldest first)",
+}
+
+const SELECT_CLASS =
+  "h-9 rounded-md border border-input bg-transparent px-3 text-sm shadow-xs focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50"
+
+/**
+ * Fleet view held in the URL, so a view can be shared as a link
+ */
+function useFleetQuery(): [FleetQuery, (changes: Partial<FleetQuery>) => void] {
+  const searchParams = useSearchParams()
+  const router = useRouter()
+  const pathname = usePathname()
+  const query = React.useMemo(() => parseFleetQuery(searchParams), [searchParams])
+
+  const update = React.useCallback(
+    (changes: Partial<FleetQuery>) => {
+      const search = toFleetSearchParams({ ...query, ...changes }).toString()
+      router.replace(search ? `${pathname}?${search}` : pathname, { scroll: false })
+    },
+    [query, router, pathname]
+  )
+  return [query, update]
+}
+
+/**
+ * Width of the list, which sets how many cards fit per grid row
+ */
+function useElementWidth(ref: React.RefObject<HTMLElement | null>): number {
+  const [width, setWidth] = React.useState(0)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return undefined
+    setWidth(element.clientWidth)
+    if (typeof ResizeObserver === "undefined") return undefined
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) setWidth(Math.floor(entry.contentRect.width))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return width
+}
+
+function UnitMetrics({ unit, className }: { unit: FleetUnit; className?: string }) {
+  if (unit.metrics.length === 0) {
+    return <p className="text-sm text-muted-foreground">No readings yet</p>
+  }
+  return (
+    <div className={className}>
+      {unit.metrics.map((reading) => (
+        <TelemetryValue key={reading.sensorType} label={reading.sensorType} value={reading.value} unit={reading.unit} />
+      ))}
+    </div>
+  )
+}
+
+function UnitAge({ unit }: { unit: FleetUnit }) {
+  if (unit.lastSeen === null) return <span className="text-xs text-muted-foreground">No data</span>
+  return <DataAgeIndicator timestamp={unit.lastSeen} maxAge={STALE_AFTER_MS} />
+}
+
+function UnitCard({ unit }: { unit: FleetUnit }) {
+  return (
+    <Card className="h-full gap-3 py-4">
+      <CardHeader className="px-4">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="truncate">
+              <Link href={getEquipmentUrl(unit.id)} className="hover:underline">
+                {unit.name}
+              </Link>
+            </CardTitle>
+            <p className="truncate text-xs text-muted-foreground">
+              {unit.site} · {unit.type}
+            </p>
+          </div>
+          <StatusBadge status={unit.status} />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3 px-4">
+        <div className="flex items-center justify-between">
+          <EquipmentState state={unit.state} size="sm" />
+          <UnitAge unit={unit} />
+        </div>
+        <UnitMetrics unit={unit} className="grid gap-2" />
+      </CardContent>
+    </Card>
+  )
+}
+
+function UnitRow({ unit }: { unit: FleetUnit }) {
+  return (
+    <div className="flex items-center gap-4 border-b px-2 py-3">
+      <div className="w-48 min-w-0 shrink-0">
+        <Link href={getEquipmentUrl(unit.id)} className="block truncate font-medium hover:underline">
+          {unit.name}
+        </Link>
+        <p className="truncate text-xs text-muted-foreground">
+          {unit.site} · {unit.type}
+        </p>
+        <UnitAge unit={unit} />
+      </div>
+      <div className="flex w-36 shrink-0 flex-col gap-2">
+        <StatusBadge status={unit.status} />
+        <EquipmentState state={unit.state} size="sm" />
+      </div>
+      <UnitMetrics unit={unit} className="grid min-w-0 flex-1 grid-cols-3 gap-2" />
+    </div>
+  )
+}
+
+function FleetRollUpTable({
+  units,
+  by,
+  onSelect,
+}: {
+  units: FleetUnit[]
+  by: FleetRollUpBy
+  onSelect: (key: string) => void
+}) {
+  const rollUp = React.useMemo(() => rollUpFleet(units, by), [units, by])
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wider text-muted-foreground">
+          <th className="py-2 font-medium">{by === "site" ? "Site" : "Type"}</th>
+          <th className="py-2 text-right font-medium">Total</th>
+          {(Object.keys(STATUS_LABELS) as StatusLevel[]).map((status) => (
+            <th key={status} className="py-2 text-right font-medium">
+              {STATUS_LABELS[status]}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rollUp.map((group) => (
+          <tr key={group.key} className="border-t">
+            <td className="py-2">
+              <button type="button" className="hover:underline" onClick={() => onSelect(group.key)}>
+                {group.key}
+              </button>
+            </td>
+            <td className="py-2 text-right font-mono">{group.total}</td>
+            {(Object.keys(STATUS_LABELS) as StatusLevel[]).map((status) => (
+              <td
+                key={status}
+                className={cn(
+                  "py-2 text-right font-mono",
+                  group.counts[status] === 0 && "text-muted-foreground",
+                  status === "critical" && group.counts[status] > 0 && "text-fleet-status-critical",
+                  status === "warning" && group.counts[status] > 0 && "text-fleet-status-warning"
+                )}
+              >
+                {group.counts[status]}
+              </td>
+            ))}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
+
+/**
+ * Live fleet grid/list with status roll-ups by site or type
+ *
+ * Only the rows on screen are rendered, so thousands of units stay
+ * responsive. Filters, sort, view and roll-up live in the URL.
+ */
+export function FleetOverview() {
+  const { units, directoryError } = useFleetUnits()
+  const [query, updateQuery] = useFleetQuery()
+  const router = useRouter()
+  const listRef = React.useRef<HTMLDivElement>(null)
+
+  const visible = React.useMemo(() => filterFleetUnits(units, query), [units, query])
+  const sites = React.useMemo(() => [...new Set(units.map((unit) => unit.site))].sort(), [units])
+  const types = React.useMemo(() => [...new Set(units.map((unit) => unit.type))].sort(), [units])
+
+  const grid = query.view === "grid"
+  const width = useElementWidth(listRef)
+  const columns = grid ? Math.max(1, Math.floor(width / MIN_CARD_WIDTH)) : 1
+  const rows = React.useMemo(() => {
+    const chunks: FleetUnit[][] = []
+    for (let i = 0; i < visible.length; i += columns) chunks.push(visible.slice(i, i + columns))
+    return chunks
+  }, [visible, columns])
+
+  return (
+    <div className="space-y-6">
+      <Card className="gap-3 py-4">
+        <CardHeader className="flex flex-row items-center justify-between px-4">
+          <CardTitle>Status by {query.rollUp}</CardTitle>
+          <select
+            aria-label="Roll up by"
+            className={SELECT_CLASS}
+            value={query.rollUp}
+            onChange={(event) => updateQuery({ rollUp: event.target.value as FleetRollUpBy })}
+          >
+            {FLEET_ROLLUP_KEYS.map((key) => (
+              <option key={key} value={key}>
+                By {key}
+              </option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent className="px-4">
+          <FleetRollUpTable units={units} by={query.rollUp} onSelect={(key) => updateQuery(query.rollUp === "site" ? { site: key } : { type: key })} />
+        </CardContent>
+      </Card>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div className="grid gap-1">
+          <Label htmlFor="fleet-search">Search</Label>
+          <Input
+            id="fleet-search"
+            type="search"
+            placeholder="Name or id"
+            value={query.search}
+            onChange={(event) => updateQuery({ search: event.target.value })}
+          />
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="fleet-site">Site</Label>
+          <select
+            id="fleet-site"
+            className={SELECT_CLASS}
+            value={query.site ?? ALL}
+            onChange={(event) => updateQuery({ site: event.target.value === ALL ? null : event.target.value })}
+          >
+            <option value={ALL}>All sites</option>
+            {sites.map((site) => (
+              <option key={site} value={site}>
+                {site}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="fleet-type">Type</Label>
+          <select
+            id="fleet-type"
+            className={SELECT_CLASS}
+            value={query.type ?? ALL}
+            onChange={(event) => updateQuery({ type: event.target.value === ALL ? null : event.target.value })}
+          >
+            <option value={ALL}>All types</option>
+            {types.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="fleet-status">Status</Label>
+          <select
+            id="fleet-status"
+            className={SELECT_CLASS}
+            value={query.status ?? ALL}
+            onChange={(event) =>
+              updateQuery({ status: event.target.value === ALL ? null : (event.target.value as StatusLevel) })
+            }
+          >
+            <option value={ALL}>All statuses</option>
+            {(Object.keys(STATUS_LABELS) as StatusLevel[]).map((status) => (
+              <option key={status} value={status}>
+                {STATUS_LABELS[status]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid gap-1">
+          <Label htmlFor="fleet-sort">Sort</Label>
+          <select
+            id="fleet-sort"
+            className={SELECT_CLASS}
+            value={query.sort}
+            onChange={(event) => updateQuery({ sort: event.target.value as FleetSort })}
+          >
+            {FLEET_SORTS.map((sort) => (
+              <option key={sort} value={sort}>
+                {SORT_LABELS[sort]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="ml-auto flex gap-1" role="group" aria-label="View">
+          <Button
+            size="icon"
+            variant={grid ? "secondary" : "ghost"}
+            aria-label="Grid view"
+            aria-pressed={grid}
+            onClick={() => updateQuery({ view: "grid" })}
+          >
+            <LayoutGrid />
+          </Button>
+          <Button
+            size="icon"
+            variant={grid ? "ghost" : "secondary"}
+            aria-label="List view"
+            aria-pressed={!grid}
+            onClick={() => updateQuery({ view: "list" })}
+          >
+            <List />
+          </Button>
+        </div>
+      </div>
+
+      <p className="text-sm text-muted-foreground" aria-live="polite">
+        {visible.length} of {units.length} units
+        {directoryError && " · Equipment directory unavailable, showing ids only"}
+      </p>
+
+      <div ref={listRef}>
+        <VirtualList
+          aria-label="Units"
+          className="h-[70vh] rounded-lg border"
+          items={rows}
+          getKey={(row) => `${columns}:${row[0]?.id}`}
+          estimateSize={grid ? GRID_ROW_HEIGHT : LIST_ROW_HEIGHT}
+          {...(!grid && {
+            onActivate: ([unit]: FleetUnit[]) => {
+              if (unit) router.push(getEquipmentUrl(unit.id))
+            },
+          })}
+          renderItem={(row) => (
+            <div className="grid gap-3 p-1.5" style={{ gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}>
+              {row.map((unit) => (grid ? <UnitCard key={unit.id} unit={unit} /> : <UnitRow key={unit.id} unit={unit} />))}
+            </div>
+          )}
+        />
+      </div>
+    </div>
+  )
+}
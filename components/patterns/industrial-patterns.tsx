@@ -1,6 +1,12 @@
+'use client';
+
 import React from 'react';
 
 import { statusBadgeVariants } from '@/components/ui/fleet-variants';
+import { useActiveAlertCounts } from '@/lib/alerts/alert-hooks';
+import { ALERT_PRIORITY_BY_SEVERITY, AlertPriority } from '@/lib/alerts/alert-store';
+import { ALERT_SEVERITIES } from '@/lib/pwa/push/alert-payload';
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
 import { cn } from '@/lib/utils';
 
 // Status Badge Pattern
@@ -79,15 +85,18 @@ export const EquipmentState: React.FC<EquipmentStateProps> = ({
 
 // Alert Priority Pattern
 export interface AlertPriorityIndicatorProps {
-  priority: 'low' | 'medium' | 'high' | 'critical';
+  priority: AlertPriority;
   count?: number;
   onClick?: () => void;
+  /** Shown as pressed, e.g. when it is an active filter */
+  selected?: boolean;
 }
 
 export const AlertPriorityIndicator: React.FC<AlertPriorityIndicatorProps> = ({ 
   priority, 
   count = 0,
-  onClick 
+  onClick,
+  selected
 }) => {
   const priorityConfig = {
     low: { bg: 'bg-blue-100', text: 'text-blue-700', border: 'border-blue-200' },
@@ -101,12 +110,14 @@ export const AlertPriorityIndicator: React.FC<AlertPriorityIndicatorProps> = ({
   return (
     <button
       onClick={onClick}
+      aria-pressed={selected}
       className={cn(
         'relative rounded-lg border-2 p-3 transition-all',
         config.bg,
         config.text,
         config.border,
         onClick && 'hover:scale-105 cursor-pointer',
+        selected && 'ring-2 ring-ring ring-offset-2',
         priority === 'critical' && count > 0 && 'animate-pulse'
       )}
     >
@@ -119,6 +130,40 @@ export const AlertPriorityIndicator: React.FC<AlertPriorityIndicatorProps> = ({
   );
 };
 
+// Live Alert Counters Pattern
+export interface LiveAlertPriorityIndicatorsProps {
+  /** Called with the severity behind the clicked counter */
+  onSelect?: (severity: AlertSeverity) => void;
+  selected?: AlertSeverity[];
+  className?: string;
+}
+
+/**
+ * One AlertPriorityIndicator per severity, counting active alerts in the
+ * alert store (shelved and resolved alerts are not counted)
+ */
+export const LiveAlertPriorityIndicators: React.FC<LiveAlertPriorityIndicatorsProps> = ({
+  onSelect,
+  selected = [],
+  className
+}) => {
+  const counts = useActiveAlertCounts();
+
+  return (
+    <div className={cn('grid grid-cols-4 gap-3', className)}>
+      {[...ALERT_SEVERITIES].reverse().map((severity) => (
+        <AlertPriorityIndicator
+          key={severity}
+          priority={ALERT_PRIORITY_BY_SEVERITY[severity]}
+          count={counts[severity]}
+          selected={selected.includes(severity)}
+          {...(onSelect && { onClick: () => onSelect(severity) })}
+        />
+      ))}
+    </div>
+  );
+};
+
 // Telemetry Value Display Pattern
 export interface TelemetryValueProps {
   value: number;
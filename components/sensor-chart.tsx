@@ -0,0 +1,213 @@
+"use client"
+
+import { useTheme } from "next-themes"
+import * as React from "react"
+
+import { chartFrameScheduler } from "@/lib/telemetry/charts/chart-frame-scheduler"
+import {
+  buildChartModel,
+  ChartColors,
+  ChartModel,
+  FALLBACK_CHART_COLORS,
+  findNearestPointIndex,
+  getThresholdStatus,
+  resolveChartColors,
+  SensorThreshold,
+} from "@/lib/telemetry/charts/sensor-chart-model"
+import { drawSensorChart, SensorChartVariant } from "@/lib/telemetry/charts/sensor-chart-renderer"
+import { useSensorSeries } from "@/lib/telemetry/stores/telemetry-hooks"
+import { TelemetryAggregate } from "@/lib/telemetry/types"
+import { useFleetTheme } from "@/lib/theme/fleet-theme-context"
+import { cn } from "@/lib/utils"
+
+export interface SensorChartProps {
+  /** Aggregates, oldest first */
+  series: TelemetryAggregate[]
+  label: string
+  unit: string
+  threshold?: SensorThreshold
+  variant?: SensorChartVariant
+  /** CSS pixels (width follows the container) */
+  height?: number
+  precision?: number
+  /** Draw in the offline color, e.g. when the unit stopped reporting */
+  offline?: boolean
+  className?: string
+}
+
+const STATUS_TEXT_CLASS = {
+  operational: "",
+  warning: "text-fleet-status-warning",
+  critical: "text-fleet-status-critical",
+} as const
+
+/**
+ * Width of an element, tracked with ResizeObserver
+ */
+function useElementWidth(ref: React.RefObject<HTMLElement | null>): number {
+  const [width, setWidth] = React.useState(0)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element) return undefined
+    setWidth(element.clientWidth)
+    if (typeof ResizeObserver === "undefined") return undefined
+
+    const observer = new ResizeObserver(([entry]) => {
+      if (entry) setWidth(Math.floor(entry.contentRect.width))
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return width
+}
+
+/**
+ * Whether an element is on screen; charts scrolled out of view skip drawing
+ */
+function useIsVisible(ref: React.RefObject<HTMLElement | null>): boolean {
+  const [visible, setVisible] = React.useState(true)
+
+  React.useEffect(() => {
+    const element = ref.current
+    if (!element || typeof IntersectionObserver === "undefined") return undefined
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry) setVisible(entry.isIntersecting)
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [ref])
+
+  return visible
+}
+
+/**
+ * Streaming line/area chart for one sensor series
+ *
+ * Hovering (or touching) pauses the chart on the data it showed at that
+ * moment and shows a scrubber with the value under the pointer; leaving
+ * resumes live updates. Threshold bands and line color follow the fleet
+ * status tokens for the current theme.
+ */
+export function SensorChart({
+  series,
+  label,
+  unit,
+  threshold,
+  variant = "line",
+  height = 96,
+  precision = 1,
+  offline = false,
+  className,
+}: SensorChartProps) {
+  const containerRef = React.useRef<HTMLDivElement>(null)
+  const canvasRef = React.useRef<HTMLCanvasElement>(null)
+  const width = useElementWidth(containerRef)
+  const visible = useIsVisible(containerRef)
+  const { theme } = useFleetTheme()
+  const { resolvedTheme } = useTheme()
+
+  const [colors, setColors] = React.useState<ChartColors>(FALLBACK_CHART_COLORS)
+  const [frozen, setFrozen] = React.useState<TelemetryAggregate[] | null>(null)
+  const [scrubIndex, setScrubIndex] = React.useState(-1)
+
+  // Layout happens inside the scheduled draw so it shares the frame budget;
+  // the scrubber reads the last model that was drawn
+  const modelRef = React.useRef<ChartModel | null>(null)
+  const displayed = frozen ?? series
+  const latest = series[series.length - 1]
+
+  // Tokens change with the theme class on <html>, so re-read them after it flips
+  React.useEffect(() => {
+    if (canvasRef.current) setColors(resolveChartColors(getComputedStyle(canvasRef.current)))
+  }, [theme, resolvedTheme])
+
+  React.useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !visible || width === 0) return undefined
+
+    return chartFrameScheduler.schedule(canvas, () => {
+      const pixelRatio = window.devicePixelRatio || 1
+      const backingWidth = Math.round(width * pixelRatio)
+      const backingHeight = Math.round(height * pixelRatio)
+      if (canvas.width !== backingWidth) canvas.width = backingWidth
+      if (canvas.height !== backingHeight) canvas.height = backingHeight
+
+      const model = buildChartModel(displayed, { width, height, ...(threshold && { threshold }) })
+      modelRef.current = model
+      const ctx = canvas.getContext("2d")
+      if (ctx) drawSensorChart(ctx, model, colors, { variant, scrubIndex, offline, pixelRatio })
+    })
+  }, [displayed, threshold, colors, variant, scrubIndex, offline, visible, width, height])
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!frozen) setFrozen(series)
+    if (!modelRef.current) return
+    const bounds = event.currentTarget.getBoundingClientRect()
+    setScrubIndex(findNearestPointIndex(modelRef.current, event.clientX - bounds.left))
+  }
+
+  const handlePointerLeave = () => {
+    setFrozen(null)
+    setScrubIndex(-1)
+  }
+
+  const scrubbed = scrubIndex >= 0 ? modelRef.current?.points[scrubIndex]?.aggregate : undefined
+  const shown = scrubbed ?? latest
+  const status = latest ? getThresholdStatus(latest.avg, threshold) : "operational"
+
+  return (
+    <div className={cn("rounded-lg border p-3", className)}>
+      <div className="mb-2 flex items-baseline justify-between gap-2">
+        <span className="text-xs uppercase tracking-wider text-muted-foreground">{label}</span>
+        {frozen && <span className="text-xs text-muted-foreground">Paused</span>}
+      </div>
+      <div className="mb-1 flex items-baseline gap-2" aria-live="off">
+        <span className={cn("font-mono text-xl font-bold", !offline && STATUS_TEXT_CLASS[status])}>
+          {shown ? shown.avg.toFixed(precision) : "--"}
+        </span>
+        <span className="text-sm text-muted-foreground">{unit}</span>
+        {scrubbed && (
+          <span className="ml-auto text-xs text-muted-foreground">
+            {scrubbed.min.toFixed(precision)}–{scrubbed.max.toFixed(precision)} ·{" "}
+            {new Date(scrubbed.timestamp).toLocaleTimeString()}
+          </span>
+        )}
+      </div>
+      <div
+        ref={containerRef}
+        className="relative touch-none"
+        style={{ height }}
+        onPointerMove={handlePointerMove}
+        onPointerDown={handlePointerMove}
+        onPointerLeave={handlePointerLeave}
+        onPointerCancel={handlePointerLeave}
+      >
+        <canvas
+          ref={canvasRef}
+          role="img"
+          aria-label={`${label} chart, ${displayed.length} points`}
+          className="block h-full w-full"
+        />
+      </div>
+    </div>
+  )
+}
+
+export interface LiveSensorChartProps extends Omit<SensorChartProps, "series"> {
+  equipmentId: string
+  sensorType: string
+  /** Most recent aggregates to show (default: the whole buffer) */
+  limit?: number
+}
+
+/**
+ * SensorChart bound to a sensor's CircularBuffer in the telemetry store.
+ * Re-renders only when that sensor's buffer changes.
+ */
+export function LiveSensorChart({ equipmentId, sensorType, limit, ...props }: LiveSensorChartProps) {
+  const series = useSensorSeries(equipmentId, sensorType, limit)
+  return <SensorChart series={series} {...props} />
+}
@@ -0,0 +1,384 @@
+"use client"
+
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+import { findStickyIndex, ScrollAlign, VirtualLayout } from "@/lib/virtualization/virtual-layout"
+
+const DEFAULT_OVERSCAN = 4
+
+/** Corrections applied after scrollToIndex while estimated rows get measured */
+const MAX_SCROLL_CORRECTIONS = 3
+
+const NO_STICKY: readonly number[] = []
+
+const useIsomorphicLayoutEffect = typeof window === "undefined" ? React.useEffect : React.useLayoutEffect
+
+interface VirtualListRowState {
+  /** Keyboard-active row */
+  active: boolean
+  /** Rendered as the pinned group header */
+  sticky: boolean
+}
+
+interface VirtualListHandle {
+  scrollToIndex: (index: number, options?: { align?: ScrollAlign }) => void
+}
+
+interface VirtualListProps<T> extends Omit<React.ComponentProps<"div">, "children" | "ref"> {
+  items: readonly T[]
+  getKey: (item: T, index: number) => React.Key
+  renderItem: (item: T, index: number, state: VirtualListRowState) => React.ReactNode
+  /** Row height until it has been rendered and measured */
+  estimateSize: number | ((item: T, index: number) => number)
+  /** Column headers, pinned above the rows */
+  header?: React.ReactNode
+  /** Group header rows (ascending); the current one stays pinned under the header */
+  stickyIndices?: readonly number[]
+  /** Row classes, e.g. alertVariants({ severity }) */
+  itemClassName?: (item: T, index: number, state: VirtualListRowState) => string | undefined
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number
+  /** Enter on the active row */
+  onActivate?: (item: T, index: number) => void
+}
+
+interface VirtualWindow {
+  start: number
+  end: number
+  sticky: number
+  /** How far the pinned row is pushed up by the next group header */
+  stickyShift: number
+}
+
+const EMPTY_WINDOW: VirtualWindow = { start: 0, end: 0, sticky: -1, stickyShift: 0 }
+
+function sameWindow(a: VirtualWindow, b: VirtualWindow) {
+  return a.start === b.start && a.end === b.end && a.sticky === b.sticky && a.stickyShift === b.stickyShift
+}
+
+/**
+ * Windowed list for thousands of rows of varying height
+ *
+ * Only rows on screen (plus overscan) are in the DOM. Rows are measured
+ * once rendered and their heights remembered by key, so re-sorting or
+ * live updates don't make the list jump. Scrolling re-renders only when
+ * the set of visible rows changes.
+ *
+ * Keyboard: arrows, Page Up/Down, Home/End move the active row (group
+ * headers are skipped); Enter activates it.
+ */
+function VirtualListInner<T>(
+  {
+    items,
+    getKey,
+    renderItem,
+    estimateSize,
+    header,
+    stickyIndices = NO_STICKY,
+    itemClassName,
+    overscan = DEFAULT_OVERSCAN,
+    onActivate,
+    className,
+    onKeyDown,
+    ...props
+  }: VirtualListProps<T>,
+  ref: React.ForwardedRef<VirtualListHandle>
+) {
+  const id = React.useId()
+  const scrollRef = React.useRef<HTMLDivElement>(null)
+  const headerRef = React.useRef<HTMLDivElement>(null)
+  const rowsRef = React.useRef<HTMLDivElement>(null)
+  const observerRef = React.useRef<ResizeObserver | null>(null)
+  const observedRef = React.useRef(new Set<Element>())
+  const pendingScrollRef = React.useRef<{ index: number; align: ScrollAlign; corrections: number } | null>(null)
+  const [visible, setVisible] = React.useState(EMPTY_WINDOW)
+  const [activeIndex, setActiveIndex] = React.useState(-1)
+  const [, forceRender] = React.useReducer((count: number) => count + 1, 0)
+
+  // Measured heights by key, so they follow items when the list is re-sorted
+  const sizeCacheRef = React.useRef(new Map<React.Key, number>())
+  const keysRef = React.useRef<React.Key[]>([])
+  const layoutRef = React.useRef<VirtualLayout | null>(null)
+  const layoutItemsRef = React.useRef<readonly T[] | null>(null)
+
+  if (layoutRef.current === null || layoutItemsRef.current !== items) {
+    const cache = sizeCacheRef.current
+    const keys = items.map(getKey)
+    const sizes = items.map((item, index) => {
+      const measured = cache.get(keys[index]!)
+      if (measured !== undefined) return measured
+      return typeof estimateSize === "number" ? estimateSize : estimateSize(item, index)
+    })
+    // Forget rows that have left the list
+    if (cache.size > keys.length * 2) {
+      const live = new Set(keys)
+      cache.forEach((_, key) => {
+        if (!live.has(key)) cache.delete(key)
+      })
+    }
+    keysRef.current = keys
+    layoutItemsRef.current = items
+    if (layoutRef.current) layoutRef.current.reset(sizes)
+    else layoutRef.current = new VirtualLayout(sizes)
+  }
+  const layout = layoutRef.current
+
+  const getHeaderHeight = () => headerRef.current?.offsetHeight ?? 0
+
+  const computeWindow = React.useCallback((): VirtualWindow => {
+    const element = scrollRef.current
+    if (!element || layout.count === 0) return EMPTY_WINDOW
+    const scrollTop = element.scrollTop
+    const { start, end } = layout.getRange(scrollTop, element.clientHeight - getHeaderHeight(), overscan)
+
+    const sticky = findStickyIndex(stickyIndices, layout.findIndexAt(scrollTop))
+    let stickyShift = 0
+    if (sticky >= 0) {
+      const next = stickyIndices[stickyIndices.indexOf(sticky) + 1]
+      if (next !== undefined) {
+        stickyShift = Math.max(0, scrollTop + layout.getSize(sticky) - layout.getStart(next))
+      }
+    }
+    return { start, end, sticky, stickyShift }
+  }, [layout, overscan, stickyIndices])
+  const computeWindowRef = React.useRef(computeWindow)
+  computeWindowRef.current = computeWindow
+
+  // Stable, so the scroll listener and observer are set up once
+  const sync = React.useCallback(() => {
+    const next = computeWindowRef.current()
+    setVisible((current) => (sameWindow(current, next) ? current : next))
+  }, [])
+
+  /** Record a rendered row's height; keeps rows above the viewport from shifting what's on screen */
+  const measure = React.useCallback(
+    (row: HTMLElement) => {
+      const index = Number(row.dataset.index)
+      const key = keysRef.current[index]
+      if (key === undefined) return false
+      const size = row.offsetHeight
+      sizeCacheRef.current.set(key, size)
+      const delta = layout.setSize(index, size)
+      if (delta === 0) return false
+
+      const element = scrollRef.current
+      if (element && row.dataset.sticky === undefined && layout.getStart(index) < element.scrollTop) {
+        element.scrollTop += delta
+      }
+      return true
+    },
+    [layout]
+  )
+
+  const scrollToIndex = React.useCallback(
+    (index: number, { align = "auto" }: { align?: ScrollAlign } = {}) => {
+      const element = scrollRef.current
+      if (!element || layout.count === 0) return
+      const sticky = findStickyIndex(stickyIndices, index)
+      const inset = sticky >= 0 && sticky !== index ? layout.getSize(sticky) : 0
+      element.scrollTop = layout.getScrollOffset(
+        index,
+        align,
+        element.scrollTop,
+        element.clientHeight - getHeaderHeight(),
+        inset
+      )
+      pendingScrollRef.current = { index, align, corrections: 0 }
+      sync()
+    },
+    [layout, stickyIndices, sync]
+  )
+
+  React.useImperativeHandle(ref, () => ({ scrollToIndex }), [scrollToIndex])
+
+  React.useEffect(() => {
+    const element = scrollRef.current
+    if (!element) return undefined
+    element.addEventListener("scroll", sync, { passive: true })
+
+    if (typeof ResizeObserver !== "undefined") {
+      const observer = new ResizeObserver((entries) => {
+        let changed = false
+        for (const entry of entries) {
+          const target = entry.target as HTMLElement
+          // The viewport or header resizing moves rows too
+          changed = (target.dataset.index === undefined || measure(target)) || changed
+        }
+        if (changed) forceRender()
+        sync()
+      })
+      observer.observe(element)
+      if (headerRef.current) observer.observe(headerRef.current)
+      // Rows rendered before this effect ran
+      observedRef.current.forEach((row) => observer.observe(row))
+      observerRef.current = observer
+    }
+    return () => {
+      element.removeEventListener("scroll", sync)
+      observerRef.current?.disconnect()
+      observerRef.current = null
+    }
+  }, [sync, measure])
+
+  // Measure what was just rendered, then settle the window and any pending scroll
+  useIsomorphicLayoutEffect(() => {
+    const rows = rowsRef.current
+    if (!rows) return
+    let changed = false
+    const rendered = new Set<Element>()
+    rows.querySelectorAll<HTMLElement>(":scope > [data-index]").forEach((row) => {
+      rendered.add(row)
+      changed = measure(row) || changed
+    })
+
+    const observer = observerRef.current
+    if (observer) {
+      observedRef.current.forEach((row) => {
+        if (!rendered.has(row)) observer.unobserve(row)
+      })
+      rendered.forEach((row) => {
+        if (!observedRef.current.has(row)) observer.observe(row)
+      })
+    }
+    observedRef.current = rendered
+
+    const pending = pendingScrollRef.current
+    if (pending && changed && pending.corrections < MAX_SCROLL_CORRECTIONS) {
+      pending.corrections++
+      scrollToIndex(pending.index, { align: pending.align })
+      pendingScrollRef.current = pending
+    } else {
+      pendingScrollRef.current = null
+    }
+
+    if (changed) forceRender()
+    sync()
+  })
+
+  const stickyRows = React.useMemo(() => new Set(stickyIndices), [stickyIndices])
+
+  const moveActive = (target: number, direction: 1 | -1) => {
+    const count = items.length
+    if (count === 0) return
+    let index = Math.max(0, Math.min(target, count - 1))
+    while (stickyRows.has(index) && index + direction >= 0 && index + direction < count) index += direction
+    while (stickyRows.has(index) && index - direction >= 0 && index - direction < count) index -= direction
+    if (stickyRows.has(index)) return
+    setActiveIndex(index)
+    scrollToIndex(index)
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(event)
+    if (event.defaultPrevented || event.target !== event.currentTarget) return
+
+    const pageSize = (scrollRef.current?.clientHeight ?? 0) - getHeaderHeight()
+    const current = activeIndex < 0 ? -1 : activeIndex
+    const currentStart = current < 0 ? 0 : layout.getStart(current)
+    switch (event.key) {
+      case "ArrowDown":
+        moveActive(current + 1, 1)
+        break
+      case "ArrowUp":
+        moveActive(current < 0 ? 0 : current - 1, -1)
+        break
+      case "PageDown":
+        moveActive(layout.findIndexAt(currentStart + pageSize), 1)
+        break
+      case "PageUp":
+        moveActive(layout.findIndexAt(currentStart - pageSize), -1)
+        break
+      case "Home":
+        moveActive(0, 1)
+        break
+      case "End":
+        moveActive(items.length - 1, -1)
+        break
+      case "Enter": {
+        const item = items[activeIndex]
+        if (item === undefined || !onActivate) return
+        onActivate(item, activeIndex)
+        break
+      }
+      default:
+        return
+    }
+    event.preventDefault()
+  }
+
+  const optionId = (index: number) => `${id}-row-${index}`
+
+  const renderRow = (index: number, sticky: boolean) => {
+    const item = items[index]
+    if (item === undefined) return null
+    const state = { active: index === activeIndex, sticky }
+    return (
+      <div
+        key={keysRef.current[index]}
+        id={optionId(index)}
+        role={stickyRows.has(index) ? "presentation" : "option"}
+        aria-selected={stickyRows.has(index) ? undefined : state.active}
+        aria-posinset={index + 1}
+        aria-setsize={items.length}
+        data-slot="virtual-list-row"
+        data-index={index}
+        data-active={state.active || undefined}
+        data-sticky={sticky || undefined}
+        className={cn(
+          "inset-x-0",
+          state.active && "ring-2 ring-ring ring-inset",
+          itemClassName?.(item, index, state)
+        )}
+        style={
+          sticky
+            ? { position: "sticky", top: getHeaderHeight(), zIndex: 1, transform: `translateY(${-visible.stickyShift}px)` }
+            : { position: "absolute", top: 0, transform: `translateY(${layout.getStart(index)}px)` }
+        }
+      >
+        {renderItem(item, index, state)}
+      </div>
+    )
+  }
+
+  const end = Math.min(visible.end, items.length)
+  const sticky = visible.sticky < items.length && stickyRows.has(visible.sticky) ? visible.sticky : -1
+  const rows: React.ReactNode[] = []
+  if (sticky >= 0) rows.push(renderRow(sticky, true))
+  for (let index = visible.start; index < end; index++) {
+    if (index !== sticky) rows.push(renderRow(index, false))
+  }
+  const activeRendered = activeIndex === sticky || (activeIndex >= visible.start && activeIndex < end)
+
+  return (
+    <div
+      ref={scrollRef}
+      data-slot="virtual-list"
+      role="listbox"
+      tabIndex={0}
+      aria-activedescendant={activeIndex >= 0 && activeRendered ? optionId(activeIndex) : undefined}
+      className={cn(
+        "relative overflow-auto overscroll-contain focus-visible:outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+        className
+      )}
+      onKeyDown={handleKeyDown}
+      {...props}
+    >
+      {header && (
+        <div ref={headerRef} data-slot="virtual-list-header" className="sticky top-0 z-[2] bg-background">
+          {header}
+        </div>
+      )}
+      <div ref={rowsRef} className="relative" style={{ height: layout.totalSize }}>
+        {rows}
+      </div>
+    </div>
+  )
+}
+
+const VirtualList = React.forwardRef(VirtualListInner) as <T>(
+  props: VirtualListProps<T> & { ref?: React.Ref<VirtualListHandle> }
+) => React.ReactElement | null
+
+export { VirtualList }
+export type { VirtualListHandle, VirtualListProps, VirtualListRowState }
@@ -0,0 +1,57 @@
+"use client"
+
+import { RefreshCw } from "lucide-react"
+import * as React from "react"
+
+import { Button } from "@/components/ui/button"
+import { updateManager, watchServiceWorkerUpdates } from "@/lib/pwa/update/update-manager"
+import { useUpdateState } from "@/lib/pwa/update/use-update-state"
+
+/**
+ * Non-intrusive "new version available" banner
+ *
+ * "Later" only hides it - the update still installs once the app is idle.
+ * While a critical operation runs, "Update now" waits for it to finish and
+ * the banner says what it is waiting for.
+ */
+export function UpdateBanner() {
+  const state = useUpdateState()
+
+  React.useEffect(() => {
+    void watchServiceWorkerUpdates()
+  }, [])
+
+  if (state.status === "none" || state.dismissed) return null
+
+  const blocker = state.blockedBy[0]
+  const message =
+    state.status === "activating"
+      ? "Updating FleetOps…"
+      : state.status === "deferred" && blocker
+        ? `Update will install when "${blocker.label}" is finished.`
+        : "A new version of FleetOps is available."
+
+  return (
+    <div
+      role="status"
+      aria-live="polite"
+      className="fixed inset-x-0 bottom-0 z-50 flex items-center justify-center gap-3 border-t bg-card px-4 py-3 text-sm text-card-foreground shadow-lg"
+    >
+      <RefreshCw
+        className={state.status === "activating" ? "size-4 animate-spin" : "size-4"}
+        aria-hidden="true"
+      />
+      <span>{message}</span>
+      {state.status === "available" && (
+        <>
+          <Button size="sm" onClick={() => updateManager.requestUpdate()}>
+            Update now
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => updateManager.dismiss()}>
+            Later
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
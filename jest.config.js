@@ -10,6 +10,12 @@ module.exports = {
       moduleNameMapper: {
         '^@/(.*)$': '<rootDir>/$1'
       },
+      // serwist (and its idb dependency) ship ESM only; compile them for the
+      // service worker strategy tests
+      transform: {
+        '^.+\\.js$': ['ts-jest', { tsconfig: 'tsconfig.test.json', isolatedModules: true }]
+      },
+      transformIgnorePatterns: ['/node_modules/(?!(\\.pnpm/)?(serwist|idb)[@/])'],
       globals: {
         'ts-jest': {
           tsconfig: 'tsconfig.test.json'
@@ -0,0 +1,129 @@
+import { CriticalOperationRegistry } from '../../../pwa/update/critical-operations';
+import { queueAlertAcknowledgement, queueAlertEscalation, queueAlertShelve } from '../../alert-actions';
+import { filterAlerts, getAlertFilterOptions, groupAlerts } from '../../alert-filters';
+import { createAlertStore, selectActiveAlerts } from '../../alert-store';
+import { AlertEvent } from '../../rules-engine';
+
+const BASE = 1_700_000_000_000;
+
+function raised(alertId: string, overrides: Partial<AlertEvent> = {}): AlertEvent {
+  return {
+    type: 'raised',
+    alertId,
+    ruleId: 'pressure-high',
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    severity: 'critical',
+    message: 'pressure above 100',
+    value: 120,
+    at: BASE,
+    ...overrides,
+  };
+}
+
+function setup() {
+  const alerts = createAlertStore();
+  alerts.getState().applyEvents([raised('a/1')]);
+  const outbox = { enqueue: jest.fn(async () => ({}) as never) };
+  return { alerts, outbox, context: { alerts, outbox, now: () => BASE + 1000 } };
+}
+
+describe('alert actions', () => {
+  test('acknowledging updates the store and queues the same key as the notification action', async () => {
+    const { alerts, outbox, context } = setup();
+    await queueAlertAcknowledgement('a/1', 'Crew on the way', context);
+
+    expect(alerts.getState().alerts['a/1']).toMatchObject({ state: 'acknowledged', acknowledgedNote: 'Crew on the way' });
+    expect(outbox.enqueue).toHaveBeenCalledWith({
+      type: 'acknowledgement',
+      url: '/api/alerts/a%2F1/ack',
+      body: { acknowledgedAt: BASE + 1000, source: 'inbox', note: 'Crew on the way' },
+      idempotencyKey: 'ack-a/1',
+    });
+  });
+
+  test('shelving queues the shelve window', async () => {
+    const { alerts, outbox, context } = setup();
+    await queueAlertShelve('a/1', 60_000, context);
+
+    expect(selectActiveAlerts(alerts.getState())).toEqual([]);
+    expect(outbox.enqueue).toHaveBeenCalledWith({
+      type: 'alert-shelve',
+      url: '/api/alerts/a%2F1/shelve',
+      body: { shelvedAt: BASE + 1000, shelvedUntil: BASE + 61_000 },
+      idempotencyKey: `shelve-a/1-${BASE + 1000}`,
+    });
+    await expect(queueAlertShelve('a/1', 0, context)).rejects.toThrow('Shelve duration must be a positive');
+  });
+
+  test('escalating without a note omits it', async () => {
+    const { alerts, outbox, context } = setup();
+    await queueAlertEscalation('a/1', undefined, context);
+
+    expect(alerts.getState().alerts['a/1']).toMatchObject({ escalatedAt: BASE + 1000, escalationNote: null });
+    expect(outbox.enqueue).toHaveBeenCalledWith({
+      type: 'alert-escalate',
+      url: '/api/alerts/a%2F1/escalate',
+      body: { escalatedAt: BASE + 1000 },
+      idempotencyKey: 'escalate-a/1',
+    });
+  });
+
+  test('holds app updates until the action is stored, even when storing fails', async () => {
+    const { context } = setup();
+    const registry = new CriticalOperationRegistry();
+    const seen: string[][] = [];
+    const outbox = {
+      enqueue: jest.fn(async () => {
+        seen.push(registry.getOperations().map((operation) => `${operation.kind}: ${operation.label}`));
+        return {} as never;
+      }),
+    };
+
+    await queueAlertAcknowledgement('a/1', undefined, { ...context, outbox, registry });
+    expect(seen).toEqual([['alert-response: Acknowledging alert a/1']]);
+    expect(registry.isActive()).toBe(false);
+
+    outbox.enqueue.mockRejectedValueOnce(new Error('IndexedDB is not available'));
+    await expect(queueAlertEscalation('a/1', undefined, { ...context, outbox, registry })).rejects.toThrow();
+    expect(registry.isActive()).toBe(false);
+  });
+
+  test('keeps the local change when the outbox cannot store the action', async () => {
+    const { alerts, context } = setup();
+    const outbox = { enqueue: jest.fn().mockRejectedValue(new Error('IndexedDB is not available')) };
+
+    await expect(queueAlertAcknowledgement('a/1', undefined, { ...context, outbox })).rejects.toThrow('IndexedDB');
+    expect(alerts.getState().alerts['a/1']?.state).toBe('acknowledged');
+  });
+});
+
+describe('alert filters', () => {
+  const store = createAlertStore();
+  store.getState().applyEvents([
+    raised('c1'),
+    raised('w1', { severity: 'warning', equipmentId: 'loader-02' }),
+    raised('w2', { severity: 'warning', sensorType: 'temperature', at: BASE + 10 }),
+  ]);
+  const alerts = selectActiveAlerts(store.getState());
+
+  test('filters by severity, equipment and sensor together', () => {
+    expect(filterAlerts(alerts, {}).map((a) => a.id)).toEqual(['c1', 'w2', 'w1']);
+    expect(filterAlerts(alerts, { severities: ['warning'] }).map((a) => a.id)).toEqual(['w2', 'w1']);
+    expect(filterAlerts(alerts, { severities: ['warning'], equipmentId: 'excavator-01' }).map((a) => a.id)).toEqual([
+      'w2',
+    ]);
+    expect(filterAlerts(alerts, { sensorType: 'pressure' }).map((a) => a.id)).toEqual(['c1', 'w1']);
+  });
+
+  test('groups in list order and lists filter options', () => {
+    expect(groupAlerts(alerts, 'equipment').map((g) => [g.key, g.alerts.map((a) => a.id)])).toEqual([
+      ['excavator-01', ['c1', 'w2']],
+      ['loader-02', ['w1']],
+    ]);
+    expect(getAlertFilterOptions(alerts)).toEqual({
+      equipmentIds: ['excavator-01', 'loader-02'],
+      sensorTypes: ['pressure', 'temperature'],
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import { FakeIndexedDB, settleTransactions } from '../../../../test/utils/fake-indexeddb';
+import { createTelemetryStore } from '../../../telemetry/stores/telemetry-store';
+import { AlertDatabase } from '../../alert-database';
+import { startAlertMonitor } from '../../alert-monitor';
+import { AlertPersistence, AlertPersistenceOptions } from '../../alert-persistence';
+import { createAlertStore, selectActiveAlerts } from '../../alert-store';
+import { AlertEvent, AlertRulesEngine } from '../../rules-engine';
+
+const BASE = 1_700_000_000_000;
+
+function raised(alertId: string, at = BASE): AlertEvent {
+  return {
+    type: 'raised',
+    alertId,
+    ruleId: 'pressure-high',
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    severity: 'critical',
+    message: 'pressure above 100',
+    value: 120,
+    at,
+  };
+}
+
+async function setup(options: AlertPersistenceOptions = {}, fake = new FakeIndexedDB(), maxResolved = 200) {
+  const db = await AlertDatabase.open({ indexedDB: fake.asFactory() });
+  const store = createAlertStore({ maxResolved, now: () => BASE });
+  const persistence = new AlertPersistence(db, store, options);
+  return { fake, db, store, persistence };
+}
+
+describe('AlertPersistence', () => {
+  test('restores open alerts and their acknowledgement after reload', async () => {
+    const fake = new FakeIndexedDB();
+    const before = await setup({}, fake);
+    before.persistence.start();
+    before.store.getState().applyEvents([raised('a'), raised('b')]);
+    before.store.getState().acknowledge('a', { note: 'Crew notified' });
+    await before.persistence.flush();
+    before.persistence.stop();
+    before.db.close();
+
+    const after = await setup({}, fake);
+    expect(await after.persistence.hydrate()).toBe(2);
+    expect(after.store.getState().alerts).toEqual(before.store.getState().alerts);
+    expect(after.store.getState().alerts.a).toMatchObject({ state: 'acknowledged', acknowledgedNote: 'Crew notified' });
+  });
+
+  test('a restored alert clears on the next in-range reading and resolves when acknowledged', async () => {
+    const fake = new FakeIndexedDB();
+    const before = await setup({}, fake);
+    before.persistence.start();
+    before.store.getState().applyEvents([raised('a')]);
+    await before.persistence.flush();
+
+    const after = await setup({}, fake);
+    await after.persistence.hydrate();
+    const telemetry = createTelemetryStore({ scheduleFrame: () => {} });
+    const engine = new AlertRulesEngine([
+      { id: 'pressure-high', sensorType: 'pressure', severity: 'critical', kind: 'threshold', operator: 'above', value: 100 },
+    ]);
+    const stop = startAlertMonitor({ engine, alerts: after.store, telemetry, staleCheckIntervalMs: 60_000 });
+
+    telemetry.getState().pushReadings([
+      { equipmentId: 'excavator-01', sensorType: 'pressure', value: 80, unit: 'PSI', timestamp: BASE + 60_000 },
+    ]);
+    telemetry.getState().flush();
+    expect(after.store.getState().alerts.a).toMatchObject({ state: 'open', cleared: true });
+
+    after.store.getState().acknowledge('a');
+    expect(after.store.getState().alerts.a?.state).toBe('resolved');
+    expect(selectActiveAlerts(after.store.getState())).toEqual([]);
+    expect(telemetry.getState().equipmentStatus['excavator-01']).toBe('online');
+    stop();
+  });
+
+  test('writes only alerts that changed', async () => {
+    const { db, store, persistence } = await setup();
+    const put = jest.spyOn(db, 'applyChanges');
+    persistence.start();
+    store.getState().applyEvents([raised('a'), raised('b')]);
+    await persistence.flush();
+
+    store.getState().escalate('b', { note: 'Supervisor called' });
+    await persistence.flush();
+
+    expect(put.mock.calls.map(([changed]) => changed.map((alert) => alert.id))).toContainEqual(['b']);
+    expect((await db.getAllAlerts()).find((alert) => alert.id === 'b')?.escalationNote).toBe('Supervisor called');
+  });
+
+  test('deletes alerts the store pruned or reset', async () => {
+    const { db, store, persistence } = await setup({}, new FakeIndexedDB(), 1);
+    persistence.start();
+    store.getState().applyEvents([raised('a'), raised('b')]);
+    store.getState().resolve('a', BASE + 1);
+    store.getState().resolve('b', BASE + 2);
+    await persistence.flush();
+    expect((await db.getAllAlerts()).map((alert) => alert.id)).toEqual(['b']);
+
+    store.getState().reset();
+    await persistence.flush();
+    expect(await db.getAllAlerts()).toEqual([]);
+  });
+
+  test('alerts raised before hydration win over stored ones and are written', async () => {
+    const fake = new FakeIndexedDB();
+    const before = await setup({}, fake);
+    before.persistence.start();
+    before.store.getState().applyEvents([raised('a'), raised('old')]);
+    await before.persistence.flush();
+
+    const after = await setup({}, fake);
+    after.store.getState().applyEvents([raised('a', BASE + 5), raised('new')]);
+    await after.persistence.hydrate();
+    after.persistence.start();
+    await settleTransactions();
+
+    expect(after.store.getState().alerts.a?.raisedAt).toBe(BASE + 5);
+    expect(Object.keys(after.store.getState().alerts).sort()).toEqual(['a', 'new', 'old']);
+    expect((await after.db.getAllAlerts()).map((alert) => alert.id).sort()).toEqual(['a', 'new', 'old']);
+  });
+
+  test('reports a failed write and retries its changes next time', async () => {
+    const onError = jest.fn();
+    const { fake, db, store, persistence } = await setup({ onError });
+    persistence.start();
+    await persistence.flush();
+    fake.quotaBytes = 0;
+    store.getState().applyEvents([raised('a')]);
+    await settleTransactions();
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    fake.quotaBytes = Infinity;
+    store.getState().applyEvents([raised('b')]);
+    await persistence.flush();
+    expect((await db.getAllAlerts()).map((alert) => alert.id).sort()).toEqual(['a', 'b']);
+  });
+
+  test('stops writing once stopped', async () => {
+    const { db, store, persistence } = await setup();
+    persistence.start();
+    await persistence.flush();
+    persistence.stop();
+    store.getState().applyEvents([raised('a')]);
+    await settleTransactions();
+
+    expect(await db.getAllAlerts()).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import { createTelemetryStore } from '../../../telemetry/stores/telemetry-store';
+import { loadAlertRules, startAlertMonitor } from '../../alert-monitor';
+import {
+  createAlertStore,
+  selectActiveAlertCounts,
+  selectActiveAlerts,
+  selectAlertHistory,
+  selectShelvedAlerts,
+} from '../../alert-store';
+import { DEFAULT_ALERT_RULE_SET } from '../../default-alert-rules';
+import { AlertEvent, AlertRulesEngine } from '../../rules-engine';
+
+const BASE = 1_700_000_000_000;
+
+function event(type: AlertEvent['type'], alertId: string, overrides: Partial<AlertEvent> = {}): AlertEvent {
+  return {
+    type,
+    alertId,
+    ruleId: 'pressure-high',
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    severity: 'critical',
+    message: 'pressure above 100',
+    value: 120,
+    at: BASE,
+    ...overrides,
+  };
+}
+
+describe('alert store lifecycle', () => {
+  test('open → acknowledged → resolved when the condition clears', () => {
+    const store = createAlertStore({ now: () => BASE + 5 });
+    store.getState().applyEvents([event('raised', 'a')]);
+    expect(store.getState().alerts.a?.state).toBe('open');
+
+    store.getState().acknowledge('a', { note: 'Crew notified' });
+    expect(store.getState().alerts.a).toMatchObject({
+      state: 'acknowledged',
+      acknowledgedAt: BASE + 5,
+      acknowledgedNote: 'Crew notified',
+    });
+
+    store.getState().applyEvents([event('cleared', 'a', { at: BASE + 60_000 })]);
+    expect(store.getState().alerts.a).toMatchObject({ state: 'resolved', resolvedAt: BASE + 60_000, cleared: true });
+  });
+
+  test('an alert that cleared before anyone saw it stays open until acknowledged', () => {
+    const store = createAlertStore();
+    store.getState().applyEvents([event('raised', 'a'), event('cleared', 'a', { at: BASE + 1000 })]);
+    expect(store.getState().alerts.a).toMatchObject({ state: 'open', cleared: true });
+
+    store.getState().acknowledge('a', { at: BASE + 9000 });
+    expect(store.getState().alerts.a).toMatchObject({ state: 'resolved', resolvedAt: BASE + 9000 });
+  });
+
+  test('ignores duplicate raises and acknowledging non-open alerts', () => {
+    const store = createAlertStore();
+    store.getState().applyEvents([event('raised', 'a'), event('raised', 'a', { value: 999 })]);
+    store.getState().resolve('a', BASE + 1);
+    const before = store.getState().alerts;
+
+    store.getState().acknowledge('a');
+    store.getState().acknowledge('missing');
+    expect(store.getState().alerts).toBe(before);
+    expect(before.a?.value).toBe(120);
+  });
+
+  test('keeps only the newest resolved alerts as history', () => {
+    const store = createAlertStore({ maxResolved: 2 });
+    ['a', 'b', 'c'].forEach((id, i) => {
+      store.getState().applyEvents([event('raised', id)]);
+      store.getState().resolve(id, BASE + i);
+    });
+    store.getState().applyEvents([event('raised', 'd')]);
+
+    expect(Object.keys(store.getState().alerts).sort()).toEqual(['b', 'c', 'd']);
+  });
+
+  test('selectors order and count unresolved alerts', () => {
+    const store = createAlertStore();
+    store.getState().applyEvents([
+      event('raised', 'w1', { severity: 'warning', at: BASE }),
+      event('raised', 'c1', { severity: 'critical', at: BASE }),
+      event('raised', 'w2', { severity: 'warning', at: BASE + 10 }),
+      event('raised', 'i1', { severity: 'info' }),
+    ]);
+    store.getState().resolve('i1');
+
+    expect(selectActiveAlerts(store.getState()).map((a) => a.id)).toEqual(['c1', 'w2', 'w1']);
+    expect(selectActiveAlertCounts(store.getState())).toEqual({ info: 0, warning: 2, error: 0, critical: 1 });
+  });
+});
+
+describe('alert store shelving and escalation', () => {
+  test('shelved alerts leave the active list and counts until their time is up', () => {
+    const store = createAlertStore();
+    store.getState().applyEvents([event('raised', 'a'), event('raised', 'b', { severity: 'warning' })]);
+
+    store.getState().shelve('a', 60_000, BASE);
+    expect(selectActiveAlerts(store.getState()).map((a) => a.id)).toEqual(['b']);
+    expect(selectShelvedAlerts(store.getState()).map((a) => a.id)).toEqual(['a']);
+    expect(selectActiveAlertCounts(store.getState()).critical).toBe(0);
+
+    store.getState().unshelveExpired(BASE + 59_999);
+    expect(store.getState().alerts.a?.shelvedUntil).toBe(BASE + 60_000);
+
+    store.getState().unshelveExpired(BASE + 60_000);
+    expect(selectActiveAlerts(store.getState()).map((a) => a.id)).toEqual(['a', 'b']);
+  });
+
+  test('a shelved alert still follows its lifecycle', () => {
+    const store = createAlertStore();
+    store.getState().applyEvents([event('raised', 'a')]);
+    store.getState().acknowledge('a', { at: BASE });
+    store.getState().shelve('a', 60_000, BASE);
+    store.getState().applyEvents([event('cleared', 'a', { at: BASE + 1000 })]);
+
+    expect(selectShelvedAlerts(store.getState())).toEqual([]);
+    expect(selectAlertHistory(store.getState()).map((a) => a.id)).toEqual(['a']);
+  });
+
+  test('escalation is recorded without changing lifecycle state', () => {
+    const store = createAlertStore({ now: () => BASE + 5 });
+    store.getState().applyEvents([event('raised', 'a'), event('raised', 'b')]);
+    store.getState().escalate('a', { note: 'Pressure still climbing' });
+    store.getState().resolve('b');
+    const before = store.getState().alerts;
+
+    expect(before.a).toMatchObject({ state: 'open', escalatedAt: BASE + 5, escalationNote: 'Pressure still climbing' });
+    store.getState().escalate('b');
+    store.getState().shelve('b', 1000);
+    expect(store.getState().alerts).toBe(before);
+  });
+});
+
+describe('alert monitor', () => {
+  test('evaluates telemetry readings and flags the unit while alerts are unresolved', () => {
+    jest.useFakeTimers();
+    const telemetry = createTelemetryStore({ scheduleFrame: () => {} });
+    const alerts = createAlertStore();
+    const engine = new AlertRulesEngine();
+    loadAlertRules(
+      {
+        version: 1,
+        rules: [{ id: 'high', sensorType: 'pressure', severity: 'critical', kind: 'threshold', operator: 'above', value: 100 }],
+      },
+      engine,
+      alerts
+    );
+    const stop = startAlertMonitor({ engine, alerts, telemetry });
+
+    const push = (second: number, value: number) => {
+      telemetry.getState().pushReadings([
+        { equipmentId: 'excavator-01', sensorType: 'pressure', value, unit: 'PSI', timestamp: BASE + second * 1000 },
+      ]);
+      telemetry.getState().flush();
+    };
+
+    push(0, 90);
+    expect(telemetry.getState().equipmentStatus['excavator-01']).toBe('online');
+
+    push(1, 130);
+    const [alert] = selectActiveAlerts(alerts.getState());
+    expect(alert).toMatchObject({ severity: 'critical', value: 130, state: 'open' });
+    expect(telemetry.getState().equipmentStatus['excavator-01']).toBe('alert');
+
+    alerts.getState().acknowledge(alert!.id);
+    push(2, 80);
+    expect(alerts.getState().alerts[alert!.id]?.state).toBe('resolved');
+    expect(telemetry.getState().equipmentStatus['excavator-01']).toBe('online');
+
+    stop();
+    jest.useRealTimers();
+  });
+
+  test('evaluates every reading in a burst, not just the latest per frame', () => {
+    const telemetry = createTelemetryStore({ scheduleFrame: () => {} });
+    const alerts = createAlertStore();
+    const engine = new AlertRulesEngine();
+    loadAlertRules(
+      {
+        version: 1,
+        rules: [{ id: 'high', sensorType: 'pressure', severity: 'critical', kind: 'threshold', operator: 'above', value: 100 }],
+      },
+      engine,
+      alerts
+    );
+    const stop = startAlertMonitor({ engine, alerts, telemetry, staleCheckIntervalMs: 60_000 });
+
+    // A reconnect flood: the breach is neither first nor last
+    telemetry.getState().pushReadings(
+      [90, 130, 95, 90].map((value, second) => ({
+        equipmentId: 'excavator-01',
+        sensorType: 'pressure',
+        value,
+        unit: 'PSI',
+        timestamp: BASE + second * 1000,
+      }))
+    );
+    telemetry.getState().flush();
+
+    const [alert] = Object.values(alerts.getState().alerts);
+    expect(alert).toMatchObject({ value: 130, cleared: true, state: 'open' });
+    expect(telemetry.getState().equipmentStatus['excavator-01']).toBe('alert');
+    stop();
+  });
+
+  test('the default rule set is valid', () => {
+    const engine = new AlertRulesEngine();
+    const ruleSet = loadAlertRules(DEFAULT_ALERT_RULE_SET, engine, createAlertStore());
+
+    expect(ruleSet.rules.length).toBeGreaterThan(0);
+    expect(engine.getRules()).toEqual(ruleSet.rules);
+  });
+
+  test('rejects an invalid rule set and keeps the current rules', () => {
+    const engine = new AlertRulesEngine();
+    const alerts = createAlertStore();
+    loadAlertRules({ version: 1, rules: [{ id: 'x', sensorType: 'p', severity: 'info', kind: 'stale', afterSeconds: 5 }] }, engine, alerts);
+
+    expect(() => loadAlertRules({ version: 1, rules: [{ id: 'y' }] }, engine, alerts)).toThrow('Invalid alert rule set');
+    expect(engine.getRules().map((rule) => rule.id)).toEqual(['x']);
+  });
+});
@@ -0,0 +1,65 @@
+import fc from 'fast-check';
+
+import { AlertRule } from '../../alert-rules';
+import { AlertRulesEngine } from '../../rules-engine';
+
+const BASE = 1_700_000_000_000;
+
+const ruleArb: fc.Arbitrary<AlertRule> = fc.oneof(
+  fc.record({
+    id: fc.constant('threshold'),
+    sensorType: fc.constant('pressure'),
+    severity: fc.constant('warning' as const),
+    kind: fc.constant('threshold' as const),
+    operator: fc.constantFrom('above' as const, 'below' as const),
+    value: fc.integer({ min: -50, max: 50 }),
+    hysteresis: fc.integer({ min: 0, max: 20 }),
+    sustainSeconds: fc.integer({ min: 0, max: 5 }),
+  }),
+  fc.record({
+    id: fc.constant('rate'),
+    sensorType: fc.constant('pressure'),
+    severity: fc.constant('error' as const),
+    kind: fc.constant('rate-of-change' as const),
+    maxPerSecond: fc.integer({ min: 0, max: 40 }),
+    hysteresis: fc.integer({ min: 0, max: 10 }),
+    sustainSeconds: fc.integer({ min: 0, max: 5 }),
+  })
+);
+
+const streamArb = fc.array(
+  fc.record({ gap: fc.integer({ min: 1, max: 3 }), value: fc.integer({ min: -100, max: 100 }) }),
+  { maxLength: 200 }
+);
+
+describe('AlertRulesEngine properties', () => {
+  test('raise and clear strictly alternate and clears match the open alert', () => {
+    fc.assert(
+      fc.property(ruleArb, streamArb, (rule, stream) => {
+        const engine = new AlertRulesEngine([rule]);
+        let timestamp = BASE;
+        let open: string | null = null;
+
+        for (const { gap, value } of stream) {
+          timestamp += gap * 1000;
+          for (const event of engine.evaluate({
+            equipmentId: 'excavator-01',
+            sensorType: 'pressure',
+            value,
+            unit: 'PSI',
+            timestamp,
+          })) {
+            if (event.type === 'raised') {
+              expect(open).toBeNull();
+              open = event.alertId;
+            } else {
+              expect(event.alertId).toBe(open);
+              open = null;
+            }
+          }
+        }
+        expect(engine.getActiveAlertIds()).toEqual(open ? [open] : []);
+      })
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import { TelemetryReading } from '../../../telemetry/types';
+import { AlertRule, parseAlertRuleSet } from '../../alert-rules';
+import { AlertRulesEngine } from '../../rules-engine';
+
+const BASE = 1_700_000_000_000;
+
+function reading(second: number, value: number, equipmentId = 'excavator-01'): TelemetryReading {
+  return { equipmentId, sensorType: 'pressure', value, unit: 'PSI', timestamp: BASE + second * 1000 };
+}
+
+function run(engine: AlertRulesEngine, values: number[]) {
+  return values.flatMap((value, second) => engine.evaluate(reading(second, value)));
+}
+
+const highPressure: AlertRule = {
+  id: 'pressure-high',
+  sensorType: 'pressure',
+  severity: 'critical',
+  kind: 'threshold',
+  operator: 'above',
+  value: 100,
+};
+
+describe('parseAlertRuleSet', () => {
+  test('accepts a JSON string and keeps optional fields only when present', () => {
+    const ruleSet = parseAlertRuleSet(
+      JSON.stringify({
+        version: 1,
+        rules: [
+          { ...highPressure, hysteresis: 5, sustainSeconds: 3 },
+          { id: 'pressure-stale', sensorType: 'pressure', severity: 'warning', kind: 'stale', afterSeconds: 30 },
+        ],
+      })
+    );
+
+    expect(ruleSet.rules).toEqual([
+      { ...highPressure, hysteresis: 5, sustainSeconds: 3 },
+      { id: 'pressure-stale', sensorType: 'pressure', severity: 'warning', kind: 'stale', afterSeconds: 30 },
+    ]);
+  });
+
+  test.each([
+    ['not json', '{', 'is not valid JSON'],
+    ['wrong version', { version: 2, rules: [] }, 'version must be 1'],
+    ['bad severity', { version: 1, rules: [{ ...highPressure, severity: 'panic' }] }, 'rules[0].severity'],
+    ['bad kind', { version: 1, rules: [{ ...highPressure, kind: 'vibes' }] }, 'rules[0].kind'],
+    ['missing value', { version: 1, rules: [{ ...highPressure, value: 'high' }] }, 'rules[0].value must be a finite number'],
+    ['negative hysteresis', { version: 1, rules: [{ ...highPressure, hysteresis: -1 }] }, 'rules[0].hysteresis must be at least 0'],
+    ['duplicate id', { version: 1, rules: [highPressure, highPressure] }, 'rules[1].id duplicates "pressure-high"'],
+  ])('rejects %s', (_, input, message) => {
+    expect(() => parseAlertRuleSet(input)).toThrow(message);
+  });
+});
+
+describe('AlertRulesEngine', () => {
+  test('raises a static threshold alert once and clears it', () => {
+    const engine = new AlertRulesEngine([highPressure]);
+    const events = run(engine, [90, 100, 120, 99]);
+
+    expect(events.map((e) => [e.type, e.value])).toEqual([
+      ['raised', 100],
+      ['cleared', 99],
+    ]);
+    expect(events[0]).toMatchObject({
+      ruleId: 'pressure-high',
+      equipmentId: 'excavator-01',
+      severity: 'critical',
+      message: 'pressure above 100',
+      at: BASE + 1000,
+    });
+    expect(events[1]?.alertId).toBe(events[0]?.alertId);
+  });
+
+  test('hysteresis stops a value hovering at the limit from flapping', () => {
+    const flappy = run(new AlertRulesEngine([highPressure]), [101, 99, 101, 99]);
+    expect(flappy).toHaveLength(4);
+
+    const damped = run(new AlertRulesEngine([{ ...highPressure, hysteresis: 5 }]), [101, 99, 101, 99, 94]);
+    expect(damped.map((e) => e.type)).toEqual(['raised', 'cleared']);
+    expect(damped[1]?.value).toBe(94);
+  });
+
+  test('sustained conditions must hold continuously', () => {
+    const engine = new AlertRulesEngine([{ ...highPressure, sustainSeconds: 3 }]);
+
+    expect(run(engine, [120, 120, 90, 120, 120])).toEqual([]);
+    const events = [5, 6].flatMap((second) => engine.evaluate(reading(second, 120)));
+    expect(events.map((e) => [e.type, e.at])).toEqual([['raised', BASE + 6000]]);
+  });
+
+  test('below operator raises at or under the limit', () => {
+    const engine = new AlertRulesEngine([{ ...highPressure, id: 'low', operator: 'below', value: 20 }]);
+    expect(run(engine, [25, 20]).map((e) => e.type)).toEqual(['raised']);
+  });
+
+  test('rate-of-change uses per-second change between readings', () => {
+    const engine = new AlertRulesEngine([
+      { id: 'surge', sensorType: 'pressure', severity: 'error', kind: 'rate-of-change', maxPerSecond: 10 },
+    ]);
+    const events = [
+      engine.evaluate(reading(0, 100)),
+      engine.evaluate(reading(2, 118)), // 9/s
+      engine.evaluate(reading(3, 140)), // 22/s
+      engine.evaluate(reading(4, 145)), // 5/s
+    ].flat();
+
+    expect(events.map((e) => [e.type, e.at])).toEqual([
+      ['raised', BASE + 3000],
+      ['cleared', BASE + 4000],
+    ]);
+  });
+
+  test('ignores out-of-order readings', () => {
+    const engine = new AlertRulesEngine([highPressure]);
+    engine.evaluate(reading(5, 50));
+    expect(engine.evaluate(reading(4, 500))).toEqual([]);
+  });
+
+  test('scopes rules to one unit and skips disabled rules', () => {
+    const engine = new AlertRulesEngine([
+      { ...highPressure, equipmentId: 'haul-truck-07' },
+      { ...highPressure, id: 'off', enabled: false },
+    ]);
+
+    expect(engine.evaluate(reading(0, 500))).toEqual([]);
+    expect(engine.evaluate(reading(0, 500, 'haul-truck-07'))).toHaveLength(1);
+  });
+
+  test('stale rules fire on silence and clear when data returns', () => {
+    let now = BASE;
+    const engine = new AlertRulesEngine(
+      [{ id: 'stale', sensorType: 'pressure', severity: 'warning', kind: 'stale', afterSeconds: 30 }],
+      { now: () => now }
+    );
+    engine.evaluate(reading(0, 50));
+
+    now = BASE + 29_000;
+    expect(engine.checkStale()).toEqual([]);
+    now = BASE + 30_000;
+    const [raised] = engine.checkStale();
+    expect(raised).toMatchObject({ type: 'raised', value: null, message: 'No pressure data for 30s' });
+    expect(engine.checkStale()).toEqual([]);
+
+    const [cleared] = engine.evaluate(reading(40, 50));
+    expect(cleared).toMatchObject({ type: 'cleared', alertId: raised?.alertId });
+  });
+
+  test('replacing rules keeps state for surviving rules and clears removed ones', () => {
+    const engine = new AlertRulesEngine([highPressure, { ...highPressure, id: 'other', value: 50 }]);
+    run(engine, [120]);
+    expect(engine.getActiveAlertIds()).toHaveLength(2);
+
+    const events = engine.setRules([highPressure]);
+    expect(events.map((e) => [e.type, e.ruleId])).toEqual([['cleared', 'other']]);
+    expect(engine.evaluate(reading(1, 130))).toEqual([]);
+  });
+
+  test('disabling or retargeting a rule clears its active alerts', () => {
+    const engine = new AlertRulesEngine([highPressure, { ...highPressure, id: 'other', value: 50 }]);
+    run(engine, [120]);
+
+    const disabled = engine.setRules([{ ...highPressure, enabled: false }, { ...highPressure, id: 'other', value: 50 }]);
+    expect(disabled).toEqual([
+      expect.objectContaining({ type: 'cleared', ruleId: 'pressure-high', severity: 'critical', value: null }),
+    ]);
+
+    const retargeted = engine.setRules([{ ...highPressure, id: 'other', value: 50, equipmentId: 'excavator-02' }]);
+    expect(retargeted.map((e) => [e.type, e.ruleId])).toEqual([['cleared', 'other']]);
+    expect(engine.getActiveAlertIds()).toEqual([]);
+
+    // Re-enabled, the rule starts fresh and raises again
+    engine.setRules([highPressure]);
+    expect(engine.evaluate(reading(1, 130)).map((e) => e.type)).toEqual(['raised']);
+  });
+
+  test('adopts restored alerts so in-range readings clear them', () => {
+    const engine = new AlertRulesEngine([highPressure], { now: () => BASE });
+    const restored = {
+      ruleId: 'pressure-high',
+      equipmentId: 'excavator-01',
+      sensorType: 'pressure',
+      severity: 'critical' as const,
+      message: 'pressure above 100',
+    };
+
+    expect(
+      engine.restoreActive([
+        { ...restored, alertId: 'before-reload' },
+        { ...restored, alertId: 'rule-gone', ruleId: 'removed' },
+      ])
+    ).toEqual([expect.objectContaining({ type: 'cleared', alertId: 'rule-gone', value: null, at: BASE })]);
+    expect(engine.getActiveAlertIds()).toEqual(['before-reload']);
+
+    // Still breached: no second alert for the same condition
+    expect(engine.evaluate(reading(1, 130))).toEqual([]);
+    expect(engine.evaluate(reading(2, 80))).toEqual([
+      expect.objectContaining({ type: 'cleared', alertId: 'before-reload', value: 80 }),
+    ]);
+  });
+});
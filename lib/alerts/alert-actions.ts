@@ -0,0 +1,132 @@
+/**
+ * Alert Actions - Operator responses to alerts, delivered through the outbox
+ *
+ * Acknowledge, shelve and escalate change the local alert store straight
+ * away, then queue the matching server call in the outbox, so they behave
+ * the same underground as at the surface.
+ *
+ * TECHNICAL CONTEXT:
+ * - Acknowledgements use the same `ack-${alertId}` idempotency key as the
+ *   notification action, so acknowledging from both is deduplicated by the
+ *   server
+ * - Each shelve is a separate request (an operator may extend it); an
+ *   escalation is once per alert
+ *
+ * - Each action is a critical operation (lib/pwa/update) until its outbox
+ *   entry is stored, so an app update cannot reload the page in between
+ *
+ * CAUTION:
+ * - The store is updated before the write is queued; if IndexedDB is
+ *   unavailable the promise rejects but the local change stays, so callers
+ *   must tell the operator it was not sent
+ */
+
+import { getOutbox, Outbox } from '@/lib/pwa/outbox/outbox';
+import { OutboxEntry } from '@/lib/pwa/outbox/outbox-database';
+import { getAlertAckUrl, getAlertEscalateUrl, getAlertShelveUrl } from '@/lib/pwa/push/alert-payload';
+import { CriticalOperationRegistry, criticalOperations } from '@/lib/pwa/update/critical-operations';
+
+import { AlertStore, alertStore } from './alert-store';
+
+const MINUTE_MS = 60_000;
+
+/** Shelve durations offered to operators */
+export const ALERT_SHELVE_DURATIONS: readonly { label: string; durationMs: number }[] = [
+  { label: '15 minutes', durationMs: 15 * MINUTE_MS },
+  { label: '1 hour', durationMs: 60 * MINUTE_MS },
+  { label: '8 hours', durationMs: 8 * 60 * MINUTE_MS },
+];
+
+export interface AlertActionContext {
+  alerts?: AlertStore;
+  outbox?: Pick<Outbox, 'enqueue'>;
+  /** Holds app updates while an action is half done (default: criticalOperations) */
+  registry?: CriticalOperationRegistry;
+  now?: () => number;
+}
+
+function resolveContext(context: AlertActionContext) {
+  return { alerts: context.alerts ?? alertStore, now: (context.now ?? Date.now)() };
+}
+
+/**
+ * Run an action as a critical operation, from the store change until its
+ * outbox entry is stored
+ */
+async function respond<T>(context: AlertActionContext, label: string, run: () => Promise<T>): Promise<T> {
+  const release = (context.registry ?? criticalOperations).begin('alert-response', label);
+  try {
+    return await run();
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Acknowledge an open alert, with an optional note for the shift log
+ */
+export async function queueAlertAcknowledgement(
+  alertId: string,
+  note?: string,
+  context: AlertActionContext = {}
+): Promise<OutboxEntry> {
+  const { alerts, now } = resolveContext(context);
+  return respond(context, `Acknowledging alert ${alertId}`, async () => {
+    alerts.getState().acknowledge(alertId, { at: now, ...(note && { note }) });
+
+    const outbox = context.outbox ?? (await getOutbox());
+    return outbox.enqueue({
+      type: 'acknowledgement',
+      url: getAlertAckUrl(alertId),
+      body: { acknowledgedAt: now, source: 'inbox', ...(note && { note }) },
+      idempotencyKey: `ack-${alertId}`,
+    });
+  });
+}
+
+/**
+ * Hide an alert from the active list for durationMs
+ */
+export async function queueAlertShelve(
+  alertId: string,
+  durationMs: number,
+  context: AlertActionContext = {}
+): Promise<OutboxEntry> {
+  if (!Number.isFinite(durationMs) || durationMs <= 0) {
+    throw new Error('Shelve duration must be a positive number of milliseconds');
+  }
+  const { alerts, now } = resolveContext(context);
+  return respond(context, `Shelving alert ${alertId}`, async () => {
+    alerts.getState().shelve(alertId, durationMs, now);
+
+    const outbox = context.outbox ?? (await getOutbox());
+    return outbox.enqueue({
+      type: 'alert-shelve',
+      url: getAlertShelveUrl(alertId),
+      body: { shelvedAt: now, shelvedUntil: now + durationMs },
+      idempotencyKey: `shelve-${alertId}-${now}`,
+    });
+  });
+}
+
+/**
+ * Escalate an alert to the on-call supervisor
+ */
+export async function queueAlertEscalation(
+  alertId: string,
+  note?: string,
+  context: AlertActionContext = {}
+): Promise<OutboxEntry> {
+  const { alerts, now } = resolveContext(context);
+  return respond(context, `Escalating alert ${alertId}`, async () => {
+    alerts.getState().escalate(alertId, { at: now, ...(note && { note }) });
+
+    const outbox = context.outbox ?? (await getOutbox());
+    return outbox.enqueue({
+      type: 'alert-escalate',
+      url: getAlertEscalateUrl(alertId),
+      body: { escalatedAt: now, ...(note && { note }) },
+      idempotencyKey: `escalate-${alertId}`,
+    });
+  });
+}
@@ -0,0 +1,96 @@
+/**
+ * Alert Database - IndexedDB storage for alert state and history
+ *
+ * One record per alert, keyed by alert id, mirroring the alert store: open
+ * and acknowledged alerts with their notes, shelving and escalation, plus
+ * the resolved history the store keeps.
+ *
+ * USER CONTEXT:
+ * - A reload or a dead tablet battery must not lose an unacknowledged
+ *   alert, or the note an operator wrote when acknowledging one
+ *
+ * CAUTION:
+ * - Persists across app versions: schema changes need ALERT_DB_VERSION
+ *   bumps with upgrade steps, never a new database name (data loss)
+ */
+
+import { requestToPromise, transactionDone } from '../pwa/idb';
+import type { Alert } from './alert-store';
+
+export const ALERT_DB_NAME = 'fleetops-alerts-v1';
+export const ALERT_DB_VERSION = 1;
+
+const ALERT_STORE = 'alerts';
+
+export interface AlertDatabaseOptions {
+  /** Database name (default: ALERT_DB_NAME) */
+  name?: string;
+  /** IndexedDB implementation (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+}
+
+export class AlertDatabase {
+  private closed = false;
+
+  private constructor(private readonly db: IDBDatabase) {
+    db.onversionchange = () => this.close();
+  }
+
+  /**
+   * Open (and create or upgrade) the alert database
+   * @throws Error if IndexedDB is unavailable
+   */
+  static async open(options: AlertDatabaseOptions = {}): Promise<AlertDatabase> {
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const request = factory.open(options.name ?? ALERT_DB_NAME, ALERT_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ALERT_STORE)) {
+        db.createObjectStore(ALERT_STORE, { keyPath: 'id' });
+      }
+    };
+
+    return new AlertDatabase(await requestToPromise(request));
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Write changed alerts and delete removed ones in a single transaction
+   * @throws The transaction error, e.g. QuotaExceededError
+   */
+  async applyChanges(changed: Alert[], removedIds: string[]): Promise<void> {
+    if (changed.length === 0 && removedIds.length === 0) return;
+    const transaction = this.db.transaction(ALERT_STORE, 'readwrite');
+    const store = transaction.objectStore(ALERT_STORE);
+    changed.forEach((alert) => store.put(alert));
+    removedIds.forEach((id) => store.delete(id));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Every stored alert, in no particular order
+   */
+  async getAllAlerts(): Promise<Alert[]> {
+    const transaction = this.db.transaction(ALERT_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(ALERT_STORE).getAll() as IDBRequest<Alert[]>);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.db.transaction(ALERT_STORE, 'readwrite');
+    transaction.objectStore(ALERT_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.db.close();
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Alert Filters - Filtering and grouping for the alert inbox
+ *
+ * Kept free of React so the inbox's list logic can be tested directly.
+ * Functions preserve the input order, so sorting happens once in the
+ * store selectors.
+ */
+
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+import type { Alert } from './alert-store';
+
+export interface AlertFilter {
+  /** Empty or omitted: every severity */
+  severities?: readonly AlertSeverity[];
+  equipmentId?: string;
+  sensorType?: string;
+}
+
+export type AlertGroupBy = 'severity' | 'equipment' | 'sensor';
+
+export interface AlertGroup {
+  key: string;
+  alerts: Alert[];
+}
+
+export function filterAlerts(alerts: readonly Alert[], filter: AlertFilter): Alert[] {
+  const { severities, equipmentId, sensorType } = filter;
+  return alerts.filter(
+    (alert) =>
+      (!severities?.length || severities.includes(alert.severity)) &&
+      (equipmentId === undefined || alert.equipmentId === equipmentId) &&
+      (sensorType === undefined || alert.sensorType === sensorType)
+  );
+}
+
+function groupKey(alert: Alert, by: AlertGroupBy): string {
+  switch (by) {
+    case 'severity':
+      return alert.severity;
+    case 'equipment':
+      return alert.equipmentId;
+    case 'sensor':
+      return alert.sensorType;
+  }
+}
+
+/**
+ * Group alerts, ordered by each group's first alert
+ */
+export function groupAlerts(alerts: readonly Alert[], by: AlertGroupBy): AlertGroup[] {
+  const groups = new Map<string, Alert[]>();
+  for (const alert of alerts) {
+    const key = groupKey(alert, by);
+    const group = groups.get(key);
+    if (group) group.push(alert);
+    else groups.set(key, [alert]);
+  }
+  return Array.from(groups, ([key, grouped]) => ({ key, alerts: grouped }));
+}
+
+/**
+ * Distinct equipment ids and sensor types, sorted, for filter pickers
+ */
+export function getAlertFilterOptions(alerts: readonly Alert[]): { equipmentIds: string[]; sensorTypes: string[] } {
+  const equipmentIds = new Set<string>();
+  const sensorTypes = new Set<string>();
+  for (const alert of alerts) {
+    equipmentIds.add(alert.equipmentId);
+    sensorTypes.add(alert.sensorType);
+  }
+  return { equipmentIds: [...equipmentIds].sort(), sensorTypes: [...sensorTypes].sort() };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useStore } from 'zustand';
+import { useShallow } from 'zustand/react/shallow';
+
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+import {
+  Alert,
+  alertStore,
+  AlertStoreState,
+  selectActiveAlertCounts,
+  selectActiveAlerts,
+  selectAlertHistory,
+  selectShelvedAlerts,
+} from './alert-store';
+
+/**
+ * Select from the application alert store.
+ * Prefer the narrower hooks below in components.
+ */
+export function useAlertStore<T>(selector: (state: AlertStoreState) => T): T {
+  return useStore(alertStore, selector);
+}
+
+/**
+ * Active, shelved and resolved alerts.
+ * Re-renders whenever any alert changes.
+ */
+export function useAlertLists(): { active: Alert[]; shelved: Alert[]; history: Alert[] } {
+  const alerts = useAlertStore((state) => state.alerts);
+
+  return useMemo(
+    () => ({
+      active: selectActiveAlerts({ alerts }),
+      shelved: selectShelvedAlerts({ alerts }),
+      history: selectAlertHistory({ alerts }),
+    }),
+    [alerts]
+  );
+}
+
+/**
+ * Active alert count per severity.
+ * Re-renders only when a count changes.
+ */
+export function useActiveAlertCounts(): Record<AlertSeverity, number> {
+  return useAlertStore(useShallow(selectActiveAlertCounts));
+}
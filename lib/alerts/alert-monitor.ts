@@ -0,0 +1,134 @@
+/**
+ * Alert Monitor - Runs the rules engine against live telemetry
+ *
+ * Feeds every reading pushed to the telemetry store to the rules engine,
+ * applies the resulting events to the alert store, and keeps each unit's
+ * EquipmentStatus at 'alert' while it has unresolved alerts.
+ *
+ * TECHNICAL CONTEXT:
+ * - Readings are evaluated as they are pushed, not from the per-frame
+ *   snapshot: the store keeps only the latest reading per sensor, so bursts
+ *   and reconnect floods would otherwise hide breaches inside a batch
+ * - Status is re-synced when the store changes a unit's status too, since
+ *   the first readings from a unit can raise an alert before the frame that
+ *   marks it online
+ * - Unresolved, uncleared alerts already in the store when it starts
+ *   (restored by alert-persistence) are adopted by the engine
+ * - Stale rules are checked on a timer, since they fire on silence; the same
+ *   timer returns shelved alerts whose shelve time is up
+ *
+ * CAUTION:
+ * - Only moves status between 'online' and 'alert'; 'maintenance' and
+ *   'offline' are set by other parts of the app and are left alone
+ */
+
+import { TelemetryStore, telemetryStore } from '@/lib/telemetry/stores/telemetry-store';
+
+import { AlertRuleSet, parseAlertRuleSet } from './alert-rules';
+import { AlertStore, alertStore } from './alert-store';
+import { AlertEvent, AlertRulesEngine } from './rules-engine';
+
+export const DEFAULT_STALE_CHECK_INTERVAL_MS = 5000;
+
+export interface AlertMonitorOptions {
+  engine?: AlertRulesEngine;
+  alerts?: AlertStore;
+  telemetry?: TelemetryStore;
+  /** How often stale rules are checked (default: 5000) */
+  staleCheckIntervalMs?: number;
+}
+
+/**
+ * The application's rules engine (starts with no rules)
+ */
+export const alertRulesEngine = new AlertRulesEngine();
+
+/**
+ * Validate and install a rule set, clearing alerts for removed rules
+ * @throws Error if the rule set is invalid (the current rules stay active)
+ */
+export function loadAlertRules(
+  json: unknown,
+  engine: AlertRulesEngine = alertRulesEngine,
+  alerts: AlertStore = alertStore
+): AlertRuleSet {
+  const ruleSet = parseAlertRuleSet(json);
+  alerts.getState().applyEvents(engine.setRules(ruleSet.rules));
+  return ruleSet;
+}
+
+/**
+ * Start evaluating rules against the telemetry store
+ * @returns Stop function
+ */
+export function startAlertMonitor(options: AlertMonitorOptions = {}): () => void {
+  const engine = options.engine ?? alertRulesEngine;
+  const alerts = options.alerts ?? alertStore;
+  const telemetry = options.telemetry ?? telemetryStore;
+
+  // Alerts restored from storage are still raised as far as the operator is
+  // concerned; hand them to the engine so in-range readings clear them
+  const restored = Object.values(alerts.getState().alerts)
+    .filter((alert) => alert.state !== 'resolved' && !alert.cleared)
+    .map(({ id, ruleId, equipmentId, sensorType, severity, message }) => ({
+      alertId: id,
+      ruleId,
+      equipmentId,
+      sensorType,
+      severity,
+      message,
+    }));
+  alerts.getState().applyEvents(engine.restoreActive(restored));
+
+  const unsubscribeReadings = telemetry.getState().subscribeReadings((readings) => {
+    const events: AlertEvent[] = [];
+    for (const reading of readings) events.push(...engine.evaluate(reading));
+    if (events.length > 0) alerts.getState().applyEvents(events);
+  });
+
+  const syncStatus = (affected: Iterable<string>) => {
+    const alerting = new Set<string>();
+    for (const alert of Object.values(alerts.getState().alerts)) {
+      if (alert.state !== 'resolved') alerting.add(alert.equipmentId);
+    }
+
+    const { equipmentStatus, setEquipmentStatus } = telemetry.getState();
+    for (const equipmentId of affected) {
+      const status = equipmentStatus[equipmentId];
+      if (alerting.has(equipmentId) && status === 'online') {
+        setEquipmentStatus(equipmentId, 'alert');
+      } else if (!alerting.has(equipmentId) && status === 'alert') {
+        setEquipmentStatus(equipmentId, 'online');
+      }
+    }
+  };
+
+  const unsubscribeTelemetry = telemetry.subscribe((state, previous) => {
+    if (state.equipmentStatus === previous.equipmentStatus) return;
+    syncStatus(
+      Object.keys(state.equipmentStatus).filter((id) => state.equipmentStatus[id] !== previous.equipmentStatus[id])
+    );
+  });
+
+  const unsubscribeAlerts = alerts.subscribe((state, previous) => {
+    if (state.alerts === previous.alerts) return;
+
+    const affected = new Set<string>();
+    for (const alert of Object.values(state.alerts)) affected.add(alert.equipmentId);
+    for (const alert of Object.values(previous.alerts)) affected.add(alert.equipmentId);
+    syncStatus(affected);
+  });
+
+  const timer = setInterval(() => {
+    const { applyEvents, unshelveExpired } = alerts.getState();
+    applyEvents(engine.checkStale());
+    unshelveExpired();
+  }, options.staleCheckIntervalMs ?? DEFAULT_STALE_CHECK_INTERVAL_MS);
+
+  return () => {
+    clearInterval(timer);
+    unsubscribeReadings();
+    unsubscribeTelemetry();
+    unsubscribeAlerts();
+  };
+}
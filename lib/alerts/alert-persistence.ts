@@ -0,0 +1,123 @@
+/**
+ * Alert Persistence - Keeps alert state and history across reloads
+ *
+ * Restores the alert store from IndexedDB on startup, then mirrors every
+ * store change back: alerts whose object changed are written, alerts the
+ * store dropped (pruned history, reset) are deleted, all in one
+ * transaction per write. Writes run one at a time and each diffs the
+ * store's current state against what was last written, so a burst of
+ * changes costs at most one extra write and a failed write is retried by
+ * the next one.
+ *
+ * USER CONTEXT:
+ * - An alert raised before a reload is still open after it, with its
+ *   acknowledgement, shelving and escalation intact
+ *
+ * CAUTION:
+ * - Call hydrate() BEFORE the alert monitor starts, so the inbox, counters
+ *   and notifications never run on a store missing its open alerts
+ * - Restored alerts reach the rules engine through startAlertMonitor(): the
+ *   next in-range reading clears them, and alerts whose rule is gone clear
+ *   at once; an open one then waits for acknowledgement like any other
+ * - Persistence is best-effort - failures go to onError, never to the UI
+ */
+
+import { AlertDatabase, AlertDatabaseOptions } from './alert-database';
+import { Alert, AlertStore, alertStore } from './alert-store';
+
+export interface AlertPersistenceOptions {
+  /** Failure sink for background writes (default: console.warn) */
+  onError?: (error: Error) => void;
+}
+
+function defaultOnError(error: Error): void {
+  // eslint-disable-next-line no-console
+  console.warn('[Alert persistence]:', error);
+}
+
+export class AlertPersistence {
+  private readonly onError: (error: Error) => void;
+
+  /** Alerts as last written, keyed by id */
+  private written: Record<string, Alert> = {};
+  private queue: Promise<void> = Promise.resolve();
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(
+    private readonly db: AlertDatabase,
+    private readonly store: AlertStore,
+    options: AlertPersistenceOptions = {}
+  ) {
+    this.onError = options.onError ?? defaultOnError;
+  }
+
+  /**
+   * Merge stored alerts into the store
+   * @returns Number of alerts read from storage
+   */
+  async hydrate(): Promise<number> {
+    const stored = await this.db.getAllAlerts();
+    const written: Record<string, Alert> = {};
+    stored.forEach((alert) => (written[alert.id] = alert));
+    this.written = written;
+    this.store.getState().restore(stored);
+    return stored.length;
+  }
+
+  /**
+   * Write the store's changes since the previous write. Calls run in order.
+   * @throws The storage error if this write failed
+   */
+  flush(): Promise<void> {
+    const write = this.queue.then(() => this.write());
+    this.queue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Write on every store change
+   */
+  start(): void {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.store.subscribe((state, previous) => {
+      if (state.alerts !== previous.alerts) this.backgroundFlush();
+    });
+    // Restoring may have pruned stored history or met alerts raised first
+    this.backgroundFlush();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+  }
+
+  private backgroundFlush(): void {
+    this.flush().catch((error: unknown) => {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    });
+  }
+
+  private async write(): Promise<void> {
+    const { alerts } = this.store.getState();
+    const changed = Object.values(alerts).filter((alert) => this.written[alert.id] !== alert);
+    const removedIds = Object.keys(this.written).filter((id) => !(id in alerts));
+
+    await this.db.applyChanges(changed, removedIds);
+    this.written = alerts;
+  }
+}
+
+/**
+ * Open the alert database, restore the store and start mirroring it
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function startAlertPersistence(
+  store: AlertStore = alertStore,
+  options: AlertPersistenceOptions & AlertDatabaseOptions = {}
+): Promise<AlertPersistence> {
+  const db = await AlertDatabase.open(options);
+  const persistence = new AlertPersistence(db, store, options);
+  await persistence.hydrate();
+  persistence.start();
+  return persistence;
+}
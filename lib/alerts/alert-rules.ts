@@ -0,0 +1,216 @@
+/**
+ * Alert Rules - Serialisable rule definitions for the rules engine
+ *
+ * Rules are plain JSON so operations can ship a new rule set (from the API,
+ * a config file, or a push) without an app deploy. Everything arriving from
+ * outside goes through parseAlertRuleSet(), which rejects malformed rules
+ * with the path of the first problem instead of evaluating garbage.
+ *
+ * Rule kinds:
+ * - threshold: value at/above (or at/below) a limit
+ * - rate-of-change: |Δvalue| per second above a limit
+ * - stale: no reading for afterSeconds
+ *
+ * Modifiers (threshold and rate-of-change):
+ * - sustainSeconds: the condition must hold continuously this long first
+ * - hysteresis: once raised, the value must move this far back past the
+ *   limit before the alert clears, so a reading hovering at the limit
+ *   doesn't flap
+ *
+ * @example
+ * {
+ *   "version": 1,
+ *   "rules": [{
+ *     "id": "hyd-pressure-high", "sensorType": "hydraulic-pressure",
+ *     "severity": "critical", "kind": "threshold", "operator": "above",
+ *     "value": 3200, "hysteresis": 50, "sustainSeconds": 5
+ *   }]
+ * }
+ */
+
+import { ALERT_SEVERITIES } from '@/lib/pwa/push/alert-payload';
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+export const ALERT_RULE_SET_VERSION = 1;
+
+interface AlertRuleBase {
+  /** Stable identifier; alert history is keyed by it */
+  id: string;
+  /** Shown to operators (default: generated from the rule) */
+  message?: string;
+  /** Only this unit (default: every unit reporting sensorType) */
+  equipmentId?: string;
+  sensorType: string;
+  severity: AlertSeverity;
+  /** Rules with enabled: false are kept but never evaluated */
+  enabled?: boolean;
+}
+
+export interface ThresholdRule extends AlertRuleBase {
+  kind: 'threshold';
+  /** 'above' raises at value >= limit, 'below' at value <= limit */
+  operator: 'above' | 'below';
+  value: number;
+  hysteresis?: number;
+  sustainSeconds?: number;
+}
+
+export interface RateOfChangeRule extends AlertRuleBase {
+  kind: 'rate-of-change';
+  /** Absolute change per second */
+  maxPerSecond: number;
+  hysteresis?: number;
+  sustainSeconds?: number;
+}
+
+export interface StaleRule extends AlertRuleBase {
+  kind: 'stale';
+  afterSeconds: number;
+}
+
+export type AlertRule = ThresholdRule | RateOfChangeRule | StaleRule;
+
+export type AlertRuleKind = AlertRule['kind'];
+
+export interface AlertRuleSet {
+  version: typeof ALERT_RULE_SET_VERSION;
+  rules: AlertRule[];
+}
+
+type Fields = Record<string, unknown>;
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid alert rule set: ${path} ${problem}`);
+}
+
+function readString(rule: Fields, key: string, path: string, optional = false): string | undefined {
+  const value = rule[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'string' || value.length === 0) fail(`${path}.${key}`, 'must be a non-empty string');
+  return value;
+}
+
+function readNumber(rule: Fields, key: string, path: string, { optional = false, min = -Infinity } = {}) {
+  const value = rule[key];
+  if (value === undefined && optional) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${path}.${key}`, 'must be a finite number');
+  if (value < min) fail(`${path}.${key}`, `must be at least ${min}`);
+  return value;
+}
+
+function parseRule(raw: unknown, path: string): AlertRule {
+  if (typeof raw !== 'object' || raw === null) fail(path, 'must be an object');
+  const rule = raw as Fields;
+
+  const severity = rule.severity;
+  if (!ALERT_SEVERITIES.includes(severity as AlertSeverity)) {
+    fail(`${path}.severity`, `must be one of ${ALERT_SEVERITIES.join(', ')}`);
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+    fail(`${path}.enabled`, 'must be a boolean');
+  }
+
+  const message = readString(rule, 'message', path, true);
+  const equipmentId = readString(rule, 'equipmentId', path, true);
+  const base = {
+    id: readString(rule, 'id', path)!,
+    sensorType: readString(rule, 'sensorType', path)!,
+    severity: severity as AlertSeverity,
+    ...(message !== undefined && { message }),
+    ...(equipmentId !== undefined && { equipmentId }),
+    ...(rule.enabled !== undefined && { enabled: rule.enabled as boolean }),
+  };
+
+  const readModifiers = () => {
+    const hysteresis = readNumber(rule, 'hysteresis', path, { optional: true, min: 0 });
+    const sustainSeconds = readNumber(rule, 'sustainSeconds', path, { optional: true, min: 0 });
+    return {
+      ...(hysteresis !== undefined && { hysteresis }),
+      ...(sustainSeconds !== undefined && { sustainSeconds }),
+    };
+  };
+
+  switch (rule.kind) {
+    case 'threshold':
+      if (rule.operator !== 'above' && rule.operator !== 'below') {
+        fail(`${path}.operator`, "must be 'above' or 'below'");
+      }
+      return {
+        ...base,
+        kind: 'threshold',
+        operator: rule.operator,
+        value: readNumber(rule, 'value', path)!,
+        ...readModifiers(),
+      };
+
+    case 'rate-of-change':
+      return {
+        ...base,
+        kind: 'rate-of-change',
+        maxPerSecond: readNumber(rule, 'maxPerSecond', path, { min: 0 })!,
+        ...readModifiers(),
+      };
+
+    case 'stale':
+      return { ...base, kind: 'stale', afterSeconds: readNumber(rule, 'afterSeconds', path, { min: 0 })! };
+
+    default:
+      return fail(`${path}.kind`, "must be 'threshold', 'rate-of-change' or 'stale'");
+  }
+}
+
+/**
+ * Validate a rule set from JSON (string or already-parsed value)
+ * @throws Error naming the first invalid field, or on duplicate rule ids
+ */
+export function parseAlertRuleSet(input: unknown): AlertRuleSet {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      fail('', 'is not valid JSON');
+    }
+  }
+
+  if (typeof raw !== 'object' || raw === null) fail('root', 'must be an object');
+  const set = raw as Fields;
+  if (set.version !== ALERT_RULE_SET_VERSION) {
+    fail('version', `must be ${ALERT_RULE_SET_VERSION}`);
+  }
+  if (!Array.isArray(set.rules)) fail('rules', 'must be an array');
+
+  const rules = set.rules.map((rule, i) => parseRule(rule, `rules[${i}]`));
+  const seen = new Set<string>();
+  rules.forEach((rule, i) => {
+    if (seen.has(rule.id)) fail(`rules[${i}].id`, `duplicates "${rule.id}"`);
+    seen.add(rule.id);
+  });
+
+  return { version: ALERT_RULE_SET_VERSION, rules };
+}
+
+/**
+ * Whether a rule applies to a sensor stream
+ */
+export function ruleMatches(rule: AlertRule, equipmentId: string, sensorType: string): boolean {
+  return (
+    rule.enabled !== false &&
+    rule.sensorType === sensorType &&
+    (rule.equipmentId === undefined || rule.equipmentId === equipmentId)
+  );
+}
+
+/**
+ * Operator-facing text for a rule that has no explicit message
+ */
+export function describeAlertRule(rule: AlertRule): string {
+  switch (rule.kind) {
+    case 'threshold':
+      return `${rule.sensorType} ${rule.operator} ${rule.value}`;
+    case 'rate-of-change':
+      return `${rule.sensorType} changing faster than ${rule.maxPerSecond}/s`;
+    case 'stale':
+      return `No ${rule.sensorType} data for ${rule.afterSeconds}s`;
+  }
+}
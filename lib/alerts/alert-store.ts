@@ -0,0 +1,303 @@
+/**
+ * Alert Store - Zustand state for alert lifecycle
+ *
+ * Every alert moves open → acknowledged → resolved. The rules engine only
+ * reports when a condition is raised or clears; what that means for the
+ * alert depends on whether an operator has seen it:
+ *
+ * - cleared while acknowledged → resolved
+ * - cleared while still open → stays open (flagged `cleared`) until someone
+ *   acknowledges it, so a spike that came and went is never silently lost
+ * - acknowledged after clearing → resolved straight away
+ *
+ * Shelving hides an unresolved alert from the active list and counters for
+ * a fixed time (a known nuisance during a repair); it reappears when
+ * unshelveExpired() runs past that time. Escalation only records that a
+ * supervisor was called in - the alert keeps its lifecycle state.
+ *
+ * CAUTION:
+ * - Resolved alerts are history; only the newest maxResolved are kept
+ * - In memory only; alert-persistence mirrors it to IndexedDB and restores
+ *   it on startup
+ */
+
+import { createStore, StoreApi } from 'zustand/vanilla';
+
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+import { AlertEvent } from './rules-engine';
+
+export type AlertLifecycleState = 'open' | 'acknowledged' | 'resolved';
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  equipmentId: string;
+  sensorType: string;
+  severity: AlertSeverity;
+  message: string;
+  /** Reading that raised it (null for stale-data alerts) */
+  value: number | null;
+  raisedAt: number;
+  state: AlertLifecycleState;
+  /** The condition has returned to normal */
+  cleared: boolean;
+  clearedAt: number | null;
+  acknowledgedAt: number | null;
+  acknowledgedNote: string | null;
+  resolvedAt: number | null;
+  /** Hidden from the active list until this time */
+  shelvedUntil: number | null;
+  escalatedAt: number | null;
+  escalationNote: string | null;
+}
+
+/** Priority scale used by AlertPriorityIndicator and alertVariants */
+export type AlertPriority = 'low' | 'medium' | 'high' | 'critical';
+
+export const ALERT_PRIORITY_BY_SEVERITY: Record<AlertSeverity, AlertPriority> = {
+  info: 'low',
+  warning: 'medium',
+  error: 'high',
+  critical: 'critical',
+};
+
+export interface AlertActionOptions {
+  note?: string;
+  /** Default: now */
+  at?: number;
+}
+
+export interface AlertStoreState {
+  /** Keyed by alert id */
+  alerts: Record<string, Alert>;
+
+  /** Apply raise/clear events from the rules engine */
+  applyEvents: (events: AlertEvent[]) => void;
+
+  /** Mark an open alert as seen; resolves it if its condition has cleared */
+  acknowledge: (id: string, options?: AlertActionOptions) => void;
+
+  /** Hide an unresolved alert for durationMs */
+  shelve: (id: string, durationMs: number, at?: number) => void;
+
+  /** Return shelved alerts whose time is up to the active list */
+  unshelveExpired: (now?: number) => void;
+
+  /** Record that an unresolved alert was escalated */
+  escalate: (id: string, options?: AlertActionOptions) => void;
+
+  /** Close an alert regardless of its condition */
+  resolve: (id: string, at?: number) => void;
+
+  /**
+   * Merge alerts loaded from storage; alerts already in the store are newer
+   * and win
+   */
+  restore: (alerts: Alert[]) => void;
+
+  reset: () => void;
+}
+
+export type AlertStore = StoreApi<AlertStoreState>;
+
+export interface AlertStoreOptions {
+  /** Resolved alerts kept as history (default: 200) */
+  maxResolved?: number;
+  now?: () => number;
+}
+
+export const DEFAULT_MAX_RESOLVED_ALERTS = 200;
+
+function pruneResolved(alerts: Record<string, Alert>, maxResolved: number): Record<string, Alert> {
+  const resolved = Object.values(alerts).filter((alert) => alert.state === 'resolved');
+  if (resolved.length <= maxResolved) return alerts;
+
+  const pruned = { ...alerts };
+  resolved
+    .sort((a, b) => (a.resolvedAt ?? 0) - (b.resolvedAt ?? 0))
+    .slice(0, resolved.length - maxResolved)
+    .forEach((alert) => delete pruned[alert.id]);
+  return pruned;
+}
+
+/**
+ * Create an isolated alert store (one per app; tests create their own)
+ */
+export function createAlertStore(options: AlertStoreOptions = {}): AlertStore {
+  const maxResolved = options.maxResolved ?? DEFAULT_MAX_RESOLVED_ALERTS;
+  const now = options.now ?? Date.now;
+
+  return createStore<AlertStoreState>()((set, get) => ({
+    alerts: {},
+
+    applyEvents: (events) => {
+      if (events.length === 0) return;
+
+      set((state) => {
+        const alerts = { ...state.alerts };
+        for (const event of events) {
+          const existing = alerts[event.alertId];
+
+          if (event.type === 'raised') {
+            if (existing) continue;
+            alerts[event.alertId] = {
+              id: event.alertId,
+              ruleId: event.ruleId,
+              equipmentId: event.equipmentId,
+              sensorType: event.sensorType,
+              severity: event.severity,
+              message: event.message,
+              value: event.value,
+              raisedAt: event.at,
+              state: 'open',
+              cleared: false,
+              clearedAt: null,
+              acknowledgedAt: null,
+              acknowledgedNote: null,
+              resolvedAt: null,
+              shelvedUntil: null,
+              escalatedAt: null,
+              escalationNote: null,
+            };
+            continue;
+          }
+
+          if (!existing || existing.cleared) continue;
+          alerts[event.alertId] = {
+            ...existing,
+            cleared: true,
+            clearedAt: event.at,
+            ...(existing.state === 'acknowledged' && { state: 'resolved' as const, resolvedAt: event.at }),
+          };
+        }
+        return { alerts: pruneResolved(alerts, maxResolved) };
+      });
+    },
+
+    acknowledge: (id, { note, at = now() } = {}) => {
+      const alert = get().alerts[id];
+      if (!alert || alert.state !== 'open') return;
+
+      set((state) => ({
+        alerts: pruneResolved(
+          {
+            ...state.alerts,
+            [id]: {
+              ...alert,
+              state: alert.cleared ? 'resolved' : 'acknowledged',
+              acknowledgedAt: at,
+              acknowledgedNote: note ?? null,
+              resolvedAt: alert.cleared ? at : null,
+            },
+          },
+          maxResolved
+        ),
+      }));
+    },
+
+    shelve: (id, durationMs, at = now()) => {
+      const alert = get().alerts[id];
+      if (!alert || alert.state === 'resolved') return;
+
+      set((state) => ({
+        alerts: { ...state.alerts, [id]: { ...alert, shelvedUntil: at + durationMs } },
+      }));
+    },
+
+    unshelveExpired: (at = now()) => {
+      const expired = Object.values(get().alerts).filter(
+        (alert) => alert.shelvedUntil !== null && alert.shelvedUntil <= at
+      );
+      if (expired.length === 0) return;
+
+      set((state) => {
+        const alerts = { ...state.alerts };
+        expired.forEach((alert) => (alerts[alert.id] = { ...alert, shelvedUntil: null }));
+        return { alerts };
+      });
+    },
+
+    escalate: (id, { note, at = now() } = {}) => {
+      const alert = get().alerts[id];
+      if (!alert || alert.state === 'resolved') return;
+
+      set((state) => ({
+        alerts: { ...state.alerts, [id]: { ...alert, escalatedAt: at, escalationNote: note ?? null } },
+      }));
+    },
+
+    resolve: (id, at = now()) => {
+      const alert = get().alerts[id];
+      if (!alert || alert.state === 'resolved') return;
+
+      set((state) => ({
+        alerts: pruneResolved({ ...state.alerts, [id]: { ...alert, state: 'resolved', resolvedAt: at } }, maxResolved),
+      }));
+    },
+
+    restore: (restored) => {
+      if (restored.length === 0) return;
+
+      set((state) => {
+        const alerts: Record<string, Alert> = {};
+        restored.forEach((alert) => (alerts[alert.id] = alert));
+        return { alerts: pruneResolved({ ...alerts, ...state.alerts }, maxResolved) };
+      });
+    },
+
+    reset: () => set({ alerts: {} }),
+  }));
+}
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { critical: 0, error: 1, warning: 2, info: 3 };
+
+/**
+ * Most severe first, then newest first
+ */
+export function compareAlerts(a: Alert, b: Alert): number {
+  return SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.raisedAt - a.raisedAt;
+}
+
+/**
+ * Unresolved, unshelved alerts, most severe first, then newest first
+ */
+export function selectActiveAlerts(state: Pick<AlertStoreState, 'alerts'>): Alert[] {
+  return Object.values(state.alerts)
+    .filter((alert) => alert.state !== 'resolved' && alert.shelvedUntil === null)
+    .sort(compareAlerts);
+}
+
+/**
+ * Unresolved alerts currently shelved, soonest to return first
+ */
+export function selectShelvedAlerts(state: Pick<AlertStoreState, 'alerts'>): Alert[] {
+  return Object.values(state.alerts)
+    .filter((alert) => alert.state !== 'resolved' && alert.shelvedUntil !== null)
+    .sort((a, b) => (a.shelvedUntil ?? 0) - (b.shelvedUntil ?? 0));
+}
+
+/**
+ * Resolved alerts, most recently resolved first
+ */
+export function selectAlertHistory(state: Pick<AlertStoreState, 'alerts'>): Alert[] {
+  return Object.values(state.alerts)
+    .filter((alert) => alert.state === 'resolved')
+    .sort((a, b) => (b.resolvedAt ?? 0) - (a.resolvedAt ?? 0));
+}
+
+/**
+ * Active (unresolved, unshelved) alert count per severity
+ */
+export function selectActiveAlertCounts(state: Pick<AlertStoreState, 'alerts'>): Record<AlertSeverity, number> {
+  const counts: Record<AlertSeverity, number> = { info: 0, warning: 0, error: 0, critical: 0 };
+  for (const alert of Object.values(state.alerts)) {
+    if (alert.state !== 'resolved' && alert.shelvedUntil === null) counts[alert.severity]++;
+  }
+  return counts;
+}
+
+/**
+ * The application's alert store
+ */
+export const alertStore = createAlertStore();
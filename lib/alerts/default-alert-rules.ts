@@ -0,0 +1,68 @@
+/**
+ * Default Alert Rules - The rule set the app starts with
+ *
+ * Warning and critical limits match the sensor definitions' thresholds
+ * (and so the chart bands), plus a stale rule on the engine temperature
+ * every unit reports. Kept as plain JSON-shaped data so it goes through the
+ * same parseAlertRuleSet validation as a rule set served by the backend.
+ *
+ * CAUTION:
+ * - Rule ids key alert history; renaming one clears its open alerts
+ */
+
+import { ALERT_RULE_SET_VERSION } from './alert-rules';
+
+interface ThresholdSpec {
+  sensorType: string;
+  warning: number;
+  critical: number;
+  /** How far back below a limit a value must go to clear */
+  hysteresis: number;
+}
+
+const THRESHOLDS: ThresholdSpec[] = [
+  { sensorType: 'engine-temperature', warning: 105, critical: 115, hysteresis: 2 },
+  { sensorType: 'hydraulic-pressure', warning: 3200, critical: 3500, hysteresis: 50 },
+  { sensorType: 'speed', warning: 50, critical: 58, hysteresis: 2 },
+  { sensorType: 'payload', warning: 250, critical: 270, hysteresis: 5 },
+  { sensorType: 'brake-temperature', warning: 300, critical: 400, hysteresis: 10 },
+  { sensorType: 'torque', warning: 30, critical: 35, hysteresis: 1 },
+  { sensorType: 'vibration', warning: 7, critical: 11, hysteresis: 0.5 },
+];
+
+/** Seconds a warning limit must be exceeded before it raises */
+const WARNING_SUSTAIN_SECONDS = 5;
+
+export const DEFAULT_ALERT_RULE_SET: unknown = {
+  version: ALERT_RULE_SET_VERSION,
+  rules: [
+    ...THRESHOLDS.flatMap(({ sensorType, warning, critical, hysteresis }) => [
+      {
+        id: `${sensorType}-warning`,
+        sensorType,
+        severity: 'warning',
+        kind: 'threshold',
+        operator: 'above',
+        value: warning,
+        hysteresis,
+        sustainSeconds: WARNING_SUSTAIN_SECONDS,
+      },
+      {
+        id: `${sensorType}-critical`,
+        sensorType,
+        severity: 'critical',
+        kind: 'threshold',
+        operator: 'above',
+        value: critical,
+        hysteresis,
+      },
+    ]),
+    {
+      id: 'engine-temperature-stale',
+      sensorType: 'engine-temperature',
+      severity: 'error',
+      kind: 'stale',
+      afterSeconds: 30,
+    },
+  ],
+};
@@ -0,0 +1,297 @@
+/**
+ * AlertRulesEngine - Turns sensor readings into alert raise/clear events
+ *
+ * One piece of state per (rule, sensor stream): whether the alert is active,
+ * since when the condition has held (for sustainSeconds), and the previous
+ * reading (for rate-of-change). Events describe transitions only; the alert
+ * store owns the open → acknowledged → resolved lifecycle.
+ *
+ * TECHNICAL CONTEXT:
+ * - Threshold and rate rules run on evaluate(reading), using reading
+ *   timestamps, so replayed or batched data behaves like live data
+ * - Stale rules run on checkStale(now) against the wall clock, because the
+ *   point is that no reading arrives
+ * - Alerts restored after a reload are adopted with restoreActive(), so
+ *   their conditions can still clear
+ * - Replacing the rule set keeps state for rules whose id survives and
+ *   still covers the stream, so a rule update doesn't re-raise every active
+ *   alert; a disabled or retargeted rule clears its alerts like a removed one
+ *
+ * Performance characteristics:
+ * - evaluate(): O(rules for that sensor type)
+ * - Memory: O(rules * matching sensor streams)
+ */
+
+import { getSensorKey, TelemetryReading } from '@/lib/telemetry/types';
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+import { AlertRule, describeAlertRule, ruleMatches } from './alert-rules';
+
+export interface AlertEvent {
+  type: 'raised' | 'cleared';
+  /** Identifies one occurrence: rule, stream and the time it was raised */
+  alertId: string;
+  ruleId: string;
+  equipmentId: string;
+  sensorType: string;
+  severity: AlertSeverity;
+  message: string;
+  /** Reading that caused the transition (null for stale transitions) */
+  value: number | null;
+  /** Epoch ms of the transition */
+  at: number;
+}
+
+export interface AlertRulesEngineOptions {
+  /** Wall clock for stale checks, injectable for tests */
+  now?: () => number;
+}
+
+/** An alert raised before a reload, as restored into the alert store */
+export type RestoredAlert = Pick<
+  AlertEvent,
+  'alertId' | 'ruleId' | 'equipmentId' | 'sensorType' | 'severity' | 'message'
+>;
+
+interface RuleState {
+  ruleId: string;
+  sensorKey: string;
+  /** alertId while active */
+  activeAlertId: string | null;
+  /** When the raise condition started holding (sustain tracking) */
+  conditionSince: number | null;
+  previous: TelemetryReading | null;
+}
+
+interface StreamInfo {
+  equipmentId: string;
+  sensorType: string;
+  lastTimestamp: number;
+}
+
+export class AlertRulesEngine {
+  private rules: AlertRule[] = [];
+  /** `${ruleId}|${sensorKey}` → state */
+  private readonly state = new Map<string, RuleState>();
+  /** Streams seen so far, for stale checks */
+  private readonly streams = new Map<string, StreamInfo>();
+  private readonly now: () => number;
+
+  constructor(rules: AlertRule[] = [], options: AlertRulesEngineOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.setRules(rules);
+  }
+
+  /**
+   * Replace the rule set. State is dropped, and active alerts cleared, for
+   * rules that were removed, disabled, changed kind or no longer match the
+   * stream they fired on.
+   * @returns Clear events for alerts whose rule no longer covers them
+   */
+  setRules(rules: AlertRule[]): AlertEvent[] {
+    const previous = new Map(this.rules.map((rule) => [rule.id, rule]));
+    const next = new Map(rules.map((rule) => [rule.id, rule]));
+    this.rules = [...rules];
+
+    const events: AlertEvent[] = [];
+    const at = this.now();
+    this.state.forEach((state, key) => {
+      const old = previous.get(state.ruleId);
+      const rule = next.get(state.ruleId);
+      const stream = this.streams.get(state.sensorKey);
+      const covered =
+        rule !== undefined &&
+        rule.kind === old?.kind &&
+        stream !== undefined &&
+        ruleMatches(rule, stream.equipmentId, stream.sensorType);
+      if (covered) return;
+
+      if (state.activeAlertId && stream && old) {
+        // Described by the rule that raised it
+        events.push(this.event('cleared', old, stream, state.activeAlertId, null, at));
+      }
+      this.state.delete(key);
+    });
+    return events;
+  }
+
+  getRules(): AlertRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Evaluate threshold and rate rules for one reading. Also clears any
+   * stale alert on that stream, since data is flowing again.
+   */
+  evaluate(reading: TelemetryReading): AlertEvent[] {
+    const { equipmentId, sensorType, timestamp } = reading;
+    const sensorKey = getSensorKey(equipmentId, sensorType);
+    const stream = this.streams.get(sensorKey);
+    if (!stream) {
+      this.streams.set(sensorKey, { equipmentId, sensorType, lastTimestamp: timestamp });
+    } else if (timestamp > stream.lastTimestamp) {
+      stream.lastTimestamp = timestamp;
+    }
+
+    const events: AlertEvent[] = [];
+    for (const rule of this.rules) {
+      if (!ruleMatches(rule, equipmentId, sensorType)) continue;
+      const state = this.stateFor(rule.id, sensorKey);
+
+      if (rule.kind === 'stale') {
+        if (state.activeAlertId) {
+          events.push(this.event('cleared', rule, reading, state.activeAlertId, reading.value, timestamp));
+          state.activeAlertId = null;
+        }
+        continue;
+      }
+
+      const previous = state.previous;
+      // Out-of-order readings would produce nonsense rates and sustain windows
+      if (previous && timestamp <= previous.timestamp) continue;
+      state.previous = reading;
+
+      const measure = rule.kind === 'threshold' ? reading.value : getRate(previous, reading);
+      if (measure === null) continue;
+
+      if (state.activeAlertId) {
+        if (isCleared(rule, measure)) {
+          events.push(this.event('cleared', rule, reading, state.activeAlertId, reading.value, timestamp));
+          state.activeAlertId = null;
+          state.conditionSince = null;
+        }
+        continue;
+      }
+
+      if (!isBreached(rule, measure)) {
+        state.conditionSince = null;
+        continue;
+      }
+
+      state.conditionSince ??= timestamp;
+      if (timestamp - state.conditionSince >= (rule.sustainSeconds ?? 0) * 1000) {
+        state.activeAlertId = getAlertId(rule.id, sensorKey, timestamp);
+        events.push(this.event('raised', rule, reading, state.activeAlertId, reading.value, timestamp));
+      }
+    }
+    return events;
+  }
+
+  /**
+   * Raise stale alerts for streams that have gone quiet
+   */
+  checkStale(now: number = this.now()): AlertEvent[] {
+    const events: AlertEvent[] = [];
+    for (const rule of this.rules) {
+      if (rule.kind !== 'stale') continue;
+
+      this.streams.forEach((stream, sensorKey) => {
+        if (!ruleMatches(rule, stream.equipmentId, stream.sensorType)) return;
+        const state = this.stateFor(rule.id, sensorKey);
+        if (state.activeAlertId || now - stream.lastTimestamp < rule.afterSeconds * 1000) return;
+
+        state.activeAlertId = getAlertId(rule.id, sensorKey, now);
+        events.push(this.event('raised', rule, stream, state.activeAlertId, null, now));
+      });
+    }
+    return events;
+  }
+
+  /**
+   * Adopt active alerts raised before a reload, so the next in-range reading
+   * clears them like any other. A restored stream counts as seen now, so
+   * stale rules give it their full window before firing.
+   * @returns Clear events for restored alerts no rule covers any more, or
+   *          whose rule and stream already have a newer active alert
+   */
+  restoreActive(alerts: RestoredAlert[]): AlertEvent[] {
+    const at = this.now();
+    const events: AlertEvent[] = [];
+    for (const alert of alerts) {
+      const { alertId, ruleId, equipmentId, sensorType } = alert;
+      const sensorKey = getSensorKey(equipmentId, sensorType);
+      const rule = this.rules.find((candidate) => candidate.id === ruleId);
+      const state = rule && ruleMatches(rule, equipmentId, sensorType) ? this.stateFor(ruleId, sensorKey) : null;
+
+      if (!state || (state.activeAlertId !== null && state.activeAlertId !== alertId)) {
+        events.push({ ...alert, type: 'cleared', value: null, at });
+        continue;
+      }
+      if (!this.streams.has(sensorKey)) {
+        this.streams.set(sensorKey, { equipmentId, sensorType, lastTimestamp: at });
+      }
+      state.activeAlertId = alertId;
+    }
+    return events;
+  }
+
+  /**
+   * Alert ids currently raised by the engine
+   */
+  getActiveAlertIds(): string[] {
+    const ids: string[] = [];
+    this.state.forEach((state) => {
+      if (state.activeAlertId) ids.push(state.activeAlertId);
+    });
+    return ids;
+  }
+
+  /**
+   * Forget all state (rules are kept)
+   */
+  reset(): void {
+    this.state.clear();
+    this.streams.clear();
+  }
+
+  private stateFor(ruleId: string, sensorKey: string): RuleState {
+    const key = `${ruleId}|${sensorKey}`;
+    let state = this.state.get(key);
+    if (!state) {
+      state = { ruleId, sensorKey, activeAlertId: null, conditionSince: null, previous: null };
+      this.state.set(key, state);
+    }
+    return state;
+  }
+
+  private event(
+    type: AlertEvent['type'],
+    rule: AlertRule,
+    stream: { equipmentId: string; sensorType: string },
+    alertId: string,
+    value: number | null,
+    at: number
+  ): AlertEvent {
+    return {
+      type,
+      alertId,
+      ruleId: rule.id,
+      equipmentId: stream.equipmentId,
+      sensorType: stream.sensorType,
+      severity: rule.severity,
+      message: rule.message ?? describeAlertRule(rule),
+      value,
+      at,
+    };
+  }
+}
+
+export function getAlertId(ruleId: string, sensorKey: string, raisedAt: number): string {
+  return `${ruleId}|${sensorKey}|${raisedAt}`;
+}
+
+function getRate(previous: TelemetryReading | null, reading: TelemetryReading): number | null {
+  if (!previous) return null;
+  return Math.abs(reading.value - previous.value) / ((reading.timestamp - previous.timestamp) / 1000);
+}
+
+function isBreached(rule: Exclude<AlertRule, { kind: 'stale' }>, measure: number): boolean {
+  if (rule.kind === 'rate-of-change') return measure > rule.maxPerSecond;
+  return rule.operator === 'above' ? measure >= rule.value : measure <= rule.value;
+}
+
+function isCleared(rule: Exclude<AlertRule, { kind: 'stale' }>, measure: number): boolean {
+  const hysteresis = rule.hysteresis ?? 0;
+  if (rule.kind === 'rate-of-change') return measure <= rule.maxPerSecond - hysteresis;
+  return rule.operator === 'above' ? measure < rule.value - hysteresis : measure > rule.value + hysteresis;
+}
@@ -0,0 +1,168 @@
+import { QueryClient } from '@tanstack/react-query';
+
+import { MockEquipmentServer } from '../../../../test/utils/mock-equipment-server';
+import { createEquipmentClient, EquipmentClient } from '../../equipment-client';
+import {
+  Equipment,
+  getSites,
+  MaintenanceRecord,
+  parseEquipment,
+  parseSensorDefinitions,
+  SensorDefinition,
+} from '../../equipment-model';
+import {
+  equipmentListQuery,
+  equipmentQuery,
+  equipmentQueryKeys,
+  invalidateEquipment,
+  maintenanceQuery,
+  sensorDefinitionsQuery,
+} from '../../equipment-queries';
+
+const NORTH_PIT = { id: 'north', name: 'North Pit', timezone: 'Australia/Perth' };
+const WORKSHOP = { id: 'workshop', name: 'Workshop' };
+
+const EXCAVATOR: Equipment = { id: 'ex-01', name: 'Excavator 1', type: 'Excavator', site: NORTH_PIT, model: 'PC2000' };
+const HAUL_TRUCK: Equipment = { id: 'ht 02', name: 'Haul Truck 2', type: 'Haul truck', site: WORKSHOP };
+const EQUIPMENT = [EXCAVATOR, HAUL_TRUCK];
+
+const SENSORS: SensorDefinition[] = [
+  {
+    sensorType: 'hydraulic-pressure',
+    label: 'Hydraulic pressure',
+    unit: 'PSI',
+    priority: 'critical',
+    thresholds: { warning: 3000, critical: 3200 },
+  },
+  { sensorType: 'engine-hours', label: 'Engine hours', unit: 'h', priority: 'auxiliary' },
+];
+
+const MAINTENANCE: MaintenanceRecord[] = [
+  { id: 'm1', equipmentId: 'ex-01', kind: 'service', performedAt: 1_000, summary: '500h service' },
+  { id: 'm2', equipmentId: 'ex-01', kind: 'repair', performedAt: 2_000, summary: 'Hose', technician: 'R. Diaz' },
+];
+
+describe('equipment model', () => {
+  test('names the first invalid field', () => {
+    expect(() => parseEquipment({ ...EXCAVATOR, site: { id: 'north' } })).toThrow(
+      'Invalid equipment data: equipment.site.name must be a non-empty string'
+    );
+    expect(() => parseEquipment([])).toThrow('equipment must be an object');
+    expect(() => parseSensorDefinitions({ sensors: [] })).toThrow('Invalid equipment data: sensors must be an array');
+  });
+
+  test('drops invalid list entries and sorts', () => {
+    const sensors = parseSensorDefinitions([
+      ...SENSORS,
+      { ...SENSORS[0], priority: 'urgent' },
+      { ...SENSORS[0], thresholds: { warning: '3000', critical: 3200 } },
+      null,
+    ]);
+
+    expect(sensors).toEqual([SENSORS[1], SENSORS[0]]);
+  });
+
+  test('strips unknown fields', () => {
+    expect(parseEquipment({ ...HAUL_TRUCK, colour: 'yellow' })).toEqual(HAUL_TRUCK);
+  });
+
+  test('lists distinct sites by name', () => {
+    expect(getSites([...EQUIPMENT, { ...EXCAVATOR, id: 'ex-03' }])).toEqual([NORTH_PIT, WORKSHOP]);
+  });
+});
+
+describe('equipment client against a local server', () => {
+  let server: MockEquipmentServer;
+  let client: EquipmentClient;
+
+  beforeEach(async () => {
+    server = await MockEquipmentServer.start({
+      equipment: EQUIPMENT,
+      sensors: { 'ex-01': SENSORS },
+      maintenance: { 'ex-01': MAINTENANCE },
+    });
+    client = createEquipmentClient({ baseUrl: server.url, caches: null });
+  });
+
+  afterEach(() => server.close());
+
+  test('reads and validates every endpoint', async () => {
+    await expect(client.listEquipment()).resolves.toMatchObject({ data: EQUIPMENT, source: 'network' });
+    await expect(client.getEquipment('ht 02')).resolves.toMatchObject({ data: HAUL_TRUCK });
+    await expect(client.getSensorDefinitions('ex-01')).resolves.toMatchObject({ data: [SENSORS[1], SENSORS[0]] });
+    await expect(client.getMaintenanceRecords('ex-01')).resolves.toMatchObject({
+      data: [MAINTENANCE[1], MAINTENANCE[0]],
+    });
+
+    expect(server.requests).toEqual([
+      '/api/equipment',
+      '/api/equipment/ht%2002',
+      '/api/equipment/ex-01/sensors',
+      '/api/equipment/ex-01/maintenance',
+    ]);
+  });
+
+  test('rejects missing and malformed resources', async () => {
+    await expect(client.getEquipment('nope')).rejects.toThrow('Equipment data unavailable (status 404, not cached)');
+
+    server.route('/api/equipment/ex-01', { body: { id: 'ex-01', name: 'Excavator 1' } });
+    await expect(client.getEquipment('ex-01')).rejects.toThrow('equipment.type must be a non-empty string');
+
+    server.route('/api/equipment', { body: [EXCAVATOR, { id: 'broken' }] });
+    await expect(client.listEquipment()).resolves.toMatchObject({ data: [EXCAVATOR] });
+  });
+
+  describe('React Query', () => {
+    let queryClient: QueryClient;
+
+    beforeEach(() => {
+      queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    });
+
+    afterEach(() => queryClient.clear());
+
+    async function prefetchUnit(equipmentId: string) {
+      await Promise.all([
+        queryClient.prefetchQuery(equipmentListQuery(client)),
+        queryClient.prefetchQuery(equipmentQuery(client, equipmentId)),
+        queryClient.prefetchQuery(sensorDefinitionsQuery(client, equipmentId)),
+        queryClient.prefetchQuery(maintenanceQuery(client, equipmentId)),
+      ]);
+    }
+
+    const isInvalidated = (queryKey: readonly unknown[]) =>
+      queryClient.getQueryState(queryKey)?.isInvalidated ?? false;
+
+    test('caches each resource under its own key', async () => {
+      await prefetchUnit('ex-01');
+      await queryClient.fetchQuery(equipmentQuery(client, 'ex-01'));
+
+      expect(queryClient.getQueryData(equipmentQuery(client, 'ex-01').queryKey)?.data).toEqual(EXCAVATOR);
+      // Fresh for EQUIPMENT_STALE_MS: the second fetch came from the cache
+      expect(server.requests.filter((path) => path === '/api/equipment/ex-01')).toHaveLength(1);
+    });
+
+    test('a unit edit invalidates that unit and the list only', async () => {
+      await Promise.all([prefetchUnit('ex-01'), prefetchUnit('ht 02')]);
+      await invalidateEquipment(queryClient, 'ex-01');
+
+      expect(isInvalidated(equipmentQueryKeys.list())).toBe(true);
+      expect(isInvalidated(equipmentQueryKeys.unit('ex-01'))).toBe(true);
+      expect(isInvalidated(equipmentQueryKeys.maintenance('ex-01'))).toBe(true);
+      expect(isInvalidated(equipmentQueryKeys.unit('ht 02'))).toBe(false);
+    });
+
+    test('sensor and maintenance changes invalidate only their own log', async () => {
+      await prefetchUnit('ex-01');
+
+      await invalidateEquipment(queryClient, 'ex-01', 'maintenance');
+      expect(isInvalidated(equipmentQueryKeys.maintenance('ex-01'))).toBe(true);
+      expect(isInvalidated(equipmentQueryKeys.sensors('ex-01'))).toBe(false);
+      expect(isInvalidated(equipmentQueryKeys.unit('ex-01'))).toBe(false);
+
+      await invalidateEquipment(queryClient, 'ex-01', 'sensors');
+      expect(isInvalidated(equipmentQueryKeys.sensors('ex-01'))).toBe(true);
+      expect(isInvalidated(equipmentQueryKeys.list())).toBe(false);
+    });
+  });
+});
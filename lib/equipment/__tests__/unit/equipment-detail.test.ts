@@ -0,0 +1,121 @@
+import { FakeIndexedDB, fakeKeyRange } from '../../../../test/utils/fake-indexeddb';
+import { AggregateChunk, TelemetryDatabase } from '../../../telemetry/persistence/telemetry-database';
+import { TelemetryAggregate } from '../../../telemetry/types';
+import { parseMaintenanceRecords } from '../../equipment-model';
+import {
+  EQUIPMENT_FRESH_MS,
+  fetchEquipmentResource,
+  getMaintenanceApiUrl,
+  isCachedData,
+} from '../../equipment-resources';
+import { loadSensorHistory, mergeSensorHistory } from '../../sensor-history';
+
+const NOW = Date.UTC(2025, 6, 6, 12, 0, 0);
+const HTTP_DATE = new Date(NOW - 3 * 60 * 60 * 1000).toUTCString();
+
+function aggregate(sensorType: string, second: number, avg: number, equipmentId = 'ex-01'): TelemetryAggregate {
+  return { equipmentId, sensorType, timestamp: NOW + second * 1000, min: avg, max: avg, avg, count: 1 };
+}
+
+function chunk(aggregates: TelemetryAggregate[]): AggregateChunk {
+  const [first] = aggregates;
+  return {
+    id: `${first!.equipmentId}:${first!.sensorType}@${first!.timestamp}`,
+    sensorKey: `${first!.equipmentId}:${first!.sensorType}`,
+    equipmentId: first!.equipmentId,
+    sensorType: first!.sensorType,
+    start: first!.timestamp,
+    end: aggregates[aggregates.length - 1]!.timestamp,
+    aggregates,
+  };
+}
+
+function fakeCaches(entries: Record<string, Response>) {
+  return {
+    open: async () => ({ match: async (url: string) => entries[url]?.clone() }),
+  } as unknown as CacheStorage;
+}
+
+describe('equipment resources', () => {
+  const url = getMaintenanceApiUrl('ex 01');
+  const log = [
+    { id: 'm1', equipmentId: 'ex 01', kind: 'service', performedAt: NOW - 2000, summary: 'Oil change' },
+    {
+      id: 'm2',
+      equipmentId: 'ex 01',
+      kind: 'repair',
+      performedAt: NOW - 1000,
+      summary: 'Track tension',
+      technician: 'R. Diaz',
+    },
+  ];
+
+  test('reports network data with its server time', async () => {
+    const fetchImpl = jest.fn(async () => Response.json(log, { headers: { Date: HTTP_DATE } }));
+    const resource = await fetchEquipmentResource(url, parseMaintenanceRecords, { fetch: fetchImpl, now: () => NOW });
+
+    expect(url).toBe('/api/equipment/ex%2001/maintenance');
+    expect(resource).toEqual({ data: [log[1], log[0]], source: 'network', fetchedAt: Date.parse(HTTP_DATE) });
+    // Served by the service worker from its cache: fetched fine but 3h old
+    expect(isCachedData(resource, NOW)).toBe(true);
+    expect(isCachedData({ source: 'network', fetchedAt: NOW - EQUIPMENT_FRESH_MS }, NOW)).toBe(false);
+  });
+
+  test('falls back to the equipment cache when the network fails', async () => {
+    const offline = jest.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+    const caches = fakeCaches({ [url]: Response.json(log, { headers: { Date: HTTP_DATE } }) });
+
+    const resource = await fetchEquipmentResource(url, parseMaintenanceRecords, { fetch: offline, caches, now: () => NOW });
+    expect(resource).toMatchObject({ source: 'cache', fetchedAt: Date.parse(HTTP_DATE) });
+
+    const missing = fetchEquipmentResource('/api/equipment/other', parseMaintenanceRecords, { fetch: offline, caches });
+    await expect(missing).rejects.toThrow('Equipment data unavailable (network unavailable, not cached)');
+
+    const serverError = jest.fn(async () => new Response('', { status: 500 }));
+    await expect(
+      fetchEquipmentResource('/api/equipment/other', parseMaintenanceRecords, { fetch: serverError, caches: null })
+    ).rejects.toThrow('(status 500, not cached)');
+  });
+});
+
+describe('sensor history', () => {
+  test('merges stored chunks with in-memory aggregates, in range, per sensor', () => {
+    const chunks = [
+      chunk([aggregate('pressure', 0, 1), aggregate('pressure', 1, 2)]),
+      chunk([aggregate('pressure', 0, 9, 'other-unit')]),
+      chunk([aggregate('temperature', -500, 70)]),
+    ];
+    const live = { pressure: [aggregate('pressure', 1, 5), aggregate('pressure', 2, 3)] };
+
+    const history = mergeSensorHistory('ex-01', chunks, live, { from: NOW, to: NOW + 10_000 });
+    expect(history).toEqual([
+      { sensorType: 'pressure', aggregates: [aggregate('pressure', 0, 1), live.pressure[0], live.pressure[1]], newest: NOW + 2000 },
+    ]);
+  });
+
+  test('downsamples long ranges to the point budget', () => {
+    const series = Array.from({ length: 1000 }, (_, i) => aggregate('pressure', i, Math.sin(i / 10)));
+    const [history] = mergeSensorHistory('ex-01', [chunk(series)], {}, { from: NOW, to: NOW + 1_000_000 }, 50);
+
+    expect(history?.aggregates).toHaveLength(50);
+    expect(history?.newest).toBe(NOW + 999_000);
+  });
+
+  test('reads stored history from IndexedDB and survives its absence', async () => {
+    const fake = new FakeIndexedDB();
+    const open = () => TelemetryDatabase.open({ indexedDB: fake.asFactory(), keyRange: fakeKeyRange });
+    const db = await open();
+    await db.putChunks([chunk([aggregate('pressure', 0, 1)])]);
+    db.close();
+
+    const range = { from: NOW - 1000, to: NOW + 1000 };
+    const stored = await loadSensorHistory('ex-01', range, { openDatabase: open });
+    expect(stored).toMatchObject({ persisted: true, sensors: [{ sensorType: 'pressure', newest: NOW }] });
+
+    const unavailable = await loadSensorHistory('ex-01', range, {
+      openDatabase: () => Promise.reject(new Error('IndexedDB is not available')),
+      live: { rpm: [aggregate('rpm', 0, 1500)] },
+    });
+    expect(unavailable).toMatchObject({ persisted: false, sensors: [{ sensorType: 'rpm' }] });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Equipment Client - Validated reads of the equipment API
+ *
+ * One method per endpoint; each fetches through fetchEquipmentResource (so
+ * it falls back to the equipment cache offline) and validates the response
+ * with the equipment-model parsers. The hooks use the shared
+ * `equipmentClient`; tests create their own pointed at a local server.
+ *
+ * @example
+ * const client = createEquipmentClient({ baseUrl: 'http://127.0.0.1:4010', caches: null });
+ * const { data, source } = await client.getEquipment('ex-01');
+ */
+
+import {
+  Equipment,
+  MaintenanceRecord,
+  parseEquipment,
+  parseEquipmentList,
+  parseMaintenanceRecords,
+  parseSensorDefinitions,
+  SensorDefinition,
+} from './equipment-model';
+import {
+  CachedResource,
+  EQUIPMENT_API_URL,
+  fetchEquipmentResource,
+  getEquipmentApiUrl,
+  getMaintenanceApiUrl,
+  getSensorDefinitionsApiUrl,
+  ResourceFetchOptions,
+} from './equipment-resources';
+
+export interface EquipmentClientOptions extends ResourceFetchOptions {
+  /** Origin to prefix API paths with (default: same origin) */
+  baseUrl?: string;
+}
+
+export interface EquipmentClient {
+  listEquipment(): Promise<CachedResource<Equipment[]>>;
+  getEquipment(equipmentId: string): Promise<CachedResource<Equipment>>;
+  getSensorDefinitions(equipmentId: string): Promise<CachedResource<SensorDefinition[]>>;
+  getMaintenanceRecords(equipmentId: string): Promise<CachedResource<MaintenanceRecord[]>>;
+}
+
+/**
+ * @throws (from each method) Error if the data is neither reachable nor
+ * cached, or fails validation
+ */
+export function createEquipmentClient({ baseUrl = '', ...options }: EquipmentClientOptions = {}): EquipmentClient {
+  const read = <T>(path: string, parse: (json: unknown) => T) =>
+    fetchEquipmentResource(`${baseUrl}${path}`, parse, options);
+
+  return {
+    listEquipment: () => read(EQUIPMENT_API_URL, parseEquipmentList),
+    getEquipment: (equipmentId) => read(getEquipmentApiUrl(equipmentId), parseEquipment),
+    getSensorDefinitions: (equipmentId) => read(getSensorDefinitionsApiUrl(equipmentId), parseSensorDefinitions),
+    getMaintenanceRecords: (equipmentId) => read(getMaintenanceApiUrl(equipmentId), parseMaintenanceRecords),
+  };
+}
+
+export const equipmentClient = createEquipmentClient();
@@ -0,0 +1,101 @@
+'use client';
+
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { useEffect } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+
+import { useTelemetryStore } from '@/lib/telemetry/stores/telemetry-hooks';
+import { telemetryStore } from '@/lib/telemetry/stores/telemetry-store';
+import { TelemetryAggregate } from '@/lib/telemetry/types';
+import { readingValidator } from '@/lib/telemetry/validation/reading-validator';
+
+import { equipmentClient } from './equipment-client';
+import {
+  equipmentListQuery,
+  equipmentQuery,
+  equipmentQueryKeys,
+  maintenanceQuery,
+  sensorDefinitionsQuery,
+} from './equipment-queries';
+import { loadSensorHistory } from './sensor-history';
+
+const HISTORY_STALE_MS = 30_000;
+
+/**
+ * Every unit in the fleet, with where the data came from
+ */
+export function useEquipmentList() {
+  return useQuery(equipmentListQuery(equipmentClient));
+}
+
+/**
+ * One unit's record; shows its entry from the fleet list while loading
+ */
+export function useEquipment(equipmentId: string) {
+  const queryClient = useQueryClient();
+  return useQuery({
+    ...equipmentQuery(equipmentClient, equipmentId),
+    placeholderData: () => {
+      const list = queryClient.getQueryData(equipmentListQuery(equipmentClient).queryKey);
+      const unit = list?.data.find((entry) => entry.id === equipmentId);
+      return list && unit && { ...list, data: unit };
+    },
+  });
+}
+
+/**
+ * Labels, units, thresholds and priorities of one unit's sensors. Loaded
+ * definitions also arm the ingest unit check for this unit.
+ */
+export function useSensorDefinitions(equipmentId: string) {
+  const query = useQuery(sensorDefinitionsQuery(equipmentClient, equipmentId));
+  const sensors = query.data?.data;
+
+  useEffect(() => {
+    if (sensors) readingValidator.defineSensors(equipmentId, sensors);
+  }, [equipmentId, sensors]);
+
+  return query;
+}
+
+/**
+ * Maintenance log for one unit, newest first
+ */
+export function useMaintenanceLog(equipmentId: string) {
+  return useQuery(maintenanceQuery(equipmentClient, equipmentId));
+}
+
+/**
+ * Downsampled history per sensor over the last durationMs, from IndexedDB
+ * plus the in-memory buffers at the time of loading
+ */
+export function useSensorHistory(equipmentId: string, durationMs: number) {
+  return useQuery({
+    queryKey: equipmentQueryKeys.history(equipmentId, durationMs),
+    queryFn: () => {
+      const live: Record<string, TelemetryAggregate[]> = {};
+      Object.values(telemetryStore.getState().sensors).forEach((entry) => {
+        if (entry.equipmentId === equipmentId) live[entry.sensorType] = entry.buffer.getAll();
+      });
+      const to = Date.now();
+      return loadSensorHistory(equipmentId, { from: to - durationMs, to }, { live });
+    },
+    networkMode: 'always',
+    staleTime: HISTORY_STALE_MS,
+  });
+}
+
+/**
+ * Sensor types the telemetry store holds for one unit, sorted.
+ * Re-renders only when that list changes.
+ */
+export function useEquipmentSensorTypes(equipmentId: string): string[] {
+  return useTelemetryStore(
+    useShallow((state) =>
+      Object.values(state.sensors)
+        .filter((entry) => entry.equipmentId === equipmentId)
+        .map((entry) => entry.sensorType)
+        .sort()
+    )
+  );
+}
@@ -0,0 +1,208 @@
+/**
+ * Equipment Model - Typed equipment, site, sensor and maintenance data
+ *
+ * The shapes served by the equipment API and the validators every response
+ * goes through before it reaches React Query. Telemetry only knows units by
+ * id; this is where names, sites, sensor units and thresholds come from.
+ *
+ * Endpoints (all under /api/equipment, cached by the service worker):
+ * - GET /api/equipment                    Equipment[]
+ * - GET /api/equipment/:id                Equipment
+ * - GET /api/equipment/:id/sensors        SensorDefinition[]
+ * - GET /api/equipment/:id/maintenance    MaintenanceRecord[]
+ *
+ * CAUTION:
+ * - Validators run on cached responses too, which may predate the current
+ *   server. In lists, entries that fail validation are dropped rather than
+ *   failing the whole list; a single resource that fails throws, naming the
+ *   first invalid field.
+ */
+
+import type { SensorThreshold } from '@/lib/telemetry/charts/sensor-chart-model';
+import type { SensorPriority } from '@/lib/telemetry/types';
+
+export interface Site {
+  id: string;
+  name: string;
+  /** IANA time zone, e.g. 'Australia/Perth' */
+  timezone?: string;
+}
+
+export interface Equipment {
+  id: string;
+  name: string;
+  /** e.g. 'Excavator', 'Haul truck' */
+  type: string;
+  site: Site;
+  model?: string;
+  serialNumber?: string;
+}
+
+export const SENSOR_PRIORITIES: readonly SensorPriority[] = ['critical', 'standard', 'auxiliary'];
+
+export interface SensorDefinition {
+  /** Matches TelemetryReading.sensorType */
+  sensorType: string;
+  /** Shown to operators, e.g. 'Hydraulic pressure' */
+  label: string;
+  unit: string;
+  /** Sets the sensor's buffer size in the telemetry store */
+  priority: SensorPriority;
+  /** Values at or above these show as warning / critical */
+  thresholds?: SensorThreshold;
+}
+
+export const MAINTENANCE_KINDS = ['inspection', 'service', 'repair'] as const;
+export type MaintenanceKind = (typeof MAINTENANCE_KINDS)[number];
+
+export interface MaintenanceRecord {
+  id: string;
+  equipmentId: string;
+  kind: MaintenanceKind;
+  /** Epoch ms */
+  performedAt: number;
+  summary: string;
+  technician?: string;
+}
+
+type Fields = Record<string, unknown>;
+
+function fail(path: string, problem: string): never {
+  throw new Error(`Invalid equipment data: ${path} ${problem}`);
+}
+
+function readObject(value: unknown, path: string): Fields {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) fail(path, 'must be an object');
+  return value as Fields;
+}
+
+function readString(fields: Fields, key: string, path: string): string {
+  const value = fields[key];
+  if (typeof value !== 'string' || value.length === 0) fail(`${path}.${key}`, 'must be a non-empty string');
+  return value;
+}
+
+function readOptionalString(fields: Fields, key: string, path: string): string | undefined {
+  return fields[key] === undefined ? undefined : readString(fields, key, path);
+}
+
+function readNumber(fields: Fields, key: string, path: string): number {
+  const value = fields[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) fail(`${path}.${key}`, 'must be a finite number');
+  return value;
+}
+
+function oneOf<T extends string>(fields: Fields, key: string, allowed: readonly T[], path: string): T {
+  const value = fields[key];
+  if (!allowed.includes(value as T)) fail(`${path}.${key}`, `must be one of ${allowed.join(', ')}`);
+  return value as T;
+}
+
+/**
+ * Valid entries of a list response; invalid ones are dropped (see CAUTION)
+ */
+function parseList<T>(json: unknown, parse: (value: unknown, path: string) => T, path: string): T[] {
+  if (!Array.isArray(json)) fail(path, 'must be an array');
+  const items: T[] = [];
+  json.forEach((value, i) => {
+    try {
+      items.push(parse(value, `${path}[${i}]`));
+    } catch {
+      // Dropped: one bad entry must not hide the rest of the fleet
+    }
+  });
+  return items;
+}
+
+export function parseSite(json: unknown, path = 'site'): Site {
+  const fields = readObject(json, path);
+  const timezone = readOptionalString(fields, 'timezone', path);
+  return {
+    id: readString(fields, 'id', path),
+    name: readString(fields, 'name', path),
+    ...(timezone !== undefined && { timezone }),
+  };
+}
+
+/**
+ * @throws Error naming the first invalid field
+ */
+export function parseEquipment(json: unknown, path = 'equipment'): Equipment {
+  const fields = readObject(json, path);
+  const model = readOptionalString(fields, 'model', path);
+  const serialNumber = readOptionalString(fields, 'serialNumber', path);
+  return {
+    id: readString(fields, 'id', path),
+    name: readString(fields, 'name', path),
+    type: readString(fields, 'type', path),
+    site: parseSite(fields.site, `${path}.site`),
+    ...(model !== undefined && { model }),
+    ...(serialNumber !== undefined && { serialNumber }),
+  };
+}
+
+/**
+ * @throws Error if the response is not an array
+ */
+export function parseEquipmentList(json: unknown): Equipment[] {
+  return parseList(json, parseEquipment, 'equipment');
+}
+
+export function parseSensorDefinition(json: unknown, path = 'sensor'): SensorDefinition {
+  const fields = readObject(json, path);
+  const definition: SensorDefinition = {
+    sensorType: readString(fields, 'sensorType', path),
+    label: readString(fields, 'label', path),
+    // Unitless sensors (counts, states) send ''
+    unit: typeof fields.unit === 'string' ? fields.unit : fail(`${path}.unit`, 'must be a string'),
+    priority: oneOf(fields, 'priority', SENSOR_PRIORITIES, path),
+  };
+  if (fields.thresholds === undefined) return definition;
+
+  const thresholds = readObject(fields.thresholds, `${path}.thresholds`);
+  return {
+    ...definition,
+    thresholds: {
+      warning: readNumber(thresholds, 'warning', `${path}.thresholds`),
+      critical: readNumber(thresholds, 'critical', `${path}.thresholds`),
+    },
+  };
+}
+
+/**
+ * Sensor definitions, sorted by label
+ * @throws Error if the response is not an array
+ */
+export function parseSensorDefinitions(json: unknown): SensorDefinition[] {
+  return parseList(json, parseSensorDefinition, 'sensors').sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function parseMaintenanceRecord(json: unknown, path = 'maintenance'): MaintenanceRecord {
+  const fields = readObject(json, path);
+  const technician = readOptionalString(fields, 'technician', path);
+  return {
+    id: readString(fields, 'id', path),
+    equipmentId: readString(fields, 'equipmentId', path),
+    kind: oneOf(fields, 'kind', MAINTENANCE_KINDS, path),
+    performedAt: readNumber(fields, 'performedAt', path),
+    summary: readString(fields, 'summary', path),
+    ...(technician !== undefined && { technician }),
+  };
+}
+
+/**
+ * Maintenance log, newest first
+ * @throws Error if the response is not an array
+ */
+export function parseMaintenanceRecords(json: unknown): MaintenanceRecord[] {
+  return parseList(json, parseMaintenanceRecord, 'maintenance').sort((a, b) => b.performedAt - a.performedAt);
+}
+
+/**
+ * Distinct sites of a fleet, sorted by name
+ */
+export function getSites(equipment: readonly Equipment[]): Site[] {
+  const sites = new Map<string, Site>();
+  equipment.forEach((unit) => sites.set(unit.site.id, unit.site));
+  return [...sites.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,100 @@
+/**
+ * Equipment Queries - React Query keys, options and invalidation rules
+ *
+ * Kept apart from the hooks so prefetching, invalidation and the cache
+ * layout can be used (and tested) without React.
+ *
+ * Key layout - invalidating a prefix refreshes everything under it:
+ *   ['equipment']                                   everything
+ *   ['equipment', 'list']                           the fleet list
+ *   ['equipment', 'unit', id]                       one unit's record
+ *   ['equipment', 'unit', id, 'sensors']            its sensor definitions
+ *   ['equipment', 'unit', id, 'maintenance']        its maintenance log
+ *   ['equipment', 'unit', id, 'history', ms]        its stored telemetry
+ *
+ * Invalidation rules (invalidateEquipment):
+ * - 'unit': a unit was edited (renamed, moved site) - its queries and the
+ *   list, which embeds it
+ * - 'sensors': its sensor configuration changed - sensor definitions only
+ * - 'maintenance': maintenance was recorded - its maintenance log only
+ */
+
+import { QueryClient, queryOptions } from '@tanstack/react-query';
+
+import { EquipmentClient } from './equipment-client';
+
+/** Fleet list, unit records and sensor definitions change rarely */
+export const EQUIPMENT_STALE_MS = 10 * 60 * 1000;
+
+// React Query pauses 'online' queries while offline; these must run so
+// they can answer from the equipment cache
+const NETWORK_MODE = 'offlineFirst' as const;
+
+export const equipmentQueryKeys = {
+  all: ['equipment'] as const,
+  list: () => ['equipment', 'list'] as const,
+  unit: (equipmentId: string) => ['equipment', 'unit', equipmentId] as const,
+  sensors: (equipmentId: string) => ['equipment', 'unit', equipmentId, 'sensors'] as const,
+  maintenance: (equipmentId: string) => ['equipment', 'unit', equipmentId, 'maintenance'] as const,
+  history: (equipmentId: string, durationMs: number) =>
+    ['equipment', 'unit', equipmentId, 'history', durationMs] as const,
+};
+
+export function equipmentListQuery(client: EquipmentClient) {
+  return queryOptions({
+    queryKey: equipmentQueryKeys.list(),
+    queryFn: () => client.listEquipment(),
+    staleTime: EQUIPMENT_STALE_MS,
+    networkMode: NETWORK_MODE,
+  });
+}
+
+export function equipmentQuery(client: EquipmentClient, equipmentId: string) {
+  return queryOptions({
+    queryKey: equipmentQueryKeys.unit(equipmentId),
+    queryFn: () => client.getEquipment(equipmentId),
+    staleTime: EQUIPMENT_STALE_MS,
+    networkMode: NETWORK_MODE,
+  });
+}
+
+export function sensorDefinitionsQuery(client: EquipmentClient, equipmentId: string) {
+  return queryOptions({
+    queryKey: equipmentQueryKeys.sensors(equipmentId),
+    queryFn: () => client.getSensorDefinitions(equipmentId),
+    staleTime: EQUIPMENT_STALE_MS,
+    networkMode: NETWORK_MODE,
+  });
+}
+
+export function maintenanceQuery(client: EquipmentClient, equipmentId: string) {
+  return queryOptions({
+    queryKey: equipmentQueryKeys.maintenance(equipmentId),
+    queryFn: () => client.getMaintenanceRecords(equipmentId),
+    networkMode: NETWORK_MODE,
+  });
+}
+
+export type EquipmentChange = 'unit' | 'sensors' | 'maintenance';
+
+/**
+ * Mark the queries affected by a change stale (and refetch active ones)
+ */
+export async function invalidateEquipment(
+  queryClient: Pick<QueryClient, 'invalidateQueries'>,
+  equipmentId: string,
+  change: EquipmentChange = 'unit'
+): Promise<void> {
+  switch (change) {
+    case 'unit':
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: equipmentQueryKeys.unit(equipmentId) }),
+        queryClient.invalidateQueries({ queryKey: equipmentQueryKeys.list() }),
+      ]);
+      return;
+    case 'sensors':
+      return queryClient.invalidateQueries({ queryKey: equipmentQueryKeys.sensors(equipmentId) });
+    case 'maintenance':
+      return queryClient.invalidateQueries({ queryKey: equipmentQueryKeys.maintenance(equipmentId) });
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Equipment Resources - Equipment API reads that say where their data came from
+ *
+ * The equipment page must open underground, so every read resolves from
+ * the network, the service worker, or (when the page isn't controlled yet)
+ * straight from the `fleetops-equipment-v1` cache. Each result carries its
+ * source and the time the server produced it, so panels can say "cached,
+ * 3h old" instead of passing old data off as live.
+ *
+ * TECHNICAL CONTEXT:
+ * - The service worker answers /api/equipment/* StaleWhileRevalidate, so
+ *   even a successful fetch may be a cached copy; the HTTP Date header
+ *   (kept on cached responses) is the only reliable age
+ * - Responses without a Date header are treated as fetched now
+ *
+ * CAUTION:
+ * - Parsers run on cached data too, so they must tolerate responses
+ *   written by older server versions
+ */
+
+import { CACHE_NAMES } from '@/lib/pwa/constants';
+
+/** Data older than this is labelled as cached even if a fetch succeeded */
+export const EQUIPMENT_FRESH_MS = 60_000;
+
+export type ResourceSource = 'network' | 'cache';
+
+export interface CachedResource<T> {
+  data: T;
+  source: ResourceSource;
+  /** When the server produced the data (epoch ms) */
+  fetchedAt: number;
+}
+
+export interface ResourceFetchOptions {
+  fetch?: typeof fetch;
+  /** Default: globalThis.caches (undefined outside secure contexts) */
+  caches?: Pick<CacheStorage, 'open'> | null;
+  now?: () => number;
+}
+
+// Not EQUIPMENT_API_PREFIX from cache-strategies: that module pulls serwist into the page
+export const EQUIPMENT_API_URL = '/api/equipment';
+
+export function getEquipmentApiUrl(equipmentId: string): string {
+  return `${EQUIPMENT_API_URL}/${encodeURIComponent(equipmentId)}`;
+}
+
+export function getSensorDefinitionsApiUrl(equipmentId: string): string {
+  return `${getEquipmentApiUrl(equipmentId)}/sensors`;
+}
+
+export function getMaintenanceApiUrl(equipmentId: string): string {
+  return `${getEquipmentApiUrl(equipmentId)}/maintenance`;
+}
+
+function getFetchedAt(response: Response, now: number): number {
+  const date = Date.parse(response.headers.get('date') ?? '');
+  return Number.isNaN(date) ? now : Math.min(date, now);
+}
+
+/**
+ * Whether data should be presented as cached rather than live
+ */
+export function isCachedData(resource: Pick<CachedResource<unknown>, 'source' | 'fetchedAt'>, now: number): boolean {
+  return resource.source === 'cache' || now - resource.fetchedAt > EQUIPMENT_FRESH_MS;
+}
+
+/**
+ * Read an equipment API resource, falling back to the equipment cache
+ * @throws Error if neither the network nor the cache has it, or parse throws
+ * (a response that fails validation is not replaced by a cached copy)
+ */
+export async function fetchEquipmentResource<T>(
+  url: string,
+  parse: (json: unknown) => T,
+  options: ResourceFetchOptions = {}
+): Promise<CachedResource<T>> {
+  const fetchImpl = options.fetch ?? fetch;
+  const now = (options.now ?? Date.now)();
+
+  let response: Response | null = null;
+  try {
+    response = await fetchImpl(url, { headers: { Accept: 'application/json' } });
+  } catch {
+    // Offline; fall through to the cache
+  }
+  // Outside the try: an invalid response is an error, not a reason to serve older data
+  if (response?.ok) {
+    return { data: parse(await response.json()), source: 'network', fetchedAt: getFetchedAt(response, now) };
+  }
+  const failure = response ? `status ${response.status}` : 'network unavailable';
+
+  const storage = options.caches === undefined ? globalThis.caches : options.caches;
+  const cached = storage ? await (await storage.open(CACHE_NAMES.equipment)).match(url) : undefined;
+  if (!cached) {
+    throw new Error(`Equipment data unavailable (${failure}, not cached): ${url}`);
+  }
+  return { data: parse(await cached.json()), source: 'cache', fetchedAt: getFetchedAt(cached, now) };
+}
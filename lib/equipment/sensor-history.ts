@@ -0,0 +1,121 @@
+/**
+ * Sensor History - One unit's aggregates over a chosen time range
+ *
+ * Combines what is in memory (the telemetry store's buffers, minutes deep)
+ * with what telemetry persistence has written to IndexedDB (up to 24h),
+ * so the history tab works offline and after a reload. The result is
+ * LTTB-downsampled to a chart-sized number of points per sensor.
+ *
+ * TECHNICAL CONTEXT:
+ * - Chunks from IndexedDB and the in-memory buffer overlap; aggregates are
+ *   deduplicated by timestamp, in-memory winning (it may be more complete)
+ *
+ * Performance characteristics:
+ * - O(stored aggregates for the unit) per load; the 24h range is the worst
+ *   case and is only recomputed when the range or unit changes
+ */
+
+import { downsampleAggregateRange, TimeRange } from '@/lib/telemetry/aggregation/downsampling';
+import { AggregateChunk, TelemetryDatabase } from '@/lib/telemetry/persistence/telemetry-database';
+import { TelemetryAggregate } from '@/lib/telemetry/types';
+
+const MINUTE_MS = 60_000;
+
+export const SENSOR_HISTORY_RANGES: readonly { label: string; durationMs: number }[] = [
+  { label: '15 min', durationMs: 15 * MINUTE_MS },
+  { label: '1 hour', durationMs: 60 * MINUTE_MS },
+  { label: '6 hours', durationMs: 6 * 60 * MINUTE_MS },
+  { label: '24 hours', durationMs: 24 * 60 * MINUTE_MS },
+];
+
+/** Points per sensor after downsampling */
+export const SENSOR_HISTORY_MAX_POINTS = 600;
+
+export interface SensorHistory {
+  sensorType: string;
+  /** Oldest first, at most maxPoints */
+  aggregates: TelemetryAggregate[];
+  /** Newest aggregate timestamp in range (LTTB always keeps it) */
+  newest: number;
+}
+
+export interface SensorHistoryResult {
+  sensors: SensorHistory[];
+  /** Whether stored history could be read (false: in-memory data only) */
+  persisted: boolean;
+}
+
+export interface LoadSensorHistoryOptions {
+  /** In-memory aggregates per sensor type, oldest first */
+  live?: Record<string, TelemetryAggregate[]>;
+  maxPoints?: number;
+  /** Default: opens the telemetry database */
+  openDatabase?: () => Promise<Pick<TelemetryDatabase, 'getAllChunks' | 'close'>>;
+}
+
+/**
+ * Merge stored chunks and in-memory aggregates for one unit, sorted by
+ * sensor type, dropping sensors with nothing in range
+ */
+export function mergeSensorHistory(
+  equipmentId: string,
+  chunks: readonly AggregateChunk[],
+  live: Record<string, TelemetryAggregate[]>,
+  range: TimeRange,
+  maxPoints: number = SENSOR_HISTORY_MAX_POINTS
+): SensorHistory[] {
+  const bySensor = new Map<string, Map<number, TelemetryAggregate>>();
+  const add = (sensorType: string, aggregates: readonly TelemetryAggregate[]) => {
+    let series = bySensor.get(sensorType);
+    if (!series) {
+      series = new Map();
+      bySensor.set(sensorType, series);
+    }
+    for (const aggregate of aggregates) series.set(aggregate.timestamp, aggregate);
+  };
+
+  for (const chunk of chunks) {
+    if (chunk.equipmentId === equipmentId && chunk.end >= range.from && chunk.start <= range.to) {
+      add(chunk.sensorType, chunk.aggregates);
+    }
+  }
+  Object.entries(live).forEach(([sensorType, aggregates]) => add(sensorType, aggregates));
+
+  const sensors: SensorHistory[] = [];
+  [...bySensor.keys()].sort().forEach((sensorType) => {
+    const series = [...bySensor.get(sensorType)!.values()].sort((a, b) => a.timestamp - b.timestamp);
+    const aggregates = downsampleAggregateRange(series, { ...range, maxPoints });
+    const last = aggregates[aggregates.length - 1];
+    if (last) sensors.push({ sensorType, aggregates, newest: last.timestamp });
+  });
+  return sensors;
+}
+
+/**
+ * History for every sensor on a unit over a time range
+ */
+export async function loadSensorHistory(
+  equipmentId: string,
+  range: TimeRange,
+  options: LoadSensorHistoryOptions = {}
+): Promise<SensorHistoryResult> {
+  const openDatabase = options.openDatabase ?? (() => TelemetryDatabase.open());
+  let chunks: AggregateChunk[] = [];
+  let persisted = true;
+  try {
+    const db = await openDatabase();
+    try {
+      chunks = await db.getAllChunks();
+    } finally {
+      db.close();
+    }
+  } catch {
+    // No IndexedDB (private mode, SSR) - in-memory data is still worth showing
+    persisted = false;
+  }
+
+  return {
+    sensors: mergeSensorHistory(equipmentId, chunks, options.live ?? {}, range, options.maxPoints),
+    persisted,
+  };
+}
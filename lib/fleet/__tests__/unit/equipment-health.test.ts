@@ -0,0 +1,194 @@
+import { createAlertStore, selectActiveAlerts } from '../../../alerts/alert-store';
+import { createTelemetryStore } from '../../../telemetry/stores/telemetry-store';
+import { EquipmentStatus, TelemetryAggregate } from '../../../telemetry/types';
+import {
+  deriveEquipmentHealth,
+  deriveFleetHealth,
+  EquipmentHealthInput,
+  getEquipmentState,
+  getEquipmentStatus,
+  getSensorDeviation,
+  getStatusPresentation,
+  MIN_BASELINE_AGGREGATES,
+} from '../../equipment-health';
+
+const BASE = 1_700_000_000_000;
+
+function alertStore(...severities: ('critical' | 'error' | 'warning' | 'info')[]) {
+  const alerts = createAlertStore();
+  alerts.getState().applyEvents(
+    severities.map((severity, i) => ({
+      type: 'raised' as const,
+      alertId: `a${i}`,
+      ruleId: 'rule',
+      equipmentId: 'ex-01',
+      sensorType: 'pressure',
+      severity,
+      message: 'Test alert',
+      value: 1,
+      at: BASE,
+    }))
+  );
+  return selectActiveAlerts(alerts.getState());
+}
+
+function input(overrides: Partial<EquipmentHealthInput> = {}): EquipmentHealthInput {
+  return {
+    equipmentId: 'ex-01',
+    activeAlerts: [],
+    lastSeen: BASE,
+    connection: 'connected',
+    deviations: [],
+    ...overrides,
+  };
+}
+
+function aggregate(i: number, avg: number): TelemetryAggregate {
+  return { equipmentId: 'ex-01', sensorType: 'pressure', timestamp: BASE + i * 1000, min: avg, max: avg, avg, count: 1 };
+}
+
+describe('status mapping', () => {
+  const STATUSES: EquipmentStatus[] = ['online', 'alert', 'maintenance', 'offline'];
+
+  test('state and status round-trip one to one', () => {
+    STATUSES.forEach((status) => expect(getEquipmentStatus(getEquipmentState(status))).toBe(status));
+  });
+
+  test('badge and state chip come from the same status', () => {
+    expect(STATUSES.map((status) => getStatusPresentation(status, []))).toEqual([
+      { level: 'operational', state: 'active' },
+      { level: 'warning', state: 'fault' },
+      { level: 'warning', state: 'maintenance' },
+      { level: 'offline', state: 'idle' },
+    ]);
+    expect(getStatusPresentation('alert', alertStore('error'))).toEqual({ level: 'critical', state: 'fault' });
+  });
+});
+
+describe('deriveEquipmentHealth', () => {
+  test('a fresh, connected unit without alerts is online at 100', () => {
+    expect(deriveEquipmentHealth(input(), BASE + 1000)).toEqual({
+      equipmentId: 'ex-01',
+      status: 'online',
+      level: 'operational',
+      state: 'active',
+      score: 100,
+      factors: [],
+    });
+  });
+
+  test('infers alert from active alerts, whatever was reported', () => {
+    const health = deriveEquipmentHealth(
+      input({ reportedStatus: 'online', activeAlerts: alertStore('critical', 'warning') }),
+      BASE
+    );
+
+    expect(health).toMatchObject({ status: 'alert', level: 'critical', state: 'fault', score: 50 });
+    expect(health.factors).toEqual([{ kind: 'alerts', penalty: 50, detail: '2 active alerts' }]);
+  });
+
+  test('caps the alert penalty', () => {
+    const health = deriveEquipmentHealth(input({ activeAlerts: alertStore('critical', 'critical', 'critical') }), BASE);
+    expect(health.score).toBe(30);
+  });
+
+  test('reported maintenance wins over alerts', () => {
+    const health = deriveEquipmentHealth(
+      input({ reportedStatus: 'maintenance', activeAlerts: alertStore('critical') }),
+      BASE
+    );
+    expect(health).toMatchObject({ status: 'maintenance', level: 'warning', state: 'maintenance' });
+  });
+
+  test('goes offline once data is stale, losing freshness points on the way', () => {
+    expect(deriveEquipmentHealth(input({ reportedStatus: 'online' }), BASE + 32_500)).toMatchObject({
+      status: 'online',
+      score: 85,
+    });
+    expect(deriveEquipmentHealth(input({ reportedStatus: 'online' }), BASE + 61_000)).toMatchObject({
+      status: 'offline',
+      level: 'offline',
+      state: 'idle',
+      score: 70,
+    });
+    expect(deriveEquipmentHealth(input({ lastSeen: null }), BASE).factors).toEqual([
+      { kind: 'freshness', penalty: 30, detail: 'no data received' },
+    ]);
+  });
+
+  test('fresh data overrides a stale offline report', () => {
+    expect(deriveEquipmentHealth(input({ reportedStatus: 'offline' }), BASE).status).toBe('online');
+  });
+
+  test('penalises the client losing its feed', () => {
+    expect(deriveEquipmentHealth(input({ connection: 'reconnecting' }), BASE).score).toBe(90);
+    expect(deriveEquipmentHealth(input({ connection: 'disconnected' }), BASE).score).toBe(80);
+  });
+
+  test('deviation lowers the score but never the status', () => {
+    const tolerated = deriveEquipmentHealth(input({ deviations: [1, 3] }), BASE);
+    const extreme = deriveEquipmentHealth(input({ deviations: [1, 4.5, 12] }), BASE);
+
+    expect(tolerated.score).toBe(100);
+    expect(extreme).toMatchObject({ status: 'online', score: 80 });
+    expect(extreme.factors[0]).toEqual({ kind: 'deviation', penalty: 20, detail: 'sensor 12.0σ from baseline' });
+  });
+
+  test('never scores below zero', () => {
+    const health = deriveEquipmentHealth(
+      input({
+        activeAlerts: alertStore('critical', 'critical'),
+        lastSeen: null,
+        connection: 'disconnected',
+        deviations: [10],
+      }),
+      BASE
+    );
+    expect(health.score).toBe(0);
+    expect(health.factors.map((factor) => factor.kind)).toEqual(['alerts', 'freshness', 'connectivity', 'deviation']);
+  });
+});
+
+describe('getSensorDeviation', () => {
+  function entry(values: number[], latest: number) {
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    store.getState().pushAggregates(values.map((value, i) => aggregate(i, value)));
+    store.getState().pushReadings([
+      { equipmentId: 'ex-01', sensorType: 'pressure', value: latest, unit: 'PSI', timestamp: BASE + values.length * 1000 },
+    ]);
+    store.getState().flush();
+    return Object.values(store.getState().sensors)[0]!;
+  }
+
+  test('is unknown until the baseline has enough aggregates', () => {
+    expect(getSensorDeviation(entry([1, 2, 3], 100))).toBeNull();
+  });
+
+  test('measures the latest reading in standard deviations of the baseline', () => {
+    // Alternating 9 / 11: mean 10, standard deviation 1
+    const values = Array.from({ length: MIN_BASELINE_AGGREGATES }, (_, i) => (i % 2 === 0 ? 9 : 11));
+
+    expect(getSensorDeviation(entry(values, 10))).toBe(0);
+    expect(getSensorDeviation(entry(values, 14))).toBeCloseTo(4);
+    expect(getSensorDeviation(entry(values, 7))).toBeCloseTo(3);
+  });
+});
+
+describe('deriveFleetHealth', () => {
+  test('scores every unit seen in telemetry, statuses or alerts', () => {
+    const telemetry = createTelemetryStore({ scheduleFrame: () => {} });
+    telemetry.getState().pushReadings([
+      { equipmentId: 'ht-01', sensorType: 'speed', value: 30, unit: 'km/h', timestamp: BASE },
+    ]);
+    telemetry.getState().flush();
+    telemetry.getState().setEquipmentStatus('dz-09', 'maintenance');
+    telemetry.getState().setConnectionStatus('connected');
+
+    const health = deriveFleetHealth(telemetry.getState(), alertStore('warning'), BASE + 1000);
+
+    expect(Object.keys(health).sort()).toEqual(['dz-09', 'ex-01', 'ht-01']);
+    expect(health['ht-01']).toMatchObject({ status: 'online', score: 100 });
+    expect(health['dz-09']).toMatchObject({ status: 'maintenance', state: 'maintenance' });
+    expect(health['ex-01']).toMatchObject({ status: 'alert', level: 'warning', state: 'fault', score: 60 });
+  });
+});
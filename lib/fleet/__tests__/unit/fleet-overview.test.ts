@@ -0,0 +1,104 @@
+import { createAlertStore, selectActiveAlerts } from '../../../alerts/alert-store';
+import { createTelemetryStore } from '../../../telemetry/stores/telemetry-store';
+import {
+  buildFleetUnits,
+  DEFAULT_FLEET_QUERY,
+  filterFleetUnits,
+  FleetQuery,
+  parseFleetQuery,
+  rollUpFleet,
+  toFleetSearchParams,
+  UNASSIGNED_SITE,
+} from '../../fleet-overview';
+
+const BASE = 1_700_000_000_000;
+
+const NORTH_PIT = { id: 'north', name: 'North Pit' };
+const SOUTH_PIT = { id: 'south', name: 'South Pit' };
+
+const DIRECTORY = [
+  { id: 'ex-01', name: 'Excavator 1', site: NORTH_PIT, type: 'Excavator' },
+  { id: 'ex-02', name: 'Excavator 2', site: SOUTH_PIT, type: 'Excavator' },
+  { id: 'ht-01', name: 'Haul Truck 1', site: NORTH_PIT, type: 'Haul truck' },
+];
+
+function setup() {
+  const telemetry = createTelemetryStore({ scheduleFrame: () => {} });
+  telemetry.getState().pushReadings([
+    { equipmentId: 'ex-01', sensorType: 'temperature', value: 80, unit: '°C', timestamp: BASE },
+    { equipmentId: 'ex-01', sensorType: 'pressure', value: 3000, unit: 'PSI', timestamp: BASE + 2000 },
+    { equipmentId: 'ht-01', sensorType: 'speed', value: 30, unit: 'km/h', timestamp: BASE + 1000 },
+    { equipmentId: 'dz-09', sensorType: 'rpm', value: 1500, unit: 'rpm', timestamp: BASE + 500 },
+  ]);
+  telemetry.getState().flush();
+  telemetry.getState().setEquipmentStatus('ht-01', 'alert');
+
+  const alerts = createAlertStore();
+  alerts.getState().applyEvents([
+    {
+      type: 'raised',
+      alertId: 'a',
+      ruleId: 'speed',
+      equipmentId: 'ht-01',
+      sensorType: 'speed',
+      severity: 'critical',
+      message: 'Overspeed',
+      value: 30,
+      at: BASE,
+    },
+  ]);
+
+  return buildFleetUnits(DIRECTORY, telemetry.getState(), selectActiveAlerts(alerts.getState()));
+}
+
+function query(overrides: Partial<FleetQuery>): FleetQuery {
+  return { ...DEFAULT_FLEET_QUERY, ...overrides };
+}
+
+describe('fleet overview', () => {
+  test('joins the directory, telemetry and alerts into one row per unit', () => {
+    const units = setup();
+    expect(units.map((unit) => unit.id)).toEqual(['dz-09', 'ex-01', 'ex-02', 'ht-01']);
+
+    const [unassigned, ex1, ex2, truck] = units;
+    expect(unassigned).toMatchObject({ name: 'dz-09', site: UNASSIGNED_SITE, status: 'operational' });
+    expect(ex1).toMatchObject({ status: 'operational', state: 'active', lastSeen: BASE + 2000 });
+    expect(ex1?.metrics.map((reading) => reading.sensorType)).toEqual(['pressure', 'temperature']);
+    expect(ex2).toMatchObject({ status: 'offline', state: 'idle', lastSeen: null, metrics: [] });
+    expect(truck).toMatchObject({ status: 'critical', state: 'fault', activeAlerts: 1 });
+  });
+
+  test('filters and sorts worst first by default', () => {
+    const units = setup();
+    const ids = (q: Partial<FleetQuery>) => filterFleetUnits(units, query(q)).map((unit) => unit.id);
+
+    expect(ids({})).toEqual(['ht-01', 'ex-02', 'dz-09', 'ex-01']);
+    expect(ids({ site: 'North Pit' })).toEqual(['ht-01', 'ex-01']);
+    expect(ids({ search: 'EXCAV', sort: 'name' })).toEqual(['ex-01', 'ex-02']);
+    expect(ids({ status: 'offline' })).toEqual(['ex-02']);
+    expect(ids({ sort: 'age' })).toEqual(['ex-02', 'dz-09', 'ht-01', 'ex-01']);
+  });
+
+  test('rolls status counts up by site and type', () => {
+    const units = setup();
+    expect(rollUpFleet(units, 'site')).toEqual([
+      { key: 'North Pit', total: 2, counts: { operational: 1, warning: 0, critical: 1, offline: 0 } },
+      { key: 'South Pit', total: 1, counts: { operational: 0, warning: 0, critical: 0, offline: 1 } },
+      { key: UNASSIGNED_SITE, total: 1, counts: { operational: 1, warning: 0, critical: 0, offline: 0 } },
+    ]);
+    expect(rollUpFleet(units, 'type').map((group) => [group.key, group.total])).toEqual([
+      ['Excavator', 2],
+      ['Haul truck', 1],
+      ['Unknown', 1],
+    ]);
+  });
+
+  test('round-trips the view through the query string, omitting defaults', () => {
+    const view = query({ search: 'ex', site: 'North Pit', status: 'critical', sort: 'age', view: 'list', rollUp: 'type' });
+    const params = toFleetSearchParams(view);
+
+    expect(parseFleetQuery(params)).toEqual(view);
+    expect(toFleetSearchParams(DEFAULT_FLEET_QUERY).toString()).toBe('');
+    expect(parseFleetQuery(new URLSearchParams('status=purple&sort=random&view=3d'))).toEqual(DEFAULT_FLEET_QUERY);
+  });
+});
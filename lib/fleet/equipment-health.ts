@@ -0,0 +1,287 @@
+/**
+ * Equipment Health - Derived status and 0-100 health score per unit
+ *
+ * Three status vocabularies meet on screen: the feed's EquipmentStatus,
+ * StatusBadge's StatusLevel and EquipmentState's state. This module owns the
+ * one mapping between them (getStatusPresentation) so a badge and a state
+ * chip for the same unit can never disagree, and infers the EquipmentStatus
+ * itself from what the client can see instead of trusting the last message.
+ *
+ * Status inference, first match wins:
+ * 1. maintenance - reported by the server (set deliberately by a planner)
+ * 2. alert - any active alert, or the server reported one
+ * 3. offline - no reading within staleAfterMs (or ever)
+ * 4. online
+ *
+ * Score: 100 minus penalties, clamped to 0-100 and rounded
+ * - alerts: per active alert by severity (HEALTH_ALERT_PENALTY), capped
+ * - freshness: grows linearly from freshWithinMs to staleAfterMs
+ * - connectivity: the client's own feed is reconnecting or down, so even
+ *   fresh-looking data may be about to go stale
+ * - deviation: worst sensor's latest reading against its recent aggregates
+ *
+ * USER CONTEXT:
+ * - Deviation only lowers the score; raising alerts is the rules engine's
+ *   job, so an unusual-but-legal reading never turns a unit red by itself
+ * - An offline unit keeps its alerts' penalties - going quiet mid-fault is
+ *   not an improvement
+ */
+
+import type { Alert } from '@/lib/alerts/alert-store';
+import type { SensorEntry, TelemetryState } from '@/lib/telemetry/stores/telemetry-store';
+import { ConnectionStatus, EquipmentStatus } from '@/lib/telemetry/types';
+import type { AlertSeverity, EquipmentState, StatusLevel } from '@/lib/theme/fleet-theme-context';
+
+export interface StatusPresentation {
+  /** For StatusBadge */
+  level: StatusLevel;
+  /** For EquipmentState */
+  state: EquipmentState;
+}
+
+const EQUIPMENT_STATE: Record<EquipmentStatus, EquipmentState> = {
+  online: 'active',
+  alert: 'fault',
+  maintenance: 'maintenance',
+  offline: 'idle',
+};
+
+const EQUIPMENT_STATUS_BY_STATE: Record<EquipmentState, EquipmentStatus> = {
+  active: 'online',
+  fault: 'alert',
+  maintenance: 'maintenance',
+  idle: 'offline',
+};
+
+export function getEquipmentState(status: EquipmentStatus): EquipmentState {
+  return EQUIPMENT_STATE[status];
+}
+
+/**
+ * The EquipmentStatus an EquipmentState was derived from (the mapping is
+ * one-to-one)
+ */
+export function getEquipmentStatus(state: EquipmentState): EquipmentStatus {
+  return EQUIPMENT_STATUS_BY_STATE[state];
+}
+
+/**
+ * Status shown for a unit; 'alert' is critical when any of its active
+ * alerts is error or critical severity, otherwise a warning
+ */
+export function getStatusLevel(status: EquipmentStatus, alerts: readonly Alert[]): StatusLevel {
+  switch (status) {
+    case 'online':
+      return 'operational';
+    case 'offline':
+      return 'offline';
+    case 'maintenance':
+      return 'warning';
+    case 'alert':
+      return alerts.some((alert) => alert.severity === 'critical' || alert.severity === 'error')
+        ? 'critical'
+        : 'warning';
+  }
+}
+
+/**
+ * Badge level and state chip for one unit, from the same status
+ * @param alerts The unit's active alerts
+ */
+export function getStatusPresentation(status: EquipmentStatus, alerts: readonly Alert[]): StatusPresentation {
+  return { level: getStatusLevel(status, alerts), state: getEquipmentState(status) };
+}
+
+export const HEALTH_FACTORS = ['alerts', 'freshness', 'connectivity', 'deviation'] as const;
+export type HealthFactorKind = (typeof HEALTH_FACTORS)[number];
+
+export interface HealthFactor {
+  kind: HealthFactorKind;
+  /** Points taken off the score */
+  penalty: number;
+  /** Why, e.g. "2 active alerts" */
+  detail: string;
+}
+
+export interface EquipmentHealth extends StatusPresentation {
+  equipmentId: string;
+  status: EquipmentStatus;
+  /** 0 (worst) - 100 */
+  score: number;
+  /** Non-zero penalties, largest first */
+  factors: HealthFactor[];
+}
+
+export interface EquipmentHealthInput {
+  equipmentId: string;
+  /** Last status from the feed, if any */
+  reportedStatus?: EquipmentStatus;
+  /** The unit's unresolved, unshelved alerts */
+  activeAlerts: readonly Alert[];
+  /** Newest reading timestamp across the unit's sensors */
+  lastSeen: number | null;
+  /** The client's feed connection */
+  connection: ConnectionStatus;
+  /** Per sensor deviation score (see getSensorDeviation) */
+  deviations: readonly number[];
+}
+
+export interface EquipmentHealthOptions {
+  /** Readings younger than this cost nothing (default: 5s) */
+  freshWithinMs?: number;
+  /** Older than this the unit is offline (default: 60s) */
+  staleAfterMs?: number;
+}
+
+export const DEFAULT_FRESH_WITHIN_MS = 5_000;
+export const DEFAULT_STALE_AFTER_MS = 60_000;
+
+export const HEALTH_ALERT_PENALTY: Record<AlertSeverity, number> = {
+  critical: 40,
+  error: 25,
+  warning: 10,
+  info: 2,
+};
+export const MAX_ALERT_PENALTY = 70;
+export const MAX_FRESHNESS_PENALTY = 30;
+export const HEALTH_CONNECTION_PENALTY: Record<ConnectionStatus, number> = {
+  connected: 0,
+  reconnecting: 10,
+  disconnected: 20,
+};
+export const MAX_DEVIATION_PENALTY = 20;
+
+/** Deviation (standard deviations from baseline) where penalties start and max out */
+export const DEVIATION_TOLERANCE = 3;
+export const DEVIATION_LIMIT = 6;
+
+/** Aggregates needed before a sensor's baseline is trusted */
+export const MIN_BASELINE_AGGREGATES = 30;
+
+/**
+ * How far a sensor's latest reading sits from its recent aggregates, in
+ * standard deviations of their averages (count-weighted)
+ * @returns null until the buffer holds MIN_BASELINE_AGGREGATES
+ */
+export function getSensorDeviation(entry: Pick<SensorEntry, 'buffer' | 'latest'>): number | null {
+  const { buffer, latest } = entry;
+  if (!latest || buffer.size < MIN_BASELINE_AGGREGATES) return null;
+
+  let count = 0;
+  let sum = 0;
+  buffer.forEach((aggregate) => {
+    count += aggregate.count;
+    sum += aggregate.avg * aggregate.count;
+  });
+  const mean = sum / count;
+  let squares = 0;
+  buffer.forEach((aggregate) => {
+    squares += aggregate.count * (aggregate.avg - mean) ** 2;
+  });
+  const spread = Math.sqrt(squares / count);
+
+  const distance = Math.abs(latest.value - mean);
+  // A flat baseline: any change at all is as far off as it gets
+  if (spread === 0) return distance === 0 ? 0 : DEVIATION_LIMIT;
+  return distance / spread;
+}
+
+/**
+ * Status, presentation and score for one unit
+ * @param now Epoch ms freshness is measured against
+ */
+export function deriveEquipmentHealth(
+  input: EquipmentHealthInput,
+  now: number,
+  options: EquipmentHealthOptions = {}
+): EquipmentHealth {
+  const { freshWithinMs = DEFAULT_FRESH_WITHIN_MS, staleAfterMs = DEFAULT_STALE_AFTER_MS } = options;
+  const { equipmentId, reportedStatus, activeAlerts, lastSeen, connection, deviations } = input;
+  const age = lastSeen === null ? Infinity : Math.max(0, now - lastSeen);
+
+  let status: EquipmentStatus;
+  if (reportedStatus === 'maintenance') status = 'maintenance';
+  else if (activeAlerts.length > 0 || reportedStatus === 'alert') status = 'alert';
+  else if (age > staleAfterMs) status = 'offline';
+  else status = 'online';
+
+  const factors: HealthFactor[] = [];
+  const penalise = (kind: HealthFactorKind, penalty: number, detail: string) => {
+    if (penalty > 0) factors.push({ kind, penalty, detail });
+  };
+
+  penalise(
+    'alerts',
+    Math.min(MAX_ALERT_PENALTY, activeAlerts.reduce((sum, alert) => sum + HEALTH_ALERT_PENALTY[alert.severity], 0)),
+    `${activeAlerts.length} active alert${activeAlerts.length === 1 ? '' : 's'}`
+  );
+  penalise(
+    'freshness',
+    MAX_FRESHNESS_PENALTY * clamp01((age - freshWithinMs) / (staleAfterMs - freshWithinMs)),
+    lastSeen === null ? 'no data received' : `last reading ${Math.round(age / 1000)}s ago`
+  );
+  penalise('connectivity', HEALTH_CONNECTION_PENALTY[connection], `feed ${connection}`);
+  const worst = Math.max(0, ...deviations);
+  penalise(
+    'deviation',
+    MAX_DEVIATION_PENALTY * clamp01((worst - DEVIATION_TOLERANCE) / (DEVIATION_LIMIT - DEVIATION_TOLERANCE)),
+    `sensor ${worst.toFixed(1)}σ from baseline`
+  );
+  factors.sort((a, b) => b.penalty - a.penalty);
+
+  const score = Math.round(Math.max(0, 100 - factors.reduce((sum, factor) => sum + factor.penalty, 0)));
+  return { equipmentId, status, score, factors, ...getStatusPresentation(status, activeAlerts) };
+}
+
+/**
+ * Health of every unit with telemetry, a reported status or an active
+ * alert, keyed by id
+ * @param activeAlerts Unresolved, unshelved alerts (selectActiveAlerts)
+ */
+export function deriveFleetHealth(
+  telemetry: Pick<TelemetryState, 'sensors' | 'equipmentStatus' | 'connectionStatus'>,
+  activeAlerts: readonly Alert[],
+  now: number,
+  options: EquipmentHealthOptions = {}
+): Record<string, EquipmentHealth> {
+  const lastSeen = new Map<string, number>();
+  const deviations = new Map<string, number[]>();
+  for (const entry of Object.values(telemetry.sensors)) {
+    const { equipmentId, latest } = entry;
+    if (latest) lastSeen.set(equipmentId, Math.max(lastSeen.get(equipmentId) ?? -Infinity, latest.timestamp));
+    const list = deviations.get(equipmentId) ?? [];
+    const deviation = getSensorDeviation(entry);
+    if (deviation !== null) list.push(deviation);
+    deviations.set(equipmentId, list);
+  }
+
+  const alertsByUnit = new Map<string, Alert[]>();
+  for (const alert of activeAlerts) {
+    const list = alertsByUnit.get(alert.equipmentId);
+    if (list) list.push(alert);
+    else alertsByUnit.set(alert.equipmentId, [alert]);
+  }
+
+  const ids = new Set([...Object.keys(telemetry.equipmentStatus), ...deviations.keys(), ...alertsByUnit.keys()]);
+  const health: Record<string, EquipmentHealth> = {};
+  for (const equipmentId of ids) {
+    const reportedStatus = telemetry.equipmentStatus[equipmentId];
+    health[equipmentId] = deriveEquipmentHealth(
+      {
+        equipmentId,
+        ...(reportedStatus !== undefined && { reportedStatus }),
+        activeAlerts: alertsByUnit.get(equipmentId) ?? [],
+        lastSeen: lastSeen.get(equipmentId) ?? null,
+        connection: telemetry.connectionStatus,
+        deviations: deviations.get(equipmentId) ?? [],
+      },
+      now,
+      options
+    );
+  }
+  return health;
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -0,0 +1,26 @@
+'use client';
+
+import { useMemo } from 'react';
+
+import { useAlertLists } from '@/lib/alerts/alert-hooks';
+import { useEquipmentList } from '@/lib/equipment/equipment-hooks';
+import { useTelemetryStore } from '@/lib/telemetry/stores/telemetry-hooks';
+
+import { buildFleetUnits, FleetUnit } from './fleet-overview';
+
+/**
+ * One row per unit, joined from the directory, telemetry and alerts.
+ * Recomputed when any sensor updates (at most once per frame).
+ */
+export function useFleetUnits(): { units: FleetUnit[]; directoryError: Error | null } {
+  const directory = useEquipmentList();
+  const sensors = useTelemetryStore((state) => state.sensors);
+  const equipmentStatus = useTelemetryStore((state) => state.equipmentStatus);
+  const { active } = useAlertLists();
+
+  const units = useMemo(
+    () => buildFleetUnits(directory.data?.data ?? [], { sensors, equipmentStatus }, active),
+    [directory.data, sensors, equipmentStatus, active]
+  );
+  return { units, directoryError: directory.error };
+}
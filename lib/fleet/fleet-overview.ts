@@ -0,0 +1,217 @@
+/**
+ * Fleet Overview - Per-unit rows, filters and status roll-ups for /fleet
+ *
+ * Joins the equipment list (name, site, type) with live telemetry and
+ * active alerts into one row per unit, then filters, sorts and counts them.
+ * Everything here is pure so the route can recompute it each frame and the
+ * logic can be tested without React.
+ *
+ * USER CONTEXT:
+ * - Supervisors share views ("all faults at North Pit") as links, so the
+ *   filters round-trip through the URL query string
+ * - Units reporting telemetry but missing from the equipment list (new installs,
+ *   list not cached yet) are still listed, under "Unassigned"
+ *
+ * Performance characteristics:
+ * - buildFleetUnits(): O(sensors + units + alerts)
+ * - filterFleetUnits(): O(n log n) for the sort
+ */
+
+import type { Alert } from '@/lib/alerts/alert-store';
+import type { Equipment } from '@/lib/equipment/equipment-model';
+import type { TelemetryState } from '@/lib/telemetry/stores/telemetry-store';
+import { TelemetryReading } from '@/lib/telemetry/types';
+import type { EquipmentState, StatusLevel } from '@/lib/theme/fleet-theme-context';
+
+import { getStatusPresentation } from './equipment-health';
+
+export const UNASSIGNED_SITE = 'Unassigned';
+export const UNKNOWN_TYPE = 'Unknown';
+
+/** Latest readings shown on each unit's card */
+export const FLEET_KEY_METRIC_COUNT = 3;
+
+export interface FleetUnit {
+  id: string;
+  name: string;
+  site: string;
+  type: string;
+  status: StatusLevel;
+  state: EquipmentState;
+  /** Up to FLEET_KEY_METRIC_COUNT latest readings, by sensor type */
+  metrics: TelemetryReading[];
+  /** Newest reading timestamp across the unit's sensors */
+  lastSeen: number | null;
+  activeAlerts: number;
+}
+
+export const FLEET_SORTS = ['status', 'name', 'site', 'type', 'age'] as const;
+export type FleetSort = (typeof FLEET_SORTS)[number];
+
+export const FLEET_VIEWS = ['grid', 'list'] as const;
+export type FleetView = (typeof FLEET_VIEWS)[number];
+
+export const FLEET_ROLLUP_KEYS = ['site', 'type'] as const;
+export type FleetRollUpBy = (typeof FLEET_ROLLUP_KEYS)[number];
+
+const STATUS_LEVELS: readonly StatusLevel[] = ['operational', 'warning', 'critical', 'offline'];
+
+export interface FleetQuery {
+  /** Matches id or name, case-insensitive */
+  search: string;
+  site: string | null;
+  type: string | null;
+  status: StatusLevel | null;
+  sort: FleetSort;
+  view: FleetView;
+  rollUp: FleetRollUpBy;
+}
+
+export const DEFAULT_FLEET_QUERY: FleetQuery = {
+  search: '',
+  site: null,
+  type: null,
+  status: null,
+  sort: 'status',
+  view: 'grid',
+  rollUp: 'site',
+};
+
+export interface FleetRollUp {
+  key: string;
+  total: number;
+  counts: Record<StatusLevel, number>;
+}
+
+/** Worst first */
+const STATUS_RANK: Record<StatusLevel, number> = { critical: 0, warning: 1, offline: 2, operational: 3 };
+
+/**
+ * One row per unit in the directory or in telemetry, sorted by id
+ * @param activeAlerts Unresolved, unshelved alerts (selectActiveAlerts)
+ */
+export function buildFleetUnits(
+  directory: readonly Equipment[],
+  telemetry: Pick<TelemetryState, 'sensors' | 'equipmentStatus'>,
+  activeAlerts: readonly Alert[] = []
+): FleetUnit[] {
+  const readings = new Map<string, TelemetryReading[]>();
+  for (const entry of Object.values(telemetry.sensors)) {
+    if (!entry.latest) continue;
+    const list = readings.get(entry.equipmentId);
+    if (list) list.push(entry.latest);
+    else readings.set(entry.equipmentId, [entry.latest]);
+  }
+
+  const alertsByUnit = new Map<string, Alert[]>();
+  for (const alert of activeAlerts) {
+    const list = alertsByUnit.get(alert.equipmentId);
+    if (list) list.push(alert);
+    else alertsByUnit.set(alert.equipmentId, [alert]);
+  }
+
+  const known = new Map(directory.map((unit) => [unit.id, unit]));
+  const ids = new Set([...known.keys(), ...readings.keys(), ...Object.keys(telemetry.equipmentStatus)]);
+
+  return [...ids].sort().map((id) => {
+    const summary = known.get(id);
+    const latest = (readings.get(id) ?? []).sort((a, b) => a.sensorType.localeCompare(b.sensorType));
+    const alerts = alertsByUnit.get(id) ?? [];
+    const { level, state } = getStatusPresentation(telemetry.equipmentStatus[id] ?? 'offline', alerts);
+
+    return {
+      id,
+      name: summary?.name ?? id,
+      site: summary?.site.name ?? UNASSIGNED_SITE,
+      type: summary?.type ?? UNKNOWN_TYPE,
+      status: level,
+      state,
+      metrics: latest.slice(0, FLEET_KEY_METRIC_COUNT),
+      lastSeen: latest.length > 0 ? Math.max(...latest.map((reading) => reading.timestamp)) : null,
+      activeAlerts: alerts.length,
+    };
+  });
+}
+
+function compareUnits(sort: FleetSort): (a: FleetUnit, b: FleetUnit) => number {
+  const byName = (a: FleetUnit, b: FleetUnit) => a.name.localeCompare(b.name);
+  switch (sort) {
+    case 'status':
+      return (a, b) => STATUS_RANK[a.status] - STATUS_RANK[b.status] || b.activeAlerts - a.activeAlerts || byName(a, b);
+    case 'name':
+      return byName;
+    case 'site':
+      return (a, b) => a.site.localeCompare(b.site) || byName(a, b);
+    case 'type':
+      return (a, b) => a.type.localeCompare(b.type) || byName(a, b);
+    case 'age':
+      // Oldest data first; never-seen units before everything else
+      return (a, b) => (a.lastSeen ?? -Infinity) - (b.lastSeen ?? -Infinity) || byName(a, b);
+  }
+}
+
+export function filterFleetUnits(units: readonly FleetUnit[], query: FleetQuery): FleetUnit[] {
+  const search = query.search.trim().toLowerCase();
+  return units
+    .filter(
+      (unit) =>
+        (search === '' || unit.id.toLowerCase().includes(search) || unit.name.toLowerCase().includes(search)) &&
+        (query.site === null || unit.site === query.site) &&
+        (query.type === null || unit.type === query.type) &&
+        (query.status === null || unit.status === query.status)
+    )
+    .sort(compareUnits(query.sort));
+}
+
+/**
+ * Status counts per site or type, sorted by key
+ */
+export function rollUpFleet(units: readonly FleetUnit[], by: FleetRollUpBy): FleetRollUp[] {
+  const groups = new Map<string, FleetRollUp>();
+  for (const unit of units) {
+    const key = unit[by];
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, total: 0, counts: { operational: 0, warning: 0, critical: 0, offline: 0 } };
+      groups.set(key, group);
+    }
+    group.total++;
+    group.counts[unit.status]++;
+  }
+  return [...groups.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function oneOf<T extends string>(value: string | null, allowed: readonly T[]): T | null {
+  return allowed.includes(value as T) ? (value as T) : null;
+}
+
+/**
+ * Read a fleet view from the query string; unknown values fall back to
+ * the defaults so an old or hand-edited link still opens
+ */
+export function parseFleetQuery(params: Pick<URLSearchParams, 'get'>): FleetQuery {
+  return {
+    search: params.get('q') ?? DEFAULT_FLEET_QUERY.search,
+    site: params.get('site') || null,
+    type: params.get('type') || null,
+    status: oneOf(params.get('status'), STATUS_LEVELS),
+    sort: oneOf(params.get('sort'), FLEET_SORTS) ?? DEFAULT_FLEET_QUERY.sort,
+    view: oneOf(params.get('view'), FLEET_VIEWS) ?? DEFAULT_FLEET_QUERY.view,
+    rollUp: oneOf(params.get('rollup'), FLEET_ROLLUP_KEYS) ?? DEFAULT_FLEET_QUERY.rollUp,
+  };
+}
+
+/**
+ * Query string for a fleet view, leaving out defaults to keep links short
+ */
+export function toFleetSearchParams(query: FleetQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.search) params.set('q', query.search);
+  if (query.site) params.set('site', query.site);
+  if (query.type) params.set('type', query.type);
+  if (query.status) params.set('status', query.status);
+  if (query.sort !== DEFAULT_FLEET_QUERY.sort) params.set('sort', query.sort);
+  if (query.view !== DEFAULT_FLEET_QUERY.view) params.set('view', query.view);
+  if (query.rollUp !== DEFAULT_FLEET_QUERY.rollUp) params.set('rollup', query.rollUp);
+  return params;
+}
@@ -0,0 +1,204 @@
+// Installs the service worker globals serwist needs - must load first
+import '../../../../test/utils/service-worker-env';
+
+import type { RouteMatchCallback, Strategy } from 'serwist';
+import { CacheFirst, NetworkFirst, StaleWhileRevalidate } from 'serwist';
+
+import { createFetchEvent, fakeCaches, SW_ORIGIN } from '../../../../test/utils/service-worker-env';
+import { CACHE_LIMITS, fleetCacheStrategies } from '../../cache-strategies';
+import { CACHE_NAMES } from '../../constants';
+
+// The real plugin tracks entry age in IndexedDB; record its config instead
+jest.mock('serwist', () => {
+  class ExpirationPlugin {
+    constructor(readonly config: unknown) {}
+  }
+  return { ...jest.requireActual('serwist'), ExpirationPlugin };
+});
+
+type FetchResponder = (url: string) => Response | Promise<Response>;
+
+const originalFetch = globalThis.fetch;
+let fetchMock: jest.Mock<Promise<Response>, [RequestInfo | URL]>;
+
+function mockFetch(responder: FetchResponder) {
+  fetchMock = jest.fn((input: RequestInfo | URL) =>
+    Promise.resolve().then(() => responder(input instanceof Request ? input.url : String(input)))
+  );
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+}
+
+function offline(): never {
+  throw new TypeError('Failed to fetch');
+}
+
+function route(url: string, init?: RequestInit) {
+  const event = createFetchEvent(url, init);
+  const requestUrl = new URL(event.request.url);
+  const match = fleetCacheStrategies.find(
+    (entry) =>
+      (entry.method ?? 'GET') === event.request.method &&
+      (entry.matcher as RouteMatchCallback)({
+        url: requestUrl,
+        request: event.request,
+        sameOrigin: requestUrl.origin === SW_ORIGIN,
+        event: event as unknown as ExtendableEvent,
+      })
+  );
+  return { event, strategy: match?.handler as Strategy | undefined };
+}
+
+/** Run a request through its route and wait for background cache writes */
+async function respond(url: string): Promise<Response> {
+  const { event, strategy } = route(url);
+  if (!strategy) throw new Error(`No route for ${url}`);
+  try {
+    return await strategy.handle({ event: event as unknown as ExtendableEvent, request: event.request });
+  } finally {
+    await event.settled().catch(() => undefined);
+  }
+}
+
+async function cached(cacheName: string, url: string): Promise<string | undefined> {
+  const response = await (await fakeCaches.open(cacheName)).match(new URL(url, SW_ORIGIN).href);
+  return response?.text();
+}
+
+describe('fleetCacheStrategies', () => {
+  beforeEach(() => {
+    fakeCaches.reset();
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+    jest.useRealTimers();
+  });
+
+  describe('routing', () => {
+    test.each([
+      ['/api/telemetry/EX-001/latest', NetworkFirst, CACHE_NAMES.telemetry],
+      ['/api/telemetry?since=0', NetworkFirst, CACHE_NAMES.telemetry],
+      ['/api/equipment/EX-001', StaleWhileRevalidate, CACHE_NAMES.equipment],
+      ['https://api.mapbox.com/v4/mapbox.satellite/14/1/2.png', CacheFirst, CACHE_NAMES.mapTiles],
+      ['https://a.tiles.mapbox.com/v4/mapbox.streets/14/1/2.pbf', CacheFirst, CACHE_NAMES.mapTiles],
+    ])('%s -> %p', (url, strategy, cacheName) => {
+      const { strategy: handler } = route(url);
+      expect(handler).toBeInstanceOf(strategy);
+      expect(handler?.cacheName).toBe(cacheName);
+    });
+
+    test.each([
+      ['a cross-origin telemetry API', 'https://other.example/api/telemetry'],
+      ['a lookalike path', '/api/telemetry-export'],
+      ['an unrelated API', '/api/alerts'],
+      ['an insecure tile host', 'http://api.mapbox.com/v4/tile.png'],
+    ])('ignores %s', (_label, url) => {
+      expect(route(url).strategy).toBeUndefined();
+    });
+
+    test('ignores writes (they go through the outbox)', () => {
+      expect(route('/api/equipment/EX-001', { method: 'POST' }).strategy).toBeUndefined();
+    });
+
+    test('every cache is bounded by expiration limits', () => {
+      const configs = fleetCacheStrategies.map((entry) => {
+        const plugins = (entry.handler as Strategy).plugins as unknown as { config?: unknown }[];
+        return plugins.find((plugin) => plugin.config)?.config;
+      });
+
+      expect(configs).toEqual([
+        { maxEntries: CACHE_LIMITS.telemetry.maxEntries, maxAgeSeconds: CACHE_LIMITS.telemetry.maxAgeSeconds },
+        { maxEntries: CACHE_LIMITS.equipment.maxEntries, maxAgeSeconds: CACHE_LIMITS.equipment.maxAgeSeconds },
+        {
+          maxEntries: CACHE_LIMITS.mapTiles.maxEntries,
+          maxAgeSeconds: CACHE_LIMITS.mapTiles.maxAgeSeconds,
+          purgeOnQuotaError: true,
+        },
+      ]);
+    });
+  });
+
+  describe('telemetry (NetworkFirst)', () => {
+    const url = '/api/telemetry/EX-001/latest';
+
+    test('serves the network and caches the response', async () => {
+      mockFetch(() => new Response('live'));
+      expect(await (await respond(url)).text()).toBe('live');
+      expect(await cached(CACHE_NAMES.telemetry, url)).toBe('live');
+    });
+
+    test('falls back to the last cached readings when offline', async () => {
+      mockFetch(() => new Response('before'));
+      await respond(url);
+
+      mockFetch(offline);
+      expect(await (await respond(url)).text()).toBe('before');
+    });
+
+    test('does not cache error responses', async () => {
+      mockFetch(() => new Response('before'));
+      await respond(url);
+
+      mockFetch(() => new Response('down', { status: 503 }));
+      expect((await respond(url)).status).toBe(503);
+      expect(await cached(CACHE_NAMES.telemetry, url)).toBe('before');
+    });
+
+    test('answers from cache when the network is slower than the timeout', async () => {
+      mockFetch(() => new Response('before'));
+      await respond(url);
+
+      jest.useFakeTimers();
+      let release: (response: Response) => void = () => undefined;
+      mockFetch(() => new Promise((resolve) => (release = resolve)));
+      const { event, strategy } = route(url);
+      const response = strategy!.handle({ event: event as unknown as ExtendableEvent, request: event.request });
+
+      await jest.advanceTimersByTimeAsync(CACHE_LIMITS.telemetry.networkTimeoutSeconds * 1000);
+      expect(await (await response).text()).toBe('before');
+
+      release(new Response('late'));
+      await event.settled();
+    });
+  });
+
+  describe('equipment (StaleWhileRevalidate)', () => {
+    const url = '/api/equipment/EX-001';
+
+    test('answers from cache and refreshes it in the background', async () => {
+      let version = 0;
+      mockFetch(() => new Response(`v${++version}`));
+
+      expect(await (await respond(url)).text()).toBe('v1');
+      expect(await (await respond(url)).text()).toBe('v1');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(await cached(CACHE_NAMES.equipment, url)).toBe('v2');
+      expect(await (await respond(url)).text()).toBe('v2');
+    });
+
+    test('serves cached specs offline', async () => {
+      mockFetch(() => new Response('spec'));
+      await respond(url);
+
+      mockFetch(offline);
+      expect(await (await respond(url)).text()).toBe('spec');
+    });
+
+    test('fails offline when nothing was cached', async () => {
+      mockFetch(offline);
+      await expect(respond(url)).rejects.toThrow();
+    });
+  });
+
+  describe('map tiles (CacheFirst)', () => {
+    test('fetches a tile once, then serves it from cache', async () => {
+      const url = 'https://api.mapbox.com/v4/mapbox.satellite/14/8001/5302.png';
+      mockFetch(() => new Response('tile'));
+
+      expect(await (await respond(url)).text()).toBe('tile');
+      mockFetch(offline);
+      expect(await (await respond(url)).text()).toBe('tile');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Runtime Cache Strategies
+ *
+ * Route-level caching for data the app fetches after the shell has loaded.
+ * Each data type gets the strategy that matches how stale it may be:
+ *
+ * - Telemetry API -> NetworkFirst: live readings when reachable, the last
+ *   known readings (clearly aged by the UI) when not
+ * - Equipment API -> StaleWhileRevalidate: specs and procedures change
+ *   rarely, so answer instantly from cache and refresh in the background
+ * - Map tiles -> CacheFirst: tiles are immutable for a given URL
+ *
+ * USER CONTEXT:
+ * - Inspections happen underground: equipment pages must open with no signal
+ * - A slow 2G response must not block the dashboard - telemetry falls back
+ *   to cache after a short timeout
+ *
+ * TECHNICAL CONTEXT:
+ * - Spread BEFORE `defaultCache` in app/sw.ts; Serwist uses the first
+ *   matching route, and `defaultCache` has its own catch-all `/api/` route
+ * - Caches persist across versions (see CACHE_NAMES), so every route sets
+ *   expiration limits to keep storage bounded
+ *
+ * CAUTION:
+ * - Only GET requests are matched; writes go through the offline outbox
+ * - Only 200 responses are cached (strategy defaults), so error pages never
+ *   replace good data; tiles must be fetched with CORS (Mapbox GL does)
+ * - Map tiles are the only cache purged on quota errors
+ */
+
+import type { RuntimeCaching } from 'serwist';
+import { CacheFirst, ExpirationPlugin, NetworkFirst, StaleWhileRevalidate } from 'serwist';
+
+import { CACHE_NAMES } from './constants';
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export const CACHE_LIMITS = {
+  telemetry: {
+    maxEntries: 200,
+    maxAgeSeconds: DAY_SECONDS, // Matches the 24h persisted in IndexedDB
+    networkTimeoutSeconds: 3,
+  },
+  equipment: {
+    maxEntries: 200,
+    maxAgeSeconds: 7 * DAY_SECONDS, // A week of shifts away from coverage
+  },
+  mapTiles: {
+    maxEntries: 500,
+    maxAgeSeconds: 7 * DAY_SECONDS,
+  },
+} as const;
+
+export const TELEMETRY_API_PREFIX = '/api/telemetry';
+export const EQUIPMENT_API_PREFIX = '/api/equipment';
+export const MAP_TILE_HOSTS = ['api.mapbox.com', 'tiles.mapbox.com'] as const;
+
+function matchesPrefix(pathname: string, prefix: string): boolean {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+function isMapTileHost(hostname: string): boolean {
+  return MAP_TILE_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+export const fleetCacheStrategies: RuntimeCaching[] = [
+  {
+    matcher: ({ url, sameOrigin }) => sameOrigin && matchesPrefix(url.pathname, TELEMETRY_API_PREFIX),
+    handler: new NetworkFirst({
+      cacheName: CACHE_NAMES.telemetry,
+      networkTimeoutSeconds: CACHE_LIMITS.telemetry.networkTimeoutSeconds,
+      plugins: [
+        new ExpirationPlugin({
+          maxEntries: CACHE_LIMITS.telemetry.maxEntries,
+          maxAgeSeconds: CACHE_LIMITS.telemetry.maxAgeSeconds,
+        }),
+      ],
+    }),
+  },
+  {
+    matcher: ({ url, sameOrigin }) => sameOrigin && matchesPrefix(url.pathname, EQUIPMENT_API_PREFIX),
+    handler: new StaleWhileRevalidate({
+      cacheName: CACHE_NAMES.equipment,
+      plugins: [
+        new ExpirationPlugin({
+          maxEntries: CACHE_LIMITS.equipment.maxEntries,
+          maxAgeSeconds: CACHE_LIMITS.equipment.maxAgeSeconds,
+        }),
+      ],
+    }),
+  },
+  {
+    matcher: ({ url }) => url.protocol === 'https:' && isMapTileHost(url.hostname),
+    handler: new CacheFirst({
+      cacheName: CACHE_NAMES.mapTiles,
+      plugins: [
+        new ExpirationPlugin({
+          maxEntries: CACHE_LIMITS.mapTiles.maxEntries,
+          maxAgeSeconds: CACHE_LIMITS.mapTiles.maxAgeSeconds,
+          purgeOnQuotaError: true,
+        }),
+      ],
+    }),
+  },
+];
@@ -0,0 +1,220 @@
+import { FakeIndexedDB } from '../../../../../test/utils/fake-indexeddb';
+import { ReadingValidator } from '../../../../telemetry/validation/reading-validator';
+import { PWA_BUILD_INFO } from '../../../constants';
+import { DeadLetter, OutboxEntry } from '../../../outbox/outbox-database';
+import {
+  collectDiagnosticsBundle,
+  DIAGNOSTICS_FORMAT,
+  getDiagnosticsFilename,
+  uploadDiagnosticsBundle,
+} from '../../diagnostics-bundle';
+import { DiagnosticsJournal } from '../../diagnostics-journal';
+import { REDACTED, redactText, redactValue } from '../../redact';
+
+const NOW = Date.UTC(2025, 6, 6, 20, 34, 44);
+
+async function openJournal(options: { maxEntries?: number } = {}) {
+  const clock = { now: NOW };
+  const journal = await DiagnosticsJournal.open({
+    indexedDB: new FakeIndexedDB().asFactory(),
+    now: () => clock.now,
+    ...options,
+  });
+  return { journal, clock };
+}
+
+function fakeCaches(contents: Record<string, number>) {
+  return {
+    keys: async () => Object.keys(contents),
+    open: async (name: string) => ({ keys: async () => new Array(contents[name] ?? 0).fill(null) }),
+  } as unknown as CacheStorage;
+}
+
+describe('redaction', () => {
+  test.each([
+    ['Authorization: Bearer abc.def-123', `Authorization: Bearer ${REDACTED}`],
+    ['GET /api/telemetry?access_token=s3cr3t&unit=HT-07', `GET /api/telemetry?access_token=${REDACTED}&unit=HT-07`],
+    ['wss://fleet.example/ws?apiKey=xyz', `wss://fleet.example/ws?apiKey=${REDACTED}`],
+    ['token eyJhbGciOi.eyJzdWIiOiIx.c2lnbmF0dXJl expired', `token ${REDACTED} expired`],
+    ['Reported by jane.doe@mine.example', 'Reported by [email]'],
+    ['POST /login?user=op&pass=hunter2&passengers=2', `POST /login?user=op&pass=${REDACTED}&passengers=2`],
+  ])('%s', (input, expected) => {
+    expect(redactText(input)).toBe(expected);
+  });
+
+  test('blanks sensitive keys and keeps operational context', () => {
+    expect(
+      redactValue({
+        equipmentId: 'HT-07',
+        headers: { Authorization: 'Basic dXNlcjpwYXNz', accept: 'application/json' },
+        password: 'hunter2',
+        readings: [1, 2, 3],
+      })
+    ).toEqual({
+      equipmentId: 'HT-07',
+      headers: { Authorization: REDACTED, accept: 'application/json' },
+      password: REDACTED,
+      readings: [1, 2, 3],
+    });
+  });
+
+  test('keeps keys that only contain "pass"', () => {
+    expect(
+      redactValue({ passenger: 'J. Smith', bypass: true, passCount: 3, dbPassword: 'x', passphrase: 'y', pwd: 'z' })
+    ).toEqual({ passenger: 'J. Smith', bypass: true, passCount: 3, dbPassword: REDACTED, passphrase: REDACTED, pwd: REDACTED });
+  });
+
+  test('caps length, depth and array size', () => {
+    expect(redactText('x'.repeat(5000))).toHaveLength(2001);
+    expect(redactValue({ a: { b: { c: { d: { e: 1 } } } } })).toEqual({ a: { b: { c: { d: '[truncated]' } } } });
+    expect(redactValue(new Array(25).fill(0))).toHaveLength(21);
+  });
+});
+
+describe('DiagnosticsJournal', () => {
+  test('redacts entries before storing them', async () => {
+    const { journal } = await openJournal();
+    const error = new Error('fetch /api/equipment?token=abc failed');
+
+    await journal.append({
+      level: 'error',
+      category: 'error',
+      source: 'service-worker',
+      message: `${error.name}: ${error.message}`,
+      stack: error.stack ?? '',
+      context: { session: 'xyz', url: '/api/equipment' },
+    });
+
+    const [entry] = await journal.list();
+    expect(entry).toMatchObject({
+      seq: 1,
+      at: NOW,
+      source: 'service-worker',
+      message: `Error: fetch /api/equipment?token=${REDACTED} failed`,
+      context: { session: REDACTED, url: '/api/equipment' },
+    });
+    expect(entry?.stack?.split('\n').length).toBeLessThanOrEqual(12);
+  });
+
+  test('keeps only the newest maxEntries entries', async () => {
+    const { journal, clock } = await openJournal({ maxEntries: 3 });
+    for (let i = 1; i <= 5; i++) {
+      clock.now = NOW + i;
+      await journal.append({ level: 'info', category: 'lifecycle', message: `event ${i}` });
+    }
+
+    expect((await journal.list()).map((entry) => entry.message)).toEqual(['event 3', 'event 4', 'event 5']);
+  });
+});
+
+describe('diagnostics bundle', () => {
+  test('collects build info, caches, storage and split journal', async () => {
+    const { journal } = await openJournal();
+    await journal.append({ level: 'warn', category: 'connectivity', message: 'offline' });
+    await journal.append({ level: 'error', category: 'error', message: 'TypeError: boom' });
+    await journal.append({ level: 'info', category: 'connectivity', message: 'online' });
+
+    const bundle = await collectDiagnosticsBundle({
+      journal,
+      caches: fakeCaches({ 'fleetops-telemetry-v1': 12, 'fleetops-map-tiles-v1': 300 }),
+      navigator: {
+        userAgent: 'FieldTablet/1.0',
+        onLine: false,
+        storage: { estimate: async () => ({ usage: 1024, quota: 4096 }) } as StorageManager,
+      },
+      now: () => NOW,
+    });
+
+    expect(bundle).toMatchObject({
+      format: DIAGNOSTICS_FORMAT,
+      generatedAt: '2025-07-06T20:34:44.000Z',
+      build: PWA_BUILD_INFO,
+      environment: {
+        userAgent: 'FieldTablet/1.0',
+        online: false,
+        serviceWorker: 'unsupported',
+        storage: { usage: 1024, quota: 4096 },
+      },
+      caches: [
+        { name: 'fleetops-telemetry-v1', entries: 12 },
+        { name: 'fleetops-map-tiles-v1', entries: 300 },
+      ],
+    });
+    expect(bundle.connectivity.map((entry) => entry.message)).toEqual(['offline', 'online']);
+    expect(bundle.journal.map((entry) => entry.message)).toEqual(['TypeError: boom']);
+    expect(() => JSON.parse(JSON.stringify(bundle))).not.toThrow();
+  });
+
+  test('includes telemetry ingest counters and recent quarantined readings', async () => {
+    const validator = new ReadingValidator({ now: () => NOW });
+    validator.validate([
+      { equipmentId: 'HT-07', sensorType: 'speed', value: 31, unit: 'km/h', timestamp: NOW },
+      { equipmentId: 'HT-07', sensorType: 'speed', value: 31, unit: 'km/h', timestamp: NOW / 1000 },
+      { equipmentId: 'HT-07', token: 's3cr3t' },
+    ]);
+
+    const bundle = await collectDiagnosticsBundle({ journal: { list: async () => [] }, caches: null, ingest: validator });
+    expect(bundle.ingest).toMatchObject({
+      accepted: 1,
+      quarantined: 2,
+      byReason: { 'seconds-timestamp': 1, malformed: 1 },
+    });
+    expect(bundle.ingest?.recentQuarantine.map((entry) => [entry.reason, entry.reading])).toEqual([
+      ['seconds-timestamp', expect.objectContaining({ timestamp: NOW / 1000 })],
+      ['malformed', { equipmentId: 'HT-07', token: REDACTED }],
+    ]);
+  });
+
+  test('still produces a bundle when sections are unavailable', async () => {
+    const journal = { list: jest.fn().mockRejectedValue(new Error('IndexedDB is not available')) };
+    const broken = { keys: jest.fn().mockRejectedValue(new Error('SecurityError')) } as unknown as CacheStorage;
+
+    const bundle = await collectDiagnosticsBundle({ journal, caches: broken, navigator: {}, now: () => NOW });
+    expect(bundle).toMatchObject({ caches: null, journal: [], connectivity: [] });
+    expect(bundle.environment.storage).toBeNull();
+  });
+
+  test('names the file after the build and time', async () => {
+    const bundle = await collectDiagnosticsBundle({ journal: { list: async () => [] }, caches: null, now: () => NOW });
+    expect(getDiagnosticsFilename(bundle)).toBe(
+      `fleetops-diagnostics-${PWA_BUILD_INFO.packageVersion}-${PWA_BUILD_INFO.gitHash}-20250706T203444Z.json`
+    );
+  });
+
+  function uploadOutbox(queue: 'pending' | 'dead' | null = null) {
+    const entry = { id: 'upload-1' } as OutboxEntry;
+    return {
+      enqueue: jest.fn(async () => entry),
+      requestSync: jest.fn(async () => undefined),
+      listPending: jest.fn(async () => (queue === 'pending' ? [entry] : [])),
+      listDeadLetters: jest.fn(async () => (queue === 'dead' ? [entry as DeadLetter] : [])),
+    };
+  }
+
+  test('reports whether the upload was sent, is still queued or was rejected', async () => {
+    const bundle = await collectDiagnosticsBundle({ journal: { list: async () => [] }, caches: null, now: () => NOW });
+    const upload = (outbox: ReturnType<typeof uploadOutbox>) =>
+      uploadDiagnosticsBundle(bundle, { endpoint: 'https://support.example/diagnostics', outbox });
+
+    expect((await upload(uploadOutbox())).status).toBe('sent');
+    expect((await upload(uploadOutbox('pending'))).status).toBe('queued');
+    expect((await upload(uploadOutbox('dead'))).status).toBe('rejected');
+  });
+
+  test('uploads through the outbox so it survives being offline', async () => {
+    const bundle = await collectDiagnosticsBundle({ journal: { list: async () => [] }, caches: null, now: () => NOW });
+    const outbox = uploadOutbox('pending');
+
+    await uploadDiagnosticsBundle(bundle, { endpoint: 'https://support.example/diagnostics', outbox });
+    expect(outbox.requestSync).toHaveBeenCalled();
+    expect(outbox.enqueue).toHaveBeenCalledWith({
+      type: 'diagnostics-upload',
+      url: 'https://support.example/diagnostics',
+      body: bundle,
+    });
+
+    await expect(uploadDiagnosticsBundle(bundle, { endpoint: null, outbox })).rejects.toThrow(
+      'No diagnostics upload endpoint configured'
+    );
+  });
+});
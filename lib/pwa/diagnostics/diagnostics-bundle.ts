@@ -0,0 +1,212 @@
+/**
+ * Diagnostics Bundle - One JSON file describing this device's app state
+ *
+ * Collects the journal, build info, cache inventory, storage usage,
+ * connectivity history and telemetry ingest counters so support can
+ * diagnose a device they can't reach.
+ *
+ * USER CONTEXT:
+ * - "Download diagnostics" saves the file so a tech can email it from the
+ *   surface; nothing needs to be online to create it
+ * - "Send to support" queues an upload through the offline outbox, so it
+ *   is delivered whenever the device next has signal; the UI says whether
+ *   it went straight away or is still queued
+ *
+ * TECHNICAL CONTEXT:
+ * - The upload endpoint is pluggable: pass `endpoint`, or set
+ *   NEXT_PUBLIC_DIAGNOSTICS_UPLOAD_URL; with neither, upload is disabled
+ *
+ * CAUTION:
+ * - Journal entries are already redacted; anything added to the bundle here
+ *   must be safe to email (no cache contents, only names and counts)
+ */
+
+import {
+  IngestStats,
+  QuarantinedReading,
+  ReadingValidator,
+  readingValidator,
+} from '@/lib/telemetry/validation/reading-validator';
+
+import { PWA_BUILD_INFO } from '../constants';
+import { getOutbox, Outbox } from '../outbox/outbox';
+import { OutboxEntry } from '../outbox/outbox-database';
+import { DiagnosticsJournal, getDiagnosticsJournal, JournalEntry } from './diagnostics-journal';
+import { redactValue } from './redact';
+
+export const DIAGNOSTICS_FORMAT = 'fleetops-diagnostics';
+export const DIAGNOSTICS_FORMAT_VERSION = 1;
+
+/** Most recent quarantined readings included in the bundle */
+export const DIAGNOSTICS_QUARANTINE_SAMPLES = 20;
+
+export interface CacheInventoryEntry {
+  name: string;
+  entries: number;
+}
+
+export interface TelemetryIngestDiagnostics extends IngestStats {
+  /** Newest last; readings are redacted like journal context */
+  recentQuarantine: QuarantinedReading[];
+}
+
+export interface DiagnosticsBundle {
+  format: typeof DIAGNOSTICS_FORMAT;
+  formatVersion: typeof DIAGNOSTICS_FORMAT_VERSION;
+  /** ISO timestamp */
+  generatedAt: string;
+  build: typeof PWA_BUILD_INFO;
+  environment: {
+    userAgent: string | null;
+    online: boolean | null;
+    serviceWorker: 'controlled' | 'uncontrolled' | 'unsupported';
+    storage: { usage: number | null; quota: number | null } | null;
+  };
+  caches: CacheInventoryEntry[] | null;
+  connectivity: JournalEntry[];
+  journal: JournalEntry[];
+  ingest: TelemetryIngestDiagnostics | null;
+}
+
+export interface CollectDiagnosticsOptions {
+  journal?: Pick<DiagnosticsJournal, 'list'>;
+  /** Cache API to inventory (default: globalThis.caches; null skips it) */
+  caches?: Pick<CacheStorage, 'keys' | 'open'> | null;
+  navigator?: Partial<Pick<Navigator, 'userAgent' | 'onLine' | 'serviceWorker' | 'storage'>>;
+  /** Telemetry ingest validator (default: readingValidator; null skips it) */
+  ingest?: Pick<ReadingValidator, 'stats' | 'getQuarantine'> | null;
+  now?: () => number;
+}
+
+async function inventoryCaches(cacheStorage: Pick<CacheStorage, 'keys' | 'open'>): Promise<CacheInventoryEntry[]> {
+  const names = await cacheStorage.keys();
+  return Promise.all(
+    names.map(async (name) => ({ name, entries: (await (await cacheStorage.open(name)).keys()).length }))
+  );
+}
+
+async function estimateStorage(nav: CollectDiagnosticsOptions['navigator']) {
+  if (!nav?.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await nav.storage.estimate();
+    return { usage: usage ?? null, quota: quota ?? null };
+  } catch {
+    return null;
+  }
+}
+
+function summariseIngest(validator: Pick<ReadingValidator, 'stats' | 'getQuarantine'>): TelemetryIngestDiagnostics {
+  return {
+    ...validator.stats,
+    recentQuarantine: validator
+      .getQuarantine()
+      .slice(-DIAGNOSTICS_QUARANTINE_SAMPLES)
+      .map((entry) => ({ ...entry, reading: redactValue(entry.reading) })),
+  };
+}
+
+/**
+ * Gather everything into one bundle. Sections that fail are left empty
+ * rather than failing the whole export.
+ */
+export async function collectDiagnosticsBundle(options: CollectDiagnosticsOptions = {}): Promise<DiagnosticsBundle> {
+  const nav = options.navigator ?? (typeof navigator === 'undefined' ? undefined : navigator);
+  const cacheStorage = options.caches === undefined ? globalThis.caches ?? null : options.caches;
+  const ingest = options.ingest === undefined ? readingValidator : options.ingest;
+
+  const [entries, cacheInventory, storage] = await Promise.all([
+    (options.journal ? Promise.resolve(options.journal) : getDiagnosticsJournal())
+      .then((journal) => journal.list())
+      .catch(() => [] as JournalEntry[]),
+    cacheStorage ? inventoryCaches(cacheStorage).catch(() => null) : Promise.resolve(null),
+    estimateStorage(nav),
+  ]);
+
+  return {
+    format: DIAGNOSTICS_FORMAT,
+    formatVersion: DIAGNOSTICS_FORMAT_VERSION,
+    generatedAt: new Date((options.now ?? Date.now)()).toISOString(),
+    build: PWA_BUILD_INFO,
+    environment: {
+      userAgent: nav?.userAgent ?? null,
+      online: nav?.onLine ?? null,
+      serviceWorker: !nav?.serviceWorker ? 'unsupported' : nav.serviceWorker.controller ? 'controlled' : 'uncontrolled',
+      storage,
+    },
+    caches: cacheInventory,
+    connectivity: entries.filter((entry) => entry.category === 'connectivity'),
+    journal: entries.filter((entry) => entry.category !== 'connectivity'),
+    ingest: ingest ? summariseIngest(ingest) : null,
+  };
+}
+
+/**
+ * e.g. fleetops-diagnostics-0.1.0-dc7e04f-20250706T203444Z.json
+ */
+export function getDiagnosticsFilename(bundle: DiagnosticsBundle): string {
+  const stamp = bundle.generatedAt.replace(/[-:]/g, '').replace(/\.\d+/, '');
+  return `${DIAGNOSTICS_FORMAT}-${bundle.build.packageVersion}-${bundle.build.gitHash}-${stamp}.json`;
+}
+
+/**
+ * Save the bundle as a JSON file (browser only)
+ */
+export function downloadDiagnosticsBundle(bundle: DiagnosticsBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getDiagnosticsFilename(bundle);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled, or some browsers cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function getDiagnosticsUploadEndpoint(): string | null {
+  return process.env.NEXT_PUBLIC_DIAGNOSTICS_UPLOAD_URL || null;
+}
+
+export interface UploadDiagnosticsOptions {
+  /** Default: getDiagnosticsUploadEndpoint() */
+  endpoint?: string | null;
+  outbox?: Pick<Outbox, 'enqueue' | 'requestSync' | 'listPending' | 'listDeadLetters'>;
+}
+
+/**
+ * Where an upload stands once this page's delivery attempt is over:
+ * - sent: delivered
+ * - queued: still in the outbox (offline, or left to Background Sync)
+ * - rejected: the server refused it; it is in the outbox's dead letters
+ */
+export type DiagnosticsUploadStatus = 'sent' | 'queued' | 'rejected';
+
+export interface DiagnosticsUploadResult {
+  entry: OutboxEntry;
+  status: DiagnosticsUploadStatus;
+}
+
+/**
+ * Queue the bundle for upload and try to deliver it now
+ * @throws Error if no upload endpoint is configured
+ */
+export async function uploadDiagnosticsBundle(
+  bundle: DiagnosticsBundle,
+  options: UploadDiagnosticsOptions = {}
+): Promise<DiagnosticsUploadResult> {
+  const endpoint = options.endpoint === undefined ? getDiagnosticsUploadEndpoint() : options.endpoint;
+  if (!endpoint) {
+    throw new Error('No diagnostics upload endpoint configured');
+  }
+  const outbox = options.outbox ?? (await getOutbox());
+  const entry = await outbox.enqueue({ type: 'diagnostics-upload', url: endpoint, body: bundle });
+
+  // Joins the replay enqueue started, so the queue below reflects its outcome
+  await outbox.requestSync();
+  const [pending, deadLetters] = await Promise.all([outbox.listPending(), outbox.listDeadLetters()]);
+  let status: DiagnosticsUploadStatus = 'sent';
+  if (pending.some((queued) => queued.id === entry.id)) status = 'queued';
+  else if (deadLetters.some((dead) => dead.id === entry.id)) status = 'rejected';
+  return { entry, status };
+}
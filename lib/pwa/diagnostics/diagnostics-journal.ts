@@ -0,0 +1,217 @@
+/**
+ * Diagnostics Journal - Bounded, redacted error/event log in IndexedDB
+ *
+ * Field techs at remote sites can't open devtools, so errors and notable
+ * events are kept on the device for the diagnostics bundle. The service
+ * worker and every page write to the same database.
+ *
+ * TECHNICAL CONTEXT:
+ * - `entries` store: auto-increment `seq`, oldest first; trimmed to
+ *   maxEntries on every write so the journal never grows unbounded
+ * - Messages and context are redacted before they are stored (redact.ts)
+ * - `recordDiagnostic()` never throws - logging must not become a second
+ *   failure inside an error handler
+ *
+ * CAUTION:
+ * - Persists across app versions: schema changes need a version bump
+ */
+
+import { requestToPromise, transactionDone } from '../idb';
+import { redactText, redactValue } from './redact';
+
+export const DIAGNOSTICS_DB_NAME = 'fleetops-diagnostics-v1';
+export const DIAGNOSTICS_DB_VERSION = 1;
+export const DEFAULT_MAX_JOURNAL_ENTRIES = 500;
+
+const ENTRY_STORE = 'entries';
+
+/** Stack frames kept per error; the top of the stack is what matters */
+const MAX_STACK_LINES = 12;
+
+export type JournalLevel = 'error' | 'warn' | 'info';
+
+export type JournalCategory = 'error' | 'connectivity' | 'lifecycle' | 'sync';
+
+export type JournalSource = 'service-worker' | 'page';
+
+export interface JournalEntry {
+  seq: number;
+  /** Epoch ms */
+  at: number;
+  level: JournalLevel;
+  category: JournalCategory;
+  source: JournalSource;
+  message: string;
+  stack?: string;
+  context?: unknown;
+}
+
+export type NewJournalEntry = Omit<JournalEntry, 'seq' | 'at' | 'source'> &
+  Partial<Pick<JournalEntry, 'at' | 'source'>>;
+
+export interface DiagnosticsJournalOptions {
+  /** Database name (default: DIAGNOSTICS_DB_NAME) */
+  name?: string;
+  /** IndexedDB implementation (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+  maxEntries?: number;
+  now?: () => number;
+}
+
+export function getJournalSource(): JournalSource {
+  return typeof window === 'undefined' ? 'service-worker' : 'page';
+}
+
+function trimStack(stack: string): string {
+  return redactText(stack.split('\n').slice(0, MAX_STACK_LINES).join('\n'));
+}
+
+export class DiagnosticsJournal {
+  private readonly maxEntries: number;
+  private readonly now: () => number;
+
+  private constructor(
+    private readonly db: IDBDatabase,
+    options: DiagnosticsJournalOptions
+  ) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_JOURNAL_ENTRIES;
+    this.now = options.now ?? Date.now;
+    db.onversionchange = () => db.close();
+  }
+
+  /**
+   * Open (and create or upgrade) the journal database
+   * @throws Error if IndexedDB is unavailable
+   */
+  static async open(options: DiagnosticsJournalOptions = {}): Promise<DiagnosticsJournal> {
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const request = factory.open(options.name ?? DIAGNOSTICS_DB_NAME, DIAGNOSTICS_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        db.createObjectStore(ENTRY_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+
+    return new DiagnosticsJournal(await requestToPromise(request), options);
+  }
+
+  /**
+   * Redact and store an entry, dropping the oldest beyond maxEntries
+   * @returns The stored entry
+   */
+  async append(entry: NewJournalEntry): Promise<JournalEntry> {
+    const stored: Omit<JournalEntry, 'seq'> = {
+      at: entry.at ?? this.now(),
+      level: entry.level,
+      category: entry.category,
+      source: entry.source ?? getJournalSource(),
+      message: redactText(entry.message),
+      ...(entry.stack && { stack: trimStack(entry.stack) }),
+      ...(entry.context !== undefined && { context: redactValue(entry.context) }),
+    };
+
+    const transaction = this.db.transaction(ENTRY_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(ENTRY_STORE);
+    const seq = (await requestToPromise(store.add(stored))) as number;
+    const count = await requestToPromise(store.count());
+    if (count > this.maxEntries) {
+      const oldest = await requestToPromise(store.getAllKeys(null, count - this.maxEntries));
+      oldest.forEach((key) => store.delete(key));
+    }
+    await done;
+    return { ...stored, seq };
+  }
+
+  /**
+   * Every entry, oldest first
+   */
+  async list(): Promise<JournalEntry[]> {
+    const transaction = this.db.transaction(ENTRY_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(ENTRY_STORE).getAll() as IDBRequest<JournalEntry[]>);
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.db.transaction(ENTRY_STORE, 'readwrite');
+    transaction.objectStore(ENTRY_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+let sharedJournal: Promise<DiagnosticsJournal> | null = null;
+
+/**
+ * The journal shared by this page or service worker, opened on first use
+ * @throws Error if IndexedDB is unavailable (the next call tries again)
+ */
+export function getDiagnosticsJournal(): Promise<DiagnosticsJournal> {
+  if (!sharedJournal) {
+    sharedJournal = DiagnosticsJournal.open().catch((error: unknown) => {
+      sharedJournal = null;
+      throw error;
+    });
+  }
+  return sharedJournal;
+}
+
+/**
+ * Append to the shared journal. Never throws; failures are dropped.
+ */
+export async function recordDiagnostic(entry: NewJournalEntry): Promise<void> {
+  try {
+    const journal = await getDiagnosticsJournal();
+    await journal.append(entry);
+  } catch {
+    // No IndexedDB (private mode, quota) - the console still has it
+  }
+}
+
+/**
+ * Journal an error with its stack
+ */
+export function recordError(error: unknown, context?: unknown): Promise<void> {
+  const err = error instanceof Error ? error : null;
+  return recordDiagnostic({
+    level: 'error',
+    category: 'error',
+    message: err ? `${err.name}: ${err.message}` : String(error),
+    ...(err?.stack && { stack: err.stack }),
+    ...(context !== undefined && { context }),
+  });
+}
+
+/**
+ * Journal connectivity changes and uncaught errors in this page
+ * @returns Stop function
+ */
+export function startDiagnosticsJournal(target: Window = window): () => void {
+  const onOnline = () => void recordDiagnostic({ level: 'info', category: 'connectivity', message: 'online' });
+  const onOffline = () => void recordDiagnostic({ level: 'warn', category: 'connectivity', message: 'offline' });
+  const onError = (event: ErrorEvent) => void recordError(event.error ?? event.message, { origin: 'window.onerror' });
+  const onRejection = (event: PromiseRejectionEvent) =>
+    void recordError(event.reason, { origin: 'unhandledrejection' });
+
+  // Starting state, so the history shows where the session began
+  if (target.navigator.onLine) onOnline();
+  else onOffline();
+
+  target.addEventListener('online', onOnline);
+  target.addEventListener('offline', onOffline);
+  target.addEventListener('error', onError);
+  target.addEventListener('unhandledrejection', onRejection);
+  return () => {
+    target.removeEventListener('online', onOnline);
+    target.removeEventListener('offline', onOffline);
+    target.removeEventListener('error', onError);
+    target.removeEventListener('unhandledrejection', onRejection);
+  };
+}
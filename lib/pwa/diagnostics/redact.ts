@@ -0,0 +1,78 @@
+/**
+ * Redaction - Strip secrets and personal data before anything is journaled
+ *
+ * Diagnostics bundles leave the device by email, so everything written to
+ * the journal passes through here first. Redaction happens on write, not on
+ * export: a secret never reaches IndexedDB.
+ *
+ * Removed:
+ * - Bearer/Basic credentials and JWTs
+ * - Values of sensitive query parameters and object keys (token, password,
+ *   secret, api key, session, auth...)
+ * - Email addresses
+ *
+ * CAUTION:
+ * - Pattern-based, so it is a safety net, not a licence to log secrets
+ */
+
+export const REDACTED = '[redacted]';
+
+/** Longest string kept in a journal entry */
+export const MAX_STRING_LENGTH = 2000;
+
+const MAX_DEPTH = 4;
+const MAX_ARRAY_ITEMS = 20;
+
+/** Password-style keys only: `passenger`, `bypass` and `passCount` are not secrets */
+const SENSITIVE_KEY = /pass(?:word|wd|phrase)|^pass$|^pwd$|secret|token|api[-_]?key|^auth$|authori[sz]ation|session|cookie|credential|signature/i;
+
+const PATTERNS: [RegExp, string][] = [
+  // Authorization header values
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9\-._~+/]+=*/gi, `$1 ${REDACTED}`],
+  // JWTs (three base64url segments)
+  [/\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g, REDACTED],
+  // Sensitive query/form parameters: ?access_token=...&password=...
+  [
+    /([?&;](?:[\w-]*(?:pass(?:word|wd|phrase)|secret|token|api[-_]?key|auth|session|signature)[\w-]*|pass|pwd))=[^&#\s"']*/gi,
+    `$1=${REDACTED}`,
+  ],
+  // Email addresses
+  [/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, '[email]'],
+];
+
+/**
+ * Redact secrets from free text and cap its length
+ */
+export function redactText(text: string): string {
+  let result = text;
+  for (const [pattern, replacement] of PATTERNS) {
+    result = result.replace(pattern, replacement);
+  }
+  return result.length > MAX_STRING_LENGTH ? `${result.slice(0, MAX_STRING_LENGTH)}…` : result;
+}
+
+/**
+ * Redact a JSON-like value: strings are scrubbed, sensitive keys blanked,
+ * depth and array length capped, non-serialisable values described
+ */
+export function redactValue(value: unknown, depth = 0): unknown {
+  if (typeof value === 'string') return redactText(value);
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') return value;
+  if (value === undefined) return undefined;
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'function' || typeof value === 'symbol') return `[${typeof value}]`;
+  if (value instanceof Error) return redactText(`${value.name}: ${value.message}`);
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map((item) => redactValue(item, depth + 1));
+    if (value.length > MAX_ARRAY_ITEMS) items.push(`[+${value.length - MAX_ARRAY_ITEMS} more]`);
+    return items;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    result[key] = SENSITIVE_KEY.test(key) ? REDACTED : redactValue(entry, depth + 1);
+  }
+  return result;
+}
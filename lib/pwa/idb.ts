@@ -0,0 +1,44 @@
+/**
+ * IndexedDB Helpers
+ *
+ * Promise wrappers shared by every IndexedDB-backed store in the app
+ * (telemetry persistence, offline outbox). Both the page and the service
+ * worker use them, so they must not touch the DOM.
+ *
+ * TECHNICAL CONTEXT:
+ * - IndexedDB commits a transaction once no requests are pending, so code
+ *   awaiting these promises must queue follow-up requests immediately
+ *   (no timers or fetches in between)
+ *
+ * CAUTION:
+ * - QuotaExceededError is a DOMException, which is not always an Error
+ *   subclass across realms - check the name, never instanceof
+ */
+
+/**
+ * Resolve with a request's result, reject with its error
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Resolve when a transaction commits, reject if it errors or aborts
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * True for the error browsers raise when a write would exceed storage quota
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'QuotaExceededError';
+}
@@ -0,0 +1,309 @@
+import { FakeIndexedDB } from '../../../../../test/utils/fake-indexeddb';
+import { CriticalOperationRegistry } from '../../../update/critical-operations';
+import { Outbox, OutboxOptions } from '../../outbox';
+import { OutboxDatabase } from '../../outbox-database';
+import { getRetryDelay, replayOutbox } from '../../outbox-replay';
+import { OUTBOX_UPDATED_MESSAGE, syncOutbox } from '../../outbox-sync';
+
+const NOW = 1_700_000_000_000;
+
+type FetchResponder = (url: string, init: RequestInit) => Response | Promise<Response>;
+
+function mockFetch(responder: FetchResponder = () => new Response(null, { status: 201 })) {
+  return jest.fn((input: RequestInfo | URL, init?: RequestInit) =>
+    Promise.resolve(responder(String(input), init ?? {}))
+  );
+}
+
+async function setup(options: OutboxOptions = {}, fake = new FakeIndexedDB()) {
+  const clock = { now: NOW };
+  const fetch = mockFetch();
+  const db = await OutboxDatabase.open({ indexedDB: fake.asFactory() });
+  let ids = 0;
+  const outbox = new Outbox(db, {
+    fetch,
+    now: () => clock.now,
+    random: () => 0,
+    createId: () => `key-${++ids}`,
+    registerSync: async () => true, // Leave delivery to the test
+    ...options,
+  });
+  return { fake, clock, fetch, db, outbox };
+}
+
+function reading(n: number) {
+  return { type: 'manual-reading' as const, url: '/api/readings', body: { value: n } };
+}
+
+describe('Outbox', () => {
+  describe('queue', () => {
+    test('stores entries durably in FIFO order', async () => {
+      const fake = new FakeIndexedDB();
+      const { outbox } = await setup({}, fake);
+      await outbox.enqueue(reading(1));
+      await outbox.enqueue(reading(2));
+
+      // A fresh connection (page reload) sees the same queue
+      const reopened = await OutboxDatabase.open({ indexedDB: fake.asFactory() });
+      const entries = await reopened.list();
+      expect(entries.map((e) => e.body)).toEqual([{ value: 1 }, { value: 2 }]);
+      expect(entries.map((e) => e.id)).toEqual(['key-1', 'key-2']);
+      expect(entries[0]).toMatchObject({ method: 'POST', attempts: 0, createdAt: NOW });
+    });
+
+    test('keeps a caller-supplied idempotency key', async () => {
+      const { outbox } = await setup();
+      const entry = await outbox.enqueue({ ...reading(1), idempotencyKey: 'form-42' });
+      expect(entry.id).toBe('form-42');
+    });
+
+    test('requests a background sync on enqueue', async () => {
+      const registerSync = jest.fn(async () => true);
+      const { outbox, fetch } = await setup({ registerSync });
+      await outbox.enqueue(reading(1));
+
+      expect(registerSync).toHaveBeenCalled();
+      expect(fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    test('sends entries in order with idempotency keys and empties the queue', async () => {
+      const { outbox, fetch, db } = await setup();
+      await outbox.enqueue(reading(1));
+      await outbox.enqueue({ type: 'acknowledgement', url: '/api/alerts/7/ack', method: 'PUT' });
+
+      const result = await replayOutbox(db, { fetch, now: () => NOW });
+      expect(result).toEqual({ sent: 2, deadLettered: 0, remaining: 0, nextAttemptAt: null });
+
+      expect(fetch.mock.calls.map(([url]) => url)).toEqual(['/api/readings', '/api/alerts/7/ack']);
+      const [, init] = fetch.mock.calls[0] ?? [];
+      expect(init?.headers).toMatchObject({ 'Idempotency-Key': 'key-1' });
+      expect(init?.body).toBe(JSON.stringify({ value: 1 }));
+      expect(fetch.mock.calls[1]?.[1]).toMatchObject({ method: 'PUT', body: null });
+    });
+
+    test('treats 409 Conflict as already delivered', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+
+      const fetch = mockFetch(() => new Response(null, { status: 409 }));
+      expect(await replayOutbox(db, { fetch, now: () => NOW })).toMatchObject({ sent: 1, remaining: 0 });
+    });
+
+    test('stops at a retryable failure so later entries never overtake it', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+      await outbox.enqueue(reading(2));
+
+      const fetch = mockFetch(() => new Response(null, { status: 503 }));
+      const result = await replayOutbox(db, { fetch, now: () => NOW, random: () => 0 });
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        sent: 0,
+        deadLettered: 0,
+        remaining: 2,
+        nextAttemptAt: NOW + getRetryDelay(1, { random: () => 0 }),
+      });
+      expect((await db.peek())?.lastError).toBe('HTTP 503');
+    });
+
+    test('retries network errors after the backoff delay', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+
+      let online = false;
+      const fetch = mockFetch(() => {
+        if (!online) throw new TypeError('Failed to fetch');
+        return new Response(null, { status: 200 });
+      });
+      const first = await replayOutbox(db, { fetch, now: () => NOW, random: () => 0 });
+      expect(first.nextAttemptAt).toBe(NOW + 5000);
+
+      online = true;
+      // Not due yet: nothing is sent
+      expect(await replayOutbox(db, { fetch, now: () => NOW + 4999 })).toMatchObject({ sent: 0 });
+      expect(await replayOutbox(db, { fetch, now: () => NOW + 5000 })).toMatchObject({ sent: 1 });
+    });
+
+    test('honours Retry-After', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+
+      const fetch = mockFetch(() => new Response(null, { status: 429, headers: { 'Retry-After': '120' } }));
+      const result = await replayOutbox(db, { fetch, now: () => NOW });
+      expect(result.nextAttemptAt).toBe(NOW + 120_000);
+    });
+
+    test('dead-letters rejected entries and continues with the rest', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+      await outbox.enqueue(reading(2));
+
+      const fetch = mockFetch((_url, init) =>
+        new Response(null, { status: String(init.body).includes('1') ? 422 : 201 })
+      );
+      const result = await replayOutbox(db, { fetch, now: () => NOW });
+
+      expect(result).toMatchObject({ sent: 1, deadLettered: 1, remaining: 0 });
+      const [deadLetter] = await db.listDeadLetters();
+      expect(deadLetter).toMatchObject({
+        id: 'key-1',
+        status: 422,
+        deadAt: NOW,
+        reason: 'Rejected by server (HTTP 422)',
+      });
+    });
+
+    test('dead-letters entries that run out of attempts', async () => {
+      const { outbox, db } = await setup();
+      await outbox.enqueue(reading(1));
+
+      const fetch = mockFetch(() => new Response(null, { status: 500 }));
+      let now = NOW;
+      for (let i = 0; i < 3; i++) {
+        const result = await replayOutbox(db, { fetch, now: () => now, maxAttempts: 3 });
+        now = result.nextAttemptAt ?? now;
+      }
+
+      expect(await db.counts()).toEqual({ pending: 0, deadLetters: 1 });
+      expect((await db.listDeadLetters())[0]?.reason).toBe('Gave up after 3 attempts (HTTP 500)');
+    });
+
+    test('backoff grows exponentially up to the cap', () => {
+      const options = { baseDelayMs: 1000, maxDelayMs: 8000, random: () => 0 };
+      expect([1, 2, 3, 4, 5].map((n) => getRetryDelay(n, options))).toEqual([1000, 2000, 4000, 8000, 8000]);
+      expect(getRetryDelay(1, { baseDelayMs: 1000, random: () => 1 })).toBe(1300);
+    });
+  });
+
+  describe('page fallback', () => {
+    test('replays in the page when Background Sync is unavailable', async () => {
+      const { outbox, fetch } = await setup({ registerSync: async () => false });
+      await outbox.enqueue(reading(1));
+      await outbox.requestSync();
+
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(await outbox.getCounts()).toEqual({ pending: 0, deadLetters: 0 });
+    });
+
+    test('does not replay while offline', async () => {
+      const { outbox, fetch } = await setup({ registerSync: async () => false, isOnline: () => false });
+      await outbox.enqueue(reading(1));
+      await outbox.requestSync();
+
+      expect(fetch).not.toHaveBeenCalled();
+    });
+
+    test('falls back to the page when sync registration throws', async () => {
+      const { outbox, fetch } = await setup({
+        registerSync: async () => {
+          throw new Error('Permission denied');
+        },
+      });
+      await outbox.enqueue(reading(1));
+      await outbox.requestSync();
+
+      expect(fetch).toHaveBeenCalled();
+    });
+
+    test('holds app updates while replaying', async () => {
+      const registry = new CriticalOperationRegistry();
+      const { outbox, fetch } = await setup({ registry });
+      await outbox.enqueue(reading(1));
+      let during: string[] = [];
+      fetch.mockImplementationOnce(async () => {
+        during = registry.getOperations().map((operation) => operation.kind);
+        return new Response(null, { status: 201 });
+      });
+
+      await outbox.replay();
+      expect(during).toEqual(['outbox-replay']);
+      expect(registry.isActive()).toBe(false);
+    });
+
+    test('concurrent replays share one run', async () => {
+      const { outbox, fetch } = await setup();
+      await outbox.enqueue(reading(1));
+
+      await Promise.all([outbox.replay(), outbox.replay()]);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('dead letters', () => {
+    async function withDeadLetter() {
+      const context = await setup({ fetch: mockFetch(() => new Response(null, { status: 400 })) });
+      await context.outbox.enqueue(reading(1));
+      await context.outbox.replay();
+      return context;
+    }
+
+    test('retrying requeues with the same idempotency key and a fresh budget', async () => {
+      const { outbox, clock } = await withDeadLetter();
+      clock.now = NOW + 60_000;
+      await outbox.retryDeadLetter('key-1');
+
+      const [entry] = await outbox.listPending();
+      expect(entry).toMatchObject({ id: 'key-1', attempts: 0, nextAttemptAt: NOW + 60_000 });
+      expect(await outbox.listDeadLetters()).toEqual([]);
+    });
+
+    test('discarding removes the dead letter', async () => {
+      const { outbox } = await withDeadLetter();
+      await outbox.discardDeadLetter('key-1');
+      expect(await outbox.getCounts()).toEqual({ pending: 0, deadLetters: 0 });
+    });
+
+    test('subscribers see count changes', async () => {
+      const { outbox } = await setup();
+      const counts = jest.fn();
+      const unsubscribe = outbox.subscribe(counts);
+
+      await outbox.enqueue(reading(1));
+      unsubscribe();
+      await outbox.enqueue(reading(2));
+
+      expect(counts).toHaveBeenLastCalledWith({ pending: 1, deadLetters: 0 });
+    });
+  });
+});
+
+describe('syncOutbox (service worker)', () => {
+  function scope() {
+    const client = { postMessage: jest.fn() };
+    return {
+      client,
+      scope: { clients: { matchAll: jest.fn(async () => [client]) } } as unknown as Parameters<
+        typeof syncOutbox
+      >[0],
+    };
+  }
+
+  test('replays and notifies open windows', async () => {
+    const fake = new FakeIndexedDB();
+    const { outbox, fetch } = await setup({}, fake);
+    await outbox.enqueue(reading(1));
+
+    const { client, scope: sw } = scope();
+    const result = await syncOutbox(sw, false, { indexedDB: fake.asFactory(), fetch, now: () => NOW });
+
+    expect(result.sent).toBe(1);
+    expect(client.postMessage).toHaveBeenCalledWith({ type: OUTBOX_UPDATED_MESSAGE, result });
+  });
+
+  test('rejects while entries remain so the browser retries', async () => {
+    const fake = new FakeIndexedDB();
+    const { outbox } = await setup({}, fake);
+    await outbox.enqueue(reading(1));
+
+    const fetch = mockFetch(() => new Response(null, { status: 503 }));
+    const options = { indexedDB: fake.asFactory(), fetch, now: () => NOW };
+    await expect(syncOutbox(scope().scope, false, options)).rejects.toThrow(
+      'Outbox sync incomplete: 1 entries still queued'
+    );
+    // The last chance resolves; the page re-requests a sync later
+    await expect(syncOutbox(scope().scope, true, options)).resolves.toMatchObject({ remaining: 1 });
+  });
+});
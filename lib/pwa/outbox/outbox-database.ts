@@ -0,0 +1,236 @@
+/**
+ * Outbox Database - Durable queue for writes captured offline
+ *
+ * Every client-side write that must reach the server (manual readings,
+ * acknowledgements, inspection results) is stored here first. The queue is
+ * shared by the page and the service worker, so either can replay it.
+ *
+ * USER CONTEXT:
+ * - Operators work underground for hours and sync at the surface
+ * - Nothing they record may be lost to a reload, crash or dead battery
+ * - Failed items must stay visible so someone can fix or discard them
+ *
+ * TECHNICAL CONTEXT:
+ * - `outbox` store: auto-increment `seq` gives strict FIFO order
+ * - `dead-letters` store: entries the server rejected or that ran out of
+ *   retries, keyed by idempotency key
+ * - Moves between stores happen in one transaction, so an entry is never
+ *   in both or neither
+ *
+ * CAUTION:
+ * - Persists across app versions: schema changes need OUTBOX_DB_VERSION
+ *   bumps with upgrade steps, never a new database name (data loss)
+ */
+
+import { requestToPromise, transactionDone } from '../idb';
+
+export const OUTBOX_DB_NAME = 'fleetops-outbox-v1';
+export const OUTBOX_DB_VERSION = 1;
+
+/** Background Sync tag the service worker replays the outbox on */
+export const OUTBOX_SYNC_TAG = 'telemetry-sync';
+
+const QUEUE_STORE = 'outbox';
+const DEAD_LETTER_STORE = 'dead-letters';
+
+export type OutboxActionType =
+  | 'manual-reading'
+  | 'acknowledgement'
+  | 'alert-shelve'
+  | 'alert-escalate'
+  | 'inspection-result'
+  | 'diagnostics-upload';
+
+export type OutboxMethod = 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface OutboxEntry {
+  /** Queue position, assigned on insert */
+  seq: number;
+  /** Idempotency key - sent as the Idempotency-Key header on every attempt */
+  id: string;
+  type: OutboxActionType;
+  url: string;
+  method: OutboxMethod;
+  /** JSON-serialisable request body */
+  body: unknown;
+  createdAt: number;
+  attempts: number;
+  /** Earliest time the next attempt may run (retry backoff) */
+  nextAttemptAt: number;
+  lastError?: string;
+}
+
+export type NewOutboxEntry = Omit<OutboxEntry, 'seq'>;
+
+export interface DeadLetter extends OutboxEntry {
+  deadAt: number;
+  /** Human-readable reason shown in the UI */
+  reason: string;
+  /** HTTP status of the final attempt, if the server answered */
+  status?: number;
+}
+
+export interface OutboxCounts {
+  pending: number;
+  deadLetters: number;
+}
+
+export interface OutboxDatabaseOptions {
+  /** Database name (default: OUTBOX_DB_NAME) */
+  name?: string;
+  /** IndexedDB implementation (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+}
+
+export class OutboxDatabase {
+  private constructor(private readonly db: IDBDatabase) {
+    db.onversionchange = () => db.close();
+  }
+
+  /**
+   * Open (and create or upgrade) the outbox database
+   * @throws Error if IndexedDB is unavailable
+   */
+  static async open(options: OutboxDatabaseOptions = {}): Promise<OutboxDatabase> {
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    if (!factory) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const request = factory.open(options.name ?? OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(QUEUE_STORE)) {
+        db.createObjectStore(QUEUE_STORE, { keyPath: 'seq', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(DEAD_LETTER_STORE)) {
+        db.createObjectStore(DEAD_LETTER_STORE, { keyPath: 'id' });
+      }
+    };
+
+    return new OutboxDatabase(await requestToPromise(request));
+  }
+
+  /**
+   * Append an entry to the end of the queue
+   * @returns The stored entry with its queue position
+   */
+  async enqueue(entry: NewOutboxEntry): Promise<OutboxEntry> {
+    const transaction = this.db.transaction(QUEUE_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const seq = await requestToPromise(transaction.objectStore(QUEUE_STORE).add(entry));
+    await done;
+    return { ...entry, seq: seq as number };
+  }
+
+  /**
+   * The entry at the head of the queue
+   */
+  async peek(): Promise<OutboxEntry | undefined> {
+    const transaction = this.db.transaction(QUEUE_STORE, 'readonly');
+    const [head] = await requestToPromise(
+      transaction.objectStore(QUEUE_STORE).getAll(null, 1) as IDBRequest<OutboxEntry[]>
+    );
+    return head;
+  }
+
+  /**
+   * Every queued entry, oldest first
+   */
+  async list(): Promise<OutboxEntry[]> {
+    const transaction = this.db.transaction(QUEUE_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(QUEUE_STORE).getAll() as IDBRequest<OutboxEntry[]>);
+  }
+
+  /**
+   * Replace a queued entry (retry bookkeeping)
+   */
+  async update(entry: OutboxEntry): Promise<void> {
+    const transaction = this.db.transaction(QUEUE_STORE, 'readwrite');
+    transaction.objectStore(QUEUE_STORE).put(entry);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Remove a delivered entry
+   */
+  async remove(seq: number): Promise<void> {
+    const transaction = this.db.transaction(QUEUE_STORE, 'readwrite');
+    transaction.objectStore(QUEUE_STORE).delete(seq);
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Atomically move a queued entry to the dead-letter list
+   */
+  async moveToDeadLetter(entry: OutboxEntry, deadLetter: Omit<DeadLetter, keyof OutboxEntry>): Promise<void> {
+    const transaction = this.db.transaction([QUEUE_STORE, DEAD_LETTER_STORE], 'readwrite');
+    transaction.objectStore(QUEUE_STORE).delete(entry.seq);
+    transaction.objectStore(DEAD_LETTER_STORE).put({ ...entry, ...deadLetter });
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Every dead letter, by idempotency key
+   */
+  async listDeadLetters(): Promise<DeadLetter[]> {
+    const transaction = this.db.transaction(DEAD_LETTER_STORE, 'readonly');
+    return requestToPromise(
+      transaction.objectStore(DEAD_LETTER_STORE).getAll() as IDBRequest<DeadLetter[]>
+    );
+  }
+
+  /**
+   * Move a dead letter back to the END of the queue with a fresh retry
+   * budget. The idempotency key is kept, so a server that already applied
+   * it will not apply it twice.
+   * @returns The requeued entry, or undefined if no such dead letter
+   */
+  async requeueDeadLetter(id: string, now: number): Promise<OutboxEntry | undefined> {
+    const transaction = this.db.transaction([QUEUE_STORE, DEAD_LETTER_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+    const deadLetters = transaction.objectStore(DEAD_LETTER_STORE);
+    const deadLetter = await requestToPromise(deadLetters.get(id) as IDBRequest<DeadLetter | undefined>);
+    if (!deadLetter) {
+      await done;
+      return undefined;
+    }
+
+    const entry: NewOutboxEntry = {
+      id: deadLetter.id,
+      type: deadLetter.type,
+      url: deadLetter.url,
+      method: deadLetter.method,
+      body: deadLetter.body,
+      createdAt: deadLetter.createdAt,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+    deadLetters.delete(id);
+    const seq = await requestToPromise(transaction.objectStore(QUEUE_STORE).add(entry));
+    await done;
+    return { ...entry, seq: seq as number };
+  }
+
+  /**
+   * Permanently drop a dead letter
+   */
+  async discardDeadLetter(id: string): Promise<void> {
+    const transaction = this.db.transaction(DEAD_LETTER_STORE, 'readwrite');
+    transaction.objectStore(DEAD_LETTER_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async counts(): Promise<OutboxCounts> {
+    const transaction = this.db.transaction([QUEUE_STORE, DEAD_LETTER_STORE], 'readonly');
+    const [pending, deadLetters] = await Promise.all([
+      requestToPromise(transaction.objectStore(QUEUE_STORE).count()),
+      requestToPromise(transaction.objectStore(DEAD_LETTER_STORE).count()),
+    ]);
+    return { pending, deadLetters };
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Outbox Replay - Delivers queued writes to the server in order
+ *
+ * Runs in the service worker on Background Sync, or in the page where
+ * Background Sync is unsupported. Entries are sent strictly in queue order;
+ * a retryable failure stops the run so later writes never overtake earlier
+ * ones (an acknowledgement must not land before the reading it refers to).
+ *
+ * Outcome per attempt:
+ * - 2xx, or 409 Conflict (server already applied this idempotency key)
+ *   -> delivered, removed from the queue
+ * - Network error, 408, 425, 429, 5xx -> retry later with exponential
+ *   backoff (Retry-After honoured), run stops
+ * - Any other 4xx -> rejected, moved to the dead-letter list, run continues
+ * - Out of attempts -> moved to the dead-letter list, run continues
+ *
+ * CAUTION:
+ * - Every attempt carries the same Idempotency-Key; servers MUST dedupe on
+ *   it, because a write can succeed while its response is lost
+ */
+
+import { OutboxDatabase, OutboxEntry } from './outbox-database';
+
+export const DEFAULT_MAX_ATTEMPTS = 8;
+export const DEFAULT_RETRY_BASE_DELAY_MS = 5_000;
+export const DEFAULT_RETRY_MAX_DELAY_MS = 15 * 60 * 1000;
+
+export interface OutboxReplayOptions {
+  fetch?: typeof fetch;
+  now?: () => number;
+  /** Attempts before an entry is dead-lettered */
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** Jitter source in [0, 1) (default: Math.random) */
+  random?: () => number;
+}
+
+export interface OutboxReplayResult {
+  sent: number;
+  deadLettered: number;
+  /** Entries still queued after this run */
+  remaining: number;
+  /** When the head of the queue may next be attempted (null if empty) */
+  nextAttemptAt: number | null;
+}
+
+type AttemptOutcome =
+  | { kind: 'sent' }
+  | { kind: 'retry'; error: string; retryAfterMs: number | null }
+  | { kind: 'rejected'; error: string; status: number };
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429]);
+
+/**
+ * Retry delay before attempt number `attempts` (1-based), with up to 30%
+ * jitter so a fleet of devices surfacing together doesn't stampede
+ */
+export function getRetryDelay(
+  attempts: number,
+  options: Pick<OutboxReplayOptions, 'baseDelayMs' | 'maxDelayMs' | 'random'> = {}
+): number {
+  const base = options.baseDelayMs ?? DEFAULT_RETRY_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_RETRY_MAX_DELAY_MS;
+  const random = options.random ?? Math.random;
+  const delay = Math.min(max, base * 2 ** Math.max(0, attempts - 1));
+  return Math.round(delay + delay * 0.3 * random());
+}
+
+function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('Retry-After');
+  if (!header) return null;
+  const seconds = Number(header);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+}
+
+async function attempt(entry: OutboxEntry, fetchFn: typeof fetch): Promise<AttemptOutcome> {
+  let response: Response;
+  try {
+    response = await fetchFn(entry.url, {
+      method: entry.method,
+      headers: {
+        'Content-Type': 'application/json',
+        'Idempotency-Key': entry.id,
+      },
+      body: entry.body === undefined ? null : JSON.stringify(entry.body),
+    });
+  } catch (error) {
+    return { kind: 'retry', error: (error as Error).message || 'Network error', retryAfterMs: null };
+  }
+
+  if (response.ok || response.status === 409) {
+    return { kind: 'sent' };
+  }
+
+  const error = `HTTP ${response.status}`;
+  if (RETRYABLE_STATUSES.has(response.status) || response.status >= 500) {
+    return { kind: 'retry', error, retryAfterMs: parseRetryAfter(response) };
+  }
+  return { kind: 'rejected', error, status: response.status };
+}
+
+/**
+ * Send every due entry, in order, until the queue is empty or blocked
+ * @returns Summary of the run
+ */
+export async function replayOutbox(
+  db: OutboxDatabase,
+  options: OutboxReplayOptions = {}
+): Promise<OutboxReplayResult> {
+  const fetchFn = options.fetch ?? fetch;
+  const now = options.now ?? Date.now;
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  const result: OutboxReplayResult = { sent: 0, deadLettered: 0, remaining: 0, nextAttemptAt: null };
+
+  for (;;) {
+    const entry = await db.peek();
+    if (!entry || entry.nextAttemptAt > now()) break;
+
+    const outcome = await attempt(entry, fetchFn);
+    if (outcome.kind === 'sent') {
+      await db.remove(entry.seq);
+      result.sent++;
+      continue;
+    }
+
+    if (outcome.kind === 'rejected') {
+      await db.moveToDeadLetter(entry, {
+        deadAt: now(),
+        reason: `Rejected by server (${outcome.error})`,
+        status: outcome.status,
+      });
+      result.deadLettered++;
+      continue;
+    }
+
+    const attempts = entry.attempts + 1;
+    if (attempts >= maxAttempts) {
+      await db.moveToDeadLetter(
+        { ...entry, attempts, lastError: outcome.error },
+        { deadAt: now(), reason: `Gave up after ${attempts} attempts (${outcome.error})` }
+      );
+      result.deadLettered++;
+      continue;
+    }
+
+    await db.update({
+      ...entry,
+      attempts,
+      lastError: outcome.error,
+      nextAttemptAt: now() + (outcome.retryAfterMs ?? getRetryDelay(attempts, options)),
+    });
+    break;
+  }
+
+  const [counts, head] = await Promise.all([db.counts(), db.peek()]);
+  result.remaining = counts.pending;
+  result.nextAttemptAt = head?.nextAttemptAt ?? null;
+  return result;
+}
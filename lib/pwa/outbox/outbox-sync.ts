@@ -0,0 +1,51 @@
+/**
+ * Outbox Sync - Service worker side of the offline outbox
+ *
+ * Handles the `telemetry-sync` Background Sync event: replays the outbox,
+ * then tells every open window so sync indicators refresh.
+ *
+ * TECHNICAL CONTEXT:
+ * - Rejecting the sync promise makes the browser retry the sync later with
+ *   its own backoff, so we reject while entries remain queued
+ * - On the browser's last chance we resolve instead; the page re-requests
+ *   a sync on its next load or when it comes back online
+ *
+ * CAUTION:
+ * - Runs in Service Worker context (no DOM access, no window)
+ */
+
+import { OutboxDatabase, OutboxDatabaseOptions } from './outbox-database';
+import { OutboxReplayOptions, OutboxReplayResult, replayOutbox } from './outbox-replay';
+
+/** Service worker -> page message sent after every background replay */
+export const OUTBOX_UPDATED_MESSAGE = 'OUTBOX_UPDATED';
+
+export interface OutboxSyncScope {
+  clients: Pick<Clients, 'matchAll'>;
+}
+
+/**
+ * Replay the outbox and notify open windows
+ * @throws Error if entries are still queued and the browser should retry
+ */
+export async function syncOutbox(
+  scope: OutboxSyncScope,
+  lastChance = false,
+  options: OutboxReplayOptions & OutboxDatabaseOptions = {}
+): Promise<OutboxReplayResult> {
+  const db = await OutboxDatabase.open(options);
+  let result: OutboxReplayResult;
+  try {
+    result = await replayOutbox(db, options);
+  } finally {
+    db.close();
+  }
+
+  const windows = await scope.clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: OUTBOX_UPDATED_MESSAGE, result }));
+
+  if (result.remaining > 0 && !lastChance) {
+    throw new Error(`Outbox sync incomplete: ${result.remaining} entries still queued`);
+  }
+  return result;
+}
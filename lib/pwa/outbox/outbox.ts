@@ -0,0 +1,267 @@
+/**
+ * Outbox - Page-side API for writes that must survive being offline
+ *
+ * Components call `enqueue()` instead of fetch for any write the operator
+ * must not lose. The entry is stored durably first, then delivery is
+ * requested: via Background Sync where the browser supports it (the service
+ * worker replays even if the tab is closed), otherwise by replaying in the
+ * page now and again whenever the network returns.
+ *
+ * USER CONTEXT:
+ * - "Work underground, sync at the surface": enqueue works the same online
+ *   or offline, so operators never see a failed save
+ * - Pending and failed counts drive the sync status the UI shows
+ *
+ * CAUTION:
+ * - enqueue() resolves once the entry is stored, NOT when it is delivered
+ * - Bodies must be JSON-serialisable (they are structured-cloned into
+ *   IndexedDB and JSON-encoded on replay)
+ */
+
+import { CriticalOperationRegistry, criticalOperations } from '../update/critical-operations';
+import {
+  DeadLetter,
+  NewOutboxEntry,
+  OUTBOX_SYNC_TAG,
+  OutboxActionType,
+  OutboxCounts,
+  OutboxDatabase,
+  OutboxEntry,
+  OutboxMethod,
+} from './outbox-database';
+import { OutboxReplayOptions, OutboxReplayResult, replayOutbox } from './outbox-replay';
+import { OUTBOX_UPDATED_MESSAGE } from './outbox-sync';
+
+export interface OutboxAction {
+  type: OutboxActionType;
+  url: string;
+  /** Default: POST */
+  method?: OutboxMethod;
+  body?: unknown;
+  /** Supply when the caller already has one (e.g. retries of a form) */
+  idempotencyKey?: string;
+}
+
+export interface OutboxOptions extends OutboxReplayOptions {
+  createId?: () => string;
+  /**
+   * Register a Background Sync; resolves false where unsupported
+   * (default: the service worker registration's SyncManager)
+   */
+  registerSync?: () => Promise<boolean>;
+  /** Connectivity check (default: navigator.onLine) */
+  isOnline?: () => boolean;
+  /** Holds app updates while the page replays (default: criticalOperations) */
+  registry?: CriticalOperationRegistry;
+}
+
+type CountsListener = (counts: OutboxCounts) => void;
+
+async function defaultRegisterSync(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !navigator.serviceWorker?.controller) {
+    return false;
+  }
+  const registration = await navigator.serviceWorker.ready;
+  // Typed as always present (serwist's globals) but missing in Safari/Firefox
+  if (!('sync' in registration)) return false;
+  await registration.sync.register(OUTBOX_SYNC_TAG);
+  return true;
+}
+
+function defaultIsOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine;
+}
+
+export class Outbox {
+  private readonly createId: () => string;
+  private readonly registerSync: () => Promise<boolean>;
+  private readonly isOnline: () => boolean;
+  private readonly now: () => number;
+  private readonly registry: CriticalOperationRegistry;
+  private readonly listeners = new Set<CountsListener>();
+  private inFlight: Promise<OutboxReplayResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private started = false;
+
+  constructor(
+    private readonly db: OutboxDatabase,
+    private readonly options: OutboxOptions = {}
+  ) {
+    this.createId = options.createId ?? (() => crypto.randomUUID());
+    this.registerSync = options.registerSync ?? defaultRegisterSync;
+    this.isOnline = options.isOnline ?? defaultIsOnline;
+    this.now = options.now ?? Date.now;
+    this.registry = options.registry ?? criticalOperations;
+  }
+
+  /**
+   * Store a write durably and request delivery
+   * @returns The stored entry (its `id` is the idempotency key)
+   */
+  async enqueue(action: OutboxAction): Promise<OutboxEntry> {
+    const now = this.now();
+    const entry: NewOutboxEntry = {
+      id: action.idempotencyKey ?? this.createId(),
+      type: action.type,
+      url: action.url,
+      method: action.method ?? 'POST',
+      body: action.body,
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    };
+
+    const stored = await this.db.enqueue(entry);
+    await this.notify();
+    void this.requestSync();
+    return stored;
+  }
+
+  /**
+   * Ask for delivery: Background Sync if available, else replay in the page
+   */
+  async requestSync(): Promise<void> {
+    try {
+      if (await this.registerSync()) return;
+    } catch {
+      // Registration can fail (permissions, SW mid-update) - replay here
+    }
+    if (this.isOnline()) {
+      await this.replay().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Replay in this page now. Concurrent calls share one run.
+   */
+  replay(): Promise<OutboxReplayResult> {
+    if (!this.inFlight) {
+      // A reload mid-request is safe (idempotency keys) but wastes the attempt
+      const release = this.registry.begin('outbox-replay', 'Sending queued changes');
+      this.inFlight = replayOutbox(this.db, this.options)
+        .then((result) => {
+          this.scheduleRetry(result);
+          return result;
+        })
+        .finally(() => {
+          release();
+          this.inFlight = null;
+          void this.notify();
+        });
+    }
+    return this.inFlight;
+  }
+
+  getCounts(): Promise<OutboxCounts> {
+    return this.db.counts();
+  }
+
+  listPending(): Promise<OutboxEntry[]> {
+    return this.db.list();
+  }
+
+  listDeadLetters(): Promise<DeadLetter[]> {
+    return this.db.listDeadLetters();
+  }
+
+  /**
+   * Put a dead letter back on the queue (e.g. after fixing server data)
+   */
+  async retryDeadLetter(id: string): Promise<void> {
+    const entry = await this.db.requeueDeadLetter(id, this.now());
+    await this.notify();
+    if (entry) void this.requestSync();
+  }
+
+  async discardDeadLetter(id: string): Promise<void> {
+    await this.db.discardDeadLetter(id);
+    await this.notify();
+  }
+
+  /**
+   * Subscribe to pending/dead-letter counts (called once immediately)
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: CountsListener): () => void {
+    this.listeners.add(listener);
+    void this.db.counts().then((counts) => {
+      if (this.listeners.has(listener)) listener(counts);
+    });
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sync when the network returns and refresh counts after SW replays
+   */
+  start(): void {
+    if (this.started || typeof window === 'undefined') return;
+    this.started = true;
+    window.addEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.addEventListener('message', this.handleWorkerMessage);
+    void this.requestSync();
+  }
+
+  stop(): void {
+    if (!this.started) return;
+    this.started = false;
+    window.removeEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', this.handleWorkerMessage);
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private handleOnline = (): void => {
+    void this.requestSync();
+  };
+
+  private handleWorkerMessage = (event: MessageEvent): void => {
+    if ((event.data as { type?: string } | null)?.type === OUTBOX_UPDATED_MESSAGE) {
+      void this.notify();
+    }
+  };
+
+  /** Page-side replays have no browser retry; schedule the next one */
+  private scheduleRetry(result: OutboxReplayResult): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    if (!this.started || result.nextAttemptAt === null) return;
+
+    const delay = Math.max(0, result.nextAttemptAt - this.now());
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.requestSync();
+    }, delay);
+  }
+
+  private async notify(): Promise<void> {
+    if (this.listeners.size === 0) return;
+    const counts = await this.db.counts();
+    this.listeners.forEach((listener) => listener(counts));
+  }
+}
+
+let sharedOutbox: Promise<Outbox> | null = null;
+
+/**
+ * The app-wide outbox, opened and started on first use
+ * @throws Error if IndexedDB is unavailable (the next call tries again)
+ */
+export function getOutbox(): Promise<Outbox> {
+  if (!sharedOutbox) {
+    sharedOutbox = OutboxDatabase.open()
+      .then((db) => {
+        const outbox = new Outbox(db);
+        outbox.start();
+        return outbox;
+      })
+      .catch((error: unknown) => {
+        sharedOutbox = null;
+        throw error;
+      });
+  }
+  return sharedOutbox;
+}
@@ -0,0 +1,217 @@
+import { FakeIndexedDB } from '../../../../../test/utils/fake-indexeddb';
+import { OutboxDatabase } from '../../../outbox/outbox-database';
+import {
+  acknowledgeAlert,
+  AlertPushScope,
+  ALERTS_PAGE_URL,
+  DIGEST_THROTTLE_MS,
+  handleAlertNotificationClick,
+  NOTIFICATION_NAVIGATE_MESSAGE,
+  showAlertPush,
+} from '../../alert-notifications';
+import { ALERT_DIGEST_TAG, AlertNotificationOptions, AlertPushPayload, parseAlertPush } from '../../alert-payload';
+
+const NOW = 1_700_000_000_000;
+
+interface ShownNotification {
+  title: string;
+  options: AlertNotificationOptions;
+  close: jest.Mock;
+  data: unknown;
+}
+
+function alert(overrides: Partial<AlertPushPayload> = {}): AlertPushPayload {
+  return {
+    alertId: 'A-1',
+    equipmentId: 'EX-001',
+    equipmentName: 'Excavator 1',
+    severity: 'critical',
+    title: 'Hydraulic pressure high',
+    body: '312 bar',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function push(data: unknown) {
+  return { json: () => (typeof data === 'string' ? JSON.parse(data) : data) };
+}
+
+function createScope(windows: Partial<WindowClient>[] = []) {
+  const shown: ShownNotification[] = [];
+  const register = jest.fn(async () => undefined);
+
+  const scope = {
+    registration: {
+      showNotification: jest.fn(async (title: string, options: AlertNotificationOptions) => {
+        // Same tag replaces the existing notification, like the browser
+        const index = shown.findIndex((n) => options.tag && n.options.tag === options.tag);
+        const notification = { title, options, close: jest.fn(), data: options.data };
+        if (index >= 0) shown.splice(index, 1, notification);
+        else shown.push(notification);
+      }),
+      getNotifications: jest.fn(async (filter?: { tag?: string }) =>
+        shown.filter((n) => !filter?.tag || n.options.tag === filter.tag)
+      ),
+      sync: { register },
+    },
+    clients: {
+      matchAll: jest.fn(async () => windows),
+      openWindow: jest.fn(async () => null),
+    },
+  };
+  return { scope: scope as unknown as AlertPushScope, raw: scope, shown, register };
+}
+
+describe('parseAlertPush', () => {
+  test('accepts a well-formed alert', () => {
+    expect(parseAlertPush(alert())).toEqual(alert());
+  });
+
+  test.each([
+    ['a non-object', 'critical'],
+    ['a missing alert id', { ...alert(), alertId: '' }],
+    ['an unknown severity', { ...alert(), severity: 'urgent' }],
+    ['the old priority-only stub shape', { priority: 'critical' }],
+  ])('rejects %s', (_label, payload) => {
+    expect(parseAlertPush(payload)).toBeNull();
+  });
+});
+
+describe('showAlertPush', () => {
+  test('shows critical alerts individually with acknowledge and open actions', async () => {
+    const { scope, shown } = createScope();
+    await showAlertPush(scope, push(alert()));
+    await showAlertPush(scope, push(alert({ alertId: 'A-2', severity: 'error' })));
+
+    expect(shown).toHaveLength(2);
+    expect(shown[0]?.title).toBe('CRITICAL: Hydraulic pressure high');
+    expect(shown[0]?.options).toMatchObject({
+      body: 'Excavator 1 - 312 bar',
+      tag: 'fleet-alert-A-1',
+      requireInteraction: true,
+      data: { kind: 'alert', alert: alert() },
+    });
+    expect(shown[0]?.options.actions?.map((a) => a.action)).toEqual(['acknowledge', 'open-equipment']);
+    expect(shown[0]?.options.vibrate).toBeDefined();
+  });
+
+  test('collapses low-priority alerts into one digest', async () => {
+    const { scope, shown } = createScope();
+    await showAlertPush(scope, push(alert({ severity: 'warning' })), { now: () => NOW });
+    expect(shown[0]?.title).toBe('Hydraulic pressure high');
+    expect(shown[0]?.options.actions?.map((a) => a.action)).toEqual(['acknowledge']);
+
+    await showAlertPush(scope, push(alert({ alertId: 'A-2', severity: 'info', title: 'Fuel low' })), {
+      now: () => NOW + 1000,
+    });
+    expect(shown).toHaveLength(1);
+    expect(shown[0]?.title).toBe('2 new alerts');
+    expect(shown[0]?.options).toMatchObject({
+      tag: ALERT_DIGEST_TAG,
+      body: 'Latest: Fuel low (Excavator 1)',
+      actions: [],
+    });
+  });
+
+  test('throttles digest sound and vibration', async () => {
+    const { scope, shown } = createScope();
+    const low = push(alert({ severity: 'info' }));
+
+    await showAlertPush(scope, low, { now: () => NOW });
+    expect(shown[0]?.options).toMatchObject({ silent: false, renotify: true });
+
+    await showAlertPush(scope, low, { now: () => NOW + DIGEST_THROTTLE_MS - 1 });
+    expect(shown[0]?.options).toMatchObject({ silent: true, renotify: false });
+
+    // Throttle runs from the last audible update, not the last silent one
+    await showAlertPush(scope, low, { now: () => NOW + DIGEST_THROTTLE_MS });
+    expect(shown[0]?.options).toMatchObject({ silent: false, renotify: true });
+    expect(shown[0]?.title).toBe('3 new alerts');
+  });
+
+  test('still shows a notification for malformed payloads', async () => {
+    const { scope, shown } = createScope();
+    await expect(showAlertPush(scope, push('not json {'))).resolves.toBeNull();
+    await expect(showAlertPush(scope, null)).resolves.toBeNull();
+    expect(shown.map((n) => n.title)).toEqual(['New fleet alert', 'New fleet alert']);
+  });
+});
+
+describe('handleAlertNotificationClick', () => {
+  async function shownFor(payload: AlertPushPayload, windows: Partial<WindowClient>[] = []) {
+    const context = createScope(windows);
+    await showAlertPush(context.scope, push(payload), { now: () => NOW });
+    const notification = context.shown[0];
+    if (!notification) throw new Error('Nothing shown');
+    return { ...context, notification };
+  }
+
+  test('opens the equipment page when no window is open', async () => {
+    const { scope, raw, notification } = await shownFor(alert({ equipmentId: 'HT 7' }));
+    await handleAlertNotificationClick(scope, notification, '');
+
+    expect(notification.close).toHaveBeenCalled();
+    expect(raw.clients.openWindow).toHaveBeenCalledWith('/equipment/HT%207');
+  });
+
+  test('asks an open window to route itself and focuses it instead of opening another', async () => {
+    const focus = jest.fn(async () => undefined);
+    const windowClient = { focused: true, focus, navigate: jest.fn(), postMessage: jest.fn() };
+    const { scope, raw, notification } = await shownFor(alert(), [windowClient as unknown as WindowClient]);
+
+    await handleAlertNotificationClick(scope, notification, 'open-equipment');
+    expect(windowClient.postMessage).toHaveBeenCalledWith({
+      type: NOTIFICATION_NAVIGATE_MESSAGE,
+      url: '/equipment/EX-001',
+    });
+    expect(windowClient.navigate).not.toHaveBeenCalled();
+    expect(focus).toHaveBeenCalled();
+    expect(raw.clients.openWindow).not.toHaveBeenCalled();
+  });
+
+  test('a multi-alert digest opens the alert list', async () => {
+    const { scope, raw, shown } = createScope();
+    await showAlertPush(scope, push(alert({ severity: 'info' })), { now: () => NOW });
+    await showAlertPush(scope, push(alert({ alertId: 'A-2', severity: 'info' })), { now: () => NOW });
+
+    await handleAlertNotificationClick(scope, shown[0]!, '');
+    expect(raw.clients.openWindow).toHaveBeenCalledWith(ALERTS_PAGE_URL);
+  });
+
+  test('acknowledge queues an idempotent outbox write and requests a sync', async () => {
+    const fake = new FakeIndexedDB();
+    const { scope, raw, register, notification } = await shownFor(alert());
+
+    await handleAlertNotificationClick(scope, notification, 'acknowledge', {
+      indexedDB: fake.asFactory(),
+      now: () => NOW,
+    });
+
+    const db = await OutboxDatabase.open({ indexedDB: fake.asFactory() });
+    expect(await db.list()).toEqual([
+      expect.objectContaining({
+        id: 'ack-A-1',
+        type: 'acknowledgement',
+        url: '/api/alerts/A-1/ack',
+        method: 'POST',
+        body: { acknowledgedAt: NOW, source: 'notification' },
+      }),
+    ]);
+    expect(register).toHaveBeenCalledWith('telemetry-sync');
+    expect(raw.clients.openWindow).not.toHaveBeenCalled();
+  });
+
+  test('acknowledge replays immediately without Background Sync', async () => {
+    const fake = new FakeIndexedDB();
+    const { scope, raw } = createScope();
+    delete (raw.registration as { sync?: unknown }).sync;
+    const fetch = jest.fn(async () => new Response(null, { status: 204 }));
+
+    await acknowledgeAlert(scope, alert(), { indexedDB: fake.asFactory(), fetch, now: () => NOW });
+
+    expect(fetch).toHaveBeenCalledWith('/api/alerts/A-1/ack', expect.objectContaining({ method: 'POST' }));
+    const db = await OutboxDatabase.open({ indexedDB: fake.asFactory() });
+    expect(await db.counts()).toEqual({ pending: 0, deadLetters: 0 });
+  });
+});
@@ -0,0 +1,51 @@
+import { CriticalOperationRegistry } from '../../../update/critical-operations';
+import { NOTIFICATION_NAVIGATE_MESSAGE } from '../../alert-notifications';
+import { startNotificationNavigation } from '../../notification-navigation';
+
+function setup() {
+  const target = new EventTarget();
+  const registry = new CriticalOperationRegistry();
+  const navigate = jest.fn();
+  const stop = startNotificationNavigation(navigate, {
+    registry,
+    container: target as unknown as ServiceWorkerContainer,
+  });
+  const tap = (url: string) =>
+    target.dispatchEvent(new MessageEvent('message', { data: { type: NOTIFICATION_NAVIGATE_MESSAGE, url } }));
+  return { registry, navigate, stop, tap, target };
+}
+
+describe('notification navigation', () => {
+  test('routes straight away when nothing critical is running', () => {
+    const { navigate, tap, target } = setup();
+    tap('/equipment/EX-001');
+    target.dispatchEvent(new MessageEvent('message', { data: { type: 'OUTBOX_UPDATED' } }));
+
+    expect(navigate.mock.calls).toEqual([['/equipment/EX-001']]);
+  });
+
+  test('waits for critical operations to finish, then routes to the newest tap', () => {
+    const { registry, navigate, tap } = setup();
+    const release = registry.begin('alert-response', 'Acknowledging alert A-1');
+
+    tap('/equipment/EX-001');
+    tap('/alerts');
+    expect(navigate).not.toHaveBeenCalled();
+
+    release();
+    expect(navigate.mock.calls).toEqual([['/alerts']]);
+
+    registry.begin('safety-checklist', 'Pre-shift inspection')();
+    expect(navigate).toHaveBeenCalledTimes(1);
+  });
+
+  test('drops a waiting tap once stopped', () => {
+    const { registry, navigate, tap, stop } = setup();
+    const release = registry.begin('alert-response', 'Acknowledging alert A-1');
+    tap('/alerts');
+    stop();
+    release();
+
+    expect(navigate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Alert Notifications - Service worker push and notificationclick handling
+ *
+ * Turns alert pushes into notifications and routes taps on them:
+ * - Critical/error alerts get their own notification (see alert-payload.ts)
+ * - Warnings/info update a single digest notification; within
+ *   DIGEST_THROTTLE_MS of the last audible one the update is silent
+ * - Acknowledge is queued in the offline outbox, so it works with no signal
+ *   and is delivered by Background Sync
+ * - Anything else focuses an open window (or opens one) on the equipment
+ *   page, or on /alerts for a multi-alert digest; an open window routes
+ *   itself (notification-navigation.ts) so it never reloads mid-operation
+ *
+ * TECHNICAL CONTEXT:
+ * - Digest state lives in the notification's own data, because the service
+ *   worker can be stopped between pushes and lose module state
+ * - Browsers require every push to show a notification, so malformed
+ *   payloads still show a generic one
+ *
+ * CAUTION:
+ * - Runs in Service Worker context (no DOM access, no window)
+ */
+
+import { OUTBOX_SYNC_TAG, OutboxDatabase, OutboxDatabaseOptions } from '../outbox/outbox-database';
+import { OutboxReplayOptions } from '../outbox/outbox-replay';
+import { syncOutbox } from '../outbox/outbox-sync';
+import {
+  ALERT_DIGEST_TAG,
+  AlertNotificationData,
+  AlertNotificationOptions,
+  AlertPushPayload,
+  buildAlertNotification,
+  buildDigestNotification,
+  getAlertAckUrl,
+  getEquipmentUrl,
+  isHighPriority,
+  parseAlertPush,
+} from './alert-payload';
+
+/** Minimum gap between audible digest notifications */
+export const DIGEST_THROTTLE_MS = 60_000;
+
+export const ALERTS_PAGE_URL = '/alerts';
+
+/** Service worker -> page message asking an open window to route to `url` */
+export const NOTIFICATION_NAVIGATE_MESSAGE = 'NOTIFICATION_NAVIGATE';
+
+export interface NotificationNavigateMessage {
+  type: typeof NOTIFICATION_NAVIGATE_MESSAGE;
+  url: string;
+}
+
+export interface AlertPushScope {
+  registration: Pick<ServiceWorkerRegistration, 'showNotification' | 'getNotifications'> &
+    Partial<Pick<ServiceWorkerRegistration, 'sync'>>;
+  clients: Pick<Clients, 'matchAll' | 'openWindow'>;
+}
+
+export type AlertClickOptions = OutboxReplayOptions & OutboxDatabaseOptions;
+
+function decodePushData(data: Pick<PushMessageData, 'json'> | null): unknown {
+  try {
+    return data?.json() ?? null;
+  } catch {
+    return null; // Not JSON
+  }
+}
+
+/**
+ * Show the notification for a push message
+ * @returns The alert shown, or null if the payload was malformed
+ */
+export async function showAlertPush(
+  scope: AlertPushScope,
+  data: Pick<PushMessageData, 'json'> | null,
+  options: Pick<OutboxReplayOptions, 'now'> = {}
+): Promise<AlertPushPayload | null> {
+  const alert = parseAlertPush(decodePushData(data));
+
+  if (!alert) {
+    const fallback: AlertNotificationOptions = { body: 'Open FleetOps for details', data: { kind: 'unknown' } };
+    await scope.registration.showNotification('New fleet alert', fallback);
+    return null;
+  }
+
+  if (isHighPriority(alert)) {
+    const { title, options: notification } = buildAlertNotification(alert);
+    await scope.registration.showNotification(title, notification);
+    return alert;
+  }
+
+  const now = (options.now ?? Date.now)();
+  const [current] = await scope.registration.getNotifications({ tag: ALERT_DIGEST_TAG });
+  const previous = current?.data as AlertNotificationData | undefined;
+  const digest = previous?.kind === 'digest' ? previous : null;
+
+  const silent = digest !== null && now - digest.alertedAt < DIGEST_THROTTLE_MS;
+  const { title, options: notification } = buildDigestNotification(
+    alert,
+    (digest?.count ?? 0) + 1,
+    silent && digest ? digest.alertedAt : now,
+    silent
+  );
+  await scope.registration.showNotification(title, notification);
+  return alert;
+}
+
+/**
+ * Page a tap on a notification should open
+ */
+export function getNotificationUrl(data: AlertNotificationData | null | undefined): string {
+  switch (data?.kind) {
+    case 'alert':
+      return getEquipmentUrl(data.alert.equipmentId);
+    case 'digest':
+      return data.count === 1 ? getEquipmentUrl(data.latest.equipmentId) : ALERTS_PAGE_URL;
+    default:
+      return ALERTS_PAGE_URL;
+  }
+}
+
+function getNotificationAlert(data: AlertNotificationData | null | undefined): AlertPushPayload | null {
+  if (data?.kind === 'alert') return data.alert;
+  if (data?.kind === 'digest' && data.count === 1) return data.latest;
+  return null;
+}
+
+/**
+ * Queue an acknowledgement and ask for delivery
+ *
+ * The idempotency key is derived from the alert so acknowledging twice
+ * (notification and app) is deduplicated by the server.
+ */
+export async function acknowledgeAlert(
+  scope: AlertPushScope,
+  alert: AlertPushPayload,
+  options: AlertClickOptions = {}
+): Promise<void> {
+  const now = (options.now ?? Date.now)();
+  const db = await OutboxDatabase.open(options);
+  try {
+    await db.enqueue({
+      id: `ack-${alert.alertId}`,
+      type: 'acknowledgement',
+      url: getAlertAckUrl(alert.alertId),
+      method: 'POST',
+      body: { acknowledgedAt: now, source: 'notification' },
+      createdAt: now,
+      attempts: 0,
+      nextAttemptAt: now,
+    });
+  } finally {
+    db.close();
+  }
+
+  const { registration } = scope;
+  if (registration.sync) {
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+      return;
+    } catch {
+      // Sync registration can be refused - replay now instead
+    }
+  }
+  // Last chance: the page retries whatever is left when it next opens
+  await syncOutbox(scope, true, options);
+}
+
+/**
+ * Focus a window on `url`, reusing an open one where possible. An open
+ * window is asked to route itself (NOTIFICATION_NAVIGATE_MESSAGE) rather
+ * than navigated, so it can finish a critical operation first.
+ */
+export async function openAppWindow(scope: AlertPushScope, url: string): Promise<void> {
+  const windows = (await scope.clients.matchAll({ type: 'window', includeUncontrolled: true })) as WindowClient[];
+  const target = windows.find((client) => client.focused) ?? windows[0];
+
+  if (target) {
+    const message: NotificationNavigateMessage = { type: NOTIFICATION_NAVIGATE_MESSAGE, url };
+    target.postMessage(message);
+    await target.focus();
+    return;
+  }
+  await scope.clients.openWindow(url);
+}
+
+/**
+ * Handle a tap on one of our notifications
+ * @param action - The action button tapped ('' for the notification body)
+ */
+export async function handleAlertNotificationClick(
+  scope: AlertPushScope,
+  notification: Pick<Notification, 'data' | 'close'>,
+  action: string,
+  options: AlertClickOptions = {}
+): Promise<void> {
+  notification.close();
+  const data = notification.data as AlertNotificationData | null;
+  const alert = getNotificationAlert(data);
+
+  if (action === 'acknowledge' && alert) {
+    await acknowledgeAlert(scope, alert, options);
+    return;
+  }
+  await openAppWindow(scope, getNotificationUrl(data));
+}
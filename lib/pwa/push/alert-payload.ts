@@ -0,0 +1,202 @@
+/**
+ * Alert Push Payload - What the server sends, and the notification we build
+ *
+ * The push service delivers JSON; nothing about its shape is guaranteed, so
+ * payloads are validated before anything is shown. Building notification
+ * options is kept pure here so it can be tested without a service worker.
+ *
+ * USER CONTEXT:
+ * - Critical and error alerts stand alone, stay on screen until handled and
+ *   offer Acknowledge straight from the lock screen
+ * - Warnings and info are collapsed into one digest notification so a noisy
+ *   sensor can't bury the alert that matters
+ *
+ * CAUTION:
+ * - Chrome limits notifications to two actions; keep the most useful first
+ */
+
+import type { AlertSeverity } from '@/lib/theme/fleet-theme-context';
+
+export const ALERT_SEVERITIES: readonly AlertSeverity[] = ['info', 'warning', 'error', 'critical'];
+
+/** Severities shown individually; everything else goes to the digest */
+export const HIGH_PRIORITY_SEVERITIES: ReadonlySet<AlertSeverity> = new Set<AlertSeverity>(['error', 'critical']);
+
+/** Shared tag so low-priority alerts replace one another */
+export const ALERT_DIGEST_TAG = 'fleet-alert-digest';
+
+export type AlertNotificationActionId = 'acknowledge' | 'open-equipment';
+
+export interface AlertPushPayload {
+  alertId: string;
+  equipmentId: string;
+  equipmentName?: string;
+  severity: AlertSeverity;
+  title: string;
+  body: string;
+  /** Epoch ms when the alert was raised */
+  timestamp: number;
+}
+
+/** Attached to every notification we show, read back on click */
+export type AlertNotificationData =
+  | { kind: 'alert'; alert: AlertPushPayload }
+  | { kind: 'digest'; count: number; latest: AlertPushPayload; alertedAt: number }
+  | { kind: 'unknown' };
+
+export interface AlertNotificationAction {
+  action: AlertNotificationActionId;
+  title: string;
+  icon?: string;
+}
+
+/** NotificationOptions plus the fields lib.dom doesn't declare yet */
+export interface AlertNotificationOptions extends NotificationOptions {
+  data: AlertNotificationData;
+  actions?: AlertNotificationAction[];
+  renotify?: boolean;
+  timestamp?: number;
+  vibrate?: number[];
+}
+
+const APP_ICON = '/icons/icon-192x192.png';
+const BADGE_ICON = '/icons/icon-96x96.svg';
+
+const ACTIONS: Record<AlertNotificationActionId, AlertNotificationAction> = {
+  acknowledge: { action: 'acknowledge', title: 'Acknowledge', icon: '/icons/check-96x96.svg' },
+  'open-equipment': { action: 'open-equipment', title: 'Open equipment', icon: '/icons/alert-96x96.svg' },
+};
+
+// Tapping the notification body already opens the equipment page, so
+// low-priority alerts only get the action that saves a trip into the app
+const SEVERITY_ACTIONS: Record<AlertSeverity, AlertNotificationActionId[]> = {
+  critical: ['acknowledge', 'open-equipment'],
+  error: ['acknowledge', 'open-equipment'],
+  warning: ['acknowledge'],
+  info: [],
+};
+
+// Longer, repeated pulses for critical so it's recognisable by feel alone
+const VIBRATION: Record<AlertSeverity, number[] | null> = {
+  critical: [400, 100, 400, 100, 400],
+  error: [200, 100, 200],
+  warning: null,
+  info: null,
+};
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
+
+/**
+ * Validate a decoded push message
+ * @returns The payload, or null if it isn't an alert we can show
+ */
+export function parseAlertPush(data: unknown): AlertPushPayload | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const raw = data as Record<string, unknown>;
+
+  if (
+    !isNonEmptyString(raw.alertId) ||
+    !isNonEmptyString(raw.equipmentId) ||
+    !isNonEmptyString(raw.title) ||
+    !ALERT_SEVERITIES.includes(raw.severity as AlertSeverity)
+  ) {
+    return null;
+  }
+
+  return {
+    alertId: raw.alertId,
+    equipmentId: raw.equipmentId,
+    ...(isNonEmptyString(raw.equipmentName) && { equipmentName: raw.equipmentName }),
+    severity: raw.severity as AlertSeverity,
+    title: raw.title,
+    body: typeof raw.body === 'string' ? raw.body : '',
+    timestamp: typeof raw.timestamp === 'number' && Number.isFinite(raw.timestamp) ? raw.timestamp : Date.now(),
+  };
+}
+
+export function isHighPriority(alert: AlertPushPayload): boolean {
+  return HIGH_PRIORITY_SEVERITIES.has(alert.severity);
+}
+
+export function getEquipmentUrl(equipmentId: string): string {
+  return `/equipment/${encodeURIComponent(equipmentId)}`;
+}
+
+export function getAlertAckUrl(alertId: string): string {
+  return `/api/alerts/${encodeURIComponent(alertId)}/ack`;
+}
+
+export function getAlertShelveUrl(alertId: string): string {
+  return `/api/alerts/${encodeURIComponent(alertId)}/shelve`;
+}
+
+export function getAlertEscalateUrl(alertId: string): string {
+  return `/api/alerts/${encodeURIComponent(alertId)}/escalate`;
+}
+
+export function getAlertActions(severity: AlertSeverity): AlertNotificationAction[] {
+  return SEVERITY_ACTIONS[severity].map((id) => ACTIONS[id]);
+}
+
+function equipmentLabel(alert: AlertPushPayload): string {
+  return alert.equipmentName ?? alert.equipmentId;
+}
+
+/**
+ * Title and options for a critical or error alert
+ */
+export function buildAlertNotification(alert: AlertPushPayload): {
+  title: string;
+  options: AlertNotificationOptions;
+} {
+  const vibrate = VIBRATION[alert.severity];
+  return {
+    title: `${alert.severity === 'critical' ? 'CRITICAL' : 'Alert'}: ${alert.title}`,
+    options: {
+      body: alert.body ? `${equipmentLabel(alert)} - ${alert.body}` : equipmentLabel(alert),
+      // One notification per alert; a repeat push updates it in place
+      tag: `fleet-alert-${alert.alertId}`,
+      renotify: true,
+      requireInteraction: true,
+      icon: APP_ICON,
+      badge: BADGE_ICON,
+      timestamp: alert.timestamp,
+      actions: getAlertActions(alert.severity),
+      data: { kind: 'alert', alert },
+      ...(vibrate && { vibrate }),
+    },
+  };
+}
+
+/**
+ * Title and options for the low-priority digest
+ * @param count - Alerts collapsed into the digest, including this one
+ * @param silent - Update without sound/vibration (throttled)
+ */
+export function buildDigestNotification(
+  latest: AlertPushPayload,
+  count: number,
+  alertedAt: number,
+  silent: boolean
+): { title: string; options: AlertNotificationOptions } {
+  const single = count === 1;
+  return {
+    title: single ? latest.title : `${count} new alerts`,
+    options: {
+      body: single
+        ? `${equipmentLabel(latest)}${latest.body ? ` - ${latest.body}` : ''}`
+        : `Latest: ${latest.title} (${equipmentLabel(latest)})`,
+      tag: ALERT_DIGEST_TAG,
+      renotify: !silent,
+      silent,
+      icon: APP_ICON,
+      badge: BADGE_ICON,
+      timestamp: latest.timestamp,
+      // Acknowledging only makes sense for a single alert
+      actions: single ? getAlertActions(latest.severity) : [],
+      data: { kind: 'digest', count, latest, alertedAt },
+    },
+  };
+}
@@ -0,0 +1,75 @@
+/**
+ * Notification Navigation - Page side of notification taps
+ *
+ * A tap on an alert notification while the app is open asks that window to
+ * route itself (NOTIFICATION_NAVIGATE_MESSAGE) instead of the service
+ * worker navigating it. Routing waits until no critical operation is
+ * running, so a tap never cuts off an alert response or a checklist.
+ *
+ * USER CONTEXT:
+ * - The operator tapped the notification, so they do get there, just after
+ *   what they were in the middle of
+ *
+ * CAUTION:
+ * - Only the newest tap is kept while waiting; earlier ones are dropped
+ */
+
+import { CriticalOperationRegistry, criticalOperations } from '../update/critical-operations';
+import { NOTIFICATION_NAVIGATE_MESSAGE, NotificationNavigateMessage } from './alert-notifications';
+
+export interface NotificationNavigationOptions {
+  /** Default: criticalOperations */
+  registry?: CriticalOperationRegistry;
+  /** Default: navigator.serviceWorker (none: nothing to listen to) */
+  container?: Pick<ServiceWorkerContainer, 'addEventListener' | 'removeEventListener'> | null;
+}
+
+function isNavigateMessage(data: unknown): data is NotificationNavigateMessage {
+  const message = data as Partial<NotificationNavigateMessage> | null;
+  return message?.type === NOTIFICATION_NAVIGATE_MESSAGE && typeof message.url === 'string';
+}
+
+/**
+ * Route notification taps through `navigate` (e.g. the Next.js router)
+ * @returns Stop function
+ */
+export function startNotificationNavigation(
+  navigate: (url: string) => void,
+  options: NotificationNavigationOptions = {}
+): () => void {
+  const registry = options.registry ?? criticalOperations;
+  const container =
+    options.container !== undefined
+      ? options.container
+      : typeof navigator === 'undefined'
+        ? null
+        : (navigator.serviceWorker ?? null);
+  if (!container) return () => undefined;
+
+  let pendingUrl: string | null = null;
+  let unsubscribe: (() => void) | null = null;
+
+  const flush = () => {
+    if (pendingUrl === null || registry.isActive()) return;
+    const url = pendingUrl;
+    pendingUrl = null;
+    unsubscribe?.();
+    unsubscribe = null;
+    navigate(url);
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    if (!isNavigateMessage(event.data)) return;
+    pendingUrl = event.data.url;
+    unsubscribe ??= registry.subscribe(flush);
+    flush();
+  };
+
+  container.addEventListener('message', handleMessage as EventListener);
+  return () => {
+    container.removeEventListener('message', handleMessage as EventListener);
+    unsubscribe?.();
+    unsubscribe = null;
+    pendingUrl = null;
+  };
+}
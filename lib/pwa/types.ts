@@ -36,6 +36,7 @@ export interface FleetPWAConfig {
     runtime: string;     // Cache for runtime requests
     equipment: string;   // Cache for equipment data
     telemetry: string;   // Cache for telemetry data
+    mapTiles: string;    // Cache for map tiles
   };
 }
 
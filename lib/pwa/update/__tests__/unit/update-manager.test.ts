@@ -0,0 +1,196 @@
+import { CriticalOperationRegistry } from '../../critical-operations';
+import { SKIP_WAITING_MESSAGE, UpdateEnvironment, UpdateManager } from '../../update-manager';
+
+const IDLE_MS = 60_000;
+
+class FakeWorker extends EventTarget {
+  state: ServiceWorkerState = 'installing';
+  postMessage = jest.fn();
+
+  install(): void {
+    this.state = 'installed';
+    this.dispatchEvent(new Event('statechange'));
+  }
+}
+
+class FakeRegistration extends EventTarget {
+  installing: FakeWorker | null = null;
+  waiting: FakeWorker | null = null;
+
+  /** Simulate the browser finding and installing a new worker */
+  deliverUpdate(): FakeWorker {
+    const worker = new FakeWorker();
+    this.installing = worker;
+    this.dispatchEvent(new Event('updatefound'));
+    worker.install();
+    this.installing = null;
+    this.waiting = worker;
+    return worker;
+  }
+}
+
+function setup({ controlled = true, hidden = false } = {}) {
+  const clock = { now: 0 };
+  const registry = new CriticalOperationRegistry(() => clock.now);
+  const manager = new UpdateManager({ registry, idleTimeoutMs: IDLE_MS, now: () => clock.now });
+  const registration = new FakeRegistration();
+  const container = Object.assign(new EventTarget(), {
+    controller: controlled ? ({} as ServiceWorker) : null,
+  });
+  const activity = new EventTarget();
+  const visibility = { hidden };
+  const env: UpdateEnvironment = {
+    container,
+    activityTarget: activity,
+    visibilityTarget: activity,
+    isHidden: () => visibility.hidden,
+    reload: jest.fn(),
+  };
+
+  manager.watch(registration as unknown as ServiceWorkerRegistration, env);
+
+  const advance = (ms: number) => {
+    clock.now += ms;
+    jest.advanceTimersByTime(ms);
+  };
+  return { clock, registry, manager, registration, container, activity, visibility, env, advance };
+}
+
+describe('CriticalOperationRegistry', () => {
+  test('tracks operations until released', () => {
+    const registry = new CriticalOperationRegistry(() => 42);
+    const listener = jest.fn();
+    registry.subscribe(listener);
+
+    const release = registry.begin('safety-checklist', 'Pre-shift HT-07');
+    expect(registry.isActive()).toBe(true);
+    expect(registry.getOperations()).toEqual([
+      { id: 1, kind: 'safety-checklist', label: 'Pre-shift HT-07', startedAt: 42 },
+    ]);
+
+    release();
+    release(); // Idempotent
+    expect(registry.isActive()).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('UpdateManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('offers a waiting update without activating it', () => {
+    const { manager, registration } = setup();
+    const worker = registration.deliverUpdate();
+
+    expect(manager.getState()).toMatchObject({ status: 'available', dismissed: false });
+    expect(worker.postMessage).not.toHaveBeenCalled();
+  });
+
+  test('ignores the first install (nothing to update from)', () => {
+    const { manager, registration } = setup({ controlled: false });
+    registration.deliverUpdate();
+    expect(manager.getState().status).toBe('none');
+  });
+
+  test('picks up a worker that was already waiting', () => {
+    const registration = new FakeRegistration();
+    registration.waiting = new FakeWorker();
+    const manager = new UpdateManager({ registry: new CriticalOperationRegistry() });
+    const { env } = setup();
+
+    manager.watch(registration as unknown as ServiceWorkerRegistration, env);
+    expect(manager.getState().status).toBe('available');
+    manager.stop();
+  });
+
+  test('"Update now" sends SKIP_WAITING and reloads on controllerchange', () => {
+    const { manager, registration, container, env } = setup();
+    const worker = registration.deliverUpdate();
+
+    manager.requestUpdate();
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+    expect(manager.getState().status).toBe('activating');
+
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(env.reload).toHaveBeenCalledTimes(1);
+  });
+
+  test('does not reload for an activation it did not request', () => {
+    const { container, env } = setup();
+    container.dispatchEvent(new Event('controllerchange'));
+    expect(env.reload).not.toHaveBeenCalled();
+  });
+
+  test('"Update now" waits for critical operations to finish', () => {
+    const { manager, registration, registry } = setup();
+    const worker = registration.deliverUpdate();
+    const releaseChecklist = registry.begin('safety-checklist', 'LOTO HT-07');
+    const releaseProcedure = registry.begin('emergency-procedure', 'Fire suppression');
+
+    manager.requestUpdate();
+    expect(manager.getState().status).toBe('deferred');
+    expect(manager.getState().blockedBy.map((op) => op.label)).toEqual(['LOTO HT-07', 'Fire suppression']);
+
+    releaseChecklist();
+    expect(worker.postMessage).not.toHaveBeenCalled();
+    expect(manager.getState().blockedBy.map((op) => op.label)).toEqual(['Fire suppression']);
+
+    releaseProcedure();
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+  });
+
+  test('"Later" hides the banner but still updates once idle', () => {
+    const { manager, registration, activity, advance } = setup();
+    const worker = registration.deliverUpdate();
+
+    manager.dismiss();
+    expect(manager.getState()).toMatchObject({ status: 'available', dismissed: true });
+
+    advance(IDLE_MS / 2);
+    activity.dispatchEvent(new Event('pointerdown')); // User still working
+    advance(IDLE_MS - 1);
+    expect(worker.postMessage).not.toHaveBeenCalled();
+
+    advance(1);
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+  });
+
+  test('never auto-updates during a critical operation, even when idle', () => {
+    const { registration, registry, advance } = setup();
+    const release = registry.begin('equipment-control', 'Remote stop EX-001');
+    const worker = registration.deliverUpdate();
+
+    advance(IDLE_MS * 3);
+    expect(worker.postMessage).not.toHaveBeenCalled();
+
+    release();
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+  });
+
+  test('updates when the app is hidden', () => {
+    const { registration, activity, visibility } = setup();
+    const worker = registration.deliverUpdate();
+    expect(worker.postMessage).not.toHaveBeenCalled();
+
+    visibility.hidden = true;
+    activity.dispatchEvent(new Event('visibilitychange'));
+    expect(worker.postMessage).toHaveBeenCalledWith(SKIP_WAITING_MESSAGE);
+  });
+
+  test('remind() shows a dismissed banner again', () => {
+    const { manager, registration } = setup();
+    registration.deliverUpdate();
+    manager.dismiss();
+
+    const listener = jest.fn();
+    manager.subscribe(listener);
+    manager.remind();
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ dismissed: false }));
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Critical Operations - Registry of work an app update must not interrupt
+ *
+ * Activating a new service worker reloads the page. Components running
+ * something that must not be cut off (open safety checklist, emergency
+ * procedure, live equipment control) register it here for as long as it
+ * runs; the update manager holds the update until the registry is empty.
+ *
+ * USER CONTEXT:
+ * - A reload halfway through a lock-out/tag-out checklist loses the
+ *   operator's progress and forces the procedure to restart
+ * - A reload between acknowledging an alert and storing the server write
+ *   would leave the acknowledgement local only
+ *
+ * CAUTION:
+ * - Always release what you begin (the hook does this on unmount); a leaked
+ *   operation blocks updates until the page is closed
+ */
+
+export type CriticalOperationKind =
+  | 'safety-checklist'
+  | 'emergency-procedure'
+  | 'equipment-control'
+  | 'unsaved-form'
+  /** Alert acknowledge/shelve/escalate, until its outbox entry is stored */
+  | 'alert-response'
+  /** Page-side outbox replay, until the in-flight requests settle */
+  | 'outbox-replay';
+
+export interface CriticalOperation {
+  id: number;
+  kind: CriticalOperationKind;
+  /** Shown in the update banner, e.g. "Pre-shift inspection HT-07" */
+  label: string;
+  startedAt: number;
+}
+
+type Listener = (operations: readonly CriticalOperation[]) => void;
+
+export class CriticalOperationRegistry {
+  private operations: readonly CriticalOperation[] = [];
+  private readonly listeners = new Set<Listener>();
+  private nextId = 1;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Mark an operation as running
+   * @returns Release function (safe to call more than once)
+   */
+  begin(kind: CriticalOperationKind, label: string): () => void {
+    const operation: CriticalOperation = { id: this.nextId++, kind, label, startedAt: this.now() };
+    this.operations = [...this.operations, operation];
+    this.emit();
+
+    return () => {
+      if (!this.operations.includes(operation)) return;
+      this.operations = this.operations.filter((active) => active !== operation);
+      this.emit();
+    };
+  }
+
+  isActive(): boolean {
+    return this.operations.length > 0;
+  }
+
+  /** Stable snapshot; a new array after every change */
+  getOperations(): readonly CriticalOperation[] {
+    return this.operations;
+  }
+
+  /**
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(): void {
+    this.listeners.forEach((listener) => listener(this.operations));
+  }
+}
+
+/** App-wide registry used by isInCriticalOperation() and the update banner */
+export const criticalOperations = new CriticalOperationRegistry();
@@ -0,0 +1,255 @@
+/**
+ * Update Manager - Deferred service worker activation
+ *
+ * A new service worker installs in the background and then WAITS
+ * (PWA_CONFIG.skipWaiting is false). This manager decides when it may take
+ * over, by posting the SKIP_WAITING message app/sw.ts listens for:
+ *
+ * - "Update now" -> activates immediately, or as soon as every critical
+ *   operation has finished
+ * - "Later" (or no answer) -> activates automatically once the app is idle:
+ *   no critical operation AND (tab hidden OR no input for idleTimeoutMs)
+ *
+ * The page reloads on `controllerchange` so it runs the new version's assets.
+ *
+ * USER CONTEXT:
+ * - Safety fixes still ship quickly: most devices go idle within minutes
+ * - Nothing reloads under an operator in the middle of a procedure
+ *
+ * CAUTION:
+ * - Only reloads for an activation this manager requested; another tab
+ *   activating the worker leaves this one to the user
+ */
+
+import { CriticalOperation, CriticalOperationRegistry, criticalOperations } from './critical-operations';
+
+export const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Message app/sw.ts handles by calling skipWaiting() */
+export const SKIP_WAITING_MESSAGE = { type: 'SKIP_WAITING' } as const;
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+export type UpdateStatus =
+  /** No new version waiting */
+  | 'none'
+  /** A new version is waiting; activates when idle */
+  | 'available'
+  /** The user asked to update; waiting for critical operations to end */
+  | 'deferred'
+  /** SKIP_WAITING sent; the page reloads when the new worker takes control */
+  | 'activating';
+
+export interface UpdateState {
+  status: UpdateStatus;
+  /** Operations currently holding the update back */
+  blockedBy: readonly CriticalOperation[];
+  /** The user chose "Later"; the banner stays hidden */
+  dismissed: boolean;
+}
+
+type EventSource = Pick<EventTarget, 'addEventListener' | 'removeEventListener'>;
+
+export interface UpdateEnvironment {
+  container: EventSource & { readonly controller: ServiceWorker | null };
+  /** Receives user input events (default: window) */
+  activityTarget: EventSource;
+  /** Receives visibilitychange (default: document) */
+  visibilityTarget: EventSource;
+  isHidden: () => boolean;
+  reload: () => void;
+}
+
+export interface UpdateManagerOptions {
+  registry?: CriticalOperationRegistry;
+  idleTimeoutMs?: number;
+  now?: () => number;
+}
+
+type StateListener = (state: UpdateState) => void;
+
+function defaultEnvironment(): UpdateEnvironment {
+  return {
+    container: navigator.serviceWorker,
+    activityTarget: window,
+    visibilityTarget: document,
+    isHidden: () => document.visibilityState === 'hidden',
+    reload: () => window.location.reload(),
+  };
+}
+
+export class UpdateManager {
+  private readonly registry: CriticalOperationRegistry;
+  private readonly idleTimeoutMs: number;
+  private readonly now: () => number;
+  private readonly listeners = new Set<StateListener>();
+  private state: UpdateState = { status: 'none', blockedBy: [], dismissed: false };
+  private waiting: ServiceWorker | null = null;
+  private env: UpdateEnvironment | null = null;
+  private cleanup: (() => void)[] = [];
+  private lastActivityAt: number;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: UpdateManagerOptions = {}) {
+    this.registry = options.registry ?? criticalOperations;
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.now = options.now ?? Date.now;
+    this.lastActivityAt = this.now();
+  }
+
+  getState(): UpdateState {
+    return this.state;
+  }
+
+  /**
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: StateListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Track a registration for waiting workers (call once per page)
+   */
+  watch(registration: ServiceWorkerRegistration, env: UpdateEnvironment = defaultEnvironment()): void {
+    this.stop();
+    this.env = env;
+
+    const listen = (target: EventSource, type: string, handler: () => void) => {
+      target.addEventListener(type, handler);
+      this.cleanup.push(() => target.removeEventListener(type, handler));
+    };
+
+    const onUpdateFound = () => {
+      const worker = registration.installing;
+      if (!worker) return;
+      listen(worker, 'statechange', () => {
+        // With no controller this is the first install, not an update
+        if (worker.state === 'installed' && env.container.controller) {
+          this.setWaiting(worker);
+        }
+      });
+    };
+
+    listen(registration, 'updatefound', onUpdateFound);
+    listen(env.container, 'controllerchange', () => {
+      if (this.state.status === 'activating') env.reload();
+    });
+    ACTIVITY_EVENTS.forEach((type) => listen(env.activityTarget, type, this.handleActivity));
+    listen(env.visibilityTarget, 'visibilitychange', () => this.evaluate());
+    this.cleanup.push(this.registry.subscribe(() => this.evaluate()));
+
+    if (registration.waiting && env.container.controller) {
+      this.setWaiting(registration.waiting);
+    }
+  }
+
+  stop(): void {
+    this.cleanup.forEach((remove) => remove());
+    this.cleanup = [];
+    this.clearIdleTimer();
+    this.env = null;
+  }
+
+  /**
+   * "Update now": activate as soon as no critical operation is running
+   */
+  requestUpdate(): void {
+    if (this.state.status !== 'available') return;
+    this.setState({ status: 'deferred', dismissed: false });
+    this.evaluate();
+  }
+
+  /**
+   * "Later": hide the banner; the update still applies when the app is idle
+   */
+  dismiss(): void {
+    if (this.state.status === 'available') this.setState({ dismissed: true });
+  }
+
+  /**
+   * Show the banner again for a waiting update the user dismissed
+   */
+  remind(): void {
+    if (this.state.dismissed) this.setState({ dismissed: false });
+  }
+
+  private handleActivity = (): void => {
+    this.lastActivityAt = this.now();
+    if (this.state.status === 'available') this.scheduleIdleCheck();
+  };
+
+  private setWaiting(worker: ServiceWorker): void {
+    this.waiting = worker;
+    if (this.state.status !== 'activating') {
+      this.setState({ status: 'available', dismissed: false });
+    }
+    this.evaluate();
+  }
+
+  private isIdle(): boolean {
+    return (this.env?.isHidden() ?? false) || this.now() - this.lastActivityAt >= this.idleTimeoutMs;
+  }
+
+  /** Activate if allowed, otherwise record what blocks it */
+  private evaluate(): void {
+    const { status } = this.state;
+    if (status !== 'available' && status !== 'deferred') return;
+
+    const blockedBy = this.registry.getOperations();
+    const allowed = blockedBy.length === 0 && (status === 'deferred' || this.isIdle());
+    if (allowed && this.waiting) {
+      this.activate(this.waiting);
+      return;
+    }
+
+    if (blockedBy !== this.state.blockedBy) this.setState({ blockedBy });
+    if (status === 'available') this.scheduleIdleCheck();
+  }
+
+  private activate(worker: ServiceWorker): void {
+    this.clearIdleTimer();
+    this.setState({ status: 'activating', blockedBy: [] });
+    worker.postMessage(SKIP_WAITING_MESSAGE);
+  }
+
+  private scheduleIdleCheck(): void {
+    this.clearIdleTimer();
+    if (!this.env) return;
+    const delay = Math.max(0, this.lastActivityAt + this.idleTimeoutMs - this.now());
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = null;
+      this.evaluate();
+    }, delay);
+  }
+
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private setState(patch: Partial<UpdateState>): void {
+    this.state = { ...this.state, ...patch };
+    this.listeners.forEach((listener) => listener(this.state));
+  }
+}
+
+/** App-wide manager behind the update banner */
+export const updateManager = new UpdateManager();
+
+/**
+ * Start watching this page's service worker registration
+ * @returns false where service workers are unsupported or not registered
+ */
+export async function watchServiceWorkerUpdates(manager: UpdateManager = updateManager): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+  const registration = await navigator.serviceWorker.getRegistration();
+  if (!registration) return false;
+  manager.watch(registration);
+  return true;
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useSyncExternalStore } from 'react';
+
+import { CriticalOperationKind, CriticalOperationRegistry, criticalOperations } from './critical-operations';
+import { UpdateManager, updateManager, UpdateState } from './update-manager';
+
+/**
+ * Bind a component to the update manager's state.
+ * Re-renders only when the state object changes.
+ */
+export function useUpdateState(manager: UpdateManager = updateManager): UpdateState {
+  return useSyncExternalStore(
+    (onChange) => manager.subscribe(onChange),
+    () => manager.getState(),
+    () => manager.getState()
+  );
+}
+
+/**
+ * Hold app updates while `active` is true (and the component is mounted)
+ *
+ * @example
+ * useCriticalOperation('safety-checklist', `Pre-shift inspection ${unitId}`, !submitted);
+ */
+export function useCriticalOperation(
+  kind: CriticalOperationKind,
+  label: string,
+  active = true,
+  registry: CriticalOperationRegistry = criticalOperations
+): void {
+  useEffect(() => {
+    if (!active) return undefined;
+    return registry.begin(kind, label);
+  }, [kind, label, active, registry]);
+}
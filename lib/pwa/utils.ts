@@ -22,6 +22,10 @@
  * - Don't auto-update during critical operations
  */
 
+import { recordError } from './diagnostics/diagnostics-journal';
+import { criticalOperations } from './update/critical-operations';
+import { updateManager } from './update/update-manager';
+
 /**
  * Handle service worker errors consistently
  * 
@@ -29,18 +33,17 @@
  * 
  * BEHAVIOR:
  * - Logs to console in development
- * - Will send to monitoring service in production (future)
+ * - Stores a redacted copy in the local diagnostics journal, which techs
+ *   export with "Download diagnostics" (offline and pwa-test pages)
+ * - Reaches support only when a tech sends a diagnostics bundle
  * - Does NOT show user notifications (avoid alarm fatigue)
  */
 export function handleSWError(error: Error): void {
   // eslint-disable-next-line no-console
   console.error('[SW Error]:', error);
   
-  // Future: Send to monitoring service
-  // Example: sendToSentry(error, { context: 'service-worker' });
-  
-  // Future: Store error locally for offline debugging
-  // Example: logToIndexedDB(error);
+  // Never throws - safe inside catch blocks and event handlers
+  void recordError(error, { origin: 'handleSWError' });
 }
 
 /**
@@ -50,22 +53,16 @@ export function handleSWError(error: Error): void {
  * "As a field operator, I want to know when updates are available
  * but not be forced to update during critical equipment checks"
  * 
- * FUTURE IMPLEMENTATION:
- * - Show non-intrusive banner at top of screen
- * - Allow "Update Now" or "Later" options
- * - Auto-update during idle periods
+ * BEHAVIOR:
+ * - Re-shows the update banner ("Update now" / "Later") if a new version
+ *   is waiting and the user dismissed it earlier
+ * - The update itself still waits for isInCriticalOperation() to clear
+ *   (see lib/pwa/update/update-manager.ts)
  */
 export function notifyUpdate(): void {
   // eslint-disable-next-line no-console
   console.log('[SW] Update available');
-  
-  // Future: Show update banner
-  // Example: 
-  // showBanner({
-  //   message: 'New version available with safety improvements',
-  //   actions: ['Update Now', 'Remind Me Later'],
-  //   priority: 'low' // Don't interrupt active work
-  // });
+  updateManager.remind();
 }
 
 /**
@@ -75,14 +72,11 @@ export function notifyUpdate(): void {
  * Some operations (emergency shutdown, safety checks) must not be
  * interrupted by SW updates or page reloads
  * 
+ * Components register these with useCriticalOperation() or
+ * criticalOperations.begin() (lib/pwa/update/critical-operations.ts)
+ * 
  * @returns true if update should be delayed
  */
 export function isInCriticalOperation(): boolean {
-  // Future: Check app state for active critical operations
-  // Example:
-  // - Active emergency procedure
-  // - Unsaved safety checklist
-  // - Real-time equipment control
-  
-  return false; // For now, always allow updates
-}
\ No newline at end of file
+  return criticalOperations.isActive();
+}
@@ -0,0 +1,141 @@
+import fc from 'fast-check';
+
+import { TelemetryAggregate } from '../../../types';
+import {
+  AggregateRollup,
+  DEFAULT_ROLLUP_TIERS,
+  mergeAggregates,
+  RollupTier,
+  selectRollupTier,
+} from '../../aggregate-rollup';
+
+const BASE = 1_699_999_200_000; // Hour-aligned epoch ms
+
+/** Small enough that a few hundred aggregates cascade through every tier */
+const TIERS: RollupTier[] = [
+  { resolutionMs: 1000, capacity: 4 },
+  { resolutionMs: 5000, capacity: 3 },
+  { resolutionMs: 30_000, capacity: 2 },
+  { resolutionMs: 120_000, capacity: 1000 },
+];
+
+const valueArb = fc.double({ min: -1000, max: 1000, noNaN: true });
+
+/** Groups of raw values, each summarised into one aggregate */
+const groupsArb = fc.array(fc.array(valueArb, { minLength: 1, maxLength: 8 }), { minLength: 1, maxLength: 300 });
+
+/** Gaps between consecutive aggregates, in whole seconds */
+const gapsArb = fc.array(fc.integer({ min: 1, max: 20 }), { minLength: 300, maxLength: 300 });
+
+function summarise(values: number[], timestamp: number): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp,
+    min: Math.min(...values),
+    max: Math.max(...values),
+    avg: values.reduce((sum, v) => sum + v, 0) / values.length,
+    count: values.length,
+  };
+}
+
+function toAggregates(groups: number[][], gaps: number[]): TelemetryAggregate[] {
+  let timestamp = BASE;
+  return groups.map((values, i) => {
+    timestamp += gaps[i]! * 1000;
+    return summarise(values, timestamp);
+  });
+}
+
+function expectSummaryOf(aggregates: TelemetryAggregate[], values: number[]): void {
+  const count = aggregates.reduce((sum, a) => sum + a.count, 0);
+  const weighted = aggregates.reduce((sum, a) => sum + a.avg * a.count, 0) / count;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  expect(count).toBe(values.length);
+  expect(Math.min(...aggregates.map((a) => a.min))).toBe(Math.min(...values));
+  expect(Math.max(...aggregates.map((a) => a.max))).toBe(Math.max(...values));
+  expect(weighted).toBeCloseTo(mean, 6);
+}
+
+describe('aggregate rollup properties', () => {
+  test('merging summaries equals summarising the underlying values', () => {
+    fc.assert(
+      fc.property(groupsArb, (groups) => {
+        const merged = groups.map((values) => summarise(values, BASE)).reduce(mergeAggregates);
+        const all = groups.flat();
+
+        expectSummaryOf([merged], all);
+        expect(merged.avg).toBeGreaterThanOrEqual(merged.min);
+        expect(merged.avg).toBeLessThanOrEqual(merged.max);
+      })
+    );
+  });
+
+  test('every reading stays accounted for across tiers', () => {
+    fc.assert(
+      fc.property(groupsArb, gapsArb, (groups, gaps) => {
+        const rollup = new AggregateRollup(TIERS);
+        toAggregates(groups, gaps).forEach((a) => rollup.push(a));
+
+        expectSummaryOf(rollup.getAll(), groups.flat());
+      })
+    );
+  });
+
+  test('tiers partition history: held aggregates are strictly chronological', () => {
+    fc.assert(
+      fc.property(groupsArb, gapsArb, (groups, gaps) => {
+        const rollup = new AggregateRollup(TIERS);
+        toAggregates(groups, gaps).forEach((a) => rollup.push(a));
+
+        const timestamps = rollup.getAll().map((a) => a.timestamp);
+        timestamps.forEach((ts, i) => {
+          if (i > 0) expect(ts).toBeGreaterThan(timestamps[i - 1]!);
+        });
+        TIERS.forEach((tier, index) => {
+          rollup.getBuffer(index).forEach((a) => expect(a.timestamp % tier.resolutionMs).toBe(0));
+        });
+      })
+    );
+  });
+
+  test('a query over all history is chronological and loses nothing', () => {
+    fc.assert(
+      fc.property(groupsArb, gapsArb, fc.integer({ min: 3, max: 500 }), (groups, gaps, maxPoints) => {
+        const rollup = new AggregateRollup(TIERS);
+        const aggregates = toAggregates(groups, gaps);
+        aggregates.forEach((a) => rollup.push(a));
+
+        const { resolutionMs, aggregates: result } = rollup.query(
+          BASE,
+          aggregates[aggregates.length - 1]!.timestamp,
+          maxPoints
+        );
+
+        expect(TIERS.map((t) => t.resolutionMs)).toContain(resolutionMs);
+        expectSummaryOf(result, groups.flat());
+        result.forEach((a, i) => {
+          if (i > 0) expect(a.timestamp).toBeGreaterThan(result[i - 1]!.timestamp);
+        });
+      })
+    );
+  });
+
+  test('the selected tier is the coarsest one fine enough for maxPoints', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 7 * 24 * 3600 * 1000 }),
+        fc.integer({ min: 1, max: 5000 }),
+        (span, maxPoints) => {
+          const selected = selectRollupTier(DEFAULT_ROLLUP_TIERS, BASE, BASE + span, maxPoints);
+          const wantedMs = span / maxPoints;
+          const next = DEFAULT_ROLLUP_TIERS[selected + 1];
+
+          if (selected > 0) expect(DEFAULT_ROLLUP_TIERS[selected]!.resolutionMs).toBeLessThanOrEqual(wantedMs);
+          if (next) expect(next.resolutionMs).toBeGreaterThan(wantedMs);
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,223 @@
+import { TelemetryAggregate, TelemetryReading } from '../../../types';
+import {
+  AggregateRollup,
+  DEFAULT_ROLLUP_TIERS,
+  mergeAggregates,
+  RollupTier,
+  selectRollupTier,
+} from '../../aggregate-rollup';
+import { TelemetryAggregator } from '../../telemetry-aggregator';
+
+const BASE = 1_699_999_200_000; // Hour-aligned epoch ms
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+function aggregate(timestamp: number, avg: number, overrides: Partial<TelemetryAggregate> = {}): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp,
+    min: avg,
+    max: avg,
+    avg,
+    count: 1,
+    ...overrides,
+  };
+}
+
+/** 1s → 10s → 60s with room for 3 buckets each */
+const SMALL_TIERS: RollupTier[] = [
+  { resolutionMs: SECOND, capacity: 3 },
+  { resolutionMs: 10 * SECOND, capacity: 3 },
+  { resolutionMs: MINUTE, capacity: 3 },
+];
+
+describe('mergeAggregates', () => {
+  test('sums counts, keeps the envelope and weights avg by count', () => {
+    const merged = mergeAggregates(
+      aggregate(BASE, 10, { min: 5, max: 12, count: 3 }),
+      aggregate(BASE + SECOND, 30, { min: 20, max: 40, count: 1 })
+    );
+
+    expect(merged).toEqual(aggregate(BASE, 15, { min: 5, max: 40, count: 4 }));
+  });
+});
+
+describe('selectRollupTier', () => {
+  test('picks the coarsest tier that still gives maxPoints buckets', () => {
+    expect(selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, 5 * MINUTE, 300)).toBe(0);
+    expect(selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, 4 * 60 * MINUTE, 240)).toBe(1);
+    expect(selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, 24 * 60 * MINUTE, 96)).toBe(2);
+    expect(selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, 48 * 60 * MINUTE, 10)).toBe(3);
+  });
+
+  test('falls back to the finest tier for short ranges', () => {
+    expect(selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, 100, 500)).toBe(0);
+  });
+
+  test('rejects a non-positive point budget', () => {
+    expect(() => selectRollupTier(DEFAULT_ROLLUP_TIERS, 0, MINUTE, 0)).toThrow(
+      'maxPoints must be positive, got 0'
+    );
+  });
+});
+
+describe('AggregateRollup', () => {
+  describe('construction', () => {
+    test('rejects an empty tier list', () => {
+      expect(() => new AggregateRollup([])).toThrow('A rollup needs at least one tier');
+    });
+
+    test('rejects a non-integer capacity', () => {
+      expect(() => new AggregateRollup([{ resolutionMs: SECOND, capacity: 1.5 }])).toThrow(
+        'Rollup tier 0 capacity must be a positive integer, got 1.5'
+      );
+    });
+
+    test('rejects resolutions that do not nest', () => {
+      expect(
+        () =>
+          new AggregateRollup([
+            { resolutionMs: SECOND, capacity: 10 },
+            { resolutionMs: 1500, capacity: 10 },
+          ])
+      ).toThrow('Rollup tier 1 resolution must be a larger multiple of 1000ms, got 1500ms');
+    });
+  });
+
+  describe('rolling up', () => {
+    test('keeps the newest aggregates in the finest tier', () => {
+      const rollup = new AggregateRollup(SMALL_TIERS);
+      [0, 1, 2].forEach((i) => rollup.push(aggregate(BASE + i * SECOND, i)));
+
+      expect(rollup.getBuffer(0).getAll().map((a) => a.avg)).toEqual([0, 1, 2]);
+      expect(rollup.getBuffer(1).size).toBe(0);
+    });
+
+    test('merges evicted aggregates into the next tier', () => {
+      const rollup = new AggregateRollup(SMALL_TIERS);
+      // Evicting second 10 closes the 10s bucket holding seconds 0-9
+      for (let i = 0; i <= 13; i++) rollup.push(aggregate(BASE + i * SECOND, i));
+
+      expect(rollup.getBuffer(0).getAll().map((a) => a.avg)).toEqual([11, 12, 13]);
+      expect(rollup.getBuffer(1).getAll()).toEqual([
+        aggregate(BASE, 4.5, { min: 0, max: 9, count: 10 }),
+      ]);
+      expect(rollup.getAll().map((a) => a.count)).toEqual([10, 1, 1, 1, 1]);
+    });
+
+    test('cascades through every tier and drops what the last one evicts', () => {
+      const rollup = new AggregateRollup(SMALL_TIERS);
+      for (let i = 0; i < 10 * MINUTE / SECOND; i++) rollup.push(aggregate(BASE + i * SECOND, 1));
+
+      const tier2 = rollup.getBuffer(2).getAll();
+      expect(tier2).toHaveLength(3);
+      expect(tier2.map((a) => a.timestamp)).toEqual([
+        BASE + 6 * MINUTE,
+        BASE + 7 * MINUTE,
+        BASE + 8 * MINUTE,
+      ]);
+      expect(tier2.every((a) => a.count === 60)).toBe(true);
+    });
+
+    test('folds a late aggregate into the open bucket', () => {
+      const rollup = new AggregateRollup([
+        { resolutionMs: SECOND, capacity: 1 },
+        { resolutionMs: 10 * SECOND, capacity: 3 },
+      ]);
+      rollup.push(aggregate(BASE + 15 * SECOND, 1));
+      rollup.push(aggregate(BASE + 3 * SECOND, 3)); // Evicts 15s into bucket 10s
+      rollup.push(aggregate(BASE + 16 * SECOND, 5)); // Evicts the late 3s
+
+      expect(rollup.getAll()).toEqual([
+        aggregate(BASE + 10 * SECOND, 2, { min: 1, max: 3, count: 2 }),
+        aggregate(BASE + 16 * SECOND, 5),
+      ]);
+    });
+
+    test('clear() drops every tier', () => {
+      const rollup = new AggregateRollup(SMALL_TIERS);
+      for (let i = 0; i < 30; i++) rollup.push(aggregate(BASE + i * SECOND, i));
+      rollup.clear();
+
+      expect(rollup.getAll()).toEqual([]);
+    });
+
+    test('getBuffer() rejects unknown tiers', () => {
+      expect(() => new AggregateRollup(SMALL_TIERS).getBuffer(3)).toThrow('No rollup tier 3');
+    });
+  });
+
+  describe('query', () => {
+    function filled(): AggregateRollup {
+      const rollup = new AggregateRollup(SMALL_TIERS);
+      for (let i = 0; i < 60; i++) rollup.push(aggregate(BASE + i * SECOND, i));
+      return rollup;
+    }
+
+    test('returns recent history at full resolution', () => {
+      const result = filled().query(BASE + 57 * SECOND, BASE + 59 * SECOND, 100);
+
+      expect(result.resolutionMs).toBe(SECOND);
+      expect(result.aggregates.map((a) => a.avg)).toEqual([57, 58, 59]);
+    });
+
+    test('re-buckets finer data to the selected resolution', () => {
+      // Seconds 0-19 have already rolled into the 1m tier and stay there
+      const result = filled().query(BASE, BASE + MINUTE, 6);
+
+      expect(result.resolutionMs).toBe(10 * SECOND);
+      expect(result.aggregates.map((a) => a.timestamp)).toEqual(
+        [0, 2, 3, 4, 5].map((i) => BASE + i * 10 * SECOND)
+      );
+      expect(result.aggregates.map((a) => a.count)).toEqual([20, 10, 10, 10, 10]);
+      expect(result.aggregates[4]).toEqual(aggregate(BASE + 50 * SECOND, 54.5, { min: 50, max: 59, count: 10 }));
+    });
+
+    test('includes a bucket that starts before the range but reaches into it', () => {
+      const result = filled().query(BASE + 25 * SECOND, BASE + 35 * SECOND, 1);
+
+      expect(result.aggregates.map((a) => a.timestamp)).toEqual([BASE + 20 * SECOND, BASE + 30 * SECOND]);
+    });
+
+    test('skips coarser tiers once a finer one covers the range', () => {
+      const result = filled().query(BASE + 57 * SECOND, BASE + 59 * SECOND, 100);
+
+      expect(result.aggregates.every((a) => a.count === 1)).toBe(true);
+    });
+
+    test('returns nothing for an inverted range', () => {
+      expect(filled().query(BASE + MINUTE, BASE, 10).aggregates).toEqual([]);
+    });
+  });
+});
+
+describe('TelemetryAggregator with rollup tiers', () => {
+  function reading(timestamp: number, value: number): TelemetryReading {
+    return { equipmentId: 'excavator-01', sensorType: 'pressure', value, unit: 'PSI', timestamp };
+  }
+
+  test('rejects tiers whose finest resolution is not the window size', () => {
+    expect(() => new TelemetryAggregator({ windowMs: 5000, rollup: DEFAULT_ROLLUP_TIERS })).toThrow(
+      'The finest rollup tier must match the window size'
+    );
+  });
+
+  test('rolls closed windows up instead of dropping them', () => {
+    const aggregator = new TelemetryAggregator({ rollup: SMALL_TIERS, allowedLatenessMs: 0 });
+    for (let i = 0; i < 20; i++) aggregator.add(reading(BASE + i * SECOND, i));
+    aggregator.flushAll();
+
+    const rollup = aggregator.getRollup('excavator-01', 'pressure')!;
+    expect(aggregator.getBuffer('excavator-01', 'pressure')).toBe(rollup.getBuffer(0));
+    expect(rollup.getAll().reduce((sum, a) => sum + a.count, 0)).toBe(20);
+    expect(rollup.getBuffer(1).getAll()[0]).toMatchObject({ timestamp: BASE, count: 10, avg: 4.5 });
+  });
+
+  test('has no rollup unless configured', () => {
+    const aggregator = new TelemetryAggregator();
+    aggregator.add(reading(BASE, 1));
+
+    expect(aggregator.getRollup('excavator-01', 'pressure')).toBeUndefined();
+  });
+});
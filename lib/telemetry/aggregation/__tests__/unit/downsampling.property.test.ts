@@ -0,0 +1,69 @@
+import fc from 'fast-check';
+
+import { TelemetryAggregate } from '../../../types';
+import { downsampleAggregates, downsampleReadings } from '../../downsampling';
+
+const BASE = 1_700_000_000_000;
+
+const valuesArb = fc.array(fc.double({ min: -1000, max: 1000, noNaN: true }), { maxLength: 400 });
+const maxPointsArb = fc.integer({ min: 3, max: 100 });
+
+function toAggregates(values: number[]): TelemetryAggregate[] {
+  return values.map((value, i) => ({
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp: BASE + i * 1000,
+    min: value - (i % 7),
+    max: value + (i % 3),
+    avg: value,
+    count: 1 + (i % 4),
+  }));
+}
+
+describe('downsampling properties', () => {
+  test('readings: bounded output, endpoints kept, order preserved', () => {
+    fc.assert(
+      fc.property(valuesArb, maxPointsArb, (values, maxPoints) => {
+        const readings = values.map((value, i) => ({
+          equipmentId: 'excavator-01',
+          sensorType: 'pressure',
+          value,
+          unit: 'PSI',
+          timestamp: BASE + i * 1000,
+        }));
+        const result = downsampleReadings(readings, maxPoints);
+
+        expect(result).toHaveLength(Math.min(readings.length, maxPoints));
+        if (readings.length > 0) {
+          expect(result[0]).toBe(readings[0]);
+          expect(result[result.length - 1]).toBe(readings[readings.length - 1]);
+        }
+        result.forEach((r, i) => {
+          expect(readings).toContain(r);
+          if (i > 0) expect(r.timestamp).toBeGreaterThan(result[i - 1]!.timestamp);
+        });
+      })
+    );
+  });
+
+  test('aggregates: envelope and total count survive downsampling', () => {
+    fc.assert(
+      fc.property(valuesArb, maxPointsArb, (values, maxPoints) => {
+        const aggregates = toAggregates(values);
+        const result = downsampleAggregates(aggregates, maxPoints);
+
+        expect(result).toHaveLength(Math.min(aggregates.length, maxPoints));
+        const sum = (items: TelemetryAggregate[]) => items.reduce((total, a) => total + a.count, 0);
+        expect(sum(result)).toBe(sum(aggregates));
+        if (aggregates.length > 0) {
+          expect(Math.min(...result.map((a) => a.min))).toBe(Math.min(...aggregates.map((a) => a.min)));
+          expect(Math.max(...result.map((a) => a.max))).toBe(Math.max(...aggregates.map((a) => a.max)));
+        }
+        result.forEach((a) => {
+          expect(a.min).toBeLessThanOrEqual(a.avg);
+          expect(a.avg).toBeLessThanOrEqual(a.max);
+        });
+      })
+    );
+  });
+});
@@ -0,0 +1,105 @@
+import { TelemetryAggregate, TelemetryReading } from '../../../types';
+import {
+  downsampleAggregateRange,
+  downsampleAggregates,
+  downsampleReadingRange,
+  downsampleReadings,
+  selectRange,
+} from '../../downsampling';
+
+const BASE = 1_700_000_000_000;
+
+function reading(timestamp: number, value: number): TelemetryReading {
+  return { equipmentId: 'excavator-01', sensorType: 'pressure', value, unit: 'PSI', timestamp };
+}
+
+function aggregate(timestamp: number, avg: number, spread = 1): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp,
+    min: avg - spread,
+    max: avg + spread,
+    avg,
+    count: 10,
+  };
+}
+
+describe('downsampling', () => {
+  describe('readings', () => {
+    test('returns short series unchanged', () => {
+      const readings = [reading(BASE, 1), reading(BASE + 1000, 2)];
+      expect(downsampleReadings(readings, 10)).toEqual(readings);
+    });
+
+    test('rejects budgets below three points', () => {
+      expect(() => downsampleReadings([], 2)).toThrow('maxPoints must be an integer of at least 3');
+      expect(() => downsampleReadings([], 10.5)).toThrow('maxPoints must be an integer');
+    });
+
+    test('keeps the endpoints and the spike in a flat series', () => {
+      const readings = Array.from({ length: 1000 }, (_, i) => reading(BASE + i * 1000, i === 613 ? 250 : 100));
+      const result = downsampleReadings(readings, 20);
+
+      expect(result).toHaveLength(20);
+      expect(result[0]).toBe(readings[0]);
+      expect(result[19]).toBe(readings[999]);
+      expect(result).toContain(readings[613]);
+    });
+
+    test('keeps both extremes of a sine wave period', () => {
+      const readings = Array.from({ length: 3600 }, (_, i) =>
+        reading(BASE + i * 1000, Math.sin((2 * Math.PI * i) / 3600))
+      );
+      const values = downsampleReadings(readings, 50).map((r) => r.value);
+
+      expect(Math.max(...values)).toBeGreaterThan(0.99);
+      expect(Math.min(...values)).toBeLessThan(-0.99);
+    });
+  });
+
+  describe('aggregates', () => {
+    test('widens each point to the envelope it replaces', () => {
+      const aggregates = Array.from({ length: 100 }, (_, i) =>
+        i === 42 ? { ...aggregate(BASE + i * 1000, 50), min: -300 } : aggregate(BASE + i * 1000, 50)
+      );
+      const result = downsampleAggregates(aggregates, 5);
+
+      expect(result).toHaveLength(5);
+      expect(Math.min(...result.map((a) => a.min))).toBe(-300);
+      expect(result.reduce((sum, a) => sum + a.count, 0)).toBe(1000);
+      result.forEach((a) => expect(aggregates.map((b) => b.timestamp)).toContain(a.timestamp));
+    });
+
+    test('does not mutate the input', () => {
+      const aggregates = Array.from({ length: 30 }, (_, i) => aggregate(BASE + i * 1000, i % 5));
+      const copy = aggregates.map((a) => ({ ...a }));
+      downsampleAggregates(aggregates, 5);
+      expect(aggregates).toEqual(copy);
+    });
+  });
+
+  describe('ranges', () => {
+    const readings = Array.from({ length: 60 }, (_, i) => reading(BASE + i * 1000, i));
+
+    test('selects an inclusive time range', () => {
+      const selected = selectRange(readings, { from: BASE + 10_000, to: BASE + 12_000 });
+      expect(selected.map((r) => r.value)).toEqual([10, 11, 12]);
+    });
+
+    test('returns nothing for an inverted or disjoint range', () => {
+      expect(selectRange(readings, { from: BASE + 5000, to: BASE })).toEqual([]);
+      expect(selectRange(readings, { from: BASE + 120_000, to: BASE + 130_000 })).toEqual([]);
+    });
+
+    test('answers "N points over this range"', () => {
+      const result = downsampleReadingRange(readings, { from: BASE + 20_000, to: BASE + 49_000, maxPoints: 8 });
+      expect(result).toHaveLength(8);
+      expect(result[0]?.value).toBe(20);
+      expect(result[7]?.value).toBe(49);
+
+      const aggregates = readings.map((r) => aggregate(r.timestamp, r.value));
+      expect(downsampleAggregateRange(aggregates, { from: BASE, to: BASE + 9000, maxPoints: 4 })).toHaveLength(4);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import fc from 'fast-check';
+
+import { TelemetryReading } from '../../../types';
+import { TelemetryAggregator } from '../../telemetry-aggregator';
+
+const BASE = 1_700_000_000_000;
+
+const readingArb = fc.record({
+  equipmentId: fc.constantFrom('excavator-01', 'haul-truck-07'),
+  sensorType: fc.constantFrom('pressure', 'temperature'),
+  value: fc.double({ min: -1000, max: 1000, noNaN: true }),
+  unit: fc.constant('PSI'),
+  timestamp: fc.integer({ min: BASE, max: BASE + 30_000 }),
+});
+
+describe('TelemetryAggregator properties', () => {
+  test('min <= avg <= max and count is positive for every aggregate', () => {
+    fc.assert(
+      fc.property(fc.array(readingArb, { maxLength: 200 }), (readings) => {
+        const aggregator = new TelemetryAggregator();
+        aggregator.addBatch(readings);
+
+        aggregator.flushAll().forEach((aggregate) => {
+          expect(aggregate.count).toBeGreaterThan(0);
+          expect(aggregate.min).toBeLessThanOrEqual(aggregate.avg + 1e-9);
+          expect(aggregate.avg).toBeLessThanOrEqual(aggregate.max + 1e-9);
+        });
+      })
+    );
+  });
+
+  test('every reading is either counted in an aggregate or reported late', () => {
+    fc.assert(
+      fc.property(
+        fc.array(readingArb, { maxLength: 200 }),
+        fc.array(fc.integer({ min: BASE, max: BASE + 40_000 }), { maxLength: 5 }),
+        (readings, flushTimes) => {
+          const aggregator = new TelemetryAggregator({ allowedLatenessMs: 500 });
+          let emitted = 0;
+
+          // Interleave flushes with ingest to exercise the late path
+          readings.forEach((reading, index) => {
+            aggregator.add(reading);
+            const flushAt = flushTimes[index % Math.max(flushTimes.length, 1)];
+            if (flushAt !== undefined && index % 20 === 0) {
+              emitted += aggregator.flush(flushAt).reduce((n, a) => n + a.count, 0);
+            }
+          });
+          emitted += aggregator.flushAll().reduce((n, a) => n + a.count, 0);
+
+          const { accepted, lateDropped } = aggregator.stats;
+          expect(emitted).toBe(accepted);
+          expect(accepted + lateDropped).toBe(readings.length);
+        }
+      )
+    );
+  });
+
+  test('arrival order does not change aggregates', () => {
+    fc.assert(
+      fc.property(
+        fc.array(readingArb, { minLength: 1, maxLength: 100 }),
+        fc.infiniteStream(fc.integer()),
+        (readings, noise) => {
+          // Integer values keep sums exact regardless of summation order
+          // (`|| 0` normalises -0 so min/max compare equal)
+          const integral = readings.map((r) => ({ ...r, value: Math.round(r.value) || 0 }));
+          const shuffled = [...integral]
+            .map((r) => ({ r, k: noise.next().value }))
+            .sort((a, b) => a.k - b.k)
+            .map(({ r }) => r);
+
+          const ordered = new TelemetryAggregator();
+          ordered.addBatch([...integral].sort((a, b) => a.timestamp - b.timestamp));
+          const unordered = new TelemetryAggregator();
+          unordered.addBatch(shuffled);
+
+          const byKey = (a: { equipmentId: string; sensorType: string; timestamp: number }) =>
+            `${a.equipmentId}|${a.sensorType}|${a.timestamp}`;
+          const sort = <T extends { equipmentId: string; sensorType: string; timestamp: number }>(
+            items: T[]
+          ) => [...items].sort((a, b) => byKey(a).localeCompare(byKey(b)));
+
+          expect(sort(unordered.flushAll())).toEqual(sort(ordered.flushAll()));
+        }
+      )
+    );
+  });
+
+  test('aggregates match a brute-force grouping', () => {
+    fc.assert(
+      fc.property(fc.array(readingArb, { maxLength: 150 }), (readings) => {
+        const aggregator = new TelemetryAggregator();
+        aggregator.addBatch(readings);
+
+        const groups = new Map<string, TelemetryReading[]>();
+        readings.forEach((r) => {
+          const key = `${r.equipmentId}|${r.sensorType}|${Math.floor(r.timestamp / 1000) * 1000}`;
+          groups.set(key, [...(groups.get(key) ?? []), r]);
+        });
+
+        const aggregates = aggregator.flushAll();
+        expect(aggregates).toHaveLength(groups.size);
+
+        aggregates.forEach((aggregate) => {
+          const group = groups.get(
+            `${aggregate.equipmentId}|${aggregate.sensorType}|${aggregate.timestamp}`
+          );
+          expect(group).toBeDefined();
+          const values = (group ?? []).map((r) => r.value);
+          expect(aggregate.count).toBe(values.length);
+          expect(aggregate.min).toBe(Math.min(...values));
+          expect(aggregate.max).toBe(Math.max(...values));
+          expect(aggregate.avg).toBeCloseTo(
+            values.reduce((a, b) => a + b, 0) / values.length,
+            6
+          );
+        });
+      })
+    );
+  });
+
+  test('sensor buffers stay strictly timestamp-ordered across flushes', () => {
+    fc.assert(
+      fc.property(
+        fc.array(readingArb, { maxLength: 200 }),
+        fc.integer({ min: 0, max: 3000 }),
+        (readings, allowedLatenessMs) => {
+          const aggregator = new TelemetryAggregator({ allowedLatenessMs });
+
+          readings.forEach((reading, index) => {
+            aggregator.add(reading);
+            if (index % 10 === 0) aggregator.flush(reading.timestamp);
+          });
+          aggregator.flushAll();
+
+          ['excavator-01', 'haul-truck-07'].forEach((equipmentId) => {
+            ['pressure', 'temperature'].forEach((sensorType) => {
+              const timestamps =
+                aggregator.getBuffer(equipmentId, sensorType)?.getAll().map((a) => a.timestamp) ?? [];
+              for (let i = 1; i < timestamps.length; i++) {
+                expect(timestamps[i]).toBeGreaterThan(timestamps[i - 1] as number);
+              }
+            });
+          });
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { TelemetryReading } from '../../../types';
+import { TelemetryAggregator } from '../../telemetry-aggregator';
+
+const BASE = 1_700_000_000_000; // Second-aligned epoch ms
+
+function reading(
+  timestamp: number,
+  value: number,
+  overrides: Partial<TelemetryReading> = {}
+): TelemetryReading {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    value,
+    unit: 'PSI',
+    timestamp,
+    ...overrides,
+  };
+}
+
+describe('TelemetryAggregator', () => {
+  describe('construction', () => {
+    test('rejects non-positive window size', () => {
+      expect(() => new TelemetryAggregator({ windowMs: 0 })).toThrow(
+        'Window size must be positive'
+      );
+    });
+
+    test('rejects negative lateness', () => {
+      expect(() => new TelemetryAggregator({ allowedLatenessMs: -1 })).toThrow(
+        'Allowed lateness cannot be negative'
+      );
+    });
+
+    test('rejects non-positive buffer capacity', () => {
+      const aggregator = new TelemetryAggregator({ bufferCapacity: 0 });
+      expect(() => aggregator.add(reading(BASE, 1))).toThrow(
+        'Capacity must be positive'
+      );
+    });
+  });
+
+  describe('windowing', () => {
+    test('computes min/max/avg/count for a 1-second window', () => {
+      const aggregator = new TelemetryAggregator();
+      aggregator.addBatch([
+        reading(BASE + 100, 10),
+        reading(BASE + 400, 30),
+        reading(BASE + 900, 20),
+      ]);
+
+      const [aggregate] = aggregator.flushAll();
+      expect(aggregate).toEqual({
+        equipmentId: 'excavator-01',
+        sensorType: 'pressure',
+        timestamp: BASE,
+        min: 10,
+        max: 30,
+        avg: 20,
+        count: 3,
+      });
+    });
+
+    test('aligns window timestamp to second precision', () => {
+      const aggregator = new TelemetryAggregator();
+      aggregator.add(reading(BASE + 1999, 5));
+      expect(aggregator.flushAll()[0]?.timestamp).toBe(BASE + 1000);
+    });
+
+    test('keeps sensors separate', () => {
+      const aggregator = new TelemetryAggregator();
+      aggregator.add(reading(BASE, 1));
+      aggregator.add(reading(BASE, 2, { sensorType: 'temperature' }));
+      aggregator.add(reading(BASE, 3, { equipmentId: 'haul-truck-07' }));
+
+      expect(aggregator.flushAll()).toHaveLength(3);
+      expect(aggregator.sensorCount).toBe(3);
+      expect(aggregator.getBuffer('excavator-01', 'temperature')?.getAll()[0]?.avg).toBe(2);
+    });
+
+    test('returns undefined buffer for unknown sensors', () => {
+      const aggregator = new TelemetryAggregator();
+      expect(aggregator.getBuffer('excavator-01', 'pressure')).toBeUndefined();
+    });
+  });
+
+  describe('flushing', () => {
+    test('holds windows open until the lateness horizon passes', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 2000 });
+      aggregator.add(reading(BASE + 500, 1));
+
+      expect(aggregator.flush(BASE + 2999)).toEqual([]);
+      expect(aggregator.pendingWindowCount).toBe(1);
+
+      expect(aggregator.flush(BASE + 3000)).toHaveLength(1);
+      expect(aggregator.pendingWindowCount).toBe(0);
+    });
+
+    test('pushes closed windows into the sensor buffer', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 0 });
+      for (let i = 0; i < 5; i++) {
+        aggregator.add(reading(BASE + i * 1000, i));
+      }
+      aggregator.flush(BASE + 5000);
+
+      const buffer = aggregator.getBuffer('excavator-01', 'pressure');
+      expect(buffer?.getAll().map((a) => a.avg)).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    test('respects buffer capacity', () => {
+      const aggregator = new TelemetryAggregator({ bufferCapacity: 3 });
+      for (let i = 0; i < 10; i++) {
+        aggregator.add(reading(BASE + i * 1000, i));
+      }
+      aggregator.flushAll();
+
+      const buffer = aggregator.getBuffer('excavator-01', 'pressure');
+      expect(buffer?.size).toBe(3);
+      expect(buffer?.getAll().map((a) => a.avg)).toEqual([7, 8, 9]);
+    });
+
+    test('supports custom window sizes', () => {
+      const aggregator = new TelemetryAggregator({ windowMs: 5000 });
+      aggregator.addBatch([
+        reading(BASE, 1),
+        reading(BASE + 4999, 3),
+        reading(BASE + 5000, 10),
+      ]);
+
+      const aggregates = aggregator.flushAll();
+      expect(aggregates.map((a) => a.count)).toEqual([2, 1]);
+      expect(aggregates[1]?.timestamp).toBe(BASE + 5000);
+    });
+  });
+
+  describe('late and out-of-order readings', () => {
+    test('merges out-of-order readings within the lateness horizon', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 2000 });
+      aggregator.add(reading(BASE + 2100, 5));
+      aggregator.add(reading(BASE + 100, 1)); // Arrives two windows late
+      aggregator.add(reading(BASE + 1100, 3));
+
+      const aggregates = aggregator.flushAll();
+      expect(aggregates.map((a) => a.timestamp)).toEqual([
+        BASE,
+        BASE + 1000,
+        BASE + 2000,
+      ]);
+    });
+
+    test('drops readings for windows that were already flushed', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 0 });
+      aggregator.add(reading(BASE + 100, 1));
+      aggregator.flush(BASE + 1000);
+
+      expect(aggregator.add(reading(BASE + 900, 2))).toBe(false);
+      expect(aggregator.stats).toEqual({
+        accepted: 1,
+        lateDropped: 1,
+        windowsEmitted: 1,
+      });
+    });
+
+    test('accepts readings for the window after the last flushed one', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 0 });
+      aggregator.add(reading(BASE + 100, 1));
+      aggregator.flush(BASE + 1000);
+
+      expect(aggregator.add(reading(BASE + 1000, 2))).toBe(true);
+    });
+
+    test('late drops are tracked per sensor', () => {
+      const aggregator = new TelemetryAggregator({ allowedLatenessMs: 0 });
+      aggregator.add(reading(BASE + 5000, 1));
+      aggregator.flush(BASE + 6000);
+
+      // A different sensor has never been flushed, so older data is still accepted
+      expect(aggregator.add(reading(BASE, 1, { sensorType: 'temperature' }))).toBe(true);
+    });
+  });
+
+  describe('clear', () => {
+    test('resets sensors, windows and stats', () => {
+      const aggregator = new TelemetryAggregator();
+      aggregator.add(reading(BASE, 1));
+      aggregator.clear();
+
+      expect(aggregator.sensorCount).toBe(0);
+      expect(aggregator.pendingWindowCount).toBe(0);
+      expect(aggregator.stats.accepted).toBe(0);
+      expect(aggregator.flushAll()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * AggregateRollup - Multi-resolution history for one sensor (1s → 1m → 15m → 1h)
+ *
+ * One tier of 1-second aggregates can't cover a 24h shift on a field
+ * tablet. Each tier here is a fixed aggregate CircularBuffer; when a tier
+ * overwrites its oldest aggregate, that aggregate is merged into an open
+ * bucket of the next, coarser tier instead of being lost. Evictions from the
+ * last tier fall off the end of history.
+ *
+ * With DEFAULT_ROLLUP_TIERS a sensor keeps 984 aggregates (~80KB boxed)
+ * covering 10 minutes at 1s, 4 hours at 1m, 24 hours at 15m and 48 hours
+ * at 1h.
+ *
+ * TECHNICAL CONTEXT:
+ * - Merging is exact for count, min and max; avg is count-weighted, so a
+ *   bucket's avg equals the mean of every reading folded into it
+ * - Every aggregate lives in exactly one place (a tier buffer or a tier's
+ *   open bucket), so tiers partition history: coarser tiers hold older data
+ * - query() picks the coarsest tier still at least as fine as the requested
+ *   resolution and re-buckets finer data to it; older data only held at a
+ *   coarser resolution is returned as-is. Tiers older than the first one
+ *   reaching back to `from` are skipped
+ *
+ * CAUTION:
+ * - Aggregates must be pushed in timestamp order. A late one is merged into
+ *   the open bucket it reaches (totals stay exact, its bucket may not)
+ * - Tier resolutions must each divide the next so buckets nest
+ */
+
+import { CircularBuffer, createAggregateBuffer } from '../stores/circular-buffer';
+import { TelemetryAggregate } from '../types';
+
+export interface RollupTier {
+  /** Bucket width in milliseconds */
+  resolutionMs: number;
+
+  /** Buckets retained at this resolution */
+  capacity: number;
+}
+
+export const DEFAULT_ROLLUP_TIERS: readonly RollupTier[] = [
+  { resolutionMs: 1000, capacity: 600 }, // 10 minutes
+  { resolutionMs: 60 * 1000, capacity: 240 }, // 4 hours
+  { resolutionMs: 15 * 60 * 1000, capacity: 96 }, // 24 hours
+  { resolutionMs: 60 * 60 * 1000, capacity: 48 }, // 48 hours
+];
+
+export interface RollupQueryResult {
+  /** Resolution of the tier that was picked */
+  resolutionMs: number;
+  aggregates: TelemetryAggregate[];
+}
+
+/**
+ * Combine two aggregates of the same sensor. Keeps `a`'s identity and
+ * timestamp; avg is weighted by count.
+ */
+export function mergeAggregates(a: TelemetryAggregate, b: TelemetryAggregate): TelemetryAggregate {
+  const count = a.count + b.count;
+  const min = Math.min(a.min, b.min);
+  const max = Math.max(a.max, b.max);
+  // Clamped: rounding must never put avg outside [min, max]
+  const avg = Math.min(max, Math.max(min, (a.avg * a.count + b.avg * b.count) / count));
+  return { equipmentId: a.equipmentId, sensorType: a.sensorType, timestamp: a.timestamp, min, max, avg, count };
+}
+
+/**
+ * Index of the coarsest tier whose resolution still gives at least
+ * maxPoints buckets over [from, to] (the finest tier if none does)
+ * @throws Error if maxPoints is not positive
+ */
+export function selectRollupTier(tiers: readonly RollupTier[], from: number, to: number, maxPoints: number): number {
+  if (!(maxPoints > 0)) {
+    throw new Error(`maxPoints must be positive, got ${maxPoints}`);
+  }
+  const wantedMs = (to - from) / maxPoints;
+  let selected = 0;
+  tiers.forEach((tier, index) => {
+    if (tier.resolutionMs <= wantedMs) selected = index;
+  });
+  return selected;
+}
+
+export class AggregateRollup {
+  readonly tiers: readonly RollupTier[];
+  private readonly buffers: CircularBuffer<TelemetryAggregate>[];
+  /** Bucket still being filled per tier; always null for tier 0 */
+  private readonly open: (TelemetryAggregate | null)[];
+
+  /**
+   * @throws Error if there are no tiers, a capacity is not a positive
+   *   integer, or resolutions don't increase by whole multiples
+   */
+  constructor(tiers: readonly RollupTier[] = DEFAULT_ROLLUP_TIERS) {
+    validateTiers(tiers);
+    this.tiers = tiers;
+    this.buffers = tiers.map((tier) => createAggregateBuffer(tier.capacity));
+    this.open = tiers.map(() => null);
+    this.buffers.forEach((buffer, index) => {
+      if (index + 1 < tiers.length) buffer.onEvict((evicted) => this.rollInto(index + 1, evicted));
+    });
+  }
+
+  /**
+   * Add a finest-tier aggregate
+   */
+  push(aggregate: TelemetryAggregate): void {
+    this.buffers[0]!.push(aggregate);
+  }
+
+  /**
+   * One tier's closed buckets (tier 0 is the finest)
+   * @throws Error if the tier doesn't exist
+   */
+  getBuffer(tier: number): CircularBuffer<TelemetryAggregate> {
+    const buffer = this.buffers[tier];
+    if (!buffer) {
+      throw new Error(`No rollup tier ${tier}`);
+    }
+    return buffer;
+  }
+
+  /**
+   * History over [from, to] at the resolution maxPoints calls for. Buckets
+   * that start before `from` but reach into the range are included.
+   * @throws Error if maxPoints is not positive
+   */
+  query(from: number, to: number, maxPoints: number): RollupQueryResult {
+    const selected = selectRollupTier(this.tiers, from, to, maxPoints);
+    const resolutionMs = this.tiers[selected]!.resolutionMs;
+    const aggregates: TelemetryAggregate[] = [];
+    if (to < from) return { resolutionMs, aggregates };
+
+    const add = (aggregate: TelemetryAggregate, tier: number) => {
+      // Coarser than requested: only exists at that resolution, keep as-is
+      const bucket = tier > selected ? aggregate.timestamp : Math.floor(aggregate.timestamp / resolutionMs) * resolutionMs;
+      const last = aggregates[aggregates.length - 1];
+      if (last && last.timestamp === bucket) {
+        aggregates[aggregates.length - 1] = mergeAggregates(last, aggregate);
+      } else {
+        aggregates.push({ ...aggregate, timestamp: bucket });
+      }
+    };
+
+    // Coarser tiers only hold older data, so stop at the first tier that
+    // already reaches back to `from`
+    let oldest = this.tiers.length - 1;
+    for (let tier = 0; tier < this.tiers.length; tier++) {
+      const [first = this.open[tier]] = this.buffers[tier]!;
+      if (first && first.timestamp <= from) {
+        oldest = tier;
+        break;
+      }
+    }
+
+    // Walk from the oldest tier to the newest so history comes out in order
+    for (let tier = oldest; tier >= 0; tier--) {
+      const reach = this.tiers[tier]!.resolutionMs - 1;
+      this.buffers[tier]!.getRange(from - reach, to).forEach((aggregate) => add(aggregate, tier));
+      const open = this.open[tier];
+      if (open && open.timestamp + reach >= from && open.timestamp <= to) add(open, tier);
+    }
+    return { resolutionMs, aggregates };
+  }
+
+  /**
+   * Every aggregate held, oldest first, each at its own tier's resolution
+   */
+  getAll(): TelemetryAggregate[] {
+    const all: TelemetryAggregate[] = [];
+    for (let tier = this.tiers.length - 1; tier >= 0; tier--) {
+      all.push(...this.buffers[tier]!.getAll());
+      const open = this.open[tier];
+      if (open) all.push({ ...open });
+    }
+    return all;
+  }
+
+  /**
+   * Drop all history
+   */
+  clear(): void {
+    this.buffers.forEach((buffer) => buffer.clear());
+    this.open.fill(null);
+  }
+
+  private rollInto(tier: number, aggregate: TelemetryAggregate): void {
+    const { resolutionMs } = this.tiers[tier]!;
+    const bucket = Math.floor(aggregate.timestamp / resolutionMs) * resolutionMs;
+    const open = this.open[tier];
+
+    if (open && open.timestamp >= bucket) {
+      this.open[tier] = mergeAggregates(open, aggregate);
+      return;
+    }
+    this.open[tier] = { ...aggregate, timestamp: bucket };
+    // May evict in turn, cascading into the next tier
+    if (open) this.buffers[tier]!.push(open);
+  }
+}
+
+function validateTiers(tiers: readonly RollupTier[]): void {
+  if (tiers.length === 0) {
+    throw new Error('A rollup needs at least one tier');
+  }
+  tiers.forEach(({ resolutionMs, capacity }, index) => {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error(`Rollup tier ${index} capacity must be a positive integer, got ${capacity}`);
+    }
+    if (!(resolutionMs > 0)) {
+      throw new Error(`Rollup tier ${index} resolution must be positive, got ${resolutionMs}`);
+    }
+    const finer = tiers[index - 1];
+    if (finer && (resolutionMs <= finer.resolutionMs || resolutionMs % finer.resolutionMs !== 0)) {
+      throw new Error(
+        `Rollup tier ${index} resolution must be a larger multiple of ${finer.resolutionMs}ms, got ${resolutionMs}ms`
+      );
+    }
+  });
+}
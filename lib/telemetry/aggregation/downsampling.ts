@@ -0,0 +1,191 @@
+/**
+ * Downsampling - Largest-Triangle-Three-Buckets (LTTB) for chart rendering
+ *
+ * A 12-hour shift of 1Hz data is 43,200 points per sensor; a tablet chart is
+ * a few hundred pixels wide. LTTB keeps the points that carry the visual
+ * shape (spikes, steps, trend changes) and drops the redundant ones.
+ *
+ * - Readings: classic LTTB on `value`; output points are input points
+ * - Aggregates: LTTB on `avg` picks each bucket's representative, and the
+ *   output keeps the whole bucket's min/max/count so an envelope chart still
+ *   shows every excursion that was folded away
+ *
+ * Performance characteristics:
+ * - O(n) time, O(maxPoints) extra memory
+ * - Range selection is a binary search; inputs must be sorted by timestamp
+ *   (as every buffer in this module is)
+ *
+ * Runs inside the telemetry worker (TelemetryPipeline) so charts never block
+ * the UI thread on a long series.
+ */
+
+import { TelemetryAggregate, TelemetryReading } from '../types';
+
+/** Smallest useful output: first, one representative, last */
+export const MIN_DOWNSAMPLE_POINTS = 3;
+
+export interface TimeRange {
+  /** Inclusive start, Unix ms */
+  from: number;
+
+  /** Inclusive end, Unix ms */
+  to: number;
+}
+
+export interface DownsampleRangeOptions extends TimeRange {
+  /** Maximum points to return */
+  maxPoints: number;
+}
+
+/**
+ * Index of every point LTTB keeps, ascending.
+ * Buckets are index-based; the first and last points are always kept.
+ * @throws Error if maxPoints is below MIN_DOWNSAMPLE_POINTS
+ */
+export function lttbIndices(
+  length: number,
+  maxPoints: number,
+  x: (index: number) => number,
+  y: (index: number) => number
+): number[] {
+  if (!Number.isInteger(maxPoints) || maxPoints < MIN_DOWNSAMPLE_POINTS) {
+    throw new Error(`maxPoints must be an integer of at least ${MIN_DOWNSAMPLE_POINTS}`);
+  }
+  if (length <= maxPoints) {
+    return Array.from({ length }, (_, i) => i);
+  }
+
+  const indices: number[] = [0];
+  const bucketSize = (length - 2) / (maxPoints - 2);
+  let selected = 0;
+
+  for (let bucket = 0; bucket < maxPoints - 2; bucket++) {
+    const start = Math.floor(bucket * bucketSize) + 1;
+    const end = Math.floor((bucket + 1) * bucketSize) + 1;
+
+    // Third vertex: the average of the next bucket (or the last point)
+    const nextStart = end;
+    const nextEnd = Math.min(Math.floor((bucket + 2) * bucketSize) + 1, length);
+    let avgX = 0;
+    let avgY = 0;
+    for (let i = nextStart; i < nextEnd; i++) {
+      avgX += x(i);
+      avgY += y(i);
+    }
+    const nextCount = nextEnd - nextStart;
+    avgX /= nextCount;
+    avgY /= nextCount;
+
+    const ax = x(selected);
+    const ay = y(selected);
+    let maxArea = -1;
+    for (let i = start; i < end; i++) {
+      // Twice the triangle area; the factor doesn't change the comparison
+      const area = Math.abs((ax - avgX) * (y(i) - ay) - (ax - x(i)) * (avgY - ay));
+      if (area > maxArea) {
+        maxArea = area;
+        selected = i;
+      }
+    }
+    indices.push(selected);
+  }
+
+  indices.push(length - 1);
+  return indices;
+}
+
+/**
+ * Downsample raw readings with LTTB on value
+ * @throws Error if maxPoints is below MIN_DOWNSAMPLE_POINTS
+ */
+export function downsampleReadings(
+  readings: TelemetryReading[],
+  maxPoints: number
+): TelemetryReading[] {
+  return lttbIndices(
+    readings.length,
+    maxPoints,
+    (i) => readings[i]!.timestamp,
+    (i) => readings[i]!.value
+  ).map((i) => readings[i]!);
+}
+
+/**
+ * Downsample aggregates with LTTB on avg. Each output point keeps its
+ * representative's timestamp and avg, widened to the min/max of every
+ * aggregate between it and the next kept point, with their counts summed.
+ * @throws Error if maxPoints is below MIN_DOWNSAMPLE_POINTS
+ */
+export function downsampleAggregates(
+  aggregates: TelemetryAggregate[],
+  maxPoints: number
+): TelemetryAggregate[] {
+  const indices = lttbIndices(
+    aggregates.length,
+    maxPoints,
+    (i) => aggregates[i]!.timestamp,
+    (i) => aggregates[i]!.avg
+  );
+  if (indices.length === aggregates.length) return aggregates;
+
+  return indices.map((index, k) => {
+    // Every aggregate up to the next kept one is folded into this point
+    const end = k === indices.length - 1 ? aggregates.length : indices[k + 1]!;
+    const start = k === 0 ? 0 : index;
+    const representative = aggregates[index]!;
+    let min = Infinity;
+    let max = -Infinity;
+    let count = 0;
+    for (let i = start; i < end; i++) {
+      const aggregate = aggregates[i]!;
+      if (aggregate.min < min) min = aggregate.min;
+      if (aggregate.max > max) max = aggregate.max;
+      count += aggregate.count;
+    }
+    return { ...representative, min, max, count };
+  });
+}
+
+/**
+ * First index whose timestamp is >= target (length if none)
+ */
+function lowerBound(items: { timestamp: number }[], target: number): number {
+  let lo = 0;
+  let hi = items.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (items[mid]!.timestamp < target) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Items with from <= timestamp <= to. Input must be sorted by timestamp.
+ */
+export function selectRange<T extends { timestamp: number }>(items: T[], range: TimeRange): T[] {
+  if (range.to < range.from) return [];
+  return items.slice(lowerBound(items, range.from), lowerBound(items, range.to + 1));
+}
+
+/**
+ * "N points over this range" for readings
+ * @throws Error if maxPoints is below MIN_DOWNSAMPLE_POINTS
+ */
+export function downsampleReadingRange(
+  readings: TelemetryReading[],
+  { maxPoints, ...range }: DownsampleRangeOptions
+): TelemetryReading[] {
+  return downsampleReadings(selectRange(readings, range), maxPoints);
+}
+
+/**
+ * "N points over this range" for aggregates
+ * @throws Error if maxPoints is below MIN_DOWNSAMPLE_POINTS
+ */
+export function downsampleAggregateRange(
+  aggregates: TelemetryAggregate[],
+  { maxPoints, ...range }: DownsampleRangeOptions
+): TelemetryAggregate[] {
+  return downsampleAggregates(selectRange(aggregates, range), maxPoints);
+}
@@ -0,0 +1,299 @@
+/**
+ * TelemetryAggregator - Reduces raw sensor readings to 1-second aggregates
+ *
+ * Readings are folded into per-sensor windows as they arrive (min/max/sum/count),
+ * so no raw readings are retained. A window stays open for `allowedLatenessMs`
+ * after it ends to absorb out-of-order delivery; once closed it is flushed into
+ * that sensor's aggregate CircularBuffer and any later reading for it is dropped.
+ *
+ * With `rollup` tiers, each sensor's buffer is the finest tier of an
+ * AggregateRollup, so aggregates it overwrites roll into coarser tiers
+ * instead of being lost.
+ *
+ * Performance characteristics:
+ * - add(): O(1) amortized
+ * - flush(): O(w log w) where w is the number of open windows
+ * - Memory: O(sensors * open windows) + fixed aggregate buffers
+ */
+
+import { CircularBuffer, createAggregateBuffer } from '../stores/circular-buffer';
+import { getSensorKey, TelemetryAggregate, TelemetryReading } from '../types';
+import { AggregateRollup, RollupTier } from './aggregate-rollup';
+
+export interface TelemetryAggregatorOptions {
+  /** Aggregation window size in milliseconds (default: 1000) */
+  windowMs?: number;
+
+  /** How long a window stays open after it ends for late readings (default: 2000) */
+  allowedLatenessMs?: number;
+
+  /** Aggregates retained per sensor (default: 300 = 5 minutes of 1s windows) */
+  bufferCapacity?: number;
+
+  /**
+   * Keep coarser history per sensor (e.g. DEFAULT_ROLLUP_TIERS). The first
+   * tier's resolution must equal windowMs; its capacity replaces
+   * bufferCapacity.
+   */
+  rollup?: readonly RollupTier[];
+}
+
+export interface TelemetryAggregatorStats {
+  /** Readings folded into a window */
+  accepted: number;
+
+  /** Readings dropped because their window had already been flushed */
+  lateDropped: number;
+
+  /** Aggregates flushed into buffers */
+  windowsEmitted: number;
+}
+
+interface PendingWindow {
+  start: number;
+  min: number;
+  max: number;
+  sum: number;
+  count: number;
+}
+
+interface SensorState {
+  equipmentId: string;
+  sensorType: string;
+  windows: Map<number, PendingWindow>;
+  /** Readings before this timestamp belong to flushed windows */
+  closedBefore: number;
+  buffer: CircularBuffer<TelemetryAggregate>;
+  rollup: AggregateRollup | null;
+}
+
+export const DEFAULT_WINDOW_MS = 1000;
+export const DEFAULT_ALLOWED_LATENESS_MS = 2000;
+export const DEFAULT_AGGREGATE_CAPACITY = 300;
+
+export class TelemetryAggregator {
+  private readonly sensors = new Map<string, SensorState>();
+  private readonly windowMs: number;
+  private readonly allowedLatenessMs: number;
+  private readonly bufferCapacity: number;
+  private readonly rollupTiers: readonly RollupTier[] | null;
+  private readonly _stats: TelemetryAggregatorStats = {
+    accepted: 0,
+    lateDropped: 0,
+    windowsEmitted: 0,
+  };
+
+  /**
+   * Create a new aggregator
+   * @throws Error if windowMs is not positive, allowedLatenessMs is negative,
+   *   or the finest rollup tier doesn't match windowMs
+   */
+  constructor(options: TelemetryAggregatorOptions = {}) {
+    const {
+      windowMs = DEFAULT_WINDOW_MS,
+      allowedLatenessMs = DEFAULT_ALLOWED_LATENESS_MS,
+      bufferCapacity = DEFAULT_AGGREGATE_CAPACITY,
+      rollup,
+    } = options;
+
+    if (windowMs <= 0) {
+      throw new Error('Window size must be positive');
+    }
+    if (allowedLatenessMs < 0) {
+      throw new Error('Allowed lateness cannot be negative');
+    }
+
+    if (rollup && rollup[0]?.resolutionMs !== windowMs) {
+      throw new Error('The finest rollup tier must match the window size');
+    }
+
+    this.windowMs = windowMs;
+    this.allowedLatenessMs = allowedLatenessMs;
+    this.bufferCapacity = bufferCapacity;
+    this.rollupTiers = rollup ?? null;
+  }
+
+  /**
+   * Fold a reading into its window
+   * @param reading Reading to aggregate (any order within the lateness horizon)
+   * @returns false if the reading's window was already flushed and it was dropped
+   */
+  add(reading: TelemetryReading): boolean {
+    const state = this.getOrCreateState(reading.equipmentId, reading.sensorType);
+
+    if (reading.timestamp < state.closedBefore) {
+      this._stats.lateDropped++;
+      return false;
+    }
+
+    const start = this.windowStart(reading.timestamp);
+    const window = state.windows.get(start);
+
+    if (window) {
+      if (reading.value < window.min) window.min = reading.value;
+      if (reading.value > window.max) window.max = reading.value;
+      window.sum += reading.value;
+      window.count++;
+    } else {
+      state.windows.set(start, {
+        start,
+        min: reading.value,
+        max: reading.value,
+        sum: reading.value,
+        count: 1,
+      });
+    }
+
+    this._stats.accepted++;
+    return true;
+  }
+
+  /**
+   * Fold a batch of readings
+   * @returns Number of readings accepted
+   */
+  addBatch(readings: TelemetryReading[]): number {
+    let accepted = 0;
+    for (const reading of readings) {
+      if (this.add(reading)) accepted++;
+    }
+    return accepted;
+  }
+
+  /**
+   * Close every window whose lateness horizon has passed and push it into
+   * its sensor buffer
+   * @param now Current time in milliseconds
+   * @returns Newly closed aggregates, oldest first per sensor
+   */
+  flush(now: number = Date.now()): TelemetryAggregate[] {
+    const horizon = now - this.windowMs - this.allowedLatenessMs;
+    return this.closeWindows((start) => start <= horizon);
+  }
+
+  /**
+   * Close all open windows regardless of lateness (e.g. on shutdown)
+   * @returns Newly closed aggregates, oldest first per sensor
+   */
+  flushAll(): TelemetryAggregate[] {
+    return this.closeWindows(() => true);
+  }
+
+  /**
+   * Get the aggregate buffer for a sensor
+   */
+  getBuffer(
+    equipmentId: string,
+    sensorType: string
+  ): CircularBuffer<TelemetryAggregate> | undefined {
+    return this.sensors.get(getSensorKey(equipmentId, sensorType))?.buffer;
+  }
+
+  /**
+   * Get a sensor's rollup (only when constructed with `rollup` tiers)
+   */
+  getRollup(equipmentId: string, sensorType: string): AggregateRollup | undefined {
+    return this.sensors.get(getSensorKey(equipmentId, sensorType))?.rollup ?? undefined;
+  }
+
+  /**
+   * Number of windows still accepting readings
+   */
+  get pendingWindowCount(): number {
+    let count = 0;
+    this.sensors.forEach((state) => {
+      count += state.windows.size;
+    });
+    return count;
+  }
+
+  /**
+   * Number of sensors seen so far
+   */
+  get sensorCount(): number {
+    return this.sensors.size;
+  }
+
+  /**
+   * Snapshot of ingest counters
+   */
+  get stats(): TelemetryAggregatorStats {
+    return { ...this._stats };
+  }
+
+  /**
+   * Drop one sensor's open windows and aggregate buffer
+   * @returns true if the sensor was known
+   */
+  remove(equipmentId: string, sensorType: string): boolean {
+    return this.sensors.delete(getSensorKey(equipmentId, sensorType));
+  }
+
+  /**
+   * Drop all sensors, open windows and counters
+   */
+  clear(): void {
+    this.sensors.clear();
+    this._stats.accepted = 0;
+    this._stats.lateDropped = 0;
+    this._stats.windowsEmitted = 0;
+  }
+
+  private windowStart(timestamp: number): number {
+    return Math.floor(timestamp / this.windowMs) * this.windowMs;
+  }
+
+  private getOrCreateState(equipmentId: string, sensorType: string): SensorState {
+    const key = getSensorKey(equipmentId, sensorType);
+    let state = this.sensors.get(key);
+    if (!state) {
+      const rollup = this.rollupTiers ? new AggregateRollup(this.rollupTiers) : null;
+      state = {
+        equipmentId,
+        sensorType,
+        windows: new Map(),
+        closedBefore: -Infinity,
+        buffer: rollup ? rollup.getBuffer(0) : createAggregateBuffer(this.bufferCapacity),
+        rollup,
+      };
+      this.sensors.set(key, state);
+    }
+    return state;
+  }
+
+  private closeWindows(shouldClose: (start: number) => boolean): TelemetryAggregate[] {
+    const emitted: TelemetryAggregate[] = [];
+
+    this.sensors.forEach((state) => {
+      const closing: PendingWindow[] = [];
+      state.windows.forEach((window) => {
+        if (shouldClose(window.start)) closing.push(window);
+      });
+      if (closing.length === 0) return;
+
+      // Buffers must stay timestamp-ordered regardless of arrival order
+      closing.sort((a, b) => a.start - b.start);
+
+      for (const window of closing) {
+        state.windows.delete(window.start);
+        const aggregate: TelemetryAggregate = {
+          equipmentId: state.equipmentId,
+          sensorType: state.sensorType,
+          timestamp: window.start,
+          min: window.min,
+          max: window.max,
+          avg: window.sum / window.count,
+          count: window.count,
+        };
+        state.buffer.push(aggregate);
+        emitted.push(aggregate);
+      }
+
+      const last = closing[closing.length - 1] as PendingWindow;
+      state.closedBefore = Math.max(state.closedBefore, last.start + this.windowMs);
+      this._stats.windowsEmitted += closing.length;
+    });
+
+    return emitted;
+  }
+}
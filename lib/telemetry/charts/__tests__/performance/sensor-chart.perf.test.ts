@@ -0,0 +1,50 @@
+import { PerformanceMonitor } from '../../../../../test/utils/performance-monitor';
+import { TelemetryAggregate } from '../../../types';
+import { buildChartModel, FALLBACK_CHART_COLORS } from '../../sensor-chart-model';
+import { drawSensorChart } from '../../sensor-chart-renderer';
+
+// Skip in CI environments to avoid flaky tests
+const describePerf = process.env.CI ? describe.skip : describe;
+
+/** Accepts every call; measures model + path building, not rasterisation */
+function nullContext(): CanvasRenderingContext2D {
+  return new Proxy({} as CanvasRenderingContext2D, {
+    get: () => () => {},
+    set: () => true,
+  });
+}
+
+describePerf('Sensor chart performance', () => {
+  const monitor = new PerformanceMonitor();
+
+  test('lays out and draws 50 ten-minute charts within one frame budget', () => {
+    const charts: TelemetryAggregate[][] = Array.from({ length: 50 }, (_, chart) =>
+      Array.from({ length: 600 }, (_, i) => {
+        const avg = 100 + Math.sin((i + chart) / 30) * 20;
+        return {
+          equipmentId: `eq-${chart}`,
+          sensorType: 'pressure',
+          timestamp: i * 1000,
+          min: avg - 2,
+          max: avg + 2,
+          avg,
+          count: 1,
+        };
+      })
+    );
+    const ctx = nullContext();
+
+    const result = monitor.measure('charts.frame50', () => {
+      for (const series of charts) {
+        const model = buildChartModel(series, {
+          width: 320,
+          height: 96,
+          threshold: { warning: 110, critical: 118 },
+        });
+        drawSensorChart(ctx, model, FALLBACK_CHART_COLORS, { variant: 'area', scrubIndex: -1 });
+      }
+    });
+
+    expect(result.pass).toBe(true);
+  });
+});
@@ -0,0 +1,186 @@
+import { TelemetryAggregate } from '../../../types';
+import { ChartFrameScheduler } from '../../chart-frame-scheduler';
+import {
+  buildChartModel,
+  FALLBACK_CHART_COLORS,
+  findNearestPointIndex,
+  getThresholdStatus,
+  resolveChartColors,
+} from '../../sensor-chart-model';
+
+const BASE = 1_700_000_000_000;
+const NO_PADDING = { top: 0, right: 0, bottom: 0, left: 0 };
+
+function aggregate(second: number, avg: number, spread = 0): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp: BASE + second * 1000,
+    min: avg - spread,
+    max: avg + spread,
+    avg,
+    count: 1,
+  };
+}
+
+describe('sensor chart model', () => {
+  test('threshold status matches TelemetryValue semantics', () => {
+    const threshold = { warning: 80, critical: 95 };
+    expect(getThresholdStatus(79.9, threshold)).toBe('operational');
+    expect(getThresholdStatus(80, threshold)).toBe('warning');
+    expect(getThresholdStatus(95, threshold)).toBe('critical');
+    expect(getThresholdStatus(1000)).toBe('operational');
+  });
+
+  test('maps time to x and value to y with the envelope around the line', () => {
+    const model = buildChartModel([aggregate(0, 10, 2), aggregate(10, 20, 2)], {
+      width: 100,
+      height: 50,
+      padding: NO_PADDING,
+    });
+
+    expect(model.points.map((p) => p.x)).toEqual([0, 100]);
+    const [first, last] = model.points;
+    expect(last!.y).toBeLessThan(first!.y);
+    model.points.forEach((p) => {
+      expect(p.yMax).toBeLessThan(p.y);
+      expect(p.yMin).toBeGreaterThan(p.y);
+      expect(p.yMax).toBeGreaterThanOrEqual(0);
+      expect(p.yMin).toBeLessThanOrEqual(50);
+    });
+  });
+
+  test('draws short series point for point', () => {
+    const series = Array.from({ length: 300 }, (_, i) => aggregate(i, i));
+    expect(buildChartModel(series, { width: 200, height: 80, padding: NO_PADDING }).points).toHaveLength(300);
+  });
+
+  test('downsamples to the plot width but keeps the envelope', () => {
+    const series = Array.from({ length: 3600 }, (_, i) => aggregate(i, 50, i === 1234 ? 40 : 1));
+    const model = buildChartModel(series, { width: 200, height: 80, padding: NO_PADDING });
+
+    expect(model.points).toHaveLength(200);
+    expect(Math.min(...model.points.map((p) => p.aggregate.min))).toBe(10);
+    expect(Math.max(...model.points.map((p) => p.aggregate.max))).toBe(90);
+  });
+
+  test('draws bands for thresholds inside the visible range', () => {
+    const series = [aggregate(0, 60), aggregate(1, 100)];
+    const model = buildChartModel(series, {
+      width: 100,
+      height: 100,
+      padding: NO_PADDING,
+      threshold: { warning: 80, critical: 90 },
+    });
+
+    expect(model.status).toBe('critical');
+    expect(model.bands.map((b) => b.status)).toEqual(['warning', 'critical']);
+    const [warning, critical] = model.bands;
+    expect(critical!.y).toBe(0);
+    expect(critical!.y + critical!.height).toBeCloseTo(warning!.y);
+
+    const quiet = buildChartModel([aggregate(0, 10), aggregate(1, 20)], {
+      width: 100,
+      height: 100,
+      threshold: { warning: 80, critical: 90 },
+    });
+    expect(quiet.bands).toEqual([]);
+    expect(quiet.status).toBe('operational');
+  });
+
+  test('handles empty and flat series', () => {
+    expect(buildChartModel([], { width: 100, height: 50 }).points).toEqual([]);
+
+    const flat = buildChartModel([aggregate(0, 5), aggregate(1, 5)], { width: 100, height: 50 });
+    flat.points.forEach((p) => expect(Number.isFinite(p.y)).toBe(true));
+  });
+
+  test('finds the point nearest the scrubber', () => {
+    const model = buildChartModel([aggregate(0, 1), aggregate(1, 2), aggregate(2, 3)], {
+      width: 100,
+      height: 50,
+      padding: NO_PADDING,
+    });
+
+    expect(findNearestPointIndex(model, -20)).toBe(0);
+    expect(findNearestPointIndex(model, 30)).toBe(1);
+    expect(findNearestPointIndex(model, 80)).toBe(2);
+    expect(findNearestPointIndex(buildChartModel([], { width: 10, height: 10 }), 5)).toBe(-1);
+  });
+
+  test('resolves colors from the fleet status tokens', () => {
+    const tokens: Record<string, string> = {
+      '--fleet-status-warning': ' 45.4 92.9% 57.4%',
+      '--border': 'oklch(31.42% 0.042 264.70)',
+    };
+    const colors = resolveChartColors({ getPropertyValue: (name: string) => tokens[name] ?? '' });
+
+    expect(colors.warning).toBe('hsl(45.4 92.9% 57.4%)');
+    expect(colors.grid).toBe('oklch(31.42% 0.042 264.70)');
+    expect(colors.critical).toBe(FALLBACK_CHART_COLORS.critical);
+  });
+});
+
+describe('ChartFrameScheduler', () => {
+  test('runs the latest draw per chart once per frame', () => {
+    const frames: (() => void)[] = [];
+    const scheduler = new ChartFrameScheduler({ scheduleFrame: (callback) => frames.push(callback) });
+    const chartA = {};
+    const chartB = {};
+    const calls: string[] = [];
+
+    scheduler.schedule(chartA, () => calls.push('a1'));
+    scheduler.schedule(chartA, () => calls.push('a2'));
+    scheduler.schedule(chartB, () => calls.push('b1'));
+    expect(frames).toHaveLength(1);
+
+    frames[0]!();
+    expect(calls).toEqual(['a2', 'b1']);
+    expect(scheduler.size).toBe(0);
+  });
+
+  test('carries draws past the frame budget over to the next frame', () => {
+    const frames: (() => void)[] = [];
+    let clock = 0;
+    const scheduler = new ChartFrameScheduler({
+      scheduleFrame: (callback) => frames.push(callback),
+      frameBudgetMs: 8,
+      now: () => clock,
+    });
+    const drawn: number[] = [];
+    for (let chart = 0; chart < 5; chart++) {
+      scheduler.schedule({}, () => {
+        drawn.push(chart);
+        clock += 3;
+      });
+    }
+
+    frames.shift()!();
+    expect(drawn).toEqual([0, 1, 2]);
+    expect(scheduler.size).toBe(2);
+
+    frames.shift()!();
+    expect(drawn).toEqual([0, 1, 2, 3, 4]);
+    expect(frames).toHaveLength(0);
+  });
+
+  test('cancels a queued draw and isolates failing charts', () => {
+    const scheduler = new ChartFrameScheduler({ scheduleFrame: () => {} });
+    const draw = jest.fn();
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    scheduler.schedule({}, () => {
+      throw new Error('boom');
+    });
+    const cancel = scheduler.schedule({}, draw);
+    const survivor = jest.fn();
+    scheduler.schedule({}, survivor);
+    cancel();
+    scheduler.flush();
+
+    expect(draw).not.toHaveBeenCalled();
+    expect(survivor).toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
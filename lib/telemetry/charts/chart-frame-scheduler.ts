@@ -0,0 +1,97 @@
+/**
+ * ChartFrameScheduler - One animation frame for every chart redraw
+ *
+ * A fleet dashboard shows dozens of charts that all receive data on the same
+ * 1Hz tick. Each chart queues its draw here instead of calling
+ * requestAnimationFrame itself, so the frame runs every pending draw once
+ * (the latest per chart) and the browser composites once.
+ *
+ * When the queued draws would overrun the frame budget, the rest carry over
+ * to the next frame (oldest first), so a 1Hz tick across 50 charts is
+ * spread over a few frames instead of dropping one.
+ *
+ * CAUTION:
+ * - Draw callbacks must be cheap and synchronous; a chart that throws is
+ *   skipped so it can't blank every other chart in the frame
+ */
+
+export interface ChartFrameSchedulerOptions {
+  /** Frame scheduler, injectable for tests (default: requestAnimationFrame) */
+  scheduleFrame?: (callback: () => void) => void;
+
+  /** Stop drawing in a frame after this many ms (default: 8) */
+  frameBudgetMs?: number;
+
+  /** Clock source, injectable for tests */
+  now?: () => number;
+}
+
+export const DEFAULT_FRAME_BUDGET_MS = 8;
+
+function defaultScheduleFrame(callback: () => void): void {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => callback());
+  } else {
+    setTimeout(callback, 16);
+  }
+}
+
+export class ChartFrameScheduler {
+  private readonly pending = new Map<object, () => void>();
+  private readonly scheduleFrame: (callback: () => void) => void;
+  private readonly frameBudgetMs: number;
+  private readonly now: () => number;
+  private frameScheduled = false;
+
+  constructor(options: ChartFrameSchedulerOptions = {}) {
+    this.scheduleFrame = options.scheduleFrame ?? defaultScheduleFrame;
+    this.frameBudgetMs = options.frameBudgetMs ?? DEFAULT_FRAME_BUDGET_MS;
+    this.now = options.now ?? (() => performance.now());
+  }
+
+  /**
+   * Queue a draw for the next frame, replacing any draw already queued
+   * for the same owner
+   * @returns Function that cancels the queued draw
+   */
+  schedule(owner: object, draw: () => void): () => void {
+    this.pending.set(owner, draw);
+    this.requestFrame();
+    return () => {
+      if (this.pending.get(owner) === draw) this.pending.delete(owner);
+    };
+  }
+
+  /**
+   * Run queued draws until the frame budget is spent; at least one draw
+   * always runs so a slow chart can't stall the queue
+   */
+  flush(): void {
+    this.frameScheduled = false;
+    const start = this.now();
+    for (const [owner, draw] of this.pending) {
+      this.pending.delete(owner);
+      try {
+        draw();
+      } catch (error) {
+        // eslint-disable-next-line no-console
+        console.error('[SensorChart] Draw failed:', error);
+      }
+      if (this.now() - start >= this.frameBudgetMs) break;
+    }
+    if (this.pending.size > 0) this.requestFrame();
+  }
+
+  private requestFrame(): void {
+    if (this.frameScheduled) return;
+    this.frameScheduled = true;
+    this.scheduleFrame(() => this.flush());
+  }
+
+  /** Draws waiting for the next frame */
+  get size(): number {
+    return this.pending.size;
+  }
+}
+
+export const chartFrameScheduler = new ChartFrameScheduler();
@@ -0,0 +1,228 @@
+/**
+ * Sensor Chart Model - Pure geometry for the streaming sensor chart
+ *
+ * Turns an aggregate series into pixel coordinates (line, min/max envelope,
+ * warning/critical threshold bands) so the canvas renderer only draws and
+ * the maths can be tested without a DOM.
+ *
+ * TECHNICAL CONTEXT:
+ * - Series with more than two points per pixel are LTTB-downsampled to one
+ *   point per pixel first; the envelope survives because
+ *   downsampleAggregates() keeps each bucket's min/max
+ * - Thresholds use the same { warning, critical } shape and >= semantics
+ *   as TelemetryValue, so a chart and its readout never disagree
+ * - Colors come from the fleet status tokens in globals.css, resolved
+ *   per element so light, dark and high-contrast themes all apply
+ */
+
+import type { StatusLevel } from '@/lib/theme/fleet-theme-context';
+
+import { downsampleAggregates, MIN_DOWNSAMPLE_POINTS } from '../aggregation/downsampling';
+import { TelemetryAggregate } from '../types';
+
+/** Same shape as TelemetryValue's `threshold` prop */
+export interface SensorThreshold {
+  warning: number;
+  critical: number;
+}
+
+export type ThresholdStatus = Extract<StatusLevel, 'operational' | 'warning' | 'critical'>;
+
+export interface ChartPadding {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+export interface ChartModelOptions {
+  /** CSS pixels */
+  width: number;
+  /** CSS pixels */
+  height: number;
+  threshold?: SensorThreshold;
+  padding?: ChartPadding;
+}
+
+export interface ChartPoint {
+  x: number;
+  /** avg */
+  y: number;
+  /** Envelope top (max) */
+  yMax: number;
+  /** Envelope bottom (min) */
+  yMin: number;
+  aggregate: TelemetryAggregate;
+}
+
+export interface ThresholdBand {
+  status: Exclude<ThresholdStatus, 'operational'>;
+  /** Top edge in pixels */
+  y: number;
+  height: number;
+}
+
+export interface ChartModel {
+  width: number;
+  height: number;
+  padding: ChartPadding;
+  points: ChartPoint[];
+  bands: ThresholdBand[];
+  /** Value domain after padding, bottom to top */
+  domain: { min: number; max: number };
+  /** Status of the newest point (operational when empty) */
+  status: ThresholdStatus;
+}
+
+export const DEFAULT_CHART_PADDING: ChartPadding = { top: 4, right: 4, bottom: 4, left: 4 };
+
+/** Below this many points per pixel, drawing them all is cheaper than LTTB */
+const MAX_POINTS_PER_PIXEL = 2;
+
+/** Headroom above and below the data so the envelope never touches the edge */
+const DOMAIN_MARGIN = 0.1;
+
+/**
+ * Threshold status of a value (>= warning / >= critical, as TelemetryValue)
+ */
+export function getThresholdStatus(value: number, threshold?: SensorThreshold): ThresholdStatus {
+  if (!threshold) return 'operational';
+  if (value >= threshold.critical) return 'critical';
+  if (value >= threshold.warning) return 'warning';
+  return 'operational';
+}
+
+function getValueDomain(series: TelemetryAggregate[]): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const aggregate of series) {
+    if (aggregate.min < min) min = aggregate.min;
+    if (aggregate.max > max) max = aggregate.max;
+  }
+  if (!Number.isFinite(min)) return { min: 0, max: 1 };
+
+  // A flat line still needs a visible range to sit in
+  const span = max - min || Math.abs(max) || 1;
+  return { min: min - span * DOMAIN_MARGIN, max: max + span * DOMAIN_MARGIN };
+}
+
+/**
+ * Lay out a series (oldest first) for a plot of the given size
+ */
+export function buildChartModel(series: TelemetryAggregate[], options: ChartModelOptions): ChartModel {
+  const padding = options.padding ?? DEFAULT_CHART_PADDING;
+  const plotWidth = Math.max(options.width - padding.left - padding.right, 0);
+  const plotHeight = Math.max(options.height - padding.top - padding.bottom, 0);
+
+  const maxPoints = Math.max(Math.floor(plotWidth), MIN_DOWNSAMPLE_POINTS);
+  const visible =
+    series.length > maxPoints * MAX_POINTS_PER_PIXEL ? downsampleAggregates(series, maxPoints) : series;
+  const domain = getValueDomain(visible);
+
+  const first = visible[0]?.timestamp ?? 0;
+  const timeSpan = (visible[visible.length - 1]?.timestamp ?? 0) - first;
+  const scaleX = (timestamp: number) =>
+    padding.left + (timeSpan > 0 ? ((timestamp - first) / timeSpan) * plotWidth : plotWidth);
+  const scaleY = (value: number) =>
+    padding.top + (1 - (value - domain.min) / (domain.max - domain.min)) * plotHeight;
+
+  const points = visible.map((aggregate) => ({
+    x: scaleX(aggregate.timestamp),
+    y: scaleY(aggregate.avg),
+    yMax: scaleY(aggregate.max),
+    yMin: scaleY(aggregate.min),
+    aggregate,
+  }));
+
+  const bands: ThresholdBand[] = [];
+  if (options.threshold) {
+    const { warning, critical } = options.threshold;
+    const clampY = (y: number) => Math.min(Math.max(y, padding.top), padding.top + plotHeight);
+    const addBand = (status: ThresholdBand['status'], from: number, to: number) => {
+      const top = clampY(scaleY(to));
+      const bottom = clampY(scaleY(from));
+      if (bottom > top) bands.push({ status, y: top, height: bottom - top });
+    };
+    addBand('warning', warning, Math.max(critical, warning));
+    addBand('critical', critical, domain.max);
+  }
+
+  const latest = visible[visible.length - 1];
+  return {
+    width: options.width,
+    height: options.height,
+    padding,
+    points,
+    bands,
+    domain,
+    status: latest ? getThresholdStatus(latest.avg, options.threshold) : 'operational',
+  };
+}
+
+/**
+ * Index of the point nearest to an x coordinate (for the scrubber),
+ * or -1 when the model has no points
+ */
+export function findNearestPointIndex(model: ChartModel, x: number): number {
+  const { points } = model;
+  if (points.length === 0) return -1;
+
+  let lo = 0;
+  let hi = points.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (points[mid]!.x < x) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo > 0 && x - points[lo - 1]!.x <= points[lo]!.x - x) return lo - 1;
+  return lo;
+}
+
+// ---------------------------------------------------------------------------
+// Colors
+// ---------------------------------------------------------------------------
+
+export interface ChartColors {
+  operational: string;
+  warning: string;
+  critical: string;
+  offline: string;
+  grid: string;
+  text: string;
+}
+
+/**
+ * Where each chart color comes from. Fleet tokens are bare HSL triplets
+ * (`45.4 92.9% 47.4%`); the base tokens are complete colors.
+ */
+export const CHART_COLOR_TOKENS: Record<keyof ChartColors, { variable: string; hsl: boolean }> = {
+  operational: { variable: '--fleet-status-operational', hsl: true },
+  warning: { variable: '--fleet-status-warning', hsl: true },
+  critical: { variable: '--fleet-status-critical', hsl: true },
+  offline: { variable: '--fleet-status-offline', hsl: true },
+  grid: { variable: '--border', hsl: false },
+  text: { variable: '--muted-foreground', hsl: false },
+};
+
+/** Used before styles load or when a token is missing */
+export const FALLBACK_CHART_COLORS: ChartColors = {
+  operational: 'hsl(142.1 70.6% 45.3%)',
+  warning: 'hsl(45.4 92.9% 47.4%)',
+  critical: 'hsl(0 72.2% 50.6%)',
+  offline: 'hsl(0 0% 63.9%)',
+  grid: 'rgba(128, 128, 128, 0.25)',
+  text: 'rgb(113, 113, 122)',
+};
+
+/**
+ * Resolve chart colors from custom properties (e.g. getComputedStyle(canvas))
+ */
+export function resolveChartColors(style: Pick<CSSStyleDeclaration, 'getPropertyValue'>): ChartColors {
+  const colors = { ...FALLBACK_CHART_COLORS };
+  (Object.keys(CHART_COLOR_TOKENS) as (keyof ChartColors)[]).forEach((key) => {
+    const { variable, hsl } = CHART_COLOR_TOKENS[key];
+    const value = style.getPropertyValue(variable).trim();
+    if (value) colors[key] = hsl ? `hsl(${value})` : value;
+  });
+  return colors;
+}
@@ -0,0 +1,98 @@
+/**
+ * Sensor Chart Renderer - Canvas drawing for a ChartModel
+ *
+ * Canvas rather than SVG: fifty charts redrawing every second would mean
+ * thousands of DOM nodes diffed per tick; a canvas redraw is a handful of
+ * path fills with no layout.
+ *
+ * Draw order: threshold bands, envelope, area fill, line, scrubber.
+ */
+
+import { ChartColors, ChartModel } from './sensor-chart-model';
+
+export type SensorChartVariant = 'line' | 'area';
+
+export interface DrawSensorChartOptions {
+  variant: SensorChartVariant;
+  /** Point under the scrubber, or -1 for none */
+  scrubIndex: number;
+  /** Use the offline color (stale or disconnected data) */
+  offline?: boolean;
+  /** devicePixelRatio the canvas backing store was sized for */
+  pixelRatio?: number;
+}
+
+const BAND_ALPHA = 0.12;
+const ENVELOPE_ALPHA = 0.2;
+const AREA_ALPHA = 0.15;
+
+export function drawSensorChart(
+  ctx: CanvasRenderingContext2D,
+  model: ChartModel,
+  colors: ChartColors,
+  options: DrawSensorChartOptions
+): void {
+  const pixelRatio = options.pixelRatio ?? 1;
+  const { points, padding } = model;
+  const bottom = model.height - padding.bottom;
+  const color = options.offline ? colors.offline : colors[model.status];
+
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, model.width, model.height);
+
+  ctx.globalAlpha = BAND_ALPHA;
+  for (const band of model.bands) {
+    ctx.fillStyle = colors[band.status];
+    ctx.fillRect(padding.left, band.y, model.width - padding.left - padding.right, band.height);
+  }
+  ctx.globalAlpha = 1;
+
+  if (points.length === 0) return;
+
+  // Envelope: along the max edge, back along the min edge
+  ctx.beginPath();
+  points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.yMax) : ctx.lineTo(point.x, point.yMax)));
+  for (let i = points.length - 1; i >= 0; i--) {
+    ctx.lineTo(points[i]!.x, points[i]!.yMin);
+  }
+  ctx.closePath();
+  ctx.globalAlpha = ENVELOPE_ALPHA;
+  ctx.fillStyle = color;
+  ctx.fill();
+
+  const traceLine = () => {
+    ctx.beginPath();
+    points.forEach((point, i) => (i === 0 ? ctx.moveTo(point.x, point.y) : ctx.lineTo(point.x, point.y)));
+  };
+
+  if (options.variant === 'area') {
+    traceLine();
+    ctx.lineTo(points[points.length - 1]!.x, bottom);
+    ctx.lineTo(points[0]!.x, bottom);
+    ctx.closePath();
+    ctx.globalAlpha = AREA_ALPHA;
+    ctx.fill();
+  }
+
+  traceLine();
+  ctx.globalAlpha = 1;
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.lineJoin = 'round';
+  ctx.stroke();
+
+  const scrubbed = points[options.scrubIndex];
+  if (scrubbed) {
+    ctx.beginPath();
+    ctx.moveTo(scrubbed.x, padding.top);
+    ctx.lineTo(scrubbed.x, bottom);
+    ctx.strokeStyle = colors.text;
+    ctx.lineWidth = 1;
+    ctx.stroke();
+
+    ctx.beginPath();
+    ctx.arc(scrubbed.x, scrubbed.y, 3, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill();
+  }
+}
@@ -0,0 +1,36 @@
+import { PerformanceMonitor } from '../../../../../test/utils/performance-monitor';
+import { FleetSimulator } from '../../../simulator/fleet-simulator';
+import { TelemetryFrameDecoder, TelemetryFrameEncoder } from '../../telemetry-frame-codec';
+
+// Skip in CI environments to avoid flaky tests
+const describePerf = process.env.CI ? describe.skip : describe;
+
+// One second of the default fleet: ~75 readings
+describePerf('Telemetry frame codec performance', () => {
+  const monitor = new PerformanceMonitor();
+  const { readings } = new FleetSimulator({ seed: 1, faults: { linkDropRate: 0 } }).tick();
+
+  test('encodes one second of the fleet within baseline', () => {
+    const encoder = new TelemetryFrameEncoder();
+    encoder.encode({ readings });
+
+    const result = monitor.measure('codec.encodeTick', () => {
+      encoder.encode({ readings });
+    });
+
+    expect(result.pass).toBe(true);
+  });
+
+  test('decodes one second of the fleet within baseline', () => {
+    const encoder = new TelemetryFrameEncoder();
+    const decoder = new TelemetryFrameDecoder();
+    decoder.decode(encoder.encode({ readings }));
+    const frame = encoder.encode({ readings });
+
+    const result = monitor.measure('codec.decodeTick', () => {
+      decoder.decode(frame);
+    });
+
+    expect(result.pass).toBe(true);
+  });
+});
@@ -0,0 +1,103 @@
+import fc from 'fast-check';
+
+import { TelemetryAggregate, TelemetryReading } from '../../../types';
+import {
+  MAX_FRAME_TIMESTAMP,
+  TelemetryFrameDecoder,
+  TelemetryFrameEncoder,
+} from '../../telemetry-frame-codec';
+
+// A small pool so frames reuse dictionary entries as well as define them
+const id = fc.constantFrom('ex-01', 'ht-07', 'dr-12', 'ünit-ß', '');
+const sensorType = fc.constantFrom('hydraulic-pressure', 'engine-rpm', 'payload', 'temp °C');
+const unit = fc.constantFrom('PSI', 'rpm', 't', '°C', '');
+const timestamp = fc.integer({ min: 0, max: MAX_FRAME_TIMESTAMP });
+const value = fc.oneof(
+  fc.double(),
+  fc.integer({ min: -1e6, max: 1e6 }),
+  fc.integer({ min: -1e6, max: 1e6 }).map((n) => n / 100),
+  fc.float()
+);
+
+const readingArb: fc.Arbitrary<TelemetryReading> = fc.record({
+  equipmentId: id,
+  sensorType,
+  value,
+  unit,
+  timestamp,
+});
+
+const aggregateArb: fc.Arbitrary<TelemetryAggregate> = fc.record({
+  equipmentId: id,
+  sensorType,
+  timestamp,
+  min: value,
+  max: value,
+  avg: value,
+  count: fc.integer({ min: 1, max: 2 ** 31 }),
+});
+
+const frameArb = fc.record({
+  readings: fc.array(readingArb, { maxLength: 30 }),
+  aggregates: fc.array(aggregateArb, { maxLength: 10 }),
+});
+
+// toEqual treats NaN as NaN's equal and 0 as -0's; values must come back
+// bit-for-bit, so compare field by field with toBe (Object.is)
+function expectSame<T extends object>(actual: T[], expected: T[]) {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((item, i) => {
+    const wanted = expected[i]!;
+    expect(Object.keys(item).sort()).toEqual(Object.keys(wanted).sort());
+    for (const key of Object.keys(wanted) as (keyof T)[]) {
+      expect(item[key]).toBe(wanted[key]);
+    }
+  });
+}
+
+describe('Telemetry frame codec properties', () => {
+  test('any frame decodes to exactly what was encoded', () => {
+    fc.assert(
+      fc.property(frameArb, (frame) => {
+        const decoded = new TelemetryFrameDecoder().decode(new TelemetryFrameEncoder().encode(frame));
+        expectSame(decoded.readings, frame.readings);
+        expectSame(decoded.aggregates, frame.aggregates);
+      })
+    );
+  });
+
+  test('a sequence of frames decodes against one shared dictionary', () => {
+    fc.assert(
+      fc.property(fc.array(frameArb, { minLength: 1, maxLength: 8 }), (frames) => {
+        const encoder = new TelemetryFrameEncoder();
+        const decoder = new TelemetryFrameDecoder();
+        frames.forEach((frame) => {
+          const decoded = decoder.decode(encoder.encode(frame));
+          expectSame(decoded.readings, frame.readings);
+          expectSame(decoded.aggregates, frame.aggregates);
+        });
+        expect(decoder.dictionarySize).toBe(encoder.dictionarySize);
+      })
+    );
+  });
+
+  test('a corrupted frame decodes or throws, and a failure leaves the dictionary as it was', () => {
+    fc.assert(
+      fc.property(frameArb, frameArb, fc.nat(), fc.integer({ min: 0, max: 255 }), (first, second, position, byte) => {
+        const encoder = new TelemetryFrameEncoder();
+        const decoder = new TelemetryFrameDecoder();
+        decoder.decode(encoder.encode(first));
+        const known = decoder.dictionarySize;
+        const corrupted = encoder.encode(second);
+        corrupted[position % corrupted.length] = byte;
+
+        try {
+          decoder.decode(corrupted);
+        } catch (error) {
+          expect((error as Error).message).toMatch(/telemetry frame/i);
+          expect(decoder.dictionarySize).toBe(known);
+        }
+      })
+    );
+  });
+});
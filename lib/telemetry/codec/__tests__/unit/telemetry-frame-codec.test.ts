@@ -0,0 +1,266 @@
+import { MockWebSocketServer, settleSockets } from '../../../../../test/utils/mock-websocket';
+import { connectTelemetryFeed, JSON_WIRE_CODEC } from '../../../connection/telemetry-feed';
+import { WebSocketManager } from '../../../connection/websocket-manager';
+import { NO_SIMULATOR_FAULTS } from '../../../simulator/fleet-simulator';
+import { SIMULATOR_URL, SimulatorServer } from '../../../simulator/simulator-server';
+import { createTelemetryStore } from '../../../stores/telemetry-store';
+import { getSensorKey, TelemetryAggregate, TelemetryReading } from '../../../types';
+import { ReadingValidator } from '../../../validation/reading-validator';
+import {
+  isBinaryPayload,
+  TELEMETRY_FRAME_CODEC,
+  TELEMETRY_FRAME_VERSION,
+  TelemetryFrameDecoder,
+  TelemetryFrameEncoder,
+} from '../../telemetry-frame-codec';
+
+const NOW = 1_700_000_000_000;
+
+function reading(overrides: Partial<TelemetryReading> = {}): TelemetryReading {
+  return {
+    equipmentId: 'ex-01',
+    sensorType: 'hydraulic-pressure',
+    value: 2712.35,
+    unit: 'PSI',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function fleetBatch(timestamp: number): TelemetryReading[] {
+  return ['ex-01', 'ex-02', 'ht-01'].flatMap((equipmentId, unit) =>
+    ['hydraulic-pressure', 'engine-temperature', 'engine-rpm'].map((sensorType, sensor) =>
+      reading({ equipmentId, sensorType, value: 100 + unit * 10 + sensor + 0.25, timestamp: timestamp + unit })
+    )
+  );
+}
+
+describe('TelemetryFrameEncoder / TelemetryFrameDecoder', () => {
+  test('round-trips readings and aggregates', () => {
+    const readings = [
+      reading(),
+      reading({ value: -4, timestamp: NOW - 1500 }),
+      reading({ sensorType: 'vibration', value: 0.1 + 0.2, unit: 'mm/s', timestamp: NOW + 20 }),
+      reading({ value: 1.5, timestamp: NOW + 20 }),
+    ];
+    const aggregates: TelemetryAggregate[] = [
+      { equipmentId: 'ex-01', sensorType: 'hydraulic-pressure', timestamp: NOW, min: 2690, max: 2731.5, avg: 2712.123, count: 60 },
+      { equipmentId: 'dr-01', sensorType: 'bit-depth', timestamp: NOW - 60_000, min: 0, max: 0, avg: 0, count: 1 },
+    ];
+
+    const frame = new TelemetryFrameEncoder().encode({ readings, aggregates });
+
+    expect(new TelemetryFrameDecoder().decode(frame)).toEqual({ readings, aggregates });
+  });
+
+  test('frames are a fraction of the JSON size once the dictionary is shared', () => {
+    const encoder = new TelemetryFrameEncoder();
+    const first = encoder.encode({ readings: fleetBatch(NOW) });
+    const second = encoder.encode({ readings: fleetBatch(NOW + 1000) });
+    const json = JSON.stringify(fleetBatch(NOW + 1000)).length;
+
+    expect(encoder.dictionarySize).toBe(9);
+    expect(second.byteLength).toBeLessThan(first.byteLength / 3);
+    expect(second.byteLength).toBeLessThan(json / 10);
+  });
+
+  test('decodes a sequence of frames against the shared dictionary', () => {
+    const encoder = new TelemetryFrameEncoder();
+    const decoder = new TelemetryFrameDecoder();
+    const batches = [fleetBatch(NOW), fleetBatch(NOW + 1000), [reading({ equipmentId: 'dr-01', timestamp: NOW + 2000 })]];
+
+    batches.forEach((readings) => {
+      expect(decoder.decode(encoder.encode({ readings })).readings).toEqual(readings);
+    });
+    expect(decoder.dictionarySize).toBe(encoder.dictionarySize);
+  });
+
+  test('refuses frames from another version or that are not frames at all', () => {
+    const frame = new TelemetryFrameEncoder().encode({ readings: [reading()] });
+    frame[2] = TELEMETRY_FRAME_VERSION + 1;
+
+    expect(() => new TelemetryFrameDecoder().decode(frame)).toThrow(
+      `Unsupported telemetry frame version ${TELEMETRY_FRAME_VERSION + 1}`
+    );
+    expect(() => new TelemetryFrameDecoder().decode(new TextEncoder().encode('{"type":"telemetry"}'))).toThrow(
+      'Not a telemetry frame'
+    );
+  });
+
+  test('rejects truncated and padded frames', () => {
+    const frame = new TelemetryFrameEncoder().encode({ readings: fleetBatch(NOW) });
+    const padded = new Uint8Array(frame.byteLength + 1);
+    padded.set(frame);
+
+    for (let length = 0; length < frame.byteLength; length++) {
+      expect(() => new TelemetryFrameDecoder().decode(frame.subarray(0, length))).toThrow();
+    }
+    expect(() => new TelemetryFrameDecoder().decode(padded)).toThrow('Unexpected bytes after telemetry frame');
+  });
+
+  test('a frame that fails to decode leaves the dictionary untouched', () => {
+    const encoder = new TelemetryFrameEncoder();
+    const decoder = new TelemetryFrameDecoder();
+    decoder.decode(encoder.encode({ readings: [reading()] }));
+
+    const next = encoder.encode({ readings: [reading({ equipmentId: 'ex-02' })] });
+    expect(() => decoder.decode(next.subarray(0, next.byteLength - 1))).toThrow('Truncated telemetry frame');
+    expect(decoder.dictionarySize).toBe(1);
+    expect(decoder.decode(next).readings).toEqual([reading({ equipmentId: 'ex-02' })]);
+  });
+
+  test('a decoder that missed a frame reports the unknown sensor', () => {
+    const encoder = new TelemetryFrameEncoder();
+    encoder.encode({ readings: [reading()] });
+
+    expect(() => new TelemetryFrameDecoder().decode(encoder.encode({ readings: [reading()] }))).toThrow(
+      'Unknown sensor id 0 in telemetry frame'
+    );
+  });
+
+  test('refuses timestamps and counts it cannot encode, without growing the dictionary', () => {
+    const encoder = new TelemetryFrameEncoder();
+
+    expect(() => encoder.encode({ readings: [reading({ timestamp: NOW + 0.5 })] })).toThrow(
+      'Telemetry frames need integer millisecond timestamps, got 1700000000000.5'
+    );
+    expect(() =>
+      encoder.encode({
+        aggregates: [{ equipmentId: 'ex-01', sensorType: 'rpm', timestamp: NOW, min: 1, max: 1, avg: 1, count: 0 }],
+      })
+    ).toThrow('Aggregate count must be a positive integer, got 0');
+    expect(encoder.dictionarySize).toBe(0);
+  });
+
+  test('isBinaryPayload tells frames from parsed JSON', () => {
+    expect(isBinaryPayload(new ArrayBuffer(4))).toBe(true);
+    expect(isBinaryPayload(new Uint8Array(4))).toBe(true);
+    expect(isBinaryPayload({ type: 'telemetry' })).toBe(false);
+    expect(isBinaryPayload('FT')).toBe(false);
+  });
+});
+
+describe('codec negotiation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  async function advance(ms: number) {
+    jest.advanceTimersByTime(ms);
+    for (let i = 0; i < 3; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  function setup(codecs?: string[]) {
+    const server = new SimulatorServer({
+      seed: 9,
+      fleet: { excavator: 1, 'haul-truck': 0, drill: 0 },
+      faults: NO_SIMULATOR_FAULTS,
+      maintenanceRatio: 0,
+      ...(codecs && { codecs }),
+    });
+    const manager = new WebSocketManager({ url: SIMULATOR_URL, createSocket: server.createSocket, random: () => 0 });
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const validator = new ReadingValidator();
+    const messages: unknown[] = [];
+    manager.onMessage((message) => messages.push(message));
+    connectTelemetryFeed(manager, store, validator);
+    return { server, manager, store, validator, messages };
+  }
+
+  test('switches to binary frames when the server supports them', async () => {
+    const { server, manager, store, messages } = setup();
+    server.start();
+    manager.connect();
+    await advance(0);
+    await advance(3000);
+    store.getState().flush();
+
+    expect(messages[0]).toEqual({ type: 'hello', codec: TELEMETRY_FRAME_CODEC });
+    expect(messages.slice(1).every(isBinaryPayload)).toBe(true);
+    expect(store.getState().sensors[getSensorKey('ex-01', 'engine-rpm')]?.latest?.timestamp).toBe(NOW + 3000);
+
+    manager.disconnect();
+    server.stop();
+  });
+
+  test('stays on JSON when the server only speaks JSON', async () => {
+    const { server, manager, store, messages } = setup([JSON_WIRE_CODEC]);
+    server.start();
+    manager.connect();
+    await advance(0);
+    await advance(2000);
+    store.getState().flush();
+
+    expect(messages[0]).toEqual({ type: 'hello', codec: JSON_WIRE_CODEC });
+    expect(messages.slice(1)).toEqual([
+      expect.objectContaining({ type: 'telemetry' }),
+      expect.objectContaining({ type: 'telemetry' }),
+    ]);
+    expect(store.getState().sensors[getSensorKey('ex-01', 'engine-rpm')]?.latest?.timestamp).toBe(NOW + 2000);
+
+    manager.disconnect();
+    server.stop();
+  });
+
+  test('quarantines frames that fail to decode, and decodes aggregates', async () => {
+    const server = new MockWebSocketServer();
+    const manager = new WebSocketManager({ url: 'wss://telemetry.test', createSocket: server.createSocket });
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const validator = new ReadingValidator();
+    connectTelemetryFeed(manager, store, validator);
+    manager.connect();
+    await settleSockets();
+
+    expect(JSON.parse(server.latest!.sent[0] as string)).toEqual({
+      type: 'hello',
+      codecs: [TELEMETRY_FRAME_CODEC, JSON_WIRE_CODEC],
+    });
+
+    const encoder = new TelemetryFrameEncoder();
+    const aggregate = { equipmentId: 'ex-01', sensorType: 'engine-rpm', timestamp: NOW, min: 1, max: 3, avg: 2, count: 3 };
+    server.broadcast(new Uint8Array([0x46, 0x54, TELEMETRY_FRAME_VERSION]).buffer);
+    server.broadcast(encoder.encode({ readings: [reading()], aggregates: [aggregate] }).slice().buffer);
+    store.getState().flush();
+
+    expect(validator.getQuarantine()).toEqual([
+      { reason: 'malformed', detail: 'Truncated telemetry frame', receivedAt: NOW, reading: { frameBytes: 3 } },
+    ]);
+    expect(store.getState().sensors[getSensorKey('ex-01', 'hydraulic-pressure')]?.latest).toEqual(reading());
+    expect(store.getState().sensors[getSensorKey('ex-01', 'engine-rpm')]?.buffer.getAll()).toEqual([aggregate]);
+    manager.disconnect();
+  });
+
+  test('starts a new dictionary after reconnecting', async () => {
+    const server = new MockWebSocketServer();
+    const manager = new WebSocketManager({
+      url: 'wss://telemetry.test',
+      createSocket: server.createSocket,
+      random: () => 0,
+    });
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const validator = new ReadingValidator();
+    connectTelemetryFeed(manager, store, validator);
+    manager.connect();
+    await settleSockets();
+    server.broadcast(new TelemetryFrameEncoder().encode({ readings: [reading()] }).slice().buffer);
+
+    server.dropAll();
+    jest.advanceTimersByTime(1000);
+    await settleSockets();
+    // The server's encoder for the new connection starts again from id 0
+    const rpm = reading({ sensorType: 'engine-rpm', value: 1800, unit: 'rpm', timestamp: NOW + 1000 });
+    server.broadcast(new TelemetryFrameEncoder().encode({ readings: [rpm] }).slice().buffer);
+    store.getState().flush();
+
+    expect(server.connections).toHaveLength(2);
+    expect(validator.stats).toMatchObject({ accepted: 2, quarantined: 0 });
+    expect(store.getState().sensors[getSensorKey('ex-01', 'engine-rpm')]?.latest).toEqual(rpm);
+    manager.disconnect();
+  });
+});
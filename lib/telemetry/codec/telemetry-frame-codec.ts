@@ -0,0 +1,433 @@
+/**
+ * Telemetry Frame Codec - Compact binary frames for constrained links
+ *
+ * As JSON every TelemetryReading repeats its equipmentId, sensorType and
+ * unit (~100 bytes per reading); over satellite and 2G links that is most
+ * of the bill. A frame instead refers to sensors by a small integer from a
+ * sensor dictionary that both ends build up during the connection, so a
+ * reading costs ~4-11 bytes.
+ *
+ * Frame layout (little-endian; varint = unsigned LEB128):
+ *   magic 'FT' | u8 version | u8 flags (0)
+ *   varint new dictionary entries, each: string equipmentId, sensorType, unit
+ *   varint reading count, then if > 0: f64 base timestamp and per reading:
+ *     varint (sensorId << 2 | value kind) | zigzag timestamp delta | value
+ *   varint aggregate count, then if > 0: f64 base timestamp and per aggregate:
+ *     varint sensorId | u8 value kinds (min, max, avg) | zigzag timestamp
+ *     delta | varint count | min | max | avg
+ * Strings are varint length + UTF-8. Timestamp deltas are from the previous
+ * item in the same section. Values are packed as the smallest exact kind:
+ * integer (zigzag varint), hundredths (zigzag varint of value × 100),
+ * float32, or float64.
+ *
+ * TECHNICAL CONTEXT:
+ * - Dictionary ids are assigned in order of first use; the encoder ships new
+ *   entries in the frame that first needs them. Frames must be decoded in
+ *   the order they were encoded, and both sides start a new dictionary on
+ *   every connection (reset())
+ * - Aggregates carry no unit; they refer to any entry for their sensor
+ *
+ * CAUTION:
+ * - Bump TELEMETRY_FRAME_VERSION on any layout change. Decoders refuse other
+ *   versions; the codec is negotiated per connection (see telemetry-feed), so
+ *   an old server simply keeps sending JSON
+ * - Timestamps must be integer milliseconds in [0, MAX_FRAME_TIMESTAMP]
+ */
+
+import { TelemetryAggregate, TelemetryReading } from '../types';
+
+export const TELEMETRY_FRAME_VERSION = 1;
+
+/** Codec name used in connection negotiation */
+export const TELEMETRY_FRAME_CODEC = `fleetops-frame/${TELEMETRY_FRAME_VERSION}`;
+
+/** 2^48 ms - around the year 10889; keeps zigzag deltas exact */
+export const MAX_FRAME_TIMESTAMP = 2 ** 48;
+
+export interface TelemetryFrame {
+  readings: TelemetryReading[];
+  aggregates: TelemetryAggregate[];
+}
+
+interface SensorEntry {
+  equipmentId: string;
+  sensorType: string;
+  unit: string;
+}
+
+const MAGIC_F = 0x46;
+const MAGIC_T = 0x54;
+
+const VALUE_INTEGER = 0;
+const VALUE_HUNDREDTHS = 1;
+const VALUE_FLOAT32 = 2;
+const VALUE_FLOAT64 = 3;
+
+/** Largest magnitude packed as a varint: zigzag doubles it */
+const MAX_PACKED_INTEGER = 2 ** 51;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Stateful encoder for one connection
+ */
+export class TelemetryFrameEncoder {
+  private readonly entries: SensorEntry[] = [];
+  private readonly readingIds = new Map<string, number>();
+  private readonly sensorIds = new Map<string, number>();
+
+  /** Dictionary entries defined so far */
+  get dictionarySize(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Encode readings and/or aggregates into one frame
+   * @throws Error if a timestamp, count or value can't be encoded
+   */
+  encode({ readings = [], aggregates = [] }: Partial<TelemetryFrame>): Uint8Array {
+    // Check everything before the dictionary grows, or a failed frame would
+    // leave entries the decoder never receives
+    readings.forEach((reading) => checkTimestamp(reading.timestamp));
+    aggregates.forEach((aggregate) => {
+      checkTimestamp(aggregate.timestamp);
+      if (!Number.isSafeInteger(aggregate.count) || aggregate.count < 1) {
+        throw new Error(`Aggregate count must be a positive integer, got ${aggregate.count}`);
+      }
+    });
+
+    const firstNewEntry = this.entries.length;
+    const readingIds = readings.map((r) => this.idFor(r.equipmentId, r.sensorType, r.unit));
+    const aggregateIds = aggregates.map((a) => this.sensorIdFor(a.equipmentId, a.sensorType));
+
+    const writer = new FrameWriter();
+    writer.u8(MAGIC_F);
+    writer.u8(MAGIC_T);
+    writer.u8(TELEMETRY_FRAME_VERSION);
+    writer.u8(0);
+
+    writer.varint(this.entries.length - firstNewEntry);
+    for (let i = firstNewEntry; i < this.entries.length; i++) {
+      const entry = this.entries[i]!;
+      writer.string(entry.equipmentId);
+      writer.string(entry.sensorType);
+      writer.string(entry.unit);
+    }
+
+    writer.varint(readings.length);
+    let previous = readings[0]?.timestamp ?? 0;
+    if (readings.length > 0) writer.f64(previous);
+    readings.forEach((reading, i) => {
+      const { timestamp } = reading;
+      const kind = valueKind(reading.value);
+      writer.varint(readingIds[i]! * 4 + kind);
+      writer.zigzag(timestamp - previous);
+      writer.value(kind, reading.value);
+      previous = timestamp;
+    });
+
+    writer.varint(aggregates.length);
+    previous = aggregates[0]?.timestamp ?? 0;
+    if (aggregates.length > 0) writer.f64(previous);
+    aggregates.forEach((aggregate, i) => {
+      const { timestamp } = aggregate;
+      const kinds = [valueKind(aggregate.min), valueKind(aggregate.max), valueKind(aggregate.avg)] as const;
+      writer.varint(aggregateIds[i]!);
+      writer.u8(kinds[0] | (kinds[1] << 2) | (kinds[2] << 4));
+      writer.zigzag(timestamp - previous);
+      writer.varint(aggregate.count);
+      writer.value(kinds[0], aggregate.min);
+      writer.value(kinds[1], aggregate.max);
+      writer.value(kinds[2], aggregate.avg);
+      previous = timestamp;
+    });
+
+    return writer.finish();
+  }
+
+  /**
+   * Forget the dictionary (new connection)
+   */
+  reset(): void {
+    this.entries.length = 0;
+    this.readingIds.clear();
+    this.sensorIds.clear();
+  }
+
+  private idFor(equipmentId: string, sensorType: string, unit: string): number {
+    const key = `${equipmentId}\u0000${sensorType}\u0000${unit}`;
+    let id = this.readingIds.get(key);
+    if (id === undefined) {
+      id = this.define({ equipmentId, sensorType, unit });
+      this.readingIds.set(key, id);
+    }
+    return id;
+  }
+
+  private sensorIdFor(equipmentId: string, sensorType: string): number {
+    return this.sensorIds.get(`${equipmentId}\u0000${sensorType}`) ?? this.idFor(equipmentId, sensorType, '');
+  }
+
+  private define(entry: SensorEntry): number {
+    const id = this.entries.length;
+    this.entries.push(entry);
+    const sensorKey = `${entry.equipmentId}\u0000${entry.sensorType}`;
+    if (!this.sensorIds.has(sensorKey)) this.sensorIds.set(sensorKey, id);
+    return id;
+  }
+}
+
+/**
+ * Stateful decoder for one connection
+ */
+export class TelemetryFrameDecoder {
+  private readonly entries: SensorEntry[] = [];
+
+  get dictionarySize(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Decode one frame. A frame that fails leaves the dictionary as it was.
+   * @throws Error if the frame is truncated, corrupt, from another version,
+   *   or refers to a sensor this decoder hasn't been told about
+   */
+  decode(frame: ArrayBuffer | ArrayBufferView): TelemetryFrame {
+    const knownEntries = this.entries.length;
+    try {
+      return this.read(new FrameReader(frame));
+    } catch (error) {
+      this.entries.length = knownEntries;
+      throw error;
+    }
+  }
+
+  /**
+   * Forget the dictionary (new connection)
+   */
+  reset(): void {
+    this.entries.length = 0;
+  }
+
+  private read(reader: FrameReader): TelemetryFrame {
+    if (reader.u8() !== MAGIC_F || reader.u8() !== MAGIC_T) {
+      throw new Error('Not a telemetry frame');
+    }
+    const version = reader.u8();
+    if (version !== TELEMETRY_FRAME_VERSION) {
+      throw new Error(`Unsupported telemetry frame version ${version}`);
+    }
+    reader.u8(); // flags, reserved
+
+    const entryCount = reader.varint();
+    for (let i = 0; i < entryCount; i++) {
+      this.entries.push({ equipmentId: reader.string(), sensorType: reader.string(), unit: reader.string() });
+    }
+    const entry = (id: number) => {
+      const found = this.entries[id];
+      if (!found) throw new Error(`Unknown sensor id ${id} in telemetry frame`);
+      return found;
+    };
+
+    const readings: TelemetryReading[] = [];
+    const readingCount = reader.varint();
+    let timestamp = readingCount > 0 ? reader.f64() : 0;
+    for (let i = 0; i < readingCount; i++) {
+      const header = reader.varint();
+      const { equipmentId, sensorType, unit } = entry(Math.floor(header / 4));
+      timestamp += reader.zigzag();
+      readings.push({ equipmentId, sensorType, value: reader.value(header % 4), unit, timestamp });
+    }
+
+    const aggregates: TelemetryAggregate[] = [];
+    const aggregateCount = reader.varint();
+    timestamp = aggregateCount > 0 ? reader.f64() : 0;
+    for (let i = 0; i < aggregateCount; i++) {
+      const { equipmentId, sensorType } = entry(reader.varint());
+      const kinds = reader.u8();
+      timestamp += reader.zigzag();
+      const count = reader.varint();
+      const min = reader.value(kinds & 3);
+      const max = reader.value((kinds >> 2) & 3);
+      const avg = reader.value((kinds >> 4) & 3);
+      aggregates.push({ equipmentId, sensorType, timestamp, min, max, avg, count });
+    }
+
+    if (!reader.done) {
+      throw new Error('Unexpected bytes after telemetry frame');
+    }
+    return { readings, aggregates };
+  }
+}
+
+function checkTimestamp(timestamp: number): void {
+  if (!Number.isInteger(timestamp) || timestamp < 0 || timestamp > MAX_FRAME_TIMESTAMP) {
+    throw new Error(`Telemetry frames need integer millisecond timestamps, got ${timestamp}`);
+  }
+}
+
+function valueKind(value: number): number {
+  if (Object.is(value, -0) || !Number.isFinite(value)) {
+    return Math.fround(value) === value || Number.isNaN(value) ? VALUE_FLOAT32 : VALUE_FLOAT64;
+  }
+  if (Number.isInteger(value) && Math.abs(value) <= MAX_PACKED_INTEGER) return VALUE_INTEGER;
+  const hundredths = Math.round(value * 100);
+  if (Math.abs(hundredths) <= MAX_PACKED_INTEGER && hundredths / 100 === value) return VALUE_HUNDREDTHS;
+  return Math.fround(value) === value ? VALUE_FLOAT32 : VALUE_FLOAT64;
+}
+
+class FrameWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  u8(value: number): void {
+    this.reserve(1);
+    this.bytes[this.length++] = value;
+  }
+
+  varint(value: number): void {
+    this.reserve(8);
+    while (value >= 0x80) {
+      this.bytes[this.length++] = (value % 0x80) | 0x80;
+      value = Math.floor(value / 0x80);
+    }
+    this.bytes[this.length++] = value;
+  }
+
+  zigzag(value: number): void {
+    this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+  }
+
+  f64(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value, true);
+    this.length += 8;
+  }
+
+  value(kind: number, value: number): void {
+    switch (kind) {
+      case VALUE_INTEGER:
+        return this.zigzag(value);
+      case VALUE_HUNDREDTHS:
+        return this.zigzag(Math.round(value * 100));
+      case VALUE_FLOAT32:
+        this.reserve(4);
+        this.view.setFloat32(this.length, value, true);
+        this.length += 4;
+        return;
+      default:
+        return this.f64(value);
+    }
+  }
+
+  string(value: string): void {
+    const encoded = textEncoder.encode(value);
+    this.varint(encoded.length);
+    this.reserve(encoded.length);
+    this.bytes.set(encoded, this.length);
+    this.length += encoded.length;
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private reserve(extra: number): void {
+    if (this.length + extra <= this.bytes.length) return;
+    const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + extra));
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+}
+
+class FrameReader {
+  private readonly bytes: Uint8Array;
+  private readonly view: DataView;
+  private offset = 0;
+
+  constructor(frame: ArrayBuffer | ArrayBufferView) {
+    this.bytes = ArrayBuffer.isView(frame)
+      ? new Uint8Array(frame.buffer, frame.byteOffset, frame.byteLength)
+      : new Uint8Array(frame);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  u8(): number {
+    this.need(1);
+    return this.bytes[this.offset++]!;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.u8();
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+      if (scale >= 2 ** 56) throw new Error('Corrupt varint in telemetry frame');
+    }
+  }
+
+  zigzag(): number {
+    const value = this.varint();
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  f64(): number {
+    this.need(8);
+    const value = this.view.getFloat64(this.offset, true);
+    this.offset += 8;
+    return value;
+  }
+
+  value(kind: number): number {
+    switch (kind) {
+      case VALUE_INTEGER:
+        return this.zigzag();
+      case VALUE_HUNDREDTHS:
+        return this.zigzag() / 100;
+      case VALUE_FLOAT32: {
+        this.need(4);
+        const value = this.view.getFloat32(this.offset, true);
+        this.offset += 4;
+        return value;
+      }
+      default:
+        return this.f64();
+    }
+  }
+
+  string(): string {
+    const length = this.varint();
+    this.need(length);
+    let value: string;
+    try {
+      value = textDecoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+    } catch {
+      throw new Error('Invalid UTF-8 in telemetry frame');
+    }
+    this.offset += length;
+    return value;
+  }
+
+  private need(bytes: number): void {
+    if (this.offset + bytes > this.bytes.length) {
+      throw new Error('Truncated telemetry frame');
+    }
+  }
+}
+
+/**
+ * Whether a WebSocket message is binary (a frame) rather than JSON text
+ */
+export function isBinaryPayload(data: unknown): data is ArrayBuffer | ArrayBufferView {
+  return data instanceof ArrayBuffer || ArrayBuffer.isView(data);
+}
@@ -0,0 +1,356 @@
+import {
+  MockWebSocketServer,
+  settleSockets,
+} from '../../../../../test/utils/mock-websocket';
+import {
+  ConnectionState,
+  toConnectionIndicatorStatus,
+  toConnectionQuality,
+  WebSocketManager,
+  WebSocketManagerOptions,
+} from '../../websocket-manager';
+
+function setup(options: Partial<WebSocketManagerOptions> = {}) {
+  const server = new MockWebSocketServer();
+  const manager = new WebSocketManager({
+    url: 'wss://telemetry.test/stream',
+    createSocket: server.createSocket,
+    random: () => 0, // No jitter unless a test asks for it
+    ...options,
+  });
+  const states: ConnectionState[] = [];
+  manager.subscribe((state) => states.push(state));
+  return { server, manager, states };
+}
+
+function state(overrides: Partial<ConnectionState> = {}): ConnectionState {
+  return {
+    status: 'connected',
+    latencyMs: null,
+    attempt: 0,
+    retriesExhausted: false,
+    queuedMessages: 0,
+    droppedMessages: 0,
+    lastConnectedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('WebSocketManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('connection lifecycle', () => {
+    test('starts disconnected and reports connected after open', async () => {
+      const { manager, states } = setup();
+      expect(manager.getState().status).toBe('disconnected');
+
+      manager.connect();
+      expect(manager.getState().status).toBe('reconnecting');
+
+      await settleSockets();
+      expect(manager.getState().status).toBe('connected');
+      expect(states.map((s) => s.status)).toEqual(['disconnected', 'reconnecting', 'connected']);
+    });
+
+    test('disconnect closes the socket and does not reconnect', async () => {
+      const { server, manager } = setup();
+      manager.connect();
+      await settleSockets();
+
+      manager.disconnect();
+      jest.advanceTimersByTime(60_000);
+      await settleSockets();
+
+      expect(manager.getState().status).toBe('disconnected');
+      expect(server.connections).toHaveLength(1);
+    });
+
+    test('delivers parsed JSON messages to listeners', async () => {
+      const { server, manager } = setup();
+      const listener = jest.fn();
+      manager.onMessage(listener);
+      manager.connect();
+      await settleSockets();
+
+      server.broadcast({ type: 'telemetry', readings: [] });
+      expect(listener).toHaveBeenCalledWith({ type: 'telemetry', readings: [] });
+    });
+
+    test('passes binary frames through untouched', async () => {
+      const { server, manager } = setup();
+      const listener = jest.fn();
+      manager.onMessage(listener);
+      manager.connect();
+      await settleSockets();
+
+      const frame = new ArrayBuffer(8);
+      server.latest?.deliver(frame);
+      expect(listener).toHaveBeenCalledWith(frame);
+    });
+  });
+
+  describe('reconnection', () => {
+    test('reconnects after an abnormal close', async () => {
+      const { server, manager } = setup({ baseDelayMs: 1000 });
+      manager.connect();
+      await settleSockets();
+
+      server.dropAll();
+      expect(manager.getState()).toMatchObject({ status: 'reconnecting', attempt: 1 });
+
+      jest.advanceTimersByTime(1000);
+      await settleSockets();
+      expect(manager.getState()).toMatchObject({ status: 'connected', attempt: 1 });
+      expect(server.connections).toHaveLength(2);
+    });
+
+    test('resets the retry budget only once a connection stays up', async () => {
+      const { server, manager } = setup({ baseDelayMs: 1000, stableAfterMs: 5000 });
+      manager.connect();
+      await settleSockets();
+      server.dropAll();
+      jest.advanceTimersByTime(1000);
+      await settleSockets();
+
+      jest.advanceTimersByTime(4999);
+      expect(manager.getState()).toMatchObject({ status: 'connected', attempt: 1 });
+      jest.advanceTimersByTime(1);
+      expect(manager.getState()).toMatchObject({ status: 'connected', attempt: 0 });
+    });
+
+    test('gives up on a server that accepts and closes straight away', async () => {
+      const { server, manager } = setup({ baseDelayMs: 10, maxRetries: 3, stableAfterMs: 5000 });
+      manager.connect();
+
+      for (let i = 0; i < 5; i++) {
+        await settleSockets();
+        server.dropAll();
+        jest.advanceTimersByTime(100);
+      }
+      await settleSockets();
+
+      expect(server.connections).toHaveLength(4); // Initial attempt + 3 retries
+      expect(manager.getState()).toMatchObject({ status: 'disconnected', retriesExhausted: true });
+    });
+
+    test('backs off exponentially up to the max delay', () => {
+      const { manager } = setup({ baseDelayMs: 1000, maxDelayMs: 8000 });
+      expect([0, 1, 2, 3, 4, 5].map((n) => manager.getReconnectDelay(n))).toEqual([
+        1000, 2000, 4000, 8000, 8000, 8000,
+      ]);
+    });
+
+    test('adds jitter proportional to the delay', () => {
+      const { manager } = setup({ baseDelayMs: 1000, jitterRatio: 0.5, random: () => 1 });
+      expect(manager.getReconnectDelay(2)).toBe(6000);
+    });
+
+    test('waits the backoff delay before each attempt', async () => {
+      const { server, manager } = setup({ baseDelayMs: 1000 });
+      server.accepting = false;
+      manager.connect();
+      await settleSockets();
+      expect(server.connections).toHaveLength(1);
+
+      jest.advanceTimersByTime(999);
+      expect(server.connections).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      await settleSockets();
+      expect(server.connections).toHaveLength(2);
+
+      // Second retry waits twice as long
+      jest.advanceTimersByTime(1999);
+      expect(server.connections).toHaveLength(2);
+      jest.advanceTimersByTime(1);
+      expect(server.connections).toHaveLength(3);
+    });
+
+    test('gives up after maxRetries and reports an error indicator', async () => {
+      const { server, manager } = setup({ baseDelayMs: 10, maxRetries: 3 });
+      server.accepting = false;
+      manager.connect();
+
+      for (let i = 0; i < 5; i++) {
+        await settleSockets();
+        jest.advanceTimersByTime(10_000);
+      }
+      await settleSockets();
+
+      expect(server.connections).toHaveLength(4); // Initial attempt + 3 retries
+      expect(manager.getState()).toMatchObject({ status: 'disconnected', retriesExhausted: true });
+      expect(toConnectionIndicatorStatus(manager.getState())).toBe('error');
+    });
+
+    test('connect() resets an exhausted retry budget', async () => {
+      const { server, manager } = setup({ baseDelayMs: 10, maxRetries: 2 });
+      const exhaust = async () => {
+        manager.connect();
+        for (let i = 0; i < 4; i++) {
+          await settleSockets();
+          jest.advanceTimersByTime(10_000);
+        }
+        await settleSockets();
+      };
+      server.accepting = false;
+      await exhaust();
+      expect(server.connections).toHaveLength(3);
+      expect(manager.getState()).toMatchObject({ attempt: 2, retriesExhausted: true });
+
+      // The full backoff sequence runs again
+      await exhaust();
+      expect(server.connections).toHaveLength(6);
+      expect(manager.getState()).toMatchObject({ attempt: 2, retriesExhausted: true });
+
+      server.accepting = true;
+      manager.connect();
+      await settleSockets();
+      expect(manager.getState()).toMatchObject({ status: 'connected', attempt: 0, retriesExhausted: false });
+    });
+  });
+
+  describe('heartbeat', () => {
+    test('measures round-trip latency from pong replies', async () => {
+      const { server, manager } = setup({ heartbeatIntervalMs: 1000 });
+      server.pongDelayMs = 120;
+      manager.connect();
+      await settleSockets();
+
+      jest.advanceTimersByTime(1000);
+      expect(manager.getState().latencyMs).toBeNull();
+      jest.advanceTimersByTime(120);
+      expect(manager.getState().latencyMs).toBe(120);
+      expect(toConnectionQuality(manager.getState())).toBe('excellent');
+    });
+
+    test('pongs never reach message listeners', async () => {
+      const { manager } = setup({ heartbeatIntervalMs: 1000 });
+      const listener = jest.fn();
+      manager.onMessage(listener);
+      manager.connect();
+      await settleSockets();
+
+      jest.advanceTimersByTime(1000);
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('forces a reconnect when pongs stop (silent disconnect)', async () => {
+      const { server, manager } = setup({
+        heartbeatIntervalMs: 1000,
+        pongTimeoutMs: 500,
+        baseDelayMs: 100,
+      });
+      manager.connect();
+      await settleSockets();
+
+      server.respondToPings = false;
+      jest.advanceTimersByTime(1000 + 500);
+      expect(manager.getState().status).toBe('reconnecting');
+
+      server.respondToPings = true;
+      jest.advanceTimersByTime(100);
+      await settleSockets();
+      expect(manager.getState().status).toBe('connected');
+      expect(server.connections).toHaveLength(2);
+    });
+
+    test('reconnects without waiting for a stalled close handshake', async () => {
+      const { server, manager } = setup({
+        heartbeatIntervalMs: 1000,
+        pongTimeoutMs: 500,
+        baseDelayMs: 100,
+      });
+      manager.connect();
+      await settleSockets();
+
+      server.respondToPings = false;
+      server.stallCloses = true;
+      jest.advanceTimersByTime(1000 + 500);
+      expect(manager.getState().status).toBe('reconnecting');
+
+      server.respondToPings = true;
+      jest.advanceTimersByTime(100);
+      await settleSockets();
+      expect(manager.getState().status).toBe('connected');
+      expect(server.connections).toHaveLength(2);
+    });
+  });
+
+  describe('outbound queue', () => {
+    test('sends immediately while connected', async () => {
+      const { server, manager } = setup();
+      manager.connect();
+      await settleSockets();
+
+      expect(manager.send({ type: 'ack', id: 1 })).toBe(true);
+      expect(server.received).toEqual([{ type: 'ack', id: 1 }]);
+    });
+
+    test('queues while offline and flushes in order on reconnect', async () => {
+      const { server, manager } = setup();
+      expect(manager.send({ n: 1 })).toBe(false);
+      expect(manager.send({ n: 2 })).toBe(false);
+      expect(manager.getState().queuedMessages).toBe(2);
+
+      manager.connect();
+      await settleSockets();
+
+      expect(server.received).toEqual([{ n: 1 }, { n: 2 }]);
+      expect(manager.getState().queuedMessages).toBe(0);
+    });
+
+    test('flushes the queue before state listeners send on open', async () => {
+      const { server, manager } = setup();
+      manager.send({ n: 1 });
+      manager.subscribe((state) => {
+        if (state.status === 'connected' && state.lastConnectedAt !== null) manager.send({ type: 'hello' });
+      });
+
+      manager.connect();
+      await settleSockets();
+
+      expect(server.received).toEqual([{ n: 1 }, { type: 'hello' }]);
+    });
+
+    test('drops the oldest messages when the queue is full', async () => {
+      const { server, manager } = setup({ queueCapacity: 2 });
+      manager.send({ n: 1 });
+      manager.send({ n: 2 });
+      manager.send({ n: 3 });
+      expect(manager.getState()).toMatchObject({ queuedMessages: 2, droppedMessages: 1 });
+
+      manager.connect();
+      await settleSockets();
+      expect(server.received).toEqual([{ n: 2 }, { n: 3 }]);
+    });
+  });
+
+  describe('UI mappings', () => {
+    test('maps latency to connection quality', () => {
+      expect(toConnectionQuality(state({ latencyMs: 50 }))).toBe('excellent');
+      expect(toConnectionQuality(state({ latencyMs: 300 }))).toBe('good');
+      expect(toConnectionQuality(state({ latencyMs: 900 }))).toBe('poor');
+      expect(toConnectionQuality(state({ latencyMs: null }))).toBe('good');
+      expect(toConnectionQuality(state({ status: 'reconnecting', latencyMs: 50 }))).toBe('offline');
+    });
+
+    test('maps status to connection indicator variants', () => {
+      expect(toConnectionIndicatorStatus(state())).toBe('connected');
+      expect(toConnectionIndicatorStatus(state({ status: 'reconnecting' }))).toBe('connecting');
+      expect(toConnectionIndicatorStatus(state({ status: 'disconnected' }))).toBe('disconnected');
+    });
+
+    test('state object identity only changes on change', async () => {
+      const { manager, states } = setup();
+      const before = manager.getState();
+      manager.disconnect(); // Already disconnected: no-op
+      expect(manager.getState()).toBe(before);
+      expect(states).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Telemetry Feed - Routes live WebSocket messages into the telemetry store
+ *
+ * The server pushes:
+ * - { type: 'telemetry', readings: TelemetryReading[], aggregates? }
+ * - binary telemetry frames (see codec/telemetry-frame-codec), once agreed
+ * - { type: 'equipment-status', equipmentId, status }
+ *
+ * On every (re)connect the feed offers its codecs with
+ * { type: 'hello', codecs: [TELEMETRY_FRAME_CODEC, 'json'] }. A server that
+ * supports frames answers { type: 'hello', codec } and switches to binary;
+ * one that doesn't ignores the hello and keeps sending JSON, which is always
+ * understood.
+ *
+ * Readings pass through a ReadingValidator first; failures are quarantined
+ * individually, so one bad reading doesn't cost the rest of its batch.
+ * Accepted readings also go to the aggregation client (the telemetry worker),
+ * whose snapshots of closed 1-second windows are pushed into the store's
+ * aggregate buffers. The manager's connection status is mirrored into the
+ * store for the header indicator.
+ *
+ * CAUTION:
+ * - Reconnect floods arrive as one large message; the store queues it for
+ *   the next frame, so don't split it up here
+ * - The frame dictionary lives as long as the connection; it is reset on
+ *   every 'connected' transition, before the hello goes out
+ * - Without an aggregation client only server-sent aggregates reach the
+ *   store; a server that sends them should not be paired with one, or each
+ *   window arrives twice
+ */
+
+import { isBinaryPayload, TELEMETRY_FRAME_CODEC, TelemetryFrameDecoder } from '../codec/telemetry-frame-codec';
+import { TelemetryStore, telemetryStore } from '../stores/telemetry-store';
+import { EquipmentStatus, isTelemetryAggregate, TelemetryAggregate, TelemetryReading } from '../types';
+import { ReadingValidator, readingValidator } from '../validation/reading-validator';
+import { TelemetryWorkerClient } from '../workers/telemetry-worker-client';
+import { WebSocketManager } from './websocket-manager';
+
+/** Codec name for plain JSON messages, which every server speaks */
+export const JSON_WIRE_CODEC = 'json';
+
+/** Offered in the hello, preferred first */
+export const DEFAULT_WIRE_CODECS: readonly string[] = [TELEMETRY_FRAME_CODEC, JSON_WIRE_CODEC];
+
+export interface TelemetryMessage {
+  type: 'telemetry';
+  readings: TelemetryReading[];
+  aggregates?: TelemetryAggregate[];
+}
+
+export interface EquipmentStatusMessage {
+  type: 'equipment-status';
+  equipmentId: string;
+  status: EquipmentStatus;
+}
+
+/** Client → server: the codecs the client accepts, preferred first */
+export interface HelloMessage {
+  type: 'hello';
+  codecs: string[];
+}
+
+/** Server → client: the codec used from now on */
+export interface HelloReplyMessage {
+  type: 'hello';
+  codec: string;
+}
+
+/**
+ * Where accepted readings are aggregated, e.g. a TelemetryWorkerClient
+ */
+export type TelemetryAggregationClient = Pick<TelemetryWorkerClient, 'ingest' | 'subscribe'>;
+
+export type TelemetryFeedMessage = TelemetryMessage | EquipmentStatusMessage | HelloReplyMessage;
+
+const EQUIPMENT_STATUSES: readonly EquipmentStatus[] = ['online', 'offline', 'maintenance', 'alert'];
+
+/**
+ * Feed a manager's messages into the store
+ * @returns Function that stops feeding (the connection and aggregation client are left alone)
+ */
+export function connectTelemetryFeed(
+  manager: WebSocketManager,
+  store: TelemetryStore = telemetryStore,
+  validator: ReadingValidator = readingValidator,
+  codecs: readonly string[] = DEFAULT_WIRE_CODECS,
+  aggregation?: TelemetryAggregationClient
+): () => void {
+  const decoder = new TelemetryFrameDecoder();
+
+  const ingest = (readings: readonly unknown[], aggregates: readonly unknown[]) => {
+    const accepted = validator.validate(readings);
+    if (accepted.length > 0) {
+      store.getState().pushReadings(accepted);
+      aggregation?.ingest(accepted);
+    }
+    const valid = aggregates.filter(isTelemetryAggregate);
+    if (valid.length > 0) store.getState().pushAggregates(valid);
+  };
+
+  const stopMessages = manager.onMessage((data) => {
+    if (isBinaryPayload(data)) {
+      let frame;
+      try {
+        frame = decoder.decode(data);
+      } catch (error) {
+        validator.quarantineInput({ frameBytes: data.byteLength }, 'malformed', (error as Error).message);
+        return;
+      }
+      ingest(frame.readings, frame.aggregates);
+      return;
+    }
+    if (typeof data !== 'object' || data === null) return;
+    const message = data as Record<string, unknown>;
+
+    if (message.type === 'telemetry' && Array.isArray(message.readings)) {
+      ingest(message.readings, Array.isArray(message.aggregates) ? message.aggregates : []);
+    } else if (
+      message.type === 'equipment-status' &&
+      typeof message.equipmentId === 'string' &&
+      EQUIPMENT_STATUSES.includes(message.status as EquipmentStatus)
+    ) {
+      const { equipmentStatus, setEquipmentStatus } = store.getState();
+      // 'alert' belongs to the alert monitor; a reconnect must not clear it
+      if (message.status === 'online' && equipmentStatus[message.equipmentId] === 'alert') return;
+      setEquipmentStatus(message.equipmentId, message.status as EquipmentStatus);
+    }
+  });
+  const stopSnapshots = aggregation?.subscribe((aggregates) => store.getState().pushAggregates(aggregates));
+  let connected = false;
+  const stopState = manager.subscribe(({ status }) => {
+    if (store.getState().connectionStatus !== status) store.getState().setConnectionStatus(status);
+    if (status === 'connected' && !connected) {
+      decoder.reset();
+      manager.send({ type: 'hello', codecs: [...codecs] } satisfies HelloMessage);
+    }
+    connected = status === 'connected';
+  });
+
+  return () => {
+    stopMessages();
+    stopState();
+    stopSnapshots?.();
+  };
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+
+import {
+  ConnectionIndicatorStatus,
+  ConnectionQualityLevel,
+  ConnectionState,
+  toConnectionIndicatorStatus,
+  toConnectionQuality,
+  WebSocketManager,
+} from './websocket-manager';
+
+export interface ConnectionView {
+  state: ConnectionState;
+  /** For <ConnectionQuality quality={...} /> */
+  quality: ConnectionQualityLevel;
+  /** For connectionIndicatorVariants({ status }) */
+  indicator: ConnectionIndicatorStatus;
+  latencyMs: number | undefined;
+}
+
+/**
+ * Bind a component to a WebSocketManager's connection state.
+ * Re-renders only when the state object changes.
+ */
+export function useConnectionState(manager: WebSocketManager): ConnectionView {
+  const state = useSyncExternalStore(
+    (onChange) => manager.subscribe(onChange),
+    () => manager.getState(),
+    () => manager.getState()
+  );
+
+  return {
+    state,
+    quality: toConnectionQuality(state),
+    indicator: toConnectionIndicatorStatus(state),
+    latencyMs: state.latencyMs ?? undefined,
+  };
+}
@@ -0,0 +1,461 @@
+/**
+ * WebSocketManager - Hardened telemetry connection for unreliable field networks
+ *
+ * Mobile links drop silently: the socket stays "open" while nothing flows.
+ * This manager detects that with an application-level ping/pong heartbeat,
+ * reconnects with exponential backoff plus jitter (so a fleet of tablets
+ * doesn't stampede the server when a tower comes back), gives up after a
+ * retry budget, and holds outbound messages in a bounded queue while offline.
+ *
+ * It publishes a small immutable ConnectionState that UI indicators subscribe
+ * to; see toConnectionQuality() / toConnectionIndicatorStatus().
+ *
+ * CAUTION:
+ * - The outbound queue is in-memory and drops the OLDEST messages when full -
+ *   never rely on it for data that must survive an outage or a reload
+ * - Status 'reconnecting' covers every attempt in flight, including the first
+ */
+
+import { CircularBuffer } from '../stores/circular-buffer';
+import { ConnectionStatus } from '../types';
+
+export type WebSocketPayload = string | ArrayBuffer | ArrayBufferView;
+
+/**
+ * The subset of the browser WebSocket API the manager relies on
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  binaryType: string;
+  onopen: ((event: Event) => void) | null;
+  onclose: ((event: CloseEvent) => void) | null;
+  onerror: ((event: Event) => void) | null;
+  onmessage: ((event: MessageEvent) => void) | null;
+  send(data: WebSocketPayload): void;
+  close(code?: number, reason?: string): void;
+}
+
+export interface ConnectionState {
+  status: ConnectionStatus;
+
+  /** Last measured ping round-trip in ms, null until the first pong */
+  latencyMs: number | null;
+
+  /** Reconnect attempts since the last stable connection or connect() */
+  attempt: number;
+
+  /** True once maxRetries is exhausted; cleared by connect() */
+  retriesExhausted: boolean;
+
+  /** Messages waiting in the outbound queue */
+  queuedMessages: number;
+
+  /** Messages discarded because the outbound queue was full */
+  droppedMessages: number;
+
+  /** When the current/last connection opened (ms), null if never */
+  lastConnectedAt: number | null;
+}
+
+export interface WebSocketManagerOptions {
+  url: string;
+
+  /** Delay before the first reconnect; doubles per attempt (default: 1000) */
+  baseDelayMs?: number;
+
+  /** Upper bound for the backoff delay (default: 30000) */
+  maxDelayMs?: number;
+
+  /** Extra random delay as a fraction of the backoff delay (default: 0.3) */
+  jitterRatio?: number;
+
+  /** Attempts before giving up; Infinity to retry forever (default: 10) */
+  maxRetries?: number;
+
+  /** Interval between pings while connected (default: 10000) */
+  heartbeatIntervalMs?: number;
+
+  /** A missing pong after this long forces a reconnect (default: 5000) */
+  pongTimeoutMs?: number;
+
+  /**
+   * How long a connection must stay open before the retry budget resets
+   * (default: heartbeatIntervalMs)
+   */
+  stableAfterMs?: number;
+
+  /** Outbound messages held while disconnected (default: 1000) */
+  queueCapacity?: number;
+
+  /** Socket factory, injectable for tests */
+  createSocket?: (url: string) => WebSocketLike;
+
+  /** Clock and randomness, injectable for tests */
+  now?: () => number;
+  random?: () => number;
+}
+
+export type MessageListener = (data: unknown) => void;
+export type StateListener = (state: ConnectionState) => void;
+
+/** Subset of the ConnectionQuality pattern's quality levels */
+export type ConnectionQualityLevel = 'excellent' | 'good' | 'poor' | 'offline';
+
+/** Values accepted by connectionIndicatorVariants({ status }) */
+export type ConnectionIndicatorStatus = 'connected' | 'connecting' | 'disconnected' | 'error';
+
+const SOCKET_OPEN = 1;
+
+/** Latency boundaries for toConnectionQuality(), in ms */
+export const LATENCY_EXCELLENT_MS = 150;
+export const LATENCY_GOOD_MS = 500;
+
+export class WebSocketManager {
+  private socket: WebSocketLike | null = null;
+  private readonly queue: CircularBuffer<WebSocketPayload>;
+  private readonly stateListeners = new Set<StateListener>();
+  private readonly messageListeners = new Set<MessageListener>();
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private stableTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingPing: { id: number; sentAt: number } | null = null;
+  private nextPingId = 0;
+  private manualClose = false;
+  private state: ConnectionState = {
+    status: 'disconnected',
+    latencyMs: null,
+    attempt: 0,
+    retriesExhausted: false,
+    queuedMessages: 0,
+    droppedMessages: 0,
+    lastConnectedAt: null,
+  };
+
+  private readonly url: string;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly jitterRatio: number;
+  private readonly maxRetries: number;
+  private readonly heartbeatIntervalMs: number;
+  private readonly pongTimeoutMs: number;
+  private readonly stableAfterMs: number;
+  private readonly createSocket: (url: string) => WebSocketLike;
+  private readonly now: () => number;
+  private readonly random: () => number;
+
+  constructor(options: WebSocketManagerOptions) {
+    this.url = options.url;
+    this.baseDelayMs = options.baseDelayMs ?? 1000;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.jitterRatio = options.jitterRatio ?? 0.3;
+    this.maxRetries = options.maxRetries ?? 10;
+    this.heartbeatIntervalMs = options.heartbeatIntervalMs ?? 10000;
+    this.pongTimeoutMs = options.pongTimeoutMs ?? 5000;
+    this.stableAfterMs = options.stableAfterMs ?? this.heartbeatIntervalMs;
+    this.createSocket = options.createSocket ?? ((url) => new WebSocket(url));
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+    this.queue = new CircularBuffer(options.queueCapacity ?? 1000);
+  }
+
+  /**
+   * Open the connection. Also resets the retry budget after it was exhausted.
+   */
+  connect(): void {
+    this.manualClose = false;
+    this.clearReconnectTimer();
+    if (this.socket) return;
+
+    this.setState({ status: 'reconnecting', attempt: 0, retriesExhausted: false });
+    this.open();
+  }
+
+  /**
+   * Close the connection and stop reconnecting. Queued messages are kept
+   * and sent on the next connect().
+   */
+  disconnect(): void {
+    this.manualClose = true;
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    this.clearStableTimer();
+    if (this.socket) {
+      const socket = this.socket;
+      this.detach();
+      socket.close(1000, 'Client disconnect');
+    }
+    this.setState({ status: 'disconnected', attempt: 0 });
+  }
+
+  /**
+   * Send a message now, or queue it until the connection returns.
+   * Non-binary values are JSON-encoded.
+   * @returns true if sent immediately, false if queued
+   */
+  send(message: unknown): boolean {
+    const payload = encode(message);
+
+    if (this.socket && this.socket.readyState === SOCKET_OPEN && this.state.status === 'connected') {
+      this.socket.send(payload);
+      return true;
+    }
+
+    const dropping = this.queue.isFull;
+    this.queue.push(payload);
+    this.setState({
+      queuedMessages: this.queue.size,
+      droppedMessages: this.state.droppedMessages + (dropping ? 1 : 0),
+    });
+    return false;
+  }
+
+  /**
+   * Listen for incoming messages (JSON is parsed; binary is passed through).
+   * Heartbeat pongs are consumed internally and never reach listeners.
+   * @returns Function that removes the listener
+   */
+  onMessage(listener: MessageListener): () => void {
+    this.messageListeners.add(listener);
+    return () => this.messageListeners.delete(listener);
+  }
+
+  /**
+   * Observe connection state. The listener is called immediately with the
+   * current state, then on every change.
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: StateListener): () => void {
+    this.stateListeners.add(listener);
+    listener(this.state);
+    return () => this.stateListeners.delete(listener);
+  }
+
+  /**
+   * Current state. The object is replaced (never mutated) on change, so it
+   * is safe to use as a useSyncExternalStore snapshot.
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Backoff delay for a given attempt (0-based), including jitter
+   */
+  getReconnectDelay(attempt: number): number {
+    const base = Math.min(this.baseDelayMs * 2 ** attempt, this.maxDelayMs);
+    return Math.round(base + this.random() * this.jitterRatio * base);
+  }
+
+  private open(): void {
+    let socket: WebSocketLike;
+    try {
+      socket = this.createSocket(this.url);
+    } catch {
+      // Invalid URL or blocked by CSP - treat like a failed attempt
+      this.scheduleReconnect();
+      return;
+    }
+
+    socket.binaryType = 'arraybuffer';
+    socket.onopen = () => this.handleOpen();
+    socket.onclose = () => this.handleClose();
+    socket.onerror = () => {
+      // Browsers always follow error with close; reconnect is handled there
+    };
+    socket.onmessage = (event) => this.handleMessage(event.data);
+    this.socket = socket;
+  }
+
+  private handleOpen(): void {
+    // Before listeners run: anything they send (e.g. the feed's hello) must
+    // go out after what was queued earlier
+    this.flushQueue();
+    this.setState({
+      status: 'connected',
+      retriesExhausted: false,
+      lastConnectedAt: this.now(),
+    });
+    this.startHeartbeat();
+    // A server that accepts and then closes straight away (auth reject,
+    // overloaded proxy) must keep backing off towards the retry limit
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.setState({ attempt: 0 });
+    }, this.stableAfterMs);
+  }
+
+  private handleClose(): void {
+    this.detach();
+    this.stopHeartbeat();
+    this.clearStableTimer();
+    if (this.manualClose) return;
+    this.scheduleReconnect();
+  }
+
+  private handleMessage(raw: unknown): void {
+    let data: unknown = raw;
+    if (typeof raw === 'string') {
+      try {
+        data = JSON.parse(raw);
+      } catch {
+        data = raw;
+      }
+    }
+
+    if (isPong(data)) {
+      this.handlePong(data.id);
+      return;
+    }
+
+    this.messageListeners.forEach((listener) => listener(data));
+  }
+
+  private scheduleReconnect(): void {
+    if (this.state.attempt >= this.maxRetries) {
+      this.setState({ status: 'disconnected', retriesExhausted: true });
+      return;
+    }
+
+    const delay = this.getReconnectDelay(this.state.attempt);
+    this.setState({ status: 'reconnecting', attempt: this.state.attempt + 1 });
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.ping(), this.heartbeatIntervalMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.pendingPing = null;
+  }
+
+  private ping(): void {
+    if (!this.socket || this.pendingPing) return;
+
+    const id = this.nextPingId++;
+    this.pendingPing = { id, sentAt: this.now() };
+    this.pongTimer = setTimeout(() => {
+      // Silent disconnect: the socket looks open but nothing comes back. On
+      // a half-open link the close handshake can take minutes, so don't wait
+      // for onclose - drop the socket and reconnect now
+      this.pongTimer = null;
+      const socket = this.socket;
+      this.handleClose();
+      socket?.close(4000, 'Heartbeat timeout');
+    }, this.pongTimeoutMs);
+    this.socket.send(JSON.stringify({ type: 'ping', id }));
+  }
+
+  private handlePong(id: number): void {
+    if (!this.pendingPing || this.pendingPing.id !== id) return;
+
+    const latencyMs = this.now() - this.pendingPing.sentAt;
+    this.pendingPing = null;
+    if (this.pongTimer) {
+      clearTimeout(this.pongTimer);
+      this.pongTimer = null;
+    }
+    this.setState({ latencyMs });
+  }
+
+  private flushQueue(): void {
+    if (!this.socket || this.queue.size === 0) return;
+
+    const payloads = this.queue.getAll();
+    this.queue.clear();
+    payloads.forEach((payload) => this.socket?.send(payload));
+    this.setState({ queuedMessages: 0 });
+  }
+
+  private detach(): void {
+    if (!this.socket) return;
+    this.socket.onopen = null;
+    this.socket.onclose = null;
+    this.socket.onerror = null;
+    this.socket.onmessage = null;
+    this.socket = null;
+  }
+
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setState(patch: Partial<ConnectionState>): void {
+    const next = { ...this.state, ...patch };
+    const changed = (Object.keys(patch) as (keyof ConnectionState)[]).some(
+      (key) => next[key] !== this.state[key]
+    );
+    if (!changed) return;
+
+    this.state = next;
+    this.stateListeners.forEach((listener) => listener(next));
+  }
+}
+
+/**
+ * Map connection state to the ConnectionQuality pattern's quality level
+ */
+export function toConnectionQuality(state: ConnectionState): ConnectionQualityLevel {
+  if (state.status !== 'connected') return 'offline';
+  if (state.latencyMs === null) return 'good';
+  if (state.latencyMs < LATENCY_EXCELLENT_MS) return 'excellent';
+  if (state.latencyMs < LATENCY_GOOD_MS) return 'good';
+  return 'poor';
+}
+
+/**
+ * Map connection state to connectionIndicatorVariants' status variant
+ */
+export function toConnectionIndicatorStatus(state: ConnectionState): ConnectionIndicatorStatus {
+  switch (state.status) {
+    case 'connected':
+      return 'connected';
+    case 'reconnecting':
+      return 'connecting';
+    case 'disconnected':
+      return state.retriesExhausted ? 'error' : 'disconnected';
+  }
+}
+
+function encode(message: unknown): WebSocketPayload {
+  if (
+    typeof message === 'string' ||
+    message instanceof ArrayBuffer ||
+    ArrayBuffer.isView(message)
+  ) {
+    return message;
+  }
+  return JSON.stringify(message);
+}
+
+function isPong(data: unknown): data is { type: 'pong'; id: number } {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Record<string, unknown>).type === 'pong' &&
+    typeof (data as Record<string, unknown>).id === 'number'
+  );
+}
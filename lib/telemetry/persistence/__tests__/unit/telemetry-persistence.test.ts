@@ -0,0 +1,296 @@
+import { FakeIndexedDB, fakeKeyRange, settleTransactions } from '../../../../../test/utils/fake-indexeddb';
+import { createTelemetryStore, TelemetryStore } from '../../../stores/telemetry-store';
+import { getSensorKey, TelemetryAggregate } from '../../../types';
+import { AggregateChunk, TelemetryDatabase } from '../../telemetry-database';
+import {
+  TELEMETRY_RETENTION_MS,
+  TelemetryPersistence,
+  TelemetryPersistenceOptions,
+} from '../../telemetry-persistence';
+
+const BASE = 1_700_000_000_000;
+const HOUR = 60 * 60 * 1000;
+
+function aggregate(second: number, sensorType = 'pressure'): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType,
+    timestamp: BASE + second * 1000,
+    min: second,
+    max: second + 2,
+    avg: second + 1,
+    count: 10,
+  };
+}
+
+function chunk(sensorType: string, end: number): AggregateChunk {
+  return {
+    id: `${sensorType}@${end}`,
+    sensorKey: getSensorKey('excavator-01', sensorType),
+    equipmentId: 'excavator-01',
+    sensorType,
+    start: end,
+    end,
+    aggregates: [],
+  };
+}
+
+function createStore(): TelemetryStore {
+  // Frames never fire on their own; persistence flushes explicitly
+  return createTelemetryStore({ scheduleFrame: () => undefined });
+}
+
+function series(store: TelemetryStore, sensorType = 'pressure'): TelemetryAggregate[] {
+  return store.getState().sensors[getSensorKey('excavator-01', sensorType)]?.buffer.getAll() ?? [];
+}
+
+async function setup(options: TelemetryPersistenceOptions = {}, fake = new FakeIndexedDB()) {
+  const clock = { now: BASE };
+  const db = await TelemetryDatabase.open({ indexedDB: fake.asFactory(), keyRange: fakeKeyRange });
+  const store = createStore();
+  const persistence = new TelemetryPersistence(db, store, {
+    now: () => clock.now,
+    estimateStorage: async () => ({}),
+    ...options,
+  });
+  return { fake, clock, db, store, persistence };
+}
+
+describe('TelemetryPersistence', () => {
+  describe('snapshots', () => {
+    test('writes only aggregates newer than the previous snapshot', async () => {
+      const { db, store, persistence } = await setup();
+      store.getState().pushAggregates([aggregate(0), aggregate(1)]);
+      expect(await persistence.snapshot()).toBe(2);
+
+      store.getState().pushAggregates([aggregate(2)]);
+      expect(await persistence.snapshot()).toBe(1);
+      expect(await persistence.snapshot()).toBe(0);
+
+      const chunks = await db.getAllChunks();
+      expect(chunks.map((c) => c.aggregates.length).sort()).toEqual([1, 2]);
+      expect(persistence.stats).toMatchObject({ snapshots: 2, aggregatesWritten: 3 });
+    });
+
+    test('writes one chunk per active sensor', async () => {
+      const { db, store, persistence } = await setup();
+      store.getState().pushAggregates([aggregate(0, 'pressure'), aggregate(0, 'temperature')]);
+      await persistence.snapshot();
+
+      const chunks = await db.getAllChunks();
+      expect(chunks.map((c) => c.sensorType).sort()).toEqual(['pressure', 'temperature']);
+    });
+
+    test('concurrent snapshot calls share one write', async () => {
+      const { store, persistence } = await setup();
+      store.getState().pushAggregates([aggregate(0)]);
+
+      const [first, second] = await Promise.all([persistence.snapshot(), persistence.snapshot()]);
+      expect(first).toBe(1);
+      expect(second).toBe(1);
+      expect(persistence.stats.snapshots).toBe(1);
+    });
+  });
+
+  describe('hydration', () => {
+    test('restores persisted aggregates into a fresh store after reload', async () => {
+      const fake = new FakeIndexedDB();
+      const before = await setup({}, fake);
+      const aggregates = [aggregate(0), aggregate(1), aggregate(2)];
+      before.store.getState().pushAggregates(aggregates);
+      await before.persistence.snapshot();
+      before.db.close();
+
+      const after = await setup({}, fake);
+      expect(await after.persistence.hydrate()).toBe(3);
+      expect(series(after.store)).toEqual(aggregates);
+    });
+
+    test('hydrated data is not written again', async () => {
+      const fake = new FakeIndexedDB();
+      const before = await setup({}, fake);
+      before.store.getState().pushAggregates([aggregate(0)]);
+      await before.persistence.snapshot();
+
+      const after = await setup({}, fake);
+      await after.persistence.hydrate();
+      expect(await after.persistence.snapshot()).toBe(0);
+    });
+
+    test('restores chunks in time order', async () => {
+      const fake = new FakeIndexedDB();
+      const before = await setup({}, fake);
+      for (let second = 0; second < 5; second++) {
+        before.store.getState().pushAggregates([aggregate(second)]);
+        await before.persistence.snapshot();
+      }
+
+      const after = await setup({}, fake);
+      await after.persistence.hydrate();
+      expect(series(after.store).map((a) => a.timestamp)).toEqual(
+        [0, 1, 2, 3, 4].map((s) => BASE + s * 1000)
+      );
+    });
+
+    test('merges behind live data that arrived before hydration finished', async () => {
+      const fake = new FakeIndexedDB();
+      const before = await setup({}, fake);
+      before.store.getState().pushAggregates([aggregate(0), aggregate(1), aggregate(2)]);
+      await before.persistence.snapshot();
+
+      const after = await setup({}, fake);
+      const live = { ...aggregate(2), avg: 99 };
+      after.store.getState().pushAggregates([live, aggregate(3)]);
+      after.store.getState().flush();
+      await after.persistence.hydrate();
+
+      const restored = series(after.store);
+      expect(restored.map((a) => a.timestamp)).toEqual([0, 1, 2, 3].map((s) => BASE + s * 1000));
+      expect(restored[2]).toEqual(live);
+      const entry = after.store.getState().sensors[getSensorKey('excavator-01', 'pressure')]!;
+      expect(entry.buffer.getRange(BASE + 1000, BASE + 2000)).toEqual([aggregate(1), live]);
+    });
+  });
+
+  describe('retention', () => {
+    test('expires chunks older than 24 hours', async () => {
+      const fake = new FakeIndexedDB();
+      const before = await setup({}, fake);
+      before.store.getState().pushAggregates([aggregate(0)]);
+      await before.persistence.snapshot();
+
+      const after = await setup({}, fake);
+      after.clock.now = BASE + TELEMETRY_RETENTION_MS + HOUR;
+      expect(await after.persistence.hydrate()).toBe(0);
+      expect(await after.db.countChunks()).toBe(0);
+      expect(after.persistence.stats.chunksExpired).toBe(1);
+    });
+
+    test('does not persist aggregates already outside the window', async () => {
+      const { clock, store, persistence } = await setup();
+      clock.now = BASE + TELEMETRY_RETENTION_MS + HOUR;
+      store.getState().pushAggregates([aggregate(0), aggregate(25 * 3600)]);
+      expect(await persistence.snapshot()).toBe(1);
+    });
+  });
+
+  describe('quota guard', () => {
+    test('evicts the oldest chunks when usage is above the quota ratio', async () => {
+      const { db, store, persistence } = await setup({
+        estimateStorage: async () => ({ usage: 90, quota: 100 }),
+        evictionBatchSize: 1,
+      });
+      await db.putChunks([chunk('old', BASE - HOUR), chunk('newer', BASE - 1000)]);
+
+      store.getState().pushAggregates([aggregate(0)]);
+      await persistence.snapshot();
+
+      const remaining = (await db.getAllChunks()).map((c) => c.sensorType).sort();
+      expect(remaining).toEqual(['newer', 'pressure']);
+      expect(persistence.stats.chunksEvictedForQuota).toBe(1);
+    });
+
+    test('leaves storage alone below the quota ratio', async () => {
+      const { db, store, persistence } = await setup({
+        estimateStorage: async () => ({ usage: 10, quota: 100 }),
+      });
+      await db.putChunks([chunk('old', BASE - HOUR)]);
+      store.getState().pushAggregates([aggregate(0)]);
+      await persistence.snapshot();
+
+      expect(await db.countChunks()).toBe(2);
+    });
+
+    test('evicts and retries once on QuotaExceededError', async () => {
+      const { fake, db, store, persistence } = await setup({ evictionBatchSize: 1 });
+      await db.putChunks([chunk('old', BASE - HOUR)]);
+      fake.quotaBytes = fake.usageBytes + 250;
+
+      store.getState().pushAggregates([aggregate(0)]);
+      expect(await persistence.snapshot()).toBe(1);
+
+      const remaining = (await db.getAllChunks()).map((c) => c.sensorType);
+      expect(remaining).toEqual(['pressure']);
+    });
+
+    test('reports a failed snapshot and retries its data next time', async () => {
+      const { fake, store, persistence } = await setup();
+      fake.quotaBytes = 0;
+      store.getState().pushAggregates([aggregate(0)]);
+
+      await expect(persistence.snapshot()).rejects.toMatchObject({ name: 'QuotaExceededError' });
+      expect(persistence.stats.failedSnapshots).toBe(1);
+
+      fake.quotaBytes = Infinity;
+      expect(await persistence.snapshot()).toBe(1);
+    });
+  });
+
+  describe('background snapshots', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    test('snapshots on an interval until stopped', async () => {
+      const { store, persistence } = await setup({ snapshotIntervalMs: 1000 });
+      persistence.start();
+
+      store.getState().pushAggregates([aggregate(0)]);
+      await jest.advanceTimersByTimeAsync(1000);
+      await settleTransactions();
+      expect(persistence.stats.aggregatesWritten).toBe(1);
+
+      persistence.stop();
+      store.getState().pushAggregates([aggregate(1)]);
+      await jest.advanceTimersByTimeAsync(5000);
+      await settleTransactions();
+      expect(persistence.stats.aggregatesWritten).toBe(1);
+    });
+
+    test('routes background failures to onError', async () => {
+      const onError = jest.fn();
+      const { fake, store, persistence } = await setup({ snapshotIntervalMs: 1000, onError });
+      fake.quotaBytes = 0;
+      persistence.start();
+
+      store.getState().pushAggregates([aggregate(0)]);
+      await jest.advanceTimersByTimeAsync(1000);
+      await settleTransactions();
+      persistence.stop();
+
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(String(onError.mock.calls[0][0])).toContain('QuotaExceededError');
+    });
+  });
+
+  test('rejects invalid options', async () => {
+    const { db } = await setup();
+    expect(() => new TelemetryPersistence(db, createStore(), { snapshotIntervalMs: 0 })).toThrow(
+      'Snapshot interval must be positive'
+    );
+    expect(() => new TelemetryPersistence(db, createStore(), { quotaRatio: 1.5 })).toThrow(
+      'Quota ratio must be between 0 and 1'
+    );
+  });
+});
+
+describe('TelemetryDatabase', () => {
+  test('throws when IndexedDB is unavailable', async () => {
+    await expect(TelemetryDatabase.open({ indexedDB: undefined as unknown as IDBFactory })).rejects.toThrow(
+      'IndexedDB is not available'
+    );
+  });
+
+  test('deleteOldest removes chunks by newest aggregate time', async () => {
+    const fake = new FakeIndexedDB();
+    const db = await TelemetryDatabase.open({ indexedDB: fake.asFactory(), keyRange: fakeKeyRange });
+    await db.putChunks([chunk('c', BASE + 3), chunk('a', BASE + 1), chunk('b', BASE + 2)]);
+
+    expect(await db.deleteOldest(2)).toBe(2);
+    expect((await db.getAllChunks()).map((c) => c.sensorType)).toEqual(['c']);
+  });
+});
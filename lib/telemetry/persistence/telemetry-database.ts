@@ -0,0 +1,160 @@
+/**
+ * Telemetry Database - IndexedDB storage for persisted aggregate chunks
+ *
+ * Aggregates are stored in chunks: one record per sensor per snapshot,
+ * holding every aggregate that arrived since the previous snapshot. This
+ * keeps write transactions small (one put per active sensor) while still
+ * allowing time-based eviction through the `end` index.
+ *
+ * The database is named after CACHE_NAMES.telemetry so it follows the same
+ * rule as that cache: it persists across app versions and is only reset by
+ * bumping its own version suffix.
+ *
+ * CAUTION:
+ * - Schema changes need a DB_VERSION bump and an upgrade step in open()
+ * - Another tab opening a newer version closes this connection
+ *   (onversionchange); callers should treat a closed database as empty
+ */
+
+import { CACHE_NAMES } from '../../pwa/constants';
+import { requestToPromise, transactionDone } from '../../pwa/idb';
+import { TelemetryAggregate } from '../types';
+
+export const TELEMETRY_DB_NAME = CACHE_NAMES.telemetry;
+export const TELEMETRY_DB_VERSION = 1;
+
+const CHUNK_STORE = 'aggregate-chunks';
+const END_INDEX = 'end';
+
+export interface AggregateChunk {
+  /** `${sensorKey}@${start}` */
+  id: string;
+  /** getSensorKey(equipmentId, sensorType) */
+  sensorKey: string;
+  equipmentId: string;
+  sensorType: string;
+  /** Timestamp of the first aggregate in the chunk */
+  start: number;
+  /** Timestamp of the last aggregate in the chunk */
+  end: number;
+  /** Oldest first */
+  aggregates: TelemetryAggregate[];
+}
+
+export interface TelemetryDatabaseOptions {
+  /** Database name (default: CACHE_NAMES.telemetry) */
+  name?: string;
+  /** IndexedDB implementation (default: globalThis.indexedDB) */
+  indexedDB?: IDBFactory;
+  /** Key range constructor matching the IndexedDB implementation */
+  keyRange?: Pick<typeof IDBKeyRange, 'upperBound'>;
+}
+
+export class TelemetryDatabase {
+  private closed = false;
+
+  private constructor(
+    private readonly db: IDBDatabase,
+    private readonly keyRange: Pick<typeof IDBKeyRange, 'upperBound'>
+  ) {
+    db.onversionchange = () => this.close();
+  }
+
+  /**
+   * Open (and create or upgrade) the telemetry database
+   * @throws Error if IndexedDB is unavailable (SSR, some private modes)
+   */
+  static async open(options: TelemetryDatabaseOptions = {}): Promise<TelemetryDatabase> {
+    const factory = options.indexedDB ?? globalThis.indexedDB;
+    const keyRange = options.keyRange ?? globalThis.IDBKeyRange;
+    if (!factory || !keyRange) {
+      throw new Error('IndexedDB is not available');
+    }
+
+    const request = factory.open(options.name ?? TELEMETRY_DB_NAME, TELEMETRY_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHUNK_STORE)) {
+        const store = db.createObjectStore(CHUNK_STORE, { keyPath: 'id' });
+        store.createIndex(END_INDEX, 'end');
+      }
+    };
+
+    const db = await requestToPromise(request);
+    return new TelemetryDatabase(db, keyRange);
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Write chunks in a single transaction (all or nothing)
+   * @throws The transaction error, e.g. QuotaExceededError
+   */
+  async putChunks(chunks: AggregateChunk[]): Promise<void> {
+    if (chunks.length === 0) return;
+    const transaction = this.db.transaction(CHUNK_STORE, 'readwrite');
+    const store = transaction.objectStore(CHUNK_STORE);
+    chunks.forEach((chunk) => store.put(chunk));
+    await transactionDone(transaction);
+  }
+
+  /**
+   * Every stored chunk, in no particular order
+   */
+  async getAllChunks(): Promise<AggregateChunk[]> {
+    const transaction = this.db.transaction(CHUNK_STORE, 'readonly');
+    const chunks = await requestToPromise(
+      transaction.objectStore(CHUNK_STORE).getAll() as IDBRequest<AggregateChunk[]>
+    );
+    return chunks;
+  }
+
+  /**
+   * Delete chunks whose newest aggregate is older than `cutoff`
+   * @returns Number of chunks deleted
+   */
+  async deleteEndingBefore(cutoff: number): Promise<number> {
+    return this.deleteByEnd(this.keyRange.upperBound(cutoff, true));
+  }
+
+  /**
+   * Delete the `count` chunks with the oldest data (quota relief)
+   * @returns Number of chunks deleted
+   */
+  async deleteOldest(count: number): Promise<number> {
+    if (count <= 0) return 0;
+    return this.deleteByEnd(null, count);
+  }
+
+  async countChunks(): Promise<number> {
+    const transaction = this.db.transaction(CHUNK_STORE, 'readonly');
+    return requestToPromise(transaction.objectStore(CHUNK_STORE).count());
+  }
+
+  async clear(): Promise<void> {
+    const transaction = this.db.transaction(CHUNK_STORE, 'readwrite');
+    transaction.objectStore(CHUNK_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.db.close();
+  }
+
+  private async deleteByEnd(range: IDBKeyRange | null, count?: number): Promise<number> {
+    const transaction = this.db.transaction(CHUNK_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(CHUNK_STORE);
+
+    // Index order is oldest first, so `count` picks the oldest chunks
+    const keys = await requestToPromise(store.index(END_INDEX).getAllKeys(range, count));
+    keys.forEach((key) => store.delete(key));
+
+    await done;
+    return keys.length;
+  }
+}
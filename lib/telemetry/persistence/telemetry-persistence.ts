@@ -0,0 +1,294 @@
+/**
+ * Telemetry Persistence - Keeps the last 24h of aggregates across reloads
+ *
+ * Periodically snapshots every sensor's aggregate buffer from the telemetry
+ * store into IndexedDB (only aggregates newer than the previous snapshot),
+ * evicts chunks older than the retention window, and rehydrates the store
+ * on startup. An operator who reloads mid-shift in a dead zone still sees
+ * recent trends instead of empty charts.
+ *
+ * Quota guard:
+ * - Before each write, if storage usage is above `quotaRatio` of the quota,
+ *   the oldest chunks are evicted in one batch
+ * - A write that still fails with QuotaExceededError evicts another batch
+ *   and retries once; if that fails the snapshot is reported and dropped
+ * - Newest data always wins: eviction is strictly oldest-first
+ *
+ * CAUTION:
+ * - hydrate() may run after live data starts flowing: restored aggregates
+ *   are merged in timestamp order (getRange relies on it), never appended
+ * - Persistence is best-effort - failures go to onError, never to the UI
+ */
+
+import { isQuotaExceededError } from '../../pwa/idb';
+import { SENSOR_BUFFER_CAPACITY, TelemetryStore, telemetryStore } from '../stores/telemetry-store';
+import { TelemetryAggregate } from '../types';
+import {
+  AggregateChunk,
+  TelemetryDatabase,
+  TelemetryDatabaseOptions,
+} from './telemetry-database';
+
+/** Matches CACHE_NAMES.telemetry: "Last 24hr sensor readings" */
+export const TELEMETRY_RETENTION_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_SNAPSHOT_INTERVAL_MS = 30_000;
+export const DEFAULT_QUOTA_RATIO = 0.8;
+export const DEFAULT_EVICTION_BATCH_SIZE = 100;
+
+/** No buffer holds more than this, so hydrating more would be wasted work */
+const MAX_HYDRATE_PER_SENSOR = Math.max(...Object.values(SENSOR_BUFFER_CAPACITY));
+
+export interface StorageEstimateLike {
+  usage?: number;
+  quota?: number;
+}
+
+export interface TelemetryPersistenceOptions {
+  snapshotIntervalMs?: number;
+  retentionMs?: number;
+  /** Usage/quota ratio above which the oldest chunks are evicted */
+  quotaRatio?: number;
+  /** Chunks removed per quota eviction */
+  evictionBatchSize?: number;
+  /** Storage estimate source (default: navigator.storage.estimate) */
+  estimateStorage?: () => Promise<StorageEstimateLike>;
+  /** Failure sink for background snapshots (default: console.warn) */
+  onError?: (error: Error) => void;
+  now?: () => number;
+}
+
+export interface TelemetryPersistenceStats {
+  snapshots: number;
+  aggregatesWritten: number;
+  chunksExpired: number;
+  chunksEvictedForQuota: number;
+  failedSnapshots: number;
+}
+
+function defaultEstimateStorage(): Promise<StorageEstimateLike> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) {
+    return Promise.resolve({});
+  }
+  return navigator.storage.estimate();
+}
+
+function defaultOnError(error: Error): void {
+  // eslint-disable-next-line no-console
+  console.warn('[Telemetry persistence]:', error);
+}
+
+export class TelemetryPersistence {
+  private readonly snapshotIntervalMs: number;
+  private readonly retentionMs: number;
+  private readonly quotaRatio: number;
+  private readonly evictionBatchSize: number;
+  private readonly estimateStorage: () => Promise<StorageEstimateLike>;
+  private readonly onError: (error: Error) => void;
+  private readonly now: () => number;
+
+  /** Newest persisted aggregate timestamp per sensor key */
+  private readonly persistedUntil = new Map<string, number>();
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private inFlight: Promise<number> | null = null;
+  private readonly counters: TelemetryPersistenceStats = {
+    snapshots: 0,
+    aggregatesWritten: 0,
+    chunksExpired: 0,
+    chunksEvictedForQuota: 0,
+    failedSnapshots: 0,
+  };
+
+  constructor(
+    private readonly db: TelemetryDatabase,
+    private readonly store: TelemetryStore,
+    options: TelemetryPersistenceOptions = {}
+  ) {
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? DEFAULT_SNAPSHOT_INTERVAL_MS;
+    this.retentionMs = options.retentionMs ?? TELEMETRY_RETENTION_MS;
+    this.quotaRatio = options.quotaRatio ?? DEFAULT_QUOTA_RATIO;
+    this.evictionBatchSize = options.evictionBatchSize ?? DEFAULT_EVICTION_BATCH_SIZE;
+    this.estimateStorage = options.estimateStorage ?? defaultEstimateStorage;
+    this.onError = options.onError ?? defaultOnError;
+    this.now = options.now ?? Date.now;
+
+    if (this.snapshotIntervalMs <= 0) {
+      throw new Error('Snapshot interval must be positive');
+    }
+    if (this.quotaRatio <= 0 || this.quotaRatio > 1) {
+      throw new Error('Quota ratio must be between 0 and 1');
+    }
+  }
+
+  /**
+   * Load unexpired aggregates into the store
+   * @returns Number of aggregates pushed into the store
+   */
+  async hydrate(): Promise<number> {
+    await this.evictExpired();
+    const cutoff = this.now() - this.retentionMs;
+    const chunks = await this.db.getAllChunks();
+
+    const bySensor = new Map<string, AggregateChunk[]>();
+    for (const chunk of chunks) {
+      const list = bySensor.get(chunk.sensorKey) ?? [];
+      list.push(chunk);
+      bySensor.set(chunk.sensorKey, list);
+    }
+
+    const restored: TelemetryAggregate[] = [];
+    bySensor.forEach((sensorChunks, key) => {
+      sensorChunks.sort((a, b) => a.start - b.start);
+      const series = sensorChunks
+        .flatMap((chunk) => chunk.aggregates)
+        .filter((aggregate) => aggregate.timestamp >= cutoff);
+      const last = series[series.length - 1];
+      if (!last) return;
+
+      restored.push(...series.slice(-MAX_HYDRATE_PER_SENSOR));
+      this.persistedUntil.set(key, Math.max(this.persistedUntil.get(key) ?? -Infinity, last.timestamp));
+    });
+
+    // Live data may already be flowing; merge rather than append behind it
+    this.store.getState().restoreAggregates(restored);
+    return restored.length;
+  }
+
+  /**
+   * Persist aggregates that arrived since the previous snapshot.
+   * Concurrent calls share one write.
+   * @returns Number of aggregates written
+   * @throws The storage error if the write failed after quota relief
+   */
+  snapshot(): Promise<number> {
+    if (!this.inFlight) {
+      this.inFlight = this.writeSnapshot().finally(() => {
+        this.inFlight = null;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * Delete chunks that fall entirely outside the retention window
+   * @returns Number of chunks deleted
+   */
+  async evictExpired(): Promise<number> {
+    const removed = await this.db.deleteEndingBefore(this.now() - this.retentionMs);
+    this.counters.chunksExpired += removed;
+    return removed;
+  }
+
+  /**
+   * Snapshot on an interval and when the page is hidden
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(this.backgroundSnapshot, this.snapshotIntervalMs);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', this.backgroundSnapshot);
+    }
+  }
+
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('pagehide', this.backgroundSnapshot);
+    }
+  }
+
+  get stats(): TelemetryPersistenceStats {
+    return { ...this.counters };
+  }
+
+  private backgroundSnapshot = (): void => {
+    this.snapshot().catch((error: unknown) => {
+      this.onError(error instanceof Error ? error : new Error(String(error)));
+    });
+  };
+
+  private async writeSnapshot(): Promise<number> {
+    try {
+      await this.evictExpired();
+      const chunks = this.collectChunks();
+      if (chunks.length === 0) return 0;
+
+      await this.guardQuota();
+      try {
+        await this.db.putChunks(chunks);
+      } catch (error) {
+        if (!isQuotaExceededError(error)) throw error;
+        await this.evictForQuota();
+        await this.db.putChunks(chunks);
+      }
+
+      let written = 0;
+      for (const chunk of chunks) {
+        this.persistedUntil.set(chunk.sensorKey, chunk.end);
+        written += chunk.aggregates.length;
+      }
+      this.counters.snapshots++;
+      this.counters.aggregatesWritten += written;
+      return written;
+    } catch (error) {
+      this.counters.failedSnapshots++;
+      throw error;
+    }
+  }
+
+  private collectChunks(): AggregateChunk[] {
+    const state = this.store.getState();
+    state.flush();
+
+    const cutoff = this.now() - this.retentionMs;
+    const chunks: AggregateChunk[] = [];
+    for (const [key, entry] of Object.entries(this.store.getState().sensors)) {
+      const since = this.persistedUntil.get(key) ?? -Infinity;
+      const fresh = entry.buffer
+        .getAll()
+        .filter((aggregate) => aggregate.timestamp > since && aggregate.timestamp >= cutoff);
+      const first = fresh[0];
+      const last = fresh[fresh.length - 1];
+      if (!first || !last) continue;
+
+      chunks.push({
+        id: `${key}@${first.timestamp}`,
+        sensorKey: key,
+        equipmentId: entry.equipmentId,
+        sensorType: entry.sensorType,
+        start: first.timestamp,
+        end: last.timestamp,
+        aggregates: fresh,
+      });
+    }
+    return chunks;
+  }
+
+  private async guardQuota(): Promise<void> {
+    const { usage, quota } = await this.estimateStorage();
+    if (usage === undefined || !quota) return;
+    if (usage / quota >= this.quotaRatio) {
+      await this.evictForQuota();
+    }
+  }
+
+  private async evictForQuota(): Promise<void> {
+    this.counters.chunksEvictedForQuota += await this.db.deleteOldest(this.evictionBatchSize);
+  }
+}
+
+/**
+ * Open the telemetry database, rehydrate the store and start snapshots
+ * @throws Error if IndexedDB is unavailable
+ */
+export async function startTelemetryPersistence(
+  store: TelemetryStore = telemetryStore,
+  options: TelemetryPersistenceOptions & TelemetryDatabaseOptions = {}
+): Promise<TelemetryPersistence> {
+  const db = await TelemetryDatabase.open(options);
+  const persistence = new TelemetryPersistence(db, store, options);
+  await persistence.hydrate();
+  persistence.start();
+  return persistence;
+}
@@ -0,0 +1,37 @@
+import { PerformanceMonitor } from '../../../../../test/utils/performance-monitor';
+import { createTelemetryStore } from '../../../stores/telemetry-store';
+import { FleetSimulator } from '../../fleet-simulator';
+
+// Skip in CI environments to avoid flaky tests
+const describePerf = process.env.CI ? describe.skip : describe;
+
+// Default fleet: 17 units, ~75 sensors at 1Hz
+describePerf('Fleet simulator performance', () => {
+  const monitor = new PerformanceMonitor();
+
+  test('simulates one second of the default fleet within baseline', () => {
+    const simulator = new FleetSimulator({ seed: 1 });
+
+    const result = monitor.measure('simulator.tick', () => {
+      simulator.tick();
+    });
+
+    expect(result.pass).toBe(true);
+  });
+
+  test('the store absorbs a fleet-wide 60s reconnect flood within one frame', () => {
+    const simulator = new FleetSimulator({ seed: 1, faults: { linkDropRate: 0 } });
+    simulator.dropLinks(60);
+    simulator.advanceTo(simulator.now + 59_000);
+    const { readings } = simulator.tick();
+    expect(readings.length).toBeGreaterThan(60 * 70);
+
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const result = monitor.measure('simulator.flood60s', () => {
+      store.getState().pushReadings(readings);
+      store.getState().flush();
+    });
+
+    expect(result.pass).toBe(true);
+  });
+});
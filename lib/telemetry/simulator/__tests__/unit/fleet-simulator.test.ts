@@ -0,0 +1,320 @@
+import { FakeWorker, flushMessages } from '../../../../../test/utils/fake-worker';
+import { isBinaryPayload, TelemetryFrameDecoder } from '../../../codec/telemetry-frame-codec';
+import {
+  connectTelemetryFeed,
+  DEFAULT_WIRE_CODECS,
+  TelemetryAggregationClient,
+} from '../../../connection/telemetry-feed';
+import { WebSocketManager } from '../../../connection/websocket-manager';
+import { createTelemetryStore } from '../../../stores/telemetry-store';
+import { getSensorKey } from '../../../types';
+import { ReadingValidator } from '../../../validation/reading-validator';
+import { attachTelemetryPipeline } from '../../../workers/telemetry-pipeline';
+import { TelemetryWorkerClient } from '../../../workers/telemetry-worker-client';
+import { EQUIPMENT_PROFILES } from '../../equipment-profiles';
+import {
+  DEFAULT_SIMULATOR_FAULTS,
+  FleetSimulator,
+  FleetSimulatorOptions,
+  LINK_BACKLOG_SECONDS,
+  NO_SIMULATOR_FAULTS,
+} from '../../fleet-simulator';
+import { createSeededRandom } from '../../seeded-random';
+import { SIMULATOR_URL, SimulatorServer } from '../../simulator-server';
+
+const START = Date.UTC(2025, 0, 1);
+
+function run(options: FleetSimulatorOptions, ticks: number) {
+  const simulator = new FleetSimulator({ startTime: START, ...options });
+  return Array.from({ length: ticks }, () => simulator.tick());
+}
+
+describe('seeded random', () => {
+  test('repeats per seed and stays in [0, 1)', () => {
+    const a = createSeededRandom(7);
+    const b = createSeededRandom(7);
+    const values = Array.from({ length: 1000 }, () => a());
+
+    expect(values).toEqual(Array.from({ length: 1000 }, () => b()));
+    expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    expect(createSeededRandom(8)()).not.toBe(values[0]);
+  });
+});
+
+describe('FleetSimulator', () => {
+  test('builds the configured fleet', () => {
+    const simulator = new FleetSimulator({ fleet: { excavator: 2, 'haul-truck': 1, drill: 0 } });
+
+    expect(simulator.equipment.map(({ id, name }) => [id, name])).toEqual([
+      ['ex-01', 'Excavator 1'],
+      ['ex-02', 'Excavator 2'],
+      ['ht-01', 'Haul truck 1'],
+    ]);
+    expect(simulator.getSensorDefinitions('ht-01').map((sensor) => sensor.sensorType)).toEqual(
+      EQUIPMENT_PROFILES['haul-truck'].sensors.map((sensor) => sensor.sensorType)
+    );
+    expect(() => simulator.getSensorDefinitions('dr-01')).toThrow('Unknown simulated unit: dr-01');
+  });
+
+  test('is deterministic per seed', () => {
+    const options = { seed: 42, faults: { spikeRate: 0.01, dropoutRate: 0.01, linkDropRate: 0.01 } };
+
+    expect(run(options, 120)).toEqual(run(options, 120));
+    expect(run({ ...options, seed: 43 }, 5)).not.toEqual(run(options, 5));
+  });
+
+  test('without faults, every sensor reports once per tick within its limits', () => {
+    const simulator = new FleetSimulator({ startTime: START, faults: NO_SIMULATOR_FAULTS });
+    const sensorCount = simulator.equipment.reduce(
+      (sum, unit) => sum + simulator.getSensorDefinitions(unit.id).length,
+      0
+    );
+    const profiles = new Map(
+      Object.values(EQUIPMENT_PROFILES).flatMap(({ sensors }) => sensors.map((sensor) => [sensor.sensorType, sensor]))
+    );
+
+    for (let i = 1; i <= 60; i++) {
+      const { at, readings } = simulator.tick();
+      expect(at).toBe(START + i * 1000);
+      expect(readings).toHaveLength(sensorCount);
+      for (const reading of readings) {
+        const profile = profiles.get(reading.sensorType)!;
+        expect(reading.timestamp).toBe(at);
+        expect(reading.unit).toBe(profile.unit);
+        expect(reading.value).toBeGreaterThanOrEqual(profile.min);
+        expect(reading.value).toBeLessThanOrEqual(profile.max);
+      }
+    }
+  });
+
+  test('skews each unit clock by a fixed amount within clockSkewMs', () => {
+    const simulator = new FleetSimulator({ startTime: START, faults: { ...NO_SIMULATOR_FAULTS, clockSkewMs: 5000 } });
+    const first = simulator.tick();
+    const second = simulator.tick();
+    const skew = (tick: typeof first, id: string) =>
+      tick.readings.find((reading) => reading.equipmentId === id)!.timestamp - tick.at;
+
+    const skews = simulator.equipment.map(({ id }) => skew(first, id));
+    expect(skews.every((ms) => Math.abs(ms) <= 5000)).toBe(true);
+    expect(new Set(skews).size).toBeGreaterThan(1);
+    expect(simulator.equipment.map(({ id }) => skew(second, id))).toEqual(skews);
+  });
+
+  test('spikes leave the physical range', () => {
+    const ticks = run({ fleet: { excavator: 1, 'haul-truck': 0, drill: 0 }, faults: { ...NO_SIMULATOR_FAULTS, spikeRate: 0.05 } }, 200);
+    const pressure = ticks.flatMap(({ readings }) => readings).filter((r) => r.sensorType === 'hydraulic-pressure');
+
+    expect(pressure.some((reading) => reading.value > 4000 || reading.value < 0)).toBe(true);
+  });
+
+  test('dropouts silence a sensor for a while', () => {
+    const ticks = run(
+      {
+        fleet: { excavator: 1, 'haul-truck': 0, drill: 0 },
+        faults: { ...NO_SIMULATOR_FAULTS, dropoutRate: 0.02, dropoutSeconds: [10, 10] },
+      },
+      600
+    );
+    const reported = ticks.map(({ readings }) => readings.some((r) => r.sensorType === 'engine-rpm'));
+    const gaps: number[] = [];
+    let gap = 0;
+    for (const present of reported) {
+      if (present && gap > 0) gaps.push(gap);
+      gap = present ? 0 : gap + 1;
+    }
+
+    expect(gaps.length).toBeGreaterThan(0);
+    // A dropout starts on the tick it is drawn and lasts 10s
+    expect(gaps.every((length) => length % 10 === 0)).toBe(true);
+  });
+
+  test('a dropped link goes offline, then floods its backlog on reconnect', () => {
+    const simulator = new FleetSimulator({
+      startTime: START,
+      fleet: { excavator: 2, 'haul-truck': 0, drill: 0 },
+      faults: NO_SIMULATOR_FAULTS,
+      maintenanceRatio: 0,
+    });
+    simulator.dropLinks(30, ['ex-01']);
+
+    const during = simulator.advanceTo(START + 29_000);
+    expect(during.status).toEqual({ 'ex-01': 'offline' });
+    expect(during.readings.every((reading) => reading.equipmentId === 'ex-02')).toBe(true);
+
+    const reconnect = simulator.tick();
+    const flood = reconnect.readings.filter((reading) => reading.equipmentId === 'ex-01');
+    expect(reconnect.status).toEqual({ 'ex-01': 'online' });
+    // 29 buffered ticks plus the current one, 4 sensors each
+    expect(flood).toHaveLength(30 * 4);
+    expect(flood[0]!.timestamp).toBe(START + 1000);
+  });
+
+  test('caps a link backlog at LINK_BACKLOG_SECONDS', () => {
+    const simulator = new FleetSimulator({
+      startTime: START,
+      fleet: { excavator: 1, 'haul-truck': 0, drill: 0 },
+      faults: NO_SIMULATOR_FAULTS,
+    });
+    simulator.dropLinks(LINK_BACKLOG_SECONDS + 100);
+    simulator.advanceTo(START + (LINK_BACKLOG_SECONDS + 99) * 1000);
+
+    const { readings } = simulator.tick();
+    expect(readings).toHaveLength(LINK_BACKLOG_SECONDS * 4 + 4);
+    expect(readings[0]!.timestamp).toBe(START + 100_000);
+  });
+
+  test('default faults keep most of the fleet reporting', () => {
+    const ticks = run({ seed: 3, faults: DEFAULT_SIMULATOR_FAULTS }, 300);
+    const counts = ticks.map(({ readings }) => readings.length);
+    const perTick = counts.reduce((sum, count) => sum + count, 0) / counts.length;
+
+    expect(perTick).toBeGreaterThan(60);
+  });
+
+  test('skipTo jumps ahead on tick boundaries without readings', () => {
+    const simulator = new FleetSimulator({ startTime: START });
+    simulator.skipTo(START + 10_500);
+
+    expect(simulator.now).toBe(START + 10_000);
+    expect(simulator.advanceTo(START + 10_999).readings).toEqual([]);
+  });
+});
+
+describe('SimulatorServer', () => {
+  function setup(aggregation?: TelemetryAggregationClient) {
+    const server = new SimulatorServer({
+      seed: 5,
+      fleet: { excavator: 1, 'haul-truck': 1, drill: 0 },
+      faults: NO_SIMULATOR_FAULTS,
+      maintenanceRatio: 0,
+      latencyMs: 20,
+    });
+    const manager = new WebSocketManager({
+      url: SIMULATOR_URL,
+      createSocket: server.createSocket,
+      random: () => 0,
+    });
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const stopFeed = connectTelemetryFeed(manager, store, new ReadingValidator(), DEFAULT_WIRE_CODECS, aggregation);
+    return { server, manager, store, stopFeed };
+  }
+
+  // Fake timers move Date.now, which both the server and manager read
+  async function advance(ms: number) {
+    jest.advanceTimersByTime(ms);
+    for (let i = 0; i < 3; i++) {
+      await Promise.resolve();
+    }
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: START });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('streams simulated telemetry into the store through the manager', async () => {
+    const { server, manager, store, stopFeed } = setup();
+    server.start();
+    manager.connect();
+    await advance(0);
+    expect(store.getState().connectionStatus).toBe('connected');
+
+    await advance(5000);
+    store.getState().flush();
+
+    const latest = store.getState().sensors[getSensorKey('ex-01', 'hydraulic-pressure')]?.latest;
+    expect(latest?.timestamp).toBe(START + 5000);
+    expect(store.getState().equipmentStatus).toEqual({ 'ex-01': 'online', 'ht-01': 'online' });
+
+    stopFeed();
+    server.stop();
+  });
+
+  test('aggregates the live feed in the telemetry worker and fills the store buffers', async () => {
+    const worker = new FakeWorker((scope) => attachTelemetryPipeline(scope).start());
+    const client = new TelemetryWorkerClient(worker);
+    const { server, manager, store, stopFeed } = setup(client);
+    server.start();
+    manager.connect();
+    await advance(0);
+
+    // One second at a time, so each tick reaches the worker before its snapshot timer fires
+    for (let second = 0; second < 6; second++) {
+      await advance(1000);
+      await flushMessages();
+    }
+    store.getState().flush();
+
+    const aggregates = store.getState().sensors[getSensorKey('ex-01', 'hydraulic-pressure')]?.buffer.getAll() ?? [];
+    expect(aggregates.length).toBeGreaterThan(0);
+    expect(aggregates[0]).toMatchObject({ equipmentId: 'ex-01', sensorType: 'hydraulic-pressure', count: 1 });
+    expect(aggregates.map((a) => a.timestamp)).toEqual(
+      aggregates.map((_, index) => aggregates[0]!.timestamp + index * 1000)
+    );
+
+    stopFeed();
+    client.terminate();
+    server.stop();
+  });
+
+  test('answers heartbeats and survives a dropped connection', async () => {
+    const { server, manager, store, stopFeed } = setup();
+    server.start();
+    manager.connect();
+    await advance(0);
+
+    await advance(10_000);
+    await advance(20);
+    expect(manager.getState().latencyMs).toBe(20);
+
+    server.dropAll();
+    expect(store.getState().connectionStatus).toBe('reconnecting');
+    await advance(1000);
+    expect(store.getState().connectionStatus).toBe('connected');
+
+    stopFeed();
+    server.stop();
+  });
+
+  test('broadcasts link drops as status changes and the reconnect flood as one message', async () => {
+    const { server, manager, store, stopFeed } = setup();
+    const sizes: number[] = [];
+    const decoder = new TelemetryFrameDecoder();
+    manager.onMessage((message) => {
+      if (isBinaryPayload(message)) sizes.push(decoder.decode(message).readings.length);
+    });
+    server.start();
+    manager.connect();
+    await advance(0);
+
+    server.simulator.dropLinks(10, ['ht-01']);
+    await advance(1000);
+    expect(store.getState().equipmentStatus['ht-01']).toBe('offline');
+
+    await advance(10_000);
+    store.getState().flush();
+    expect(store.getState().equipmentStatus['ht-01']).toBe('online');
+    // ex-01 alone while ht-01 is down, then ht-01's backlog at once
+    expect(sizes).toEqual([...Array(9).fill(4), 4 + 10 * 5, 4 + 5]);
+
+    stopFeed();
+    server.stop();
+  });
+
+  test('skips ahead after a long gap instead of replaying it', async () => {
+    const { server } = setup();
+    jest.setSystemTime(START + 60 * 60 * 1000);
+    server.pump();
+
+    expect(server.simulator.now).toBe(Date.now());
+    server.stop();
+  });
+
+  test('refuses other URLs', () => {
+    const { server } = setup();
+    expect(() => server.createSocket('wss://telemetry.test')).toThrow('SimulatorServer only serves sim://fleet');
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Equipment Profiles - How each kind of simulated machine behaves
+ *
+ * Each sensor follows its duty cycle (a sine around a baseline: dig/swing,
+ * load/haul/dump, drill/tram) with noise on top. Numbers are plausible for
+ * large mining equipment, not manufacturer data; thresholds match the
+ * sensor definitions the simulator serves, so the alert rules and chart
+ * bands line up with what the simulated fleet does.
+ */
+
+import type { SensorThreshold } from '../charts/sensor-chart-model';
+import type { SensorPriority } from '../types';
+
+export const EQUIPMENT_KINDS = ['excavator', 'haul-truck', 'drill'] as const;
+export type EquipmentKind = (typeof EQUIPMENT_KINDS)[number];
+
+export interface SensorProfile {
+  sensorType: string;
+  label: string;
+  unit: string;
+  priority: SensorPriority;
+  baseline: number;
+  /** Half the swing over one duty cycle */
+  amplitude: number;
+  periodSeconds: number;
+  /** Standard deviation of per-reading noise */
+  noise: number;
+  /** Physical limits; values are clamped here except for spikes */
+  min: number;
+  max: number;
+  thresholds?: SensorThreshold;
+}
+
+export interface EquipmentProfile {
+  /** Equipment.type */
+  type: string;
+  idPrefix: string;
+  sensors: SensorProfile[];
+}
+
+const engineTemperature: SensorProfile = {
+  sensorType: 'engine-temperature',
+  label: 'Engine temperature',
+  unit: '°C',
+  priority: 'critical',
+  baseline: 88,
+  amplitude: 4,
+  periodSeconds: 900,
+  noise: 0.4,
+  min: -20,
+  max: 130,
+  thresholds: { warning: 105, critical: 115 },
+};
+
+export const EQUIPMENT_PROFILES: Record<EquipmentKind, EquipmentProfile> = {
+  excavator: {
+    type: 'Excavator',
+    idPrefix: 'ex',
+    sensors: [
+      {
+        sensorType: 'hydraulic-pressure',
+        label: 'Hydraulic pressure',
+        unit: 'PSI',
+        priority: 'critical',
+        baseline: 2700,
+        amplitude: 350,
+        periodSeconds: 30,
+        noise: 25,
+        min: 0,
+        max: 4000,
+        thresholds: { warning: 3200, critical: 3500 },
+      },
+      engineTemperature,
+      {
+        sensorType: 'engine-rpm',
+        label: 'Engine speed',
+        unit: 'rpm',
+        priority: 'standard',
+        baseline: 1650,
+        amplitude: 250,
+        periodSeconds: 30,
+        noise: 15,
+        min: 0,
+        max: 2300,
+      },
+      {
+        sensorType: 'fuel-level',
+        label: 'Fuel level',
+        unit: '%',
+        priority: 'auxiliary',
+        baseline: 62,
+        amplitude: 1,
+        periodSeconds: 3600,
+        noise: 0.2,
+        min: 0,
+        max: 100,
+      },
+    ],
+  },
+  'haul-truck': {
+    type: 'Haul truck',
+    idPrefix: 'ht',
+    sensors: [
+      {
+        sensorType: 'speed',
+        label: 'Ground speed',
+        unit: 'km/h',
+        priority: 'standard',
+        baseline: 28,
+        amplitude: 22,
+        periodSeconds: 600,
+        noise: 1.5,
+        min: 0,
+        max: 64,
+        thresholds: { warning: 50, critical: 58 },
+      },
+      {
+        sensorType: 'payload',
+        label: 'Payload',
+        unit: 't',
+        priority: 'standard',
+        baseline: 120,
+        amplitude: 120,
+        periodSeconds: 1200,
+        noise: 2,
+        min: 0,
+        max: 290,
+        thresholds: { warning: 250, critical: 270 },
+      },
+      engineTemperature,
+      {
+        sensorType: 'brake-temperature',
+        label: 'Brake temperature',
+        unit: '°C',
+        priority: 'critical',
+        baseline: 160,
+        amplitude: 70,
+        periodSeconds: 600,
+        noise: 3,
+        min: -20,
+        max: 600,
+        thresholds: { warning: 300, critical: 400 },
+      },
+      {
+        sensorType: 'tire-pressure',
+        label: 'Tire pressure',
+        unit: 'PSI',
+        priority: 'auxiliary',
+        baseline: 102,
+        amplitude: 2,
+        periodSeconds: 1800,
+        noise: 0.3,
+        min: 0,
+        max: 140,
+      },
+    ],
+  },
+  drill: {
+    type: 'Drill',
+    idPrefix: 'dr',
+    sensors: [
+      {
+        sensorType: 'bit-rpm',
+        label: 'Bit speed',
+        unit: 'rpm',
+        priority: 'standard',
+        baseline: 90,
+        amplitude: 30,
+        periodSeconds: 240,
+        noise: 2,
+        min: 0,
+        max: 160,
+      },
+      {
+        sensorType: 'torque',
+        label: 'Rotary torque',
+        unit: 'kNm',
+        priority: 'standard',
+        baseline: 18,
+        amplitude: 6,
+        periodSeconds: 240,
+        noise: 0.6,
+        min: 0,
+        max: 40,
+        thresholds: { warning: 30, critical: 35 },
+      },
+      {
+        sensorType: 'vibration',
+        label: 'Mast vibration',
+        unit: 'mm/s',
+        priority: 'critical',
+        baseline: 4,
+        amplitude: 1.5,
+        periodSeconds: 60,
+        noise: 0.4,
+        min: 0,
+        max: 50,
+        thresholds: { warning: 7, critical: 11 },
+      },
+      engineTemperature,
+    ],
+  },
+};
@@ -0,0 +1,332 @@
+/**
+ * FleetSimulator - Deterministic synthetic telemetry for a mixed fleet
+ *
+ * Generates TelemetryReadings for excavators, haul trucks and drills at
+ * 1Hz (configurable), with the faults field networks actually produce, so
+ * development, tests and the perf suite exercise the same messy data the
+ * app sees on site. Everything derives from one seeded random sequence:
+ * the same options always produce the same readings.
+ *
+ * USER CONTEXT:
+ * - Real equipment can't be reached from dev machines; `pnpm dev:sim`
+ *   runs the app against this simulator instead (providers/simulator-provider)
+ *
+ * Faults (rates are per second, scaled by tickMs):
+ * - noise: Gaussian noise on every reading, scaled from the profile
+ * - drift: slow random walk of each sensor's baseline (calibration drift)
+ * - spikes: single readings far outside the duty cycle (sensor glitches);
+ *   spikes are not clamped, so they can exceed physical limits
+ * - dropouts: one sensor goes silent for a while
+ * - clock skew: each unit's clock is offset by a fixed amount
+ * - link drops: a unit's gateway loses the network and buffers readings,
+ *   then floods the whole backlog in one tick when it reconnects
+ *
+ * @example
+ * const simulator = new FleetSimulator({ seed: 42, fleet: { excavator: 2 } });
+ * const { readings } = simulator.tick();
+ */
+
+import type { Equipment, SensorDefinition, Site } from '@/lib/equipment/equipment-model';
+
+import type { EquipmentStatus, TelemetryReading } from '../types';
+import { EQUIPMENT_KINDS, EQUIPMENT_PROFILES, EquipmentKind, SensorProfile } from './equipment-profiles';
+import { createSeededRandom, randomBetween, randomNormal,RandomSource } from './seeded-random';
+
+export interface SimulatorFaults {
+  /** Multiplier on each profile's noise */
+  noise: number;
+  /** Typical baseline drift after one hour, as a fraction of the baseline */
+  driftPerHour: number;
+  /** Chance per reading of a spike */
+  spikeRate: number;
+  /** Chance per sensor per second of going silent */
+  dropoutRate: number;
+  dropoutSeconds: [min: number, max: number];
+  /** Largest per-unit clock offset, either direction */
+  clockSkewMs: number;
+  /** Chance per unit per second of losing its link */
+  linkDropRate: number;
+  linkDropSeconds: [min: number, max: number];
+}
+
+export const DEFAULT_SIMULATOR_FAULTS: SimulatorFaults = {
+  noise: 1,
+  driftPerHour: 0.02,
+  spikeRate: 0.0005,
+  dropoutRate: 0.0005,
+  dropoutSeconds: [5, 60],
+  clockSkewMs: 2000,
+  linkDropRate: 0.0002,
+  linkDropSeconds: [10, 120],
+};
+
+/** Clean duty cycles only - for tests that need exact expectations */
+export const NO_SIMULATOR_FAULTS: SimulatorFaults = {
+  noise: 0,
+  driftPerHour: 0,
+  spikeRate: 0,
+  dropoutRate: 0,
+  dropoutSeconds: [0, 0],
+  clockSkewMs: 0,
+  linkDropRate: 0,
+  linkDropSeconds: [0, 0],
+};
+
+export const SIMULATOR_SITES: readonly Site[] = [
+  { id: 'north-pit', name: 'North Pit', timezone: 'Australia/Perth' },
+  { id: 'south-pit', name: 'South Pit', timezone: 'Australia/Perth' },
+  { id: 'workshop', name: 'Workshop', timezone: 'Australia/Perth' },
+];
+
+/** Seconds of readings a unit's gateway holds while its link is down */
+export const LINK_BACKLOG_SECONDS = 600;
+
+export interface FleetSimulatorOptions {
+  /** Default: 1 */
+  seed?: number;
+  /** Units per kind (default: 4 excavators, 10 haul trucks, 3 drills) */
+  fleet?: Partial<Record<EquipmentKind, number>>;
+  /** Simulated time of the first tick, epoch ms (default: 2025-01-01) */
+  startTime?: number;
+  /** Default: 1000 */
+  tickMs?: number;
+  faults?: Partial<SimulatorFaults>;
+  /** Fraction of units under maintenance (default: 0.05) */
+  maintenanceRatio?: number;
+}
+
+export interface SimulatorTick {
+  /** Simulated time after the tick */
+  at: number;
+  /** Readings delivered this tick, including reconnect backlogs */
+  readings: TelemetryReading[];
+  /** Units whose status changed, with the new status */
+  status: Record<string, EquipmentStatus>;
+}
+
+interface SimulatedSensor {
+  profile: SensorProfile;
+  /** Radians; staggers duty cycles across the fleet */
+  phase: number;
+  /** Baseline offset as a fraction of the baseline */
+  drift: number;
+  dropoutUntil: number;
+}
+
+interface SimulatedUnit {
+  equipment: Equipment;
+  kind: EquipmentKind;
+  skewMs: number;
+  sensors: SimulatedSensor[];
+  maintenance: boolean;
+  linkDownUntil: number | null;
+  backlog: TelemetryReading[];
+  status: EquipmentStatus;
+}
+
+const DEFAULT_FLEET: Record<EquipmentKind, number> = { excavator: 4, 'haul-truck': 10, drill: 3 };
+const DEFAULT_START_TIME = Date.UTC(2025, 0, 1);
+const HOUR_MS = 60 * 60 * 1000;
+
+export class FleetSimulator {
+  readonly equipment: Equipment[];
+  readonly tickMs: number;
+  private readonly random: RandomSource;
+  private readonly faults: SimulatorFaults;
+  private readonly units: SimulatedUnit[];
+  private time: number;
+
+  constructor(options: FleetSimulatorOptions = {}) {
+    this.tickMs = options.tickMs ?? 1000;
+    if (!(this.tickMs > 0)) {
+      throw new Error('tickMs must be positive');
+    }
+    this.random = createSeededRandom(options.seed ?? 1);
+    this.faults = { ...DEFAULT_SIMULATOR_FAULTS, ...options.faults };
+    this.time = options.startTime ?? DEFAULT_START_TIME;
+
+    const fleet = { ...DEFAULT_FLEET, ...options.fleet };
+    const maintenanceRatio = options.maintenanceRatio ?? 0.05;
+    this.units = EQUIPMENT_KINDS.flatMap((kind) =>
+      Array.from({ length: fleet[kind] }, (_, i) => this.createUnit(kind, i + 1, maintenanceRatio))
+    );
+    this.equipment = this.units.map((unit) => unit.equipment);
+  }
+
+  /** Simulated time of the last tick */
+  get now(): number {
+    return this.time;
+  }
+
+  /**
+   * Definitions matching what the simulator emits for a unit
+   * @throws Error for an unknown unit
+   */
+  getSensorDefinitions(equipmentId: string): SensorDefinition[] {
+    const unit = this.units.find((candidate) => candidate.equipment.id === equipmentId);
+    if (!unit) {
+      throw new Error(`Unknown simulated unit: ${equipmentId}`);
+    }
+    return unit.sensors.map(({ profile }) => ({
+      sensorType: profile.sensorType,
+      label: profile.label,
+      unit: profile.unit,
+      priority: profile.priority,
+      ...(profile.thresholds && { thresholds: { ...profile.thresholds } }),
+    }));
+  }
+
+  getStatus(): Record<string, EquipmentStatus> {
+    return Object.fromEntries(this.units.map((unit) => [unit.equipment.id, unit.status]));
+  }
+
+  /**
+   * Advance one tickMs
+   */
+  tick(): SimulatorTick {
+    this.time += this.tickMs;
+    const readings: TelemetryReading[] = [];
+    const status: Record<string, EquipmentStatus> = {};
+    const perTick = this.tickMs / 1000;
+
+    for (const unit of this.units) {
+      if (unit.linkDownUntil !== null && unit.linkDownUntil <= this.time) {
+        // Reconnect flood: everything buffered arrives at once
+        unit.linkDownUntil = null;
+        readings.push(...unit.backlog);
+        unit.backlog = [];
+      } else if (unit.linkDownUntil === null && this.chance(this.faults.linkDropRate * perTick)) {
+        unit.linkDownUntil = this.time + this.duration(this.faults.linkDropSeconds);
+      }
+
+      const target = unit.linkDownUntil === null ? readings : unit.backlog;
+      for (const sensor of unit.sensors) {
+        const reading = this.read(unit, sensor, perTick);
+        if (reading) target.push(reading);
+      }
+
+      const backlogLimit = LINK_BACKLOG_SECONDS * unit.sensors.length;
+      if (unit.backlog.length > backlogLimit) unit.backlog.splice(0, unit.backlog.length - backlogLimit);
+
+      const next = this.getUnitStatus(unit);
+      if (next !== unit.status) {
+        unit.status = next;
+        status[unit.equipment.id] = next;
+      }
+    }
+
+    return { at: this.time, readings, status };
+  }
+
+  /**
+   * Tick until simulated time reaches `until` (e.g. Date.now()), merging
+   * the results; returns an empty tick if it is already there
+   */
+  advanceTo(until: number): SimulatorTick {
+    const merged: SimulatorTick = { at: this.time, readings: [], status: {} };
+    while (this.time + this.tickMs <= until) {
+      const { at, readings, status } = this.tick();
+      merged.at = at;
+      merged.readings.push(...readings);
+      Object.assign(merged.status, status);
+    }
+    return merged;
+  }
+
+  /**
+   * Jump to `time` without generating readings, as if the whole fleet was
+   * switched off in between (e.g. after the dev machine slept)
+   */
+  skipTo(time: number): void {
+    if (time <= this.time) return;
+    this.time += Math.floor((time - this.time) / this.tickMs) * this.tickMs;
+  }
+
+  /**
+   * Drop units' links now (every unit by default); their backlog floods in
+   * on the first tick after `seconds`
+   */
+  dropLinks(seconds: number, equipmentIds?: readonly string[]): void {
+    const ids = equipmentIds ? new Set(equipmentIds) : null;
+    for (const unit of this.units) {
+      if (ids && !ids.has(unit.equipment.id)) continue;
+      unit.linkDownUntil = this.time + seconds * 1000;
+    }
+  }
+
+  private createUnit(kind: EquipmentKind, number: number, maintenanceRatio: number): SimulatedUnit {
+    const profile = EQUIPMENT_PROFILES[kind];
+    const site = SIMULATOR_SITES[Math.floor(this.random() * SIMULATOR_SITES.length)]!;
+    const maintenance = this.random() < maintenanceRatio;
+
+    return {
+      equipment: {
+        id: `${profile.idPrefix}-${String(number).padStart(2, '0')}`,
+        name: `${profile.type} ${number}`,
+        type: profile.type,
+        site,
+      },
+      kind,
+      skewMs: Math.round(randomBetween(this.random, -1, 1) * this.faults.clockSkewMs),
+      sensors: profile.sensors.map((sensor) => ({
+        profile: sensor,
+        phase: this.random() * 2 * Math.PI,
+        drift: 0,
+        dropoutUntil: 0,
+      })),
+      maintenance,
+      linkDownUntil: null,
+      backlog: [],
+      status: maintenance ? 'maintenance' : 'online',
+    };
+  }
+
+  private read(unit: SimulatedUnit, sensor: SimulatedSensor, perTick: number): TelemetryReading | null {
+    const { profile } = sensor;
+    const seconds = this.time / 1000;
+
+    // Draws happen in the same order whether or not the sensor reports,
+    // so one fault doesn't reshuffle the rest of the sequence
+    const driftStep = randomNormal(this.random) * this.faults.driftPerHour * Math.sqrt(this.tickMs / HOUR_MS);
+    const noise = randomNormal(this.random) * profile.noise * this.faults.noise;
+    const spike = this.chance(this.faults.spikeRate);
+    const spikeDirection = this.random() < 0.5 ? -1 : 1;
+    const dropout = this.chance(this.faults.dropoutRate * perTick);
+
+    sensor.drift += driftStep;
+    if (dropout && sensor.dropoutUntil <= this.time) {
+      sensor.dropoutUntil = this.time + this.duration(this.faults.dropoutSeconds);
+    }
+    if (sensor.dropoutUntil > this.time) return null;
+
+    const cycle = Math.sin((2 * Math.PI * seconds) / profile.periodSeconds + sensor.phase);
+    let value = profile.baseline * (1 + sensor.drift) + profile.amplitude * cycle + noise;
+    value = Math.min(profile.max, Math.max(profile.min, value));
+    if (spike) {
+      value += spikeDirection * (profile.max - profile.min) * 0.75;
+    }
+
+    return {
+      equipmentId: unit.equipment.id,
+      sensorType: profile.sensorType,
+      value: Math.round(value * 100) / 100,
+      unit: profile.unit,
+      timestamp: this.time + unit.skewMs,
+    };
+  }
+
+  /** 'alert' is left to the alert monitor, which derives it from readings */
+  private getUnitStatus(unit: SimulatedUnit): EquipmentStatus {
+    if (unit.linkDownUntil !== null) return 'offline';
+    return unit.maintenance ? 'maintenance' : 'online';
+  }
+
+  private chance(probability: number): boolean {
+    return this.random() < probability;
+  }
+
+  /** Random duration in ms */
+  private duration([min, max]: [number, number]): number {
+    return Math.round(randomBetween(this.random, min, max) * 1000);
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Seeded random numbers for reproducible simulations
+ *
+ * mulberry32: tiny, fast, and good enough for synthetic telemetry (not for
+ * anything security-related). The same seed always yields the same sequence.
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * @returns Function yielding floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+export function randomNormal(random: RandomSource): number {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+/**
+ * Uniform sample in [min, max)
+ */
+export function randomBetween(random: RandomSource, min: number, max: number): number {
+  return min + random() * (max - min);
+}
@@ -0,0 +1,227 @@
+/**
+ * SimulatorServer - In-process telemetry server backed by a FleetSimulator
+ *
+ * Speaks the live telemetry protocol (see connection/telemetry-feed) over
+ * WebSocketLike sockets, so a WebSocketManager connects to it exactly as it
+ * would to the real server: hand `server.createSocket` to the manager's
+ * createSocket option. Heartbeat pings are answered after `latencyMs`.
+ *
+ * The simulator runs on wall-clock time: every pump advances it to now()
+ * and broadcasts the readings. Disconnected clients miss what was sent
+ * meanwhile, as with the real server.
+ *
+ * Codec negotiation: a client's hello is answered with the first of its
+ * codecs the server also supports (`codecs` option). Clients that pick the
+ * frame codec get readings as binary frames, each with its own dictionary;
+ * everyone else, including clients that never say hello, gets JSON.
+ *
+ * CAUTION:
+ * - After a gap longer than maxCatchUpMs (a sleeping laptop, a throttled
+ *   background tab) the simulator skips ahead instead of generating hours
+ *   of readings in one go
+ */
+
+import { TELEMETRY_FRAME_CODEC, TelemetryFrameEncoder } from '../codec/telemetry-frame-codec';
+import {
+  EquipmentStatusMessage,
+  HelloReplyMessage,
+  JSON_WIRE_CODEC,
+  TelemetryMessage,
+} from '../connection/telemetry-feed';
+import type { WebSocketLike, WebSocketPayload } from '../connection/websocket-manager';
+import { FleetSimulator, FleetSimulatorOptions, LINK_BACKLOG_SECONDS } from './fleet-simulator';
+
+export const SIMULATOR_URL = 'sim://fleet';
+
+export interface SimulatorServerOptions extends FleetSimulatorOptions {
+  /** How often the simulator is advanced and readings broadcast (default: 1000) */
+  pumpIntervalMs?: number;
+
+  /** Delay before answering a ping (default: 40) */
+  latencyMs?: number;
+
+  /** Longest gap that is replayed rather than skipped (default: 10 minutes) */
+  maxCatchUpMs?: number;
+
+  /** Codecs the server speaks (default: frames and JSON) */
+  codecs?: readonly string[];
+
+  /** Clock, injectable for tests */
+  now?: () => number;
+}
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSED = 3;
+
+class SimulatorSocket implements WebSocketLike {
+  readyState = CONNECTING;
+  binaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  /** Set once the client has agreed on binary frames */
+  encoder: TelemetryFrameEncoder | null = null;
+
+  constructor(private readonly server: SimulatorServer) {}
+
+  send(data: WebSocketPayload): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('InvalidStateError: socket is not open');
+    }
+    this.server.receive(this, data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === CLOSED) return;
+    this.readyState = CLOSED;
+    this.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+  }
+
+  open(): void {
+    this.readyState = OPEN;
+    this.onopen?.({} as Event);
+  }
+
+  deliver(message: unknown): void {
+    this.onmessage?.({ data: JSON.stringify(message) } as MessageEvent);
+  }
+
+  deliverBinary(frame: Uint8Array): void {
+    // A real socket hands over a fresh ArrayBuffer
+    this.onmessage?.({ data: frame.slice().buffer } as MessageEvent);
+  }
+}
+
+export class SimulatorServer {
+  readonly simulator: FleetSimulator;
+  private readonly sockets = new Set<SimulatorSocket>();
+  private readonly pumpIntervalMs: number;
+  private readonly latencyMs: number;
+  private readonly maxCatchUpMs: number;
+  private readonly codecs: readonly string[];
+  private readonly now: () => number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: SimulatorServerOptions = {}) {
+    const { pumpIntervalMs, latencyMs, maxCatchUpMs, codecs, now, ...simulatorOptions } = options;
+    this.pumpIntervalMs = pumpIntervalMs ?? 1000;
+    this.latencyMs = latencyMs ?? 40;
+    this.maxCatchUpMs = maxCatchUpMs ?? LINK_BACKLOG_SECONDS * 1000;
+    this.codecs = codecs ?? [TELEMETRY_FRAME_CODEC, JSON_WIRE_CODEC];
+    this.now = now ?? Date.now;
+    this.simulator = new FleetSimulator({ startTime: this.now(), ...simulatorOptions });
+  }
+
+  createSocket = (url: string): WebSocketLike => {
+    if (url !== SIMULATOR_URL) {
+      throw new Error(`SimulatorServer only serves ${SIMULATOR_URL}`);
+    }
+    const socket = new SimulatorSocket(this);
+    this.sockets.add(socket);
+    // Open after the caller has attached its handlers
+    void Promise.resolve().then(() => {
+      if (socket.readyState !== CONNECTING) return;
+      socket.open();
+      // Current statuses first, like the real server's connect snapshot
+      Object.entries(this.simulator.getStatus()).forEach(([equipmentId, status]) => {
+        if (status !== 'online') socket.deliver({ type: 'equipment-status', equipmentId, status });
+      });
+    });
+    return socket;
+  };
+
+  /**
+   * Start advancing the simulator on a timer
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.pump(), this.pumpIntervalMs);
+  }
+
+  /**
+   * Stop the timer and close every client
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.sockets.forEach((socket) => socket.close(1001, 'Server stopped'));
+    this.sockets.clear();
+  }
+
+  /**
+   * Advance the simulator to now() and broadcast the result
+   */
+  pump(): void {
+    const now = this.now();
+    if (now - this.simulator.now > this.maxCatchUpMs) {
+      this.simulator.skipTo(now - this.maxCatchUpMs);
+    }
+    const { readings, status } = this.simulator.advanceTo(now);
+
+    if (readings.length > 0) {
+      this.openSockets().forEach((socket) => {
+        if (socket.encoder) {
+          socket.deliverBinary(socket.encoder.encode({ readings }));
+        } else {
+          socket.deliver({ type: 'telemetry', readings } satisfies TelemetryMessage);
+        }
+      });
+    }
+    Object.entries(status).forEach(([equipmentId, next]) =>
+      this.broadcast({ type: 'equipment-status', equipmentId, status: next } satisfies EquipmentStatusMessage)
+    );
+  }
+
+  /** Drop every open client abnormally (network loss) */
+  dropAll(): void {
+    this.openSockets().forEach((socket) => socket.close(1006, 'Network lost'));
+  }
+
+  receive(socket: SimulatorSocket, data: WebSocketPayload): void {
+    if (typeof data !== 'string') return;
+    let message: { type?: unknown; id?: unknown; codecs?: unknown };
+    try {
+      message = JSON.parse(data);
+    } catch {
+      return;
+    }
+    if (message?.type === 'hello' && Array.isArray(message.codecs)) {
+      this.negotiate(socket, message.codecs);
+      return;
+    }
+    if (message?.type !== 'ping') return;
+
+    setTimeout(() => {
+      if (socket.readyState === OPEN) socket.deliver({ type: 'pong', id: message.id });
+    }, this.latencyMs);
+  }
+
+  private negotiate(socket: SimulatorSocket, offered: unknown[]): void {
+    const codec = offered.find((name): name is string => typeof name === 'string' && this.codecs.includes(name));
+    // Nothing in common: stay silent, like a server that predates the hello
+    if (codec === undefined) return;
+    socket.encoder = codec === TELEMETRY_FRAME_CODEC ? new TelemetryFrameEncoder() : null;
+    socket.deliver({ type: 'hello', codec } satisfies HelloReplyMessage);
+  }
+
+  private broadcast(message: unknown): void {
+    this.openSockets().forEach((socket) => socket.deliver(message));
+  }
+
+  private openSockets(): SimulatorSocket[] {
+    const open: SimulatorSocket[] = [];
+    this.sockets.forEach((socket) => {
+      if (socket.readyState === OPEN) {
+        open.push(socket);
+      } else if (socket.readyState === CLOSED) {
+        this.sockets.delete(socket);
+      }
+    });
+    return open;
+  }
+}
@@ -200,4 +200,61 @@ describe('CircularBuffer properties', () => {
       )
     );
   });
-});
\ No newline at end of file
+
+  test('getRange matches filtering getAll by timestamp', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer({ min: 0, max: 1000 })),
+        fc.integer({ min: 1, max: 100 }),
+        fc.integer({ min: -10, max: 1010 }),
+        fc.integer({ min: -10, max: 1010 }),
+        (timestamps, capacity, fromTs, toTs) => {
+          const buffer = new CircularBuffer<{ timestamp: number }>(capacity);
+          [...timestamps].sort((a, b) => a - b).forEach(timestamp => buffer.push({ timestamp }));
+
+          const expected = buffer.getAll().filter(item => item.timestamp >= fromTs && item.timestamp <= toTs);
+          expect(buffer.getRange(fromTs, toTs)).toEqual(expected);
+        }
+      )
+    );
+  });
+
+  test('forEach and iteration visit exactly getAll', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer()),
+        fc.integer({ min: 1, max: 100 }),
+        (items, capacity) => {
+          const buffer = new CircularBuffer<number>(capacity);
+          items.forEach(item => buffer.push(item));
+
+          const visited: number[] = [];
+          buffer.forEach((item, index) => {
+            expect(index).toBe(visited.length);
+            visited.push(item);
+          });
+          expect(visited).toEqual(buffer.getAll());
+          expect(Array.from(buffer)).toEqual(buffer.getAll());
+        }
+      )
+    );
+  });
+
+  test('evicted items and retained items together are everything pushed', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.integer()),
+        fc.integer({ min: 1, max: 100 }),
+        (items, capacity) => {
+          const buffer = new CircularBuffer<number>(capacity);
+          const evicted: number[] = [];
+          buffer.onEvict(item => evicted.push(item));
+          items.forEach(item => buffer.push(item));
+
+          expect(evicted).toHaveLength(Math.max(0, items.length - capacity));
+          expect([...evicted, ...buffer.getAll()]).toEqual(items);
+        }
+      )
+    );
+  });
+});
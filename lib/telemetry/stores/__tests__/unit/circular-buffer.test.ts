@@ -191,6 +191,64 @@ describe('CircularBuffer', () => {
     });
   });
 
+  describe('time ranges and iteration', () => {
+    const at = (timestamp: number) => ({ timestamp, value: timestamp / 1000 });
+
+    function filled(capacity: number, seconds: number[]) {
+      const buffer = new CircularBuffer<{ timestamp: number; value: number }>(capacity);
+      seconds.forEach((second) => buffer.push(at(second * 1000)));
+      return buffer;
+    }
+
+    test('getRange is inclusive at both ends', () => {
+      const buffer = filled(10, [1, 2, 3, 4, 5]);
+      expect(buffer.getRange(2000, 4000).map((item) => item.value)).toEqual([2, 3, 4]);
+      expect(buffer.getRange(2500, 3500).map((item) => item.value)).toEqual([3]);
+      expect(buffer.getRange(6000, 9000)).toEqual([]);
+      expect(buffer.getRange(4000, 2000)).toEqual([]);
+    });
+
+    test('getRange works across the wrap point and keeps duplicates', () => {
+      const buffer = filled(4, [1, 2, 3, 3, 4, 5]);
+      expect(buffer.getRange(0, Infinity).map((item) => item.value)).toEqual([3, 3, 4, 5]);
+      expect(buffer.getRange(3000, 3000)).toHaveLength(2);
+    });
+
+    test('getRange reads timestamps through timestampOf', () => {
+      const buffer = new CircularBuffer<number>(5, { timestampOf: (item) => item });
+      [10, 20, 30].forEach((item) => buffer.push(item));
+      expect(buffer.getRange(15, 30)).toEqual([20, 30]);
+    });
+
+    test('forEach and for...of visit items oldest first', () => {
+      const buffer = filled(3, [1, 2, 3, 4]);
+      const visited: [number, number][] = [];
+      buffer.forEach((item, index) => visited.push([item.value, index]));
+
+      expect(visited).toEqual([
+        [2, 0],
+        [3, 1],
+        [4, 2],
+      ]);
+      expect([...buffer].map((item) => item.value)).toEqual([2, 3, 4]);
+      expect([...new CircularBuffer(3)]).toEqual([]);
+    });
+
+    test('onEvict reports each overwritten item until unsubscribed', () => {
+      const buffer = new CircularBuffer<number>(2);
+      const evicted: number[] = [];
+      const stop = buffer.onEvict((item) => evicted.push(item));
+
+      [1, 2, 3, 4].forEach((item) => buffer.push(item));
+      buffer.clear();
+      buffer.push(5);
+      stop();
+      [6, 7].forEach((item) => buffer.push(item));
+
+      expect(evicted).toEqual([1, 2]);
+    });
+  });
+
   describe('memory characteristics', () => {
     test('maintains constant memory footprint', () => {
       const buffer = new CircularBuffer<number>(1000);
@@ -0,0 +1,123 @@
+import fc from 'fast-check';
+
+import { CircularBuffer } from '../../circular-buffer';
+import { NumericCircularBuffer, NumericSample } from '../../numeric-circular-buffer';
+
+const sample: fc.Arbitrary<NumericSample> = fc.record({
+  timestamp: fc.integer({ min: 0, max: 2 ** 48 }),
+  value: fc.double(),
+});
+
+describe('NumericCircularBuffer properties', () => {
+  test('behaves like CircularBuffer for any pushes and clears', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 50 }),
+        fc.array(fc.option(sample, { freq: 10 }), { maxLength: 200 }),
+        fc.nat({ max: 60 }),
+        (capacity, operations, n) => {
+          const numeric = new NumericCircularBuffer(capacity);
+          const boxed = new CircularBuffer<NumericSample>(capacity);
+          operations.forEach((operation) => {
+            if (operation === null) {
+              numeric.clear();
+              boxed.clear();
+            } else {
+              numeric.push(operation);
+              boxed.push(operation);
+            }
+          });
+
+          expect(numeric.getAll()).toEqual(boxed.getAll());
+          expect(numeric.getLast(n)).toEqual(boxed.getLast(n));
+          expect(numeric.size).toBe(boxed.size);
+          expect(numeric.isFull).toBe(boxed.isFull);
+        }
+      )
+    );
+  });
+
+  test('view(n) matches getLast(n) without copying', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 50 }),
+        fc.array(sample, { maxLength: 200 }),
+        fc.nat({ max: 60 }),
+        (capacity, samples, n) => {
+          const buffer = new NumericCircularBuffer(capacity);
+          samples.forEach((item) => buffer.push(item));
+          const { timestamps, values } = buffer.view(n);
+          const last = buffer.getLast(n);
+
+          expect(Array.from(timestamps)).toEqual(last.map((item) => item.timestamp));
+          expect(Array.from(values)).toEqual(last.map((item) => item.value));
+          expect(values.buffer).toBe(buffer.view().values.buffer);
+        }
+      )
+    );
+  });
+
+  test('a transferred buffer continues exactly where the original left off', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 20 }),
+        fc.array(sample, { maxLength: 60 }),
+        fc.array(sample, { maxLength: 60 }),
+        (capacity, before, after) => {
+          const original = new NumericCircularBuffer(capacity);
+          const model = new CircularBuffer<NumericSample>(capacity);
+          before.forEach((item) => {
+            original.push(item);
+            model.push(item);
+          });
+
+          const adopted = NumericCircularBuffer.fromTransferable(structuredClone(original.toTransferable()));
+          after.forEach((item) => {
+            adopted.push(item);
+            model.push(item);
+          });
+
+          expect(adopted.getAll()).toEqual(model.getAll());
+        }
+      )
+    );
+  });
+
+  test('ranges, iteration and evictions match CircularBuffer on time-ordered samples', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 50 }),
+        fc.array(fc.integer({ min: 0, max: 1000 }), { maxLength: 200 }),
+        fc.integer({ min: -10, max: 1010 }),
+        fc.integer({ min: -10, max: 1010 }),
+        (capacity, timestamps, fromTs, toTs) => {
+          const numeric = new NumericCircularBuffer(capacity);
+          const boxed = new CircularBuffer<NumericSample>(capacity);
+          const evicted: NumericSample[] = [];
+          const boxedEvicted: NumericSample[] = [];
+          numeric.onEvict((item) => evicted.push(item));
+          boxed.onEvict((item) => boxedEvicted.push(item));
+          [...timestamps]
+            .sort((a, b) => a - b)
+            .forEach((timestamp, i) => {
+              numeric.pushSample(timestamp, i);
+              boxed.push({ timestamp, value: i });
+            });
+
+          const iterated: NumericSample[] = [];
+          for (const item of numeric) iterated.push({ ...item });
+          const visited: NumericSample[] = [];
+          numeric.forEach((item) => visited.push({ ...item }));
+
+          expect(numeric.getRange(fromTs, toTs)).toEqual(boxed.getRange(fromTs, toTs));
+          expect(Array.from(numeric.viewRange(fromTs, toTs).values)).toEqual(
+            boxed.getRange(fromTs, toTs).map((item) => item.value)
+          );
+          expect(iterated).toEqual(boxed.getAll());
+          expect(visited).toEqual(boxed.getAll());
+          expect(evicted).toEqual(boxedEvicted);
+        }
+      )
+    );
+  });
+});
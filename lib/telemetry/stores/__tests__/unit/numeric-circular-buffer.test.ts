@@ -0,0 +1,152 @@
+import { FakeWorker, flushMessages } from '../../../../../test/utils/fake-worker';
+import {
+  getTransferList,
+  NumericCircularBuffer,
+  TransferableNumericBuffer,
+} from '../../numeric-circular-buffer';
+
+const BASE = 1_700_000_000_000;
+
+function filled(capacity: number, count: number): NumericCircularBuffer {
+  const buffer = new NumericCircularBuffer(capacity);
+  for (let i = 1; i <= count; i++) {
+    buffer.pushSample(BASE + i * 1000, i);
+  }
+  return buffer;
+}
+
+describe('NumericCircularBuffer', () => {
+  describe('basic operations', () => {
+    test('starts empty', () => {
+      const buffer = new NumericCircularBuffer(5);
+      expect(buffer.size).toBe(0);
+      expect(buffer.isFull).toBe(false);
+      expect(buffer.capacity).toBe(5);
+      expect(buffer.getAll()).toEqual([]);
+    });
+
+    test('overwrites the oldest sample when full', () => {
+      const buffer = filled(3, 4);
+      expect(buffer.getAll()).toEqual([
+        { timestamp: BASE + 2000, value: 2 },
+        { timestamp: BASE + 3000, value: 3 },
+        { timestamp: BASE + 4000, value: 4 },
+      ]);
+      expect(buffer.isFull).toBe(true);
+    });
+
+    test('push and pushSample are interchangeable', () => {
+      const buffer = new NumericCircularBuffer(2);
+      buffer.push({ timestamp: BASE, value: -1.5 });
+      buffer.pushSample(BASE + 1, NaN);
+      expect(buffer.getLast(2)).toEqual([
+        { timestamp: BASE, value: -1.5 },
+        { timestamp: BASE + 1, value: NaN },
+      ]);
+    });
+
+    test('clear keeps the capacity', () => {
+      const buffer = filled(3, 5);
+      buffer.clear();
+      expect(buffer.size).toBe(0);
+      expect(buffer.view().values).toHaveLength(0);
+      buffer.pushSample(BASE, 7);
+      expect(buffer.getAll()).toEqual([{ timestamp: BASE, value: 7 }]);
+    });
+
+    test.each([0, -1, 2.5, NaN])('rejects capacity %p', (capacity) => {
+      expect(() => new NumericCircularBuffer(capacity)).toThrow('Capacity must be positive');
+    });
+  });
+
+  describe('views', () => {
+    test('are chronological and contiguous after the ring wraps', () => {
+      const buffer = filled(4, 10);
+      const { timestamps, values } = buffer.view();
+
+      expect(Array.from(values)).toEqual([7, 8, 9, 10]);
+      expect(Array.from(timestamps)).toEqual([7, 8, 9, 10].map((i) => BASE + i * 1000));
+      expect(Array.from(buffer.view(2).values)).toEqual([9, 10]);
+      expect(buffer.view(99).values).toHaveLength(4);
+      expect(buffer.view(0).values).toHaveLength(0);
+    });
+
+    test('share storage instead of copying', () => {
+      const buffer = filled(4, 4);
+      const view = buffer.view(1);
+      const before = view.values[0];
+
+      buffer.pushSample(BASE, 99);
+      // The slot behind the view is eventually overwritten
+      for (let i = 0; i < 3; i++) buffer.pushSample(BASE, 100 + i);
+
+      expect(before).toBe(4);
+      expect(view.values[0]).not.toBe(4);
+      expect(view.values.buffer).toBe(buffer.view().values.buffer);
+    });
+  });
+
+  describe('ranges and iteration', () => {
+    test('viewRange is an inclusive, zero-copy window', () => {
+      const buffer = filled(4, 10);
+      const { timestamps, values } = buffer.viewRange(BASE + 8000, BASE + 9000);
+
+      expect(Array.from(values)).toEqual([8, 9]);
+      expect(timestamps.buffer).toBe(buffer.view().timestamps.buffer);
+      expect(buffer.viewRange(BASE + 9000, BASE + 8000).values).toHaveLength(0);
+    });
+
+    test('forEach and iteration reuse one sample object', () => {
+      const buffer = filled(3, 3);
+      const seen = new Set<object>();
+      buffer.forEach((sample) => seen.add(sample));
+      for (const sample of buffer) seen.add(sample);
+
+      expect(seen.size).toBe(2);
+    });
+  });
+
+  describe('transfer', () => {
+    test('round-trips through a worker without copying', async () => {
+      // The "worker" appends the sum so far and posts the buffer back
+      const worker = new FakeWorker((scope) => {
+        scope.addEventListener('message', (event) => {
+          const received = NumericCircularBuffer.fromTransferable(event.data as TransferableNumericBuffer);
+          const sum = received.view().values.reduce((total, value) => total + value, 0);
+          received.pushSample(BASE + 99_000, sum);
+          const state = received.toTransferable();
+          scope.postMessage(state, getTransferList(state));
+        });
+      });
+      const replies: TransferableNumericBuffer[] = [];
+      worker.addEventListener('message', (event) => replies.push(event.data as TransferableNumericBuffer));
+
+      const buffer = filled(3, 5);
+      const state = buffer.toTransferable();
+      worker.postMessage(state, getTransferList(state));
+
+      expect(buffer.isDetached).toBe(true);
+      expect(() => buffer.pushSample(BASE, 1)).toThrow('NumericCircularBuffer storage was transferred');
+      expect(() => buffer.view()).toThrow('NumericCircularBuffer storage was transferred');
+
+      await flushMessages();
+      const returned = NumericCircularBuffer.fromTransferable(replies[0]!);
+      expect(returned.getAll().map(({ value }) => value)).toEqual([4, 5, 12]);
+      expect(returned.capacity).toBe(3);
+    });
+
+    test('rejects inconsistent state', () => {
+      const state = filled(3, 2).toTransferable();
+
+      expect(() => NumericCircularBuffer.fromTransferable({ ...state, capacity: 4 })).toThrow(
+        'Numeric buffer storage does not match its capacity'
+      );
+      expect(() => NumericCircularBuffer.fromTransferable({ ...state, size: 4 })).toThrow(
+        'Numeric buffer size or write index out of range'
+      );
+      expect(() => NumericCircularBuffer.fromTransferable({ ...state, writeIndex: 3 })).toThrow(
+        'Numeric buffer size or write index out of range'
+      );
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { getSensorKey, TelemetryAggregate, TelemetryReading } from '../../../types';
+import { createTelemetryStore, SENSOR_BUFFER_CAPACITY } from '../../telemetry-store';
+
+const BASE = 1_700_000_000_000;
+
+function reading(value: number, overrides: Partial<TelemetryReading> = {}): TelemetryReading {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    value,
+    unit: 'PSI',
+    timestamp: BASE,
+    ...overrides,
+  };
+}
+
+function aggregate(second: number, overrides: Partial<TelemetryAggregate> = {}): TelemetryAggregate {
+  return {
+    equipmentId: 'excavator-01',
+    sensorType: 'pressure',
+    timestamp: BASE + second * 1000,
+    min: second,
+    max: second,
+    avg: second,
+    count: 1,
+    ...overrides,
+  };
+}
+
+function setup() {
+  const frames: (() => void)[] = [];
+  const store = createTelemetryStore({ scheduleFrame: (cb) => frames.push(cb) });
+  const runFrame = () => frames.splice(0).forEach((cb) => cb());
+  return { store, frames, runFrame };
+}
+
+describe('telemetry store', () => {
+  describe('buffer allocation', () => {
+    test('sizes buffers from sensor priority', () => {
+      const { store } = setup();
+      const { registerSensor } = store.getState();
+      registerSensor('excavator-01', 'hydraulic-pressure', 'critical');
+      registerSensor('excavator-01', 'cab-temperature', 'auxiliary');
+
+      const { sensors } = store.getState();
+      expect(sensors[getSensorKey('excavator-01', 'hydraulic-pressure')]?.buffer.capacity).toBe(
+        SENSOR_BUFFER_CAPACITY.critical
+      );
+      expect(sensors[getSensorKey('excavator-01', 'cab-temperature')]?.buffer.capacity).toBe(
+        SENSOR_BUFFER_CAPACITY.auxiliary
+      );
+    });
+
+    test('unregistered sensors default to standard priority', () => {
+      const { store } = setup();
+      store.getState().pushAggregates([aggregate(0)]);
+      store.getState().flush();
+
+      const entry = store.getState().sensors[getSensorKey('excavator-01', 'pressure')];
+      expect(entry?.priority).toBe('standard');
+      expect(entry?.buffer.capacity).toBe(SENSOR_BUFFER_CAPACITY.standard);
+    });
+
+    test('re-registering with a new priority keeps the most recent data', () => {
+      const { store } = setup();
+      const aggregates = Array.from({ length: 100 }, (_, i) => aggregate(i));
+      store.getState().pushAggregates(aggregates);
+      store.getState().flush();
+
+      store.getState().registerSensor('excavator-01', 'pressure', 'auxiliary');
+
+      const buffer = store.getState().sensors[getSensorKey('excavator-01', 'pressure')]?.buffer;
+      expect(buffer?.capacity).toBe(SENSOR_BUFFER_CAPACITY.auxiliary);
+      expect(buffer?.getAll()).toEqual(aggregates.slice(-SENSOR_BUFFER_CAPACITY.auxiliary));
+    });
+
+    test('re-registering with the same priority is a no-op', () => {
+      const { store } = setup();
+      store.getState().registerSensor('excavator-01', 'pressure', 'critical');
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      store.getState().registerSensor('excavator-01', 'pressure', 'critical');
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('frame batching', () => {
+    test('applies any number of pushes in one update per frame', () => {
+      const { store, frames, runFrame } = setup();
+      const listener = jest.fn();
+      store.subscribe(listener);
+
+      for (let i = 0; i < 100; i++) {
+        store.getState().pushReadings([reading(i, { sensorType: `sensor-${i}` })]);
+        store.getState().pushAggregates([aggregate(i, { sensorType: `sensor-${i}` })]);
+      }
+
+      expect(frames).toHaveLength(1);
+      expect(listener).not.toHaveBeenCalled();
+
+      runFrame();
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(Object.keys(store.getState().sensors)).toHaveLength(100);
+    });
+
+    test('schedules a new frame after each flush', () => {
+      const { store, frames, runFrame } = setup();
+      store.getState().pushReadings([reading(1)]);
+      runFrame();
+      store.getState().pushReadings([reading(2)]);
+      expect(frames).toHaveLength(1);
+    });
+
+    test('empty pushes do not schedule a frame', () => {
+      const { store, frames } = setup();
+      store.getState().pushReadings([]);
+      store.getState().pushAggregates([]);
+      expect(frames).toHaveLength(0);
+    });
+  });
+
+  describe('re-render isolation', () => {
+    test('untouched sensor entries keep their identity', () => {
+      const { store } = setup();
+      store.getState().pushReadings([reading(1), reading(2, { sensorType: 'temperature' })]);
+      store.getState().flush();
+
+      const before = store.getState().sensors;
+      store.getState().pushReadings([reading(3)]);
+      store.getState().flush();
+      const after = store.getState().sensors;
+
+      const temperature = getSensorKey('excavator-01', 'temperature');
+      const pressure = getSensorKey('excavator-01', 'pressure');
+      expect(after[temperature]).toBe(before[temperature]);
+      expect(after[pressure]).not.toBe(before[pressure]);
+      expect(after[pressure]?.version).toBe((before[pressure]?.version ?? 0) + 1);
+    });
+
+    test('bumps version once per flush regardless of batch size', () => {
+      const { store } = setup();
+      store.getState().pushAggregates([aggregate(0), aggregate(1), aggregate(2)]);
+      store.getState().flush();
+
+      expect(store.getState().sensors[getSensorKey('excavator-01', 'pressure')]?.version).toBe(1);
+    });
+  });
+
+  describe('latest readings and status', () => {
+    test('keeps the newest reading even when batches arrive out of order', () => {
+      const { store } = setup();
+      store.getState().pushReadings([
+        reading(2, { timestamp: BASE + 2000 }),
+        reading(1, { timestamp: BASE + 1000 }),
+      ]);
+      store.getState().flush();
+
+      expect(store.getState().sensors[getSensorKey('excavator-01', 'pressure')]?.latest?.value).toBe(2);
+    });
+
+    test('marks equipment online when readings arrive', () => {
+      const { store } = setup();
+      store.getState().setEquipmentStatus('excavator-01', 'offline');
+      store.getState().pushReadings([reading(1)]);
+      store.getState().flush();
+
+      expect(store.getState().equipmentStatus['excavator-01']).toBe('online');
+    });
+
+    test('does not override alert or maintenance status', () => {
+      const { store } = setup();
+      store.getState().setEquipmentStatus('excavator-01', 'alert');
+      store.getState().setEquipmentStatus('haul-truck-07', 'maintenance');
+      store.getState().pushReadings([reading(1), reading(1, { equipmentId: 'haul-truck-07' })]);
+      store.getState().flush();
+
+      expect(store.getState().equipmentStatus).toEqual({
+        'excavator-01': 'alert',
+        'haul-truck-07': 'maintenance',
+      });
+    });
+
+    test('tracks connection status', () => {
+      const { store } = setup();
+      store.getState().setConnectionStatus('reconnecting');
+      expect(store.getState().connectionStatus).toBe('reconnecting');
+    });
+  });
+
+  describe('reset', () => {
+    test('drops sensors and queued data', () => {
+      const { store, runFrame } = setup();
+      store.getState().pushReadings([reading(1)]);
+      store.getState().reset();
+      runFrame();
+
+      expect(store.getState().sensors).toEqual({});
+      expect(store.getState().equipmentStatus).toEqual({});
+    });
+  });
+});
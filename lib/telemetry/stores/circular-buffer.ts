@@ -9,40 +9,62 @@
  * - push(): O(1) constant time
  * - getAll(): O(n) where n is capacity
  * - getLast(): O(k) where k is items requested
+ * - getRange(): O(log n + k) where k is items returned
+ * - forEach() / iteration: O(n), no allocation per item
  * - Memory: Fixed at capacity * sizeof(T)
+ *
+ * CAUTION:
+ * - getRange() binary-searches, so it assumes items were pushed in
+ *   timestamp order. A late item makes the result approximate around it
+ * - Don't push while iterating; the iteration would skip or repeat items
  */
 
 import { ICircularBuffer } from '../types';
 
+export interface CircularBufferOptions<T> {
+  /** Timestamp of an item, for getRange() (default: `item.timestamp`) */
+  timestampOf?: (item: T) => number;
+}
+
+type EvictListener<T> = (item: T) => void;
+
+const defaultTimestampOf = (item: unknown): number => (item as { timestamp: number }).timestamp;
+
 export class CircularBuffer<T> implements ICircularBuffer<T> {
   private buffer: (T | undefined)[];
   private writeIndex = 0;
   private itemCount = 0;
   private readonly _capacity: number;
+  private readonly timestampOf: (item: T) => number;
+  private evictListeners: EvictListener<T>[] = [];
 
   /**
    * Create a new CircularBuffer with fixed capacity
    * @param capacity Maximum number of items to store (must be positive)
    * @throws Error if capacity is not positive
    */
-  constructor(capacity: number) {
+  constructor(capacity: number, options: CircularBufferOptions<T> = {}) {
     if (capacity <= 0) {
       throw new Error('Capacity must be positive');
     }
     this._capacity = capacity;
     this.buffer = new Array(capacity);
+    this.timestampOf = options.timestampOf ?? defaultTimestampOf;
   }
 
   /**
    * Add an item to the buffer
-   * If buffer is full, overwrites the oldest item
+   * If buffer is full, overwrites the oldest item (telling onEvict listeners)
    * @param item Item to add
    */
   push(item: T): void {
+    const evicted = this.itemCount === this._capacity ? (this.buffer[this.writeIndex] as T) : undefined;
     this.buffer[this.writeIndex] = item;
     this.writeIndex = (this.writeIndex + 1) % this._capacity;
     if (this.itemCount < this._capacity) {
       this.itemCount++;
+    } else if (this.evictListeners.length > 0) {
+      this.evictListeners.forEach((listener) => listener(evicted as T));
     }
   }
 
@@ -82,6 +104,65 @@ export class CircularBuffer<T> implements ICircularBuffer<T> {
     return result;
   }
 
+  /**
+   * Get items with fromTs <= timestamp <= toTs in chronological order
+   * @param fromTs Inclusive, Unix ms
+   * @param toTs Inclusive, Unix ms
+   * @returns Array of matching items (empty if fromTs > toTs)
+   */
+  getRange(fromTs: number, toTs: number): T[] {
+    const result: T[] = [];
+    const start = this.lowerBound(fromTs);
+    for (let i = start; i < this.itemCount; i++) {
+      const item = this.at(i);
+      if (this.timestampOf(item) > toTs) break;
+      result.push(item);
+    }
+    return result;
+  }
+
+  /**
+   * Visit every item in chronological order without allocating
+   * @param callback Receives each item and its position (0 = oldest)
+   */
+  forEach(callback: (item: T, index: number) => void): void {
+    for (let i = 0; i < this.itemCount; i++) {
+      callback(this.at(i), i);
+    }
+  }
+
+  /**
+   * Iterate oldest to newest. The iterator reuses one result object, so
+   * nothing is allocated per item.
+   */
+  [Symbol.iterator](): Iterator<T> {
+    let index = 0;
+    const result = { done: false, value: undefined as T };
+    return {
+      next: () => {
+        if (index >= this.itemCount) {
+          result.done = true;
+          result.value = undefined as T;
+        } else {
+          result.value = this.at(index++);
+        }
+        return result as IteratorResult<T>;
+      },
+    };
+  }
+
+  /**
+   * Be told about every item a push overwrites, e.g. to roll it into a
+   * coarser aggregate. clear() does not evict.
+   * @returns Function that removes the listener
+   */
+  onEvict(listener: (item: T) => void): () => void {
+    this.evictListeners = [...this.evictListeners, listener];
+    return () => {
+      this.evictListeners = this.evictListeners.filter((l) => l !== listener);
+    };
+  }
+
   /**
    * Remove all items from the buffer
    */
@@ -111,6 +192,27 @@ export class CircularBuffer<T> implements ICircularBuffer<T> {
   get isFull(): boolean {
     return this.itemCount === this._capacity;
   }
+
+  /** Item at chronological position i (0 = oldest) */
+  private at(i: number): T {
+    const oldest = this.itemCount < this._capacity ? 0 : this.writeIndex;
+    return this.buffer[(oldest + i) % this._capacity] as T;
+  }
+
+  /** First chronological position whose timestamp is >= ts */
+  private lowerBound(ts: number): number {
+    let low = 0;
+    let high = this.itemCount;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (this.timestampOf(this.at(mid)) < ts) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+    return low;
+  }
 }
 
 /**
@@ -0,0 +1,318 @@
+/**
+ * NumericCircularBuffer - Struct-of-arrays ring buffer for one sensor series
+ *
+ * CircularBuffer<TelemetryReading> keeps a boxed object per reading, and
+ * every object repeats its equipmentId, sensorType and unit. For 1Hz x
+ * hundreds of sensors x a 12-hour shift that is most of a field tablet's
+ * heap. This variant keeps only timestamps and values, in Float64Arrays; the
+ * series identity lives with whoever owns the buffer.
+ *
+ * Performance characteristics:
+ * - push()/pushSample(): O(1), no allocation (pushSample)
+ * - view(): O(1), viewRange(): O(log n), no copy
+ * - getAll()/getLast()/getRange(): O(k) - these box samples for
+ *   ICircularBuffer callers
+ * - forEach() / iteration: O(n), no allocation per sample
+ * - Memory: 32 bytes per slot (two mirrored Float64 copies, see below)
+ *
+ * TECHNICAL CONTEXT:
+ * - Every sample is written twice, at i and i + capacity. Any run of up to
+ *   `capacity` consecutive samples is then contiguous in memory, so view()
+ *   hands out subarrays in chronological order even after the ring wraps
+ * - toTransferable() exposes the storage itself; post it with
+ *   getTransferList() and the receiver adopts it via fromTransferable()
+ *   without a copy in either direction
+ *
+ * CAUTION:
+ * - Views alias the storage: later pushes overwrite what a view shows.
+ *   Copy (`.slice()`) anything kept past the next push
+ * - Views are read-only. A write through one reaches only one of the two
+ *   mirrored copies and corrupts later views
+ * - After transferring, this buffer is detached and throws on use
+ * - forEach() and iteration hand out one reused NumericSample; copy it to
+ *   keep it
+ * - Range lookups binary-search, so samples must be pushed in timestamp order
+ */
+
+import { ICircularBuffer } from '../types';
+
+export interface NumericSample {
+  /** Unix ms */
+  timestamp: number;
+  value: number;
+}
+
+/**
+ * Chronological, zero-copy window onto a NumericCircularBuffer
+ */
+export interface NumericSeriesView {
+  timestamps: Float64Array;
+  values: Float64Array;
+}
+
+/**
+ * A buffer's complete state, structured-cloneable. `timestamps` and
+ * `values` are the live storage, not copies.
+ */
+export interface TransferableNumericBuffer {
+  capacity: number;
+  size: number;
+  writeIndex: number;
+  timestamps: Float64Array;
+  values: Float64Array;
+}
+
+export class NumericCircularBuffer implements ICircularBuffer<NumericSample> {
+  private timestamps: Float64Array;
+  private values: Float64Array;
+  private writeIndex = 0;
+  private itemCount = 0;
+  private _capacity: number;
+  private evictListeners: ((item: NumericSample) => void)[] = [];
+
+  /**
+   * Create a new NumericCircularBuffer with fixed capacity
+   * @param capacity Maximum number of samples to store (must be a positive integer)
+   * @throws Error if capacity is not a positive integer
+   */
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('Capacity must be positive');
+    }
+    this._capacity = capacity;
+    this.timestamps = new Float64Array(capacity * 2);
+    this.values = new Float64Array(capacity * 2);
+  }
+
+  /**
+   * Adopt a buffer posted from another thread (no copy)
+   * @throws Error if the state is inconsistent or its storage was detached
+   */
+  static fromTransferable(state: TransferableNumericBuffer): NumericCircularBuffer {
+    const { capacity, size, writeIndex, timestamps, values } = state;
+    if (!Number.isInteger(capacity) || capacity <= 0) {
+      throw new Error('Capacity must be positive');
+    }
+    if (timestamps.length !== capacity * 2 || values.length !== capacity * 2) {
+      throw new Error('Numeric buffer storage does not match its capacity');
+    }
+    if (!isIndex(size, capacity + 1) || !isIndex(writeIndex, capacity)) {
+      throw new Error('Numeric buffer size or write index out of range');
+    }
+    const buffer = new NumericCircularBuffer(1);
+    buffer._capacity = capacity;
+    buffer.timestamps = timestamps;
+    buffer.values = values;
+    buffer.writeIndex = writeIndex;
+    buffer.itemCount = size;
+    return buffer;
+  }
+
+  /**
+   * Add a sample, overwriting the oldest if full
+   */
+  push(item: NumericSample): void {
+    this.pushSample(item.timestamp, item.value);
+  }
+
+  /**
+   * Add a sample without allocating
+   */
+  pushSample(timestamp: number, value: number): void {
+    this.assertAttached();
+    if (this.itemCount === this._capacity && this.evictListeners.length > 0) {
+      const evicted = { timestamp: this.timestamps[this.writeIndex]!, value: this.values[this.writeIndex]! };
+      this.evictListeners.forEach((listener) => listener(evicted));
+    }
+    const mirror = this.writeIndex + this._capacity;
+    this.timestamps[this.writeIndex] = timestamp;
+    this.timestamps[mirror] = timestamp;
+    this.values[this.writeIndex] = value;
+    this.values[mirror] = value;
+    this.writeIndex = (this.writeIndex + 1) % this._capacity;
+    if (this.itemCount < this._capacity) {
+      this.itemCount++;
+    }
+  }
+
+  /**
+   * Zero-copy view of the last n samples (all by default), oldest first
+   */
+  view(n: number = this.itemCount): NumericSeriesView {
+    this.assertAttached();
+    const count = Math.max(0, Math.min(Math.floor(n), this.itemCount));
+    // writeIndex + capacity is one past the newest sample's mirror slot
+    const end = this.writeIndex + this._capacity;
+    return {
+      timestamps: this.timestamps.subarray(end - count, end),
+      values: this.values.subarray(end - count, end),
+    };
+  }
+
+  /**
+   * Zero-copy view of the samples with fromTs <= timestamp <= toTs
+   */
+  viewRange(fromTs: number, toTs: number): NumericSeriesView {
+    const { timestamps, values } = this.view();
+    const start = lowerBound(timestamps, fromTs);
+    const end = Math.max(start, upperBound(timestamps, toTs));
+    return { timestamps: timestamps.subarray(start, end), values: values.subarray(start, end) };
+  }
+
+  /**
+   * Get all samples in chronological order (oldest to newest)
+   */
+  getAll(): NumericSample[] {
+    return this.getLast(this.itemCount);
+  }
+
+  /**
+   * Get the last n samples in chronological order
+   */
+  getLast(n: number): NumericSample[] {
+    return toSamples(this.view(n));
+  }
+
+  /**
+   * Get samples with fromTs <= timestamp <= toTs in chronological order
+   */
+  getRange(fromTs: number, toTs: number): NumericSample[] {
+    return toSamples(this.viewRange(fromTs, toTs));
+  }
+
+  /**
+   * Visit every sample in chronological order without allocating. The
+   * sample object is reused between calls.
+   */
+  forEach(callback: (item: NumericSample, index: number) => void): void {
+    const { timestamps, values } = this.view();
+    const sample = { timestamp: 0, value: 0 };
+    for (let i = 0; i < timestamps.length; i++) {
+      sample.timestamp = timestamps[i]!;
+      sample.value = values[i]!;
+      callback(sample, i);
+    }
+  }
+
+  /**
+   * Iterate oldest to newest, reusing one sample and one result object
+   */
+  [Symbol.iterator](): Iterator<NumericSample> {
+    const { timestamps, values } = this.view();
+    const sample = { timestamp: 0, value: 0 };
+    const result = { done: false, value: sample };
+    let index = 0;
+    return {
+      next: () => {
+        if (index >= timestamps.length) return { done: true, value: undefined };
+        sample.timestamp = timestamps[index]!;
+        sample.value = values[index++]!;
+        return result;
+      },
+    };
+  }
+
+  /**
+   * Be told about every sample a push overwrites (not about clear())
+   * @returns Function that removes the listener
+   */
+  onEvict(listener: (item: NumericSample) => void): () => void {
+    this.evictListeners = [...this.evictListeners, listener];
+    return () => {
+      this.evictListeners = this.evictListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Remove all samples (the storage is kept)
+   */
+  clear(): void {
+    this.assertAttached();
+    this.writeIndex = 0;
+    this.itemCount = 0;
+  }
+
+  /**
+   * Hand the storage to another thread. Post the result with
+   * getTransferList(); this buffer is unusable afterwards.
+   */
+  toTransferable(): TransferableNumericBuffer {
+    this.assertAttached();
+    return {
+      capacity: this._capacity,
+      size: this.itemCount,
+      writeIndex: this.writeIndex,
+      timestamps: this.timestamps,
+      values: this.values,
+    };
+  }
+
+  get size(): number {
+    return this.itemCount;
+  }
+
+  get capacity(): number {
+    return this._capacity;
+  }
+
+  get isFull(): boolean {
+    return this.itemCount === this._capacity;
+  }
+
+  /**
+   * Whether the storage was transferred away
+   */
+  get isDetached(): boolean {
+    return this.timestamps.length === 0;
+  }
+
+  private assertAttached(): void {
+    if (this.timestamps.length === 0) {
+      throw new Error('NumericCircularBuffer storage was transferred');
+    }
+  }
+}
+
+function toSamples({ timestamps, values }: NumericSeriesView): NumericSample[] {
+  const result: NumericSample[] = new Array(timestamps.length);
+  for (let i = 0; i < timestamps.length; i++) {
+    result[i] = { timestamp: timestamps[i]!, value: values[i]! };
+  }
+  return result;
+}
+
+/** First index whose timestamp is >= ts */
+function lowerBound(timestamps: Float64Array, ts: number): number {
+  let low = 0;
+  let high = timestamps.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (timestamps[mid]! < ts) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+/** First index whose timestamp is > ts */
+function upperBound(timestamps: Float64Array, ts: number): number {
+  let low = 0;
+  let high = timestamps.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (timestamps[mid]! <= ts) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function isIndex(value: number, limit: number): boolean {
+  return Number.isInteger(value) && value >= 0 && value < limit;
+}
+
+/**
+ * The ArrayBuffers to list as Transferables when posting a buffer.
+ * Not for views: a view's ArrayBuffer is the whole buffer's storage.
+ */
+export function getTransferList(state: TransferableNumericBuffer): ArrayBuffer[] {
+  return [state.timestamps.buffer as ArrayBuffer, state.values.buffer as ArrayBuffer];
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useStore } from 'zustand';
+
+import {
+  EquipmentStatus,
+  getSensorKey,
+  TelemetryAggregate,
+  TelemetryReading,
+} from '../types';
+import { TelemetryState, telemetryStore } from './telemetry-store';
+
+/**
+ * Select from the application telemetry store.
+ * Prefer the narrower hooks below in components.
+ */
+export function useTelemetryStore<T>(selector: (state: TelemetryState) => T): T {
+  return useStore(telemetryStore, selector);
+}
+
+/**
+ * Latest raw reading for one sensor.
+ * Re-renders only when that sensor's latest reading changes.
+ */
+export function useSensorLatest(
+  equipmentId: string,
+  sensorType: string
+): TelemetryReading | null {
+  const key = getSensorKey(equipmentId, sensorType);
+  return useTelemetryStore((state) => state.sensors[key]?.latest ?? null);
+}
+
+/**
+ * Aggregate series for one sensor, oldest first.
+ * Re-renders only when that sensor's buffer changes.
+ * @param limit Return at most this many of the most recent aggregates
+ */
+export function useSensorSeries(
+  equipmentId: string,
+  sensorType: string,
+  limit?: number
+): TelemetryAggregate[] {
+  const key = getSensorKey(equipmentId, sensorType);
+  // Entries are replaced on every change, so identity is the change signal
+  // even though the buffer inside mutates in place
+  const entry = useTelemetryStore((state) => state.sensors[key]);
+
+  return useMemo(() => {
+    if (!entry) return [];
+    return limit === undefined ? entry.buffer.getAll() : entry.buffer.getLast(limit);
+  }, [entry, limit]);
+}
+
+/**
+ * Operational status for one unit ('offline' until data or a status arrives)
+ */
+export function useEquipmentStatus(equipmentId: string): EquipmentStatus {
+  return useTelemetryStore((state) => state.equipmentStatus[equipmentId] ?? 'offline');
+}
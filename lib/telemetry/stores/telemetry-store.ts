@@ -0,0 +1,298 @@
+/**
+ * Telemetry Store - Zustand state for live sensor data
+ *
+ * Each sensor (equipmentId + sensorType) gets one aggregate CircularBuffer
+ * whose capacity comes from its SensorPriority, plus its latest raw reading.
+ * Incoming data is queued and applied in ONE state update per animation
+ * frame, so a 100-sensor dashboard renders at most once per frame no matter
+ * how many messages arrive.
+ *
+ * Re-render isolation: buffers are mutable, so every touched sensor entry is
+ * replaced with a new object carrying a bumped `version`. Selectors on one
+ * sensor therefore ignore updates to every other sensor.
+ *
+ * CAUTION:
+ * - Never select `state.sensors` wholesale in a component - use the hooks in
+ *   telemetry-hooks.ts
+ * - Buffers are shared between entry versions; read them, never push to them
+ *   from outside the store
+ */
+
+import { createStore, StoreApi } from 'zustand/vanilla';
+
+import {
+  ConnectionStatus,
+  EquipmentStatus,
+  getSensorKey,
+  SensorPriority,
+  TelemetryAggregate,
+  TelemetryReading,
+} from '../types';
+import { CircularBuffer, createAggregateBuffer } from './circular-buffer';
+
+/**
+ * Aggregate buffer capacity per priority (1-second aggregates)
+ * - critical: 10 minutes - safety sensors need the longest local replay
+ * - standard: 5 minutes - the architecture's default memory window
+ * - auxiliary: 1 minute - comfort/diagnostic sensors
+ */
+export const SENSOR_BUFFER_CAPACITY: Record<SensorPriority, number> = {
+  critical: 600,
+  standard: 300,
+  auxiliary: 60,
+};
+
+export const DEFAULT_SENSOR_PRIORITY: SensorPriority = 'standard';
+
+export interface SensorEntry {
+  equipmentId: string;
+  sensorType: string;
+  priority: SensorPriority;
+  buffer: CircularBuffer<TelemetryAggregate>;
+  latest: TelemetryReading | null;
+  /** Increments whenever buffer or latest changes */
+  version: number;
+}
+
+export interface TelemetryState {
+  /** Keyed by getSensorKey(equipmentId, sensorType) */
+  sensors: Record<string, SensorEntry>;
+  equipmentStatus: Record<string, EquipmentStatus>;
+  connectionStatus: ConnectionStatus;
+
+  /** Declare a sensor's priority; resizes its buffer if it already exists */
+  registerSensor: (equipmentId: string, sensorType: string, priority: SensorPriority) => void;
+
+  /** Queue raw readings for the next frame */
+  pushReadings: (readings: TelemetryReading[]) => void;
+  /**
+   * Observe every reading as it is pushed, before frame batching keeps only
+   * the latest per sensor (e.g. rule evaluation)
+   * @returns Function that removes the listener
+   */
+  subscribeReadings: (listener: (readings: TelemetryReading[]) => void) => () => void;
+
+  /** Queue aggregates (e.g. worker snapshots) for the next frame */
+  pushAggregates: (aggregates: TelemetryAggregate[]) => void;
+
+  /**
+   * Merge older aggregates (e.g. from storage) into the buffers in
+   * timestamp order, immediately; live data wins on equal timestamps
+   */
+  restoreAggregates: (aggregates: TelemetryAggregate[]) => void;
+
+  /** Apply queued data now (tests, unmount, before persistence snapshots) */
+  flush: () => void;
+
+  setEquipmentStatus: (equipmentId: string, status: EquipmentStatus) => void;
+  setConnectionStatus: (status: ConnectionStatus) => void;
+
+  /** Drop all sensors, statuses and queued data */
+  reset: () => void;
+}
+
+export type TelemetryStore = StoreApi<TelemetryState>;
+
+export interface TelemetryStoreOptions {
+  /** Frame scheduler, injectable for tests (default: requestAnimationFrame) */
+  scheduleFrame?: (callback: () => void) => void;
+}
+
+function defaultScheduleFrame(callback: () => void): void {
+  if (typeof requestAnimationFrame === 'function') {
+    requestAnimationFrame(() => callback());
+  } else {
+    // Workers and SSR have no rAF; ~60fps is close enough
+    setTimeout(callback, 16);
+  }
+}
+
+/**
+ * Create an isolated telemetry store (one per app; tests create their own)
+ */
+export function createTelemetryStore(options: TelemetryStoreOptions = {}): TelemetryStore {
+  const scheduleFrame = options.scheduleFrame ?? defaultScheduleFrame;
+  let pendingReadings: TelemetryReading[] = [];
+  let pendingAggregates: TelemetryAggregate[] = [];
+  let frameScheduled = false;
+  const readingListeners = new Set<(readings: TelemetryReading[]) => void>();
+
+  return createStore<TelemetryState>()((set, get) => {
+    const requestFlush = () => {
+      if (frameScheduled) return;
+      frameScheduled = true;
+      scheduleFrame(() => get().flush());
+    };
+
+    return {
+      sensors: {},
+      equipmentStatus: {},
+      connectionStatus: 'disconnected',
+
+      registerSensor: (equipmentId, sensorType, priority) => {
+        const key = getSensorKey(equipmentId, sensorType);
+        const existing = get().sensors[key];
+        if (existing?.priority === priority) return;
+
+        const buffer = createAggregateBuffer(SENSOR_BUFFER_CAPACITY[priority]);
+        existing?.buffer.getLast(buffer.capacity).forEach((aggregate) => buffer.push(aggregate));
+
+        set((state) => ({
+          sensors: {
+            ...state.sensors,
+            [key]: {
+              equipmentId,
+              sensorType,
+              priority,
+              buffer,
+              latest: existing?.latest ?? null,
+              version: (existing?.version ?? 0) + 1,
+            },
+          },
+        }));
+      },
+
+      pushReadings: (readings) => {
+        if (readings.length === 0) return;
+        pendingReadings.push(...readings);
+        requestFlush();
+        readingListeners.forEach((listener) => listener(readings));
+      },
+
+      subscribeReadings: (listener) => {
+        readingListeners.add(listener);
+        return () => readingListeners.delete(listener);
+      },
+
+      pushAggregates: (aggregates) => {
+        if (aggregates.length === 0) return;
+        pendingAggregates.push(...aggregates);
+        requestFlush();
+      },
+
+      restoreAggregates: (aggregates) => {
+        if (aggregates.length === 0) return;
+        get().flush();
+
+        const bySensor = new Map<string, TelemetryAggregate[]>();
+        for (const aggregate of aggregates) {
+          const key = getSensorKey(aggregate.equipmentId, aggregate.sensorType);
+          const list = bySensor.get(key);
+          if (list) list.push(aggregate);
+          else bySensor.set(key, [aggregate]);
+        }
+
+        set((state) => {
+          const sensors = { ...state.sensors };
+          bySensor.forEach((restored, key) => {
+            const [{ equipmentId, sensorType }] = restored as [TelemetryAggregate];
+            const current = sensors[key];
+            const priority = current?.priority ?? DEFAULT_SENSOR_PRIORITY;
+            const live = current?.buffer.getAll() ?? [];
+            const liveTimestamps = new Set(live.map((aggregate) => aggregate.timestamp));
+
+            const buffer = createAggregateBuffer(SENSOR_BUFFER_CAPACITY[priority]);
+            restored
+              .filter((aggregate) => !liveTimestamps.has(aggregate.timestamp))
+              .concat(live)
+              .sort((a, b) => a.timestamp - b.timestamp)
+              .forEach((aggregate) => buffer.push(aggregate));
+
+            sensors[key] = {
+              equipmentId,
+              sensorType,
+              priority,
+              buffer,
+              latest: current?.latest ?? null,
+              version: (current?.version ?? 0) + 1,
+            };
+          });
+          return { sensors };
+        });
+      },
+
+      flush: () => {
+        frameScheduled = false;
+        if (pendingReadings.length === 0 && pendingAggregates.length === 0) return;
+
+        const readings = pendingReadings;
+        const aggregates = pendingAggregates;
+        pendingReadings = [];
+        pendingAggregates = [];
+
+        set((state) => {
+          const sensors = { ...state.sensors };
+          const touched = new Set<string>();
+          let equipmentStatus = state.equipmentStatus;
+
+          // Clone each entry at most once per flush so version bumps stay cheap
+          const entryFor = (equipmentId: string, sensorType: string): SensorEntry => {
+            const key = getSensorKey(equipmentId, sensorType);
+            const current = sensors[key];
+            if (current && touched.has(key)) return current;
+
+            const next: SensorEntry = current
+              ? { ...current, version: current.version + 1 }
+              : {
+                  equipmentId,
+                  sensorType,
+                  priority: DEFAULT_SENSOR_PRIORITY,
+                  buffer: createAggregateBuffer(SENSOR_BUFFER_CAPACITY[DEFAULT_SENSOR_PRIORITY]),
+                  latest: null,
+                  version: 1,
+                };
+            sensors[key] = next;
+            touched.add(key);
+            return next;
+          };
+
+          for (const aggregate of aggregates) {
+            entryFor(aggregate.equipmentId, aggregate.sensorType).buffer.push(aggregate);
+          }
+
+          for (const reading of readings) {
+            const entry = entryFor(reading.equipmentId, reading.sensorType);
+            if (!entry.latest || reading.timestamp >= entry.latest.timestamp) {
+              entry.latest = reading;
+            }
+
+            // Data flowing means the unit is reachable; alert/maintenance are
+            // set deliberately elsewhere and must not be overwritten here
+            const status = equipmentStatus[reading.equipmentId];
+            if (status === undefined || status === 'offline') {
+              if (equipmentStatus === state.equipmentStatus) {
+                equipmentStatus = { ...equipmentStatus };
+              }
+              equipmentStatus[reading.equipmentId] = 'online';
+            }
+          }
+
+          return { sensors, equipmentStatus };
+        });
+      },
+
+      setEquipmentStatus: (equipmentId, status) => {
+        if (get().equipmentStatus[equipmentId] === status) return;
+        set((state) => ({
+          equipmentStatus: { ...state.equipmentStatus, [equipmentId]: status },
+        }));
+      },
+
+      setConnectionStatus: (status) => {
+        if (get().connectionStatus === status) return;
+        set({ connectionStatus: status });
+      },
+
+      reset: () => {
+        pendingReadings = [];
+        pendingAggregates = [];
+        set({ sensors: {}, equipmentStatus: {}, connectionStatus: 'disconnected' });
+      },
+    };
+  });
+}
+
+/**
+ * The application's telemetry store
+ */
+export const telemetryStore = createTelemetryStore();
@@ -8,8 +8,9 @@
 /**
  * Generic interface for circular buffer operations.
  * Provides memory-safe, fixed-size data storage.
+ * Iterating yields items oldest to newest without copying the buffer.
  */
-export interface ICircularBuffer<T> {
+export interface ICircularBuffer<T> extends Iterable<T> {
   /** Add new item to buffer, overwriting oldest if full */
   push(item: T): void;
   
@@ -30,6 +31,21 @@ export interface ICircularBuffer<T> {
   
   /** Whether buffer is at maximum capacity */
   get isFull(): boolean;
+
+  /**
+   * Items with fromTs <= timestamp <= toTs, oldest first. Found by binary
+   * search, so items must have been pushed in timestamp order.
+   */
+  getRange(fromTs: number, toTs: number): T[];
+
+  /** Visit every item oldest to newest without allocating */
+  forEach(callback: (item: T, index: number) => void): void;
+
+  /**
+   * Be told about each item a push overwrites (not about clear())
+   * @returns Function that removes the listener
+   */
+  onEvict(listener: (item: T) => void): () => void;
 }
 
 /**
@@ -96,11 +112,21 @@ export type EquipmentStatus = 'online' | 'offline' | 'maintenance' | 'alert';
 export type SensorPriority = 'critical' | 'standard' | 'auxiliary';
 
 /**
- * Type guard to check if an object is a valid TelemetryReading
+ * Build the key used to index per-sensor state (buffers, pending windows).
+ * Uses ':' as separator because equipment IDs routinely contain '-'.
+ */
+export function getSensorKey(equipmentId: string, sensorType: string): string {
+  return `${equipmentId}:${sensorType}`;
+}
+
+/**
+ * Type guard to check if an object is a valid TelemetryReading.
+ * Checks field types only; see ReadingValidator for ingest checks.
  */
 export function isTelemetryReading(obj: any): obj is TelemetryReading {
   return (
     typeof obj === 'object' &&
+    obj !== null &&
     typeof obj.equipmentId === 'string' &&
     typeof obj.sensorType === 'string' &&
     typeof obj.value === 'number' &&
@@ -116,6 +142,7 @@ export function isTelemetryReading(obj: any): obj is TelemetryReading {
 export function isTelemetryAggregate(obj: any): obj is TelemetryAggregate {
   return (
     typeof obj === 'object' &&
+    obj !== null &&
     typeof obj.equipmentId === 'string' &&
     typeof obj.sensorType === 'string' &&
     typeof obj.timestamp === 'number' &&
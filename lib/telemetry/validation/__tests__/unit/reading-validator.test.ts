@@ -0,0 +1,151 @@
+import { MockWebSocketServer, settleSockets } from '../../../../../test/utils/mock-websocket';
+import { connectTelemetryFeed } from '../../../connection/telemetry-feed';
+import { WebSocketManager } from '../../../connection/websocket-manager';
+import { createTelemetryStore } from '../../../stores/telemetry-store';
+import { getSensorKey, TelemetryReading } from '../../../types';
+import {
+  DEFAULT_MAX_AGE_MS,
+  DEFAULT_MAX_FUTURE_MS,
+  QuarantineReason,
+  ReadingValidator,
+} from '../../reading-validator';
+
+const NOW = 1_700_000_000_000;
+
+function reading(overrides: Partial<TelemetryReading> = {}): TelemetryReading {
+  return {
+    equipmentId: 'ex-01',
+    sensorType: 'hydraulic-pressure',
+    value: 2700,
+    unit: 'PSI',
+    timestamp: NOW,
+    ...overrides,
+  };
+}
+
+function setup(options: ConstructorParameters<typeof ReadingValidator>[0] = {}) {
+  return new ReadingValidator({ now: () => NOW, ...options });
+}
+
+describe('ReadingValidator', () => {
+  test('accepts plausible readings, including late and slightly early ones', () => {
+    const validator = setup();
+    const batch = [
+      reading(),
+      reading({ timestamp: NOW - 10 * 60 * 1000 }),
+      reading({ timestamp: NOW + DEFAULT_MAX_FUTURE_MS }),
+      reading({ sensorType: 'engine-temperature', value: -4.5, unit: '°C' }),
+    ];
+
+    expect(validator.validate(batch)).toEqual(batch);
+    expect(validator.stats).toMatchObject({ accepted: 4, quarantined: 0 });
+  });
+
+  test.each<[QuarantineReason, unknown]>([
+    ['malformed', { equipmentId: 'ex-01', value: 1 }],
+    ['malformed', null],
+    ['malformed', reading({ timestamp: 0 })],
+    ['non-finite', reading({ value: NaN })],
+    ['non-finite', reading({ value: -Infinity })],
+    ['seconds-timestamp', reading({ timestamp: NOW / 1000 })],
+    ['future-timestamp', reading({ timestamp: NOW + DEFAULT_MAX_FUTURE_MS + 1 })],
+    ['stale-timestamp', reading({ timestamp: NOW - DEFAULT_MAX_AGE_MS - 1 })],
+  ])('quarantines %s: %p', (reason, input) => {
+    const validator = setup();
+
+    expect(validator.validate([input])).toEqual([]);
+    expect(validator.getQuarantine()).toEqual([
+      { reason, detail: expect.any(String), receivedAt: NOW, reading: input },
+    ]);
+    expect(validator.stats.byReason[reason]).toBe(1);
+  });
+
+  test('checks units against sensor definitions only once defined', () => {
+    const validator = setup();
+    expect(validator.validate([reading({ unit: 'kPa' })])).toHaveLength(1);
+
+    validator.defineSensors('ex-01', [{ sensorType: 'hydraulic-pressure', unit: 'PSI' }]);
+    expect(validator.validate([reading({ unit: 'kPa', timestamp: NOW - 1 })])).toEqual([]);
+    expect(validator.getQuarantine()[0]).toMatchObject({
+      reason: 'unit-mismatch',
+      detail: "unit 'kPa', expected 'PSI'",
+    });
+    // Other units' sensors are unaffected
+    expect(validator.validate([reading({ equipmentId: 'ex-02', unit: 'kPa' })])).toHaveLength(1);
+  });
+
+  test('redefining a unit drops its old definitions', () => {
+    const validator = setup();
+    validator.defineSensors('ex-01', [{ sensorType: 'hydraulic-pressure', unit: 'PSI' }]);
+    validator.defineSensors('ex-01', [{ sensorType: 'engine-rpm', unit: 'rpm' }]);
+
+    expect(validator.validate([reading({ unit: 'bar' })])).toHaveLength(1);
+  });
+
+  test('drops replayed readings but keeps out-of-order ones', () => {
+    const validator = setup();
+    const first = [reading({ timestamp: NOW - 2000 }), reading({ timestamp: NOW - 1000 })];
+    validator.validate(first);
+
+    const flood = [reading({ timestamp: NOW - 3000 }), ...first, reading({ sensorType: 'engine-rpm', timestamp: NOW - 1000 })];
+    expect(validator.validate(flood).map((r) => [r.sensorType, r.timestamp])).toEqual([
+      ['hydraulic-pressure', NOW - 3000],
+      ['engine-rpm', NOW - 1000],
+    ]);
+    expect(validator.stats.byReason.duplicate).toBe(2);
+  });
+
+  test('remembers duplicateHistory timestamps per sensor', () => {
+    const validator = setup({ duplicateHistory: 3 });
+    validator.validate([1, 2, 3, 4].map((s) => reading({ timestamp: NOW - s * 1000 })));
+
+    // NOW - 1000 fell out of the history; NOW - 4000 is still there
+    expect(validator.validate([reading({ timestamp: NOW - 1000 })])).toHaveLength(1);
+    expect(validator.validate([reading({ timestamp: NOW - 4000 })])).toEqual([]);
+  });
+
+  test('bounds the quarantine and keeps counting', () => {
+    const validator = setup({ quarantineCapacity: 2 });
+    validator.validate([NaN, Infinity, -Infinity].map((value) => reading({ value })));
+
+    expect(validator.getQuarantine().map((entry) => (entry.reading as TelemetryReading).value)).toEqual([
+      Infinity,
+      -Infinity,
+    ]);
+    expect(validator.stats).toMatchObject({ quarantined: 3, byReason: { 'non-finite': 3 } });
+
+    validator.reset();
+    expect(validator.stats.quarantined).toBe(0);
+    expect(validator.getQuarantine()).toEqual([]);
+  });
+});
+
+describe('telemetry feed validation', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: NOW });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('one bad sensor never reaches the store', async () => {
+    const server = new MockWebSocketServer();
+    const manager = new WebSocketManager({ url: 'wss://telemetry.test', createSocket: server.createSocket });
+    const store = createTelemetryStore({ scheduleFrame: () => {} });
+    const validator = new ReadingValidator();
+    connectTelemetryFeed(manager, store, validator);
+    manager.connect();
+    await settleSockets();
+
+    server.broadcast({
+      type: 'telemetry',
+      readings: [reading(), reading({ sensorType: 'engine-temperature', unit: '°C', timestamp: NOW / 1000 })],
+    });
+    store.getState().flush();
+
+    expect(Object.keys(store.getState().sensors)).toEqual([getSensorKey('ex-01', 'hydraulic-pressure')]);
+    expect(validator.stats).toMatchObject({ accepted: 1, byReason: { 'seconds-timestamp': 1 } });
+    manager.disconnect();
+  });
+});
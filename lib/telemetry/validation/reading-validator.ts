@@ -0,0 +1,228 @@
+/**
+ * ReadingValidator - Ingest checks between the wire and the buffers
+ *
+ * isTelemetryReading only checks field types. A gateway sending seconds
+ * instead of milliseconds, a unit with its clock set to next year, or a
+ * sensor reporting NaN passes that check and then wrecks a chart's time
+ * axis, pins a store entry's `latest`, or fires false alerts. Readings
+ * that fail here are kept in a bounded quarantine with a reason code
+ * instead of being buffered, and counted for the diagnostics bundle.
+ *
+ * Reasons, checked in this order:
+ * - malformed: fails isTelemetryReading (or, via quarantineInput, a frame
+ *   that failed to decode)
+ * - non-finite: value is NaN or ±Infinity
+ * - seconds-timestamp: timestamp is plausible as Unix seconds, not ms
+ * - future-timestamp: more than maxFutureMs ahead of now()
+ * - stale-timestamp: more than maxAgeMs behind now()
+ * - unit-mismatch: unit differs from the sensor definition's
+ * - duplicate: same sensor and timestamp as a recently accepted reading
+ *   (reconnect floods and at-least-once delivery replay readings)
+ *
+ * CAUTION:
+ * - Unit checks only apply to sensors defined via defineSensors(); unknown
+ *   sensors are accepted so a missing definition never blanks live data
+ * - Duplicate detection remembers duplicateHistory timestamps per sensor;
+ *   a replay older than that is accepted again
+ */
+
+import { CircularBuffer } from '../stores/circular-buffer';
+import { getSensorKey, isTelemetryReading, TelemetryReading } from '../types';
+
+export const QUARANTINE_REASONS = [
+  'malformed',
+  'non-finite',
+  'seconds-timestamp',
+  'future-timestamp',
+  'stale-timestamp',
+  'unit-mismatch',
+  'duplicate',
+] as const;
+export type QuarantineReason = (typeof QUARANTINE_REASONS)[number];
+
+export interface QuarantinedReading {
+  reason: QuarantineReason;
+  /** What was wrong, e.g. "unit 'kPa', expected 'PSI'" */
+  detail: string;
+  /** Epoch ms */
+  receivedAt: number;
+  /** As received - may not be a TelemetryReading at all */
+  reading: unknown;
+}
+
+export interface IngestStats {
+  accepted: number;
+  quarantined: number;
+  byReason: Record<QuarantineReason, number>;
+}
+
+export interface ReadingValidatorOptions {
+  /** Tolerated clock skew into the future (default: 30s) */
+  maxFutureMs?: number;
+  /** Oldest reading accepted (default: 24h - the persisted history window) */
+  maxAgeMs?: number;
+  /** Quarantined readings kept for diagnostics (default: 200) */
+  quarantineCapacity?: number;
+  /** Accepted timestamps remembered per sensor (default: 600) */
+  duplicateHistory?: number;
+  /** Clock, injectable for tests */
+  now?: () => number;
+}
+
+export const DEFAULT_MAX_FUTURE_MS = 30_000;
+export const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+export const DEFAULT_QUARANTINE_CAPACITY = 200;
+export const DEFAULT_DUPLICATE_HISTORY = 600;
+
+/**
+ * Below this a timestamp is taken as seconds: 1e11 ms is March 1973,
+ * while 1e11 s is thousands of years away
+ */
+export const SECONDS_TIMESTAMP_LIMIT = 1e11;
+
+interface RecentTimestamps {
+  seen: Set<number>;
+  order: number[];
+}
+
+export class ReadingValidator {
+  private readonly units = new Map<string, string>();
+  private readonly recent = new Map<string, RecentTimestamps>();
+  private readonly quarantine: CircularBuffer<QuarantinedReading>;
+  private readonly maxFutureMs: number;
+  private readonly maxAgeMs: number;
+  private readonly duplicateHistory: number;
+  private readonly now: () => number;
+  private accepted = 0;
+  private readonly byReason = emptyCounts();
+
+  constructor(options: ReadingValidatorOptions = {}) {
+    this.maxFutureMs = options.maxFutureMs ?? DEFAULT_MAX_FUTURE_MS;
+    this.maxAgeMs = options.maxAgeMs ?? DEFAULT_MAX_AGE_MS;
+    this.duplicateHistory = options.duplicateHistory ?? DEFAULT_DUPLICATE_HISTORY;
+    this.now = options.now ?? Date.now;
+    this.quarantine = new CircularBuffer(options.quarantineCapacity ?? DEFAULT_QUARANTINE_CAPACITY);
+  }
+
+  /**
+   * Declare a unit's sensors so readings in the wrong unit are caught.
+   * Replaces the unit's previous definitions.
+   */
+  defineSensors(equipmentId: string, sensors: readonly { sensorType: string; unit: string }[]): void {
+    const prefix = getSensorKey(equipmentId, '');
+    for (const key of this.units.keys()) {
+      if (key.startsWith(prefix)) this.units.delete(key);
+    }
+    for (const { sensorType, unit } of sensors) {
+      this.units.set(getSensorKey(equipmentId, sensorType), unit);
+    }
+  }
+
+  /**
+   * Split a batch into readings safe to buffer; the rest are quarantined
+   * @returns Accepted readings, in batch order
+   */
+  validate(batch: readonly unknown[]): TelemetryReading[] {
+    const now = this.now();
+    const accepted: TelemetryReading[] = [];
+    for (const reading of batch) {
+      if (this.check(reading, now)) accepted.push(reading);
+    }
+    return accepted;
+  }
+
+  /**
+   * Validate one reading; quarantines it and returns false if it fails
+   */
+  check(reading: unknown, now: number = this.now()): reading is TelemetryReading {
+    if (!isTelemetryReading(reading)) {
+      return this.reject(reading, 'malformed', 'not a telemetry reading', now);
+    }
+
+    const { equipmentId, sensorType, value, unit, timestamp } = reading;
+    if (!Number.isFinite(value)) {
+      return this.reject(reading, 'non-finite', `value is ${value}`, now);
+    }
+    if (timestamp < SECONDS_TIMESTAMP_LIMIT) {
+      return this.reject(reading, 'seconds-timestamp', `timestamp ${timestamp} looks like seconds`, now);
+    }
+    if (timestamp - now > this.maxFutureMs) {
+      return this.reject(reading, 'future-timestamp', `${timestamp - now}ms ahead of this device`, now);
+    }
+    if (now - timestamp > this.maxAgeMs) {
+      return this.reject(reading, 'stale-timestamp', `${now - timestamp}ms old`, now);
+    }
+
+    const key = getSensorKey(equipmentId, sensorType);
+    const expectedUnit = this.units.get(key);
+    if (expectedUnit !== undefined && unit !== expectedUnit) {
+      return this.reject(reading, 'unit-mismatch', `unit '${unit}', expected '${expectedUnit}'`, now);
+    }
+
+    let recent = this.recent.get(key);
+    if (!recent) {
+      recent = { seen: new Set(), order: [] };
+      this.recent.set(key, recent);
+    }
+    if (recent.seen.has(timestamp)) {
+      return this.reject(reading, 'duplicate', `already received ${timestamp}`, now);
+    }
+    recent.seen.add(timestamp);
+    recent.order.push(timestamp);
+    if (recent.order.length > this.duplicateHistory) {
+      recent.seen.delete(recent.order.shift()!);
+    }
+
+    this.accepted++;
+    return true;
+  }
+
+  /**
+   * Quarantine input rejected before it became readings, e.g. a binary
+   * frame that failed to decode
+   */
+  quarantineInput(input: unknown, reason: QuarantineReason, detail: string): void {
+    this.reject(input, reason, detail, this.now());
+  }
+
+  /**
+   * Quarantined readings, oldest first
+   */
+  getQuarantine(): QuarantinedReading[] {
+    return this.quarantine.getAll();
+  }
+
+  /**
+   * Snapshot of the counters
+   */
+  get stats(): IngestStats {
+    const quarantined = QUARANTINE_REASONS.reduce((sum, reason) => sum + this.byReason[reason], 0);
+    return { accepted: this.accepted, quarantined, byReason: { ...this.byReason } };
+  }
+
+  /**
+   * Clear counters, quarantine and duplicate history (definitions are kept)
+   */
+  reset(): void {
+    this.accepted = 0;
+    QUARANTINE_REASONS.forEach((reason) => (this.byReason[reason] = 0));
+    this.quarantine.clear();
+    this.recent.clear();
+  }
+
+  private reject(reading: unknown, reason: QuarantineReason, detail: string, now: number): false {
+    this.byReason[reason]++;
+    this.quarantine.push({ reason, detail, receivedAt: now, reading });
+    return false;
+  }
+}
+
+function emptyCounts(): Record<QuarantineReason, number> {
+  return Object.fromEntries(QUARANTINE_REASONS.map((reason) => [reason, 0])) as Record<QuarantineReason, number>;
+}
+
+/**
+ * The application's validator: fed by the live telemetry feed, read by
+ * the diagnostics bundle
+ */
+export const readingValidator = new ReadingValidator();
@@ -0,0 +1,460 @@
+import { FakeWorker, flushMessages } from '../../../../../test/utils/fake-worker';
+import { TelemetryFrameEncoder } from '../../../codec/telemetry-frame-codec';
+import { TelemetryAggregate, TelemetryReading } from '../../../types';
+import { InlineTelemetryWorker } from '../../inline-telemetry-worker';
+import { isTelemetryWorkerRequest, TELEMETRY_PROTOCOL_VERSION, TelemetryWorkerResponse } from '../../protocol';
+import { attachTelemetryPipeline, TelemetryPipeline } from '../../telemetry-pipeline';
+import { TelemetryWorkerClient } from '../../telemetry-worker-client';
+
+const BASE = 1_700_000_000_000;
+
+function reading(timestamp: number, value: number, sensorType = 'pressure'): TelemetryReading {
+  return { equipmentId: 'excavator-01', sensorType, value, unit: 'PSI', timestamp };
+}
+
+function setup() {
+  let now = BASE;
+  let pipeline!: TelemetryPipeline;
+  const worker = new FakeWorker((scope) => {
+    pipeline = attachTelemetryPipeline(scope, {
+      now: () => now,
+      aggregator: { allowedLatenessMs: 0 },
+    });
+  });
+  const client = new TelemetryWorkerClient(worker, { queryTimeoutMs: 100 });
+  return {
+    worker,
+    client,
+    pipeline,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+describe('Telemetry worker pipeline', () => {
+  describe('ingest and query', () => {
+    test('returns the last n raw readings', async () => {
+      const { client } = setup();
+      client.ingest([reading(BASE, 1), reading(BASE + 100, 2), reading(BASE + 200, 3)]);
+
+      const last = await client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 2);
+      expect(last.map((r) => r.value)).toEqual([2, 3]);
+    });
+
+    test('returns the last n aggregates after a tick', async () => {
+      const { client, pipeline, advance } = setup();
+      client.ingest([reading(BASE, 1), reading(BASE + 500, 3), reading(BASE + 1000, 10)]);
+      await flushMessages();
+
+      advance(2000);
+      pipeline.tick();
+
+      const aggregates = await client.queryLast(
+        { equipmentId: 'excavator-01', sensorType: 'pressure' },
+        10,
+        'aggregates'
+      );
+      expect(aggregates.map((a) => [a.avg, a.count])).toEqual([
+        [2, 2],
+        [10, 1],
+      ]);
+    });
+
+    test('returns an empty array for unknown sensors', async () => {
+      const { client } = setup();
+      await expect(
+        client.queryLast({ equipmentId: 'nope', sensorType: 'pressure' }, 5)
+      ).resolves.toEqual([]);
+    });
+
+    test('discards readings that fail validation', async () => {
+      const { client, pipeline } = setup();
+      client.ingest([
+        reading(BASE, 1),
+        { ...reading(BASE, 2), timestamp: -1 },
+        { equipmentId: 'excavator-01' } as TelemetryReading,
+      ]);
+      await flushMessages();
+
+      expect(pipeline.stats).toMatchObject({ ingested: 1, rejected: 2 });
+    });
+
+    test('decodes binary frames, keeping the dictionary until reset', async () => {
+      const { client } = setup();
+      const onError = jest.fn();
+      client.onError(onError);
+      const encoder = new TelemetryFrameEncoder();
+      const frame = (readings: TelemetryReading[]) => encoder.encode({ readings }).slice().buffer;
+
+      const first = frame([reading(BASE, 1)]);
+      client.ingestFrame(first, { reset: true });
+      expect(first.byteLength).toBe(0); // transferred
+      client.ingestFrame(frame([reading(BASE + 100, 2)]));
+      // A new connection: the worker forgets sensor 0, the encoder does not
+      client.ingestFrame(frame([reading(BASE + 200, 3)]), { reset: true });
+      await flushMessages();
+
+      const last = await client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 5);
+      expect(last.map((r) => r.value)).toEqual([1, 2]);
+      expect(onError).toHaveBeenCalledWith('invalid-frame', 'Unknown sensor id 0 in telemetry frame');
+    });
+
+    test('quarantines implausible readings by reason', async () => {
+      const { client, pipeline } = setup();
+      client.ingest([
+        reading(BASE, 1),
+        reading(BASE, 1),
+        reading(BASE / 1000, 2),
+        reading(BASE + 60_000, 3),
+        reading(BASE, NaN, 'temperature'),
+      ]);
+      await flushMessages();
+
+      expect(pipeline.stats).toMatchObject({
+        ingested: 1,
+        rejected: 4,
+        quarantined: { duplicate: 1, 'seconds-timestamp': 1, 'future-timestamp': 1, 'non-finite': 1 },
+      });
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'temperature' }, 5)
+      ).resolves.toEqual([]);
+    });
+
+    test('ingested readings are copies, not shared references', async () => {
+      const { client } = setup();
+      const original = reading(BASE, 1);
+      client.ingest([original]);
+      original.value = 999;
+
+      const [stored] = await client.queryLast(
+        { equipmentId: 'excavator-01', sensorType: 'pressure' },
+        1
+      );
+      expect(stored?.value).toBe(1);
+    });
+  });
+
+  describe('downsampling', () => {
+    const sensor = { equipmentId: 'excavator-01', sensorType: 'pressure' };
+
+    test('returns at most maxPoints readings from the requested range', async () => {
+      const { client, advance } = setup();
+      // Readings ahead of the worker's clock would be quarantined
+      advance(100_000);
+      client.ingest(Array.from({ length: 100 }, (_, i) => reading(BASE + i * 1000, i % 7)));
+
+      const points = await client.queryRange(sensor, {
+        from: BASE + 10_000,
+        to: BASE + 59_000,
+        maxPoints: 10,
+      });
+      expect(points).toHaveLength(10);
+      expect(points[0]?.timestamp).toBe(BASE + 10_000);
+      expect(points[9]?.timestamp).toBe(BASE + 59_000);
+    });
+
+    test('downsamples aggregates without losing their envelope', async () => {
+      const { client, pipeline, advance } = setup();
+      client.ingest(Array.from({ length: 20 }, (_, i) => reading(BASE + i * 1000, i === 7 ? 500 : 1)));
+      await flushMessages();
+      advance(25_000);
+      pipeline.tick();
+
+      const points = await client.queryRange(
+        sensor,
+        { from: BASE, to: BASE + 25_000, maxPoints: 4 },
+        'aggregates'
+      );
+      expect(points).toHaveLength(4);
+      expect(Math.max(...points.map((a) => a.max))).toBe(500);
+      expect(points.reduce((sum, a) => sum + a.count, 0)).toBe(20);
+    });
+
+    test('answers long aggregate ranges from the rollup tiers', async () => {
+      const { client, pipeline, advance } = setup();
+      const minute = BASE + 40_000; // Minute-aligned
+      advance(25 * 60_000);
+      // 20 minutes at 1Hz: more than the 1s tier keeps
+      client.ingest(Array.from({ length: 1200 }, (_, i) => reading(minute + i * 1000, i % 60)));
+      await flushMessages();
+      pipeline.tick();
+
+      const points = await client.queryRange(
+        sensor,
+        { from: minute, to: minute + 20 * 60_000, maxPoints: 20 },
+        'aggregates'
+      );
+      expect(points.map((a) => a.timestamp)).toEqual(Array.from({ length: 20 }, (_, i) => minute + i * 60_000));
+      expect(points.every((a) => a.count === 60 && a.min === 0 && a.max === 59)).toBe(true);
+    });
+
+    test('downsamples a caller-supplied series', async () => {
+      const { client } = setup();
+      const series = Array.from({ length: 50 }, (_, i) => reading(BASE + i, i));
+
+      await expect(client.downsample(series, 5)).resolves.toHaveLength(5);
+    });
+
+    test('rejects point budgets the algorithm cannot honour', async () => {
+      const { client } = setup();
+      await expect(
+        client.queryRange(sensor, { from: BASE, to: BASE + 1000, maxPoints: 2 })
+      ).rejects.toThrow('invalid-query');
+    });
+  });
+
+  describe('snapshots', () => {
+    test('delivers batched aggregates to subscribers on tick', async () => {
+      const { client, pipeline, advance } = setup();
+      const received: TelemetryAggregate[][] = [];
+      client.subscribe((aggregates) => received.push(aggregates));
+
+      client.ingest([reading(BASE, 1), reading(BASE, 2, 'temperature')]);
+      await flushMessages();
+      advance(1000);
+      pipeline.tick();
+      await flushMessages();
+
+      expect(received).toHaveLength(1);
+      expect(received[0]).toHaveLength(2);
+    });
+
+    test('filters snapshots by subscribed sensors', async () => {
+      const { client, pipeline, advance } = setup();
+      const received: TelemetryAggregate[] = [];
+      client.subscribe((aggregates) => received.push(...aggregates), [
+        { equipmentId: 'excavator-01', sensorType: 'temperature' },
+      ]);
+
+      client.ingest([reading(BASE, 1), reading(BASE, 2, 'temperature')]);
+      await flushMessages();
+      advance(1000);
+      pipeline.tick();
+      await flushMessages();
+
+      expect(received.map((a) => a.sensorType)).toEqual(['temperature']);
+    });
+
+    test('sends nothing when no windows closed', async () => {
+      const { client, pipeline } = setup();
+      const listener = jest.fn();
+      client.subscribe(listener);
+
+      client.ingest([reading(BASE, 1)]);
+      await flushMessages();
+      pipeline.tick();
+      await flushMessages();
+
+      expect(listener).not.toHaveBeenCalled();
+      expect(pipeline.stats.snapshotsSent).toBe(0);
+    });
+
+    test('stops delivering after unsubscribe', async () => {
+      const { client, pipeline, advance } = setup();
+      const listener = jest.fn();
+      const unsubscribe = client.subscribe(listener);
+      unsubscribe();
+
+      client.ingest([reading(BASE, 1)]);
+      await flushMessages();
+      advance(1000);
+      pipeline.tick();
+      await flushMessages();
+
+      expect(listener).not.toHaveBeenCalled();
+    });
+
+    test('posts on a fixed cadence once started', async () => {
+      jest.useFakeTimers();
+      try {
+        const { client, pipeline, advance } = setup();
+        const listener = jest.fn();
+        client.subscribe(listener);
+        pipeline.start();
+
+        client.ingest([reading(BASE, 1)]);
+        await flushMessages();
+        advance(1000);
+        jest.advanceTimersByTime(1000);
+        await flushMessages();
+
+        expect(listener).toHaveBeenCalledTimes(1);
+        pipeline.stop();
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+  });
+
+  describe('clear', () => {
+    test('clears a single sensor', async () => {
+      const { client } = setup();
+      client.ingest([reading(BASE, 1), reading(BASE, 2, 'temperature')]);
+      client.clear({ equipmentId: 'excavator-01', sensorType: 'pressure' });
+
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 5)
+      ).resolves.toEqual([]);
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'temperature' }, 5)
+      ).resolves.toHaveLength(1);
+    });
+
+    test('clears every sensor', async () => {
+      const { client } = setup();
+      client.ingest([reading(BASE, 1), reading(BASE, 2, 'temperature')]);
+      client.clear();
+
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'temperature' }, 5)
+      ).resolves.toEqual([]);
+    });
+  });
+
+  describe('protocol errors', () => {
+    test('rejects messages from another protocol version', async () => {
+      const { worker, client } = setup();
+      const onError = jest.fn();
+      client.onError(onError);
+
+      worker.postMessage({
+        version: TELEMETRY_PROTOCOL_VERSION + 1,
+        type: 'ingest',
+        readings: [],
+      });
+      await flushMessages();
+
+      expect(onError).toHaveBeenCalledWith('version-mismatch', expect.any(String));
+    });
+
+    test('answers malformed messages with an error instead of throwing', async () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+
+      expect(() => pipeline.handleMessage({ type: 'ingest' })).not.toThrow();
+      expect(() => pipeline.handleMessage(null)).not.toThrow();
+      expect(responses.map((r) => r.type)).toEqual(['error', 'error']);
+    });
+
+    test('rejects subscriptions with malformed sensor refs', () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+
+      expect(() =>
+        pipeline.handleMessage({
+          version: TELEMETRY_PROTOCOL_VERSION,
+          type: 'subscribe',
+          subscriptionId: 's',
+          sensors: [null, { equipmentId: 'excavator-01' }],
+        })
+      ).not.toThrow();
+      expect(responses).toEqual([expect.objectContaining({ type: 'error', code: 'invalid-message' })]);
+    });
+
+    test('rejects downsample requests with malformed items', () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+      const request = { version: TELEMETRY_PROTOCOL_VERSION, type: 'downsample', requestId: 'd', maxPoints: 3 };
+
+      expect(() =>
+        pipeline.handleMessage({ ...request, source: 'readings', items: [null, reading(BASE, 1)] })
+      ).not.toThrow();
+      expect(() =>
+        pipeline.handleMessage({ ...request, source: 'aggregates', items: [reading(BASE, 1)] })
+      ).not.toThrow();
+      expect(responses).toEqual([
+        expect.objectContaining({ type: 'error', code: 'invalid-message', requestId: 'd' }),
+        expect.objectContaining({ type: 'error', code: 'invalid-message', requestId: 'd' }),
+      ]);
+    });
+
+    test('rejects query-last counts that are not whole and non-negative', () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+      const sensor = { equipmentId: 'excavator-01', sensorType: 'pressure' };
+      const request = { version: TELEMETRY_PROTOCOL_VERSION, type: 'query-last', source: 'readings', sensor };
+
+      [1.5, -1, NaN, Infinity].forEach((n) => pipeline.handleMessage({ ...request, requestId: String(n), n }));
+      pipeline.handleMessage({ ...request, requestId: 'zero', n: 0 });
+
+      expect(isTelemetryWorkerRequest({ ...request, requestId: 'q', n: 2 })).toBe(true);
+      expect(responses).toEqual([
+        ...['1.5', '-1', 'NaN', 'Infinity'].map((requestId) =>
+          expect.objectContaining({ type: 'error', code: 'invalid-message', requestId })
+        ),
+        expect.objectContaining({ type: 'query-result', requestId: 'zero', items: [] }),
+      ]);
+    });
+
+    test('tags each query result with the query it answers', async () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+      const sensor = { equipmentId: 'excavator-01', sensorType: 'pressure' };
+      const base = { version: TELEMETRY_PROTOCOL_VERSION, source: 'readings', sensor };
+
+      pipeline.handleMessage({ ...base, type: 'query-last', requestId: 'a', n: 1 });
+      pipeline.handleMessage({ ...base, type: 'query-range', requestId: 'b', from: 0, to: 1, maxPoints: 3 });
+      pipeline.handleMessage({ ...base, type: 'downsample', requestId: 'c', items: [], maxPoints: 3 });
+      expect(responses.map((r) => r.type === 'query-result' && r.query)).toEqual([
+        'query-last',
+        'query-range',
+        'downsample',
+      ]);
+    });
+
+    test('reports unknown subscriptions', () => {
+      const responses: TelemetryWorkerResponse[] = [];
+      const pipeline = new TelemetryPipeline((message) => responses.push(message));
+
+      pipeline.handleMessage({
+        version: TELEMETRY_PROTOCOL_VERSION,
+        type: 'unsubscribe',
+        subscriptionId: 'missing',
+      });
+      expect(responses[0]).toMatchObject({ type: 'error', code: 'unknown-subscription' });
+    });
+  });
+
+  describe('client lifecycle', () => {
+    test('times out queries the worker never answers', async () => {
+      const worker = new FakeWorker(() => {});
+      const client = new TelemetryWorkerClient(worker, { queryTimeoutMs: 10 });
+
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 1)
+      ).rejects.toThrow('timed out');
+    });
+
+    test('terminate rejects pending queries and stops the worker', async () => {
+      const { worker, client } = setup();
+      const query = client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 1);
+      client.terminate();
+
+      await expect(query).rejects.toThrow('terminated');
+      expect(worker.isTerminated).toBe(true);
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 1)
+      ).rejects.toThrow('terminated');
+    });
+
+    test('runs the pipeline on the main thread when workers are unavailable', async () => {
+      let now = BASE;
+      const client = new TelemetryWorkerClient(
+        new InlineTelemetryWorker({ now: () => now, aggregator: { allowedLatenessMs: 0 }, snapshotIntervalMs: 10 })
+      );
+      const snapshots: TelemetryAggregate[][] = [];
+      client.subscribe((aggregates) => snapshots.push(aggregates));
+
+      client.ingest([reading(BASE, 1), reading(BASE + 500, 3)]);
+      now += 2000;
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(snapshots.flat().map((a) => [a.avg, a.count])).toEqual([[2, 2]]);
+      await expect(
+        client.queryLast({ equipmentId: 'excavator-01', sensorType: 'pressure' }, 5)
+      ).resolves.toHaveLength(2);
+      client.terminate();
+    });
+  });
+});
@@ -0,0 +1,27 @@
+/**
+ * Spawn the telemetry worker and wrap it in a typed client
+ *
+ * Kept separate from the client so Jest (CommonJS) never has to parse
+ * `import.meta`. Browser-only: call from effects, never during SSR. Where
+ * Worker is missing, the pipeline runs on the main thread instead
+ * (InlineTelemetryWorker), so callers always get a working client.
+ */
+
+import { InlineTelemetryWorker } from './inline-telemetry-worker';
+import {
+  TelemetryWorkerClient,
+  TelemetryWorkerClientOptions,
+} from './telemetry-worker-client';
+
+export function createTelemetryWorker(
+  options?: TelemetryWorkerClientOptions
+): TelemetryWorkerClient {
+  if (typeof Worker === 'undefined') {
+    return new TelemetryWorkerClient(new InlineTelemetryWorker(), options);
+  }
+  const worker = new Worker(new URL('./telemetry.worker.ts', import.meta.url), {
+    type: 'module',
+    name: 'fleetops-telemetry',
+  });
+  return new TelemetryWorkerClient(worker, options);
+}
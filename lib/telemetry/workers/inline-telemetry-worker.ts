@@ -0,0 +1,50 @@
+/**
+ * InlineTelemetryWorker - The telemetry pipeline on the main thread
+ *
+ * Shaped like a Worker so TelemetryWorkerClient can drive it unchanged.
+ * createTelemetryWorker falls back to it where module workers are not
+ * available, so live readings are still aggregated, just without the
+ * isolation from the UI thread.
+ *
+ * CAUTION:
+ * - Messages are handled and answered synchronously and are not cloned;
+ *   never mutate a batch after handing it over
+ */
+
+import { TelemetryPipeline, TelemetryPipelineOptions } from './telemetry-pipeline';
+import { WorkerLike } from './telemetry-worker-client';
+
+type Listener = (event: MessageEvent<unknown>) => void;
+
+export class InlineTelemetryWorker implements WorkerLike {
+  private readonly listeners = new Set<Listener>();
+  private readonly pipeline: TelemetryPipeline;
+  private terminated = false;
+
+  constructor(options?: TelemetryPipelineOptions) {
+    this.pipeline = new TelemetryPipeline((message) => {
+      if (this.terminated) return;
+      this.listeners.forEach((listener) => listener({ data: message } as MessageEvent<unknown>));
+    }, options);
+    this.pipeline.start();
+  }
+
+  postMessage(message: unknown): void {
+    if (this.terminated) return;
+    this.pipeline.handleMessage(message);
+  }
+
+  addEventListener(_type: 'message', listener: Listener): void {
+    this.listeners.add(listener);
+  }
+
+  removeEventListener(_type: 'message', listener: Listener): void {
+    this.listeners.delete(listener);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+    this.pipeline.stop();
+    this.listeners.clear();
+  }
+}
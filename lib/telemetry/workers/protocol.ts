@@ -0,0 +1,262 @@
+/**
+ * Telemetry Worker Message Protocol
+ *
+ * CRITICAL: This is the only contract between the UI thread and the telemetry
+ * worker. Both sides may ship in different bundles (a cached worker can outlive
+ * a page reload), so every message carries the protocol version and the worker
+ * refuses messages from a different version instead of guessing.
+ *
+ * Bump TELEMETRY_PROTOCOL_VERSION on any breaking change to these shapes.
+ */
+
+import { isTelemetryAggregate, isTelemetryReading, TelemetryAggregate, TelemetryReading } from '../types';
+
+export const TELEMETRY_PROTOCOL_VERSION = 4;
+
+/**
+ * Identifies a single sensor stream
+ */
+export interface SensorRef {
+  equipmentId: string;
+  sensorType: string;
+}
+
+/** Which per-sensor buffer a query reads from */
+export type TelemetryQuerySource = 'readings' | 'aggregates';
+
+// ---------------------------------------------------------------------------
+// UI → worker
+// ---------------------------------------------------------------------------
+
+/** Append raw readings to the per-sensor buffers and aggregation windows */
+export interface IngestRequest {
+  version: number;
+  type: 'ingest';
+  readings: TelemetryReading[];
+}
+
+/**
+ * Append readings from a binary telemetry frame (see codec/telemetry-frame-codec).
+ * Frames share a sensor dictionary, so they must arrive in the order they
+ * were encoded; set `reset` on the first frame of a new connection.
+ * Aggregates in the frame are ignored - the worker computes its own.
+ */
+export interface IngestFrameRequest {
+  version: number;
+  type: 'ingest-frame';
+  frame: ArrayBuffer;
+  reset?: boolean;
+}
+
+/** Receive aggregate snapshots for the given sensors (all sensors if omitted) */
+export interface SubscribeRequest {
+  version: number;
+  type: 'subscribe';
+  subscriptionId: string;
+  sensors?: SensorRef[];
+}
+
+/** Stop a subscription created with SubscribeRequest */
+export interface UnsubscribeRequest {
+  version: number;
+  type: 'unsubscribe';
+  subscriptionId: string;
+}
+
+/** Read the last n items of one sensor buffer */
+export interface QueryLastRequest {
+  version: number;
+  type: 'query-last';
+  requestId: string;
+  sensor: SensorRef;
+  source: TelemetryQuerySource;
+  n: number;
+}
+
+/**
+ * Read one sensor buffer over a time range, LTTB-downsampled to at most
+ * maxPoints (aggregates keep their min/max envelope)
+ */
+export interface QueryRangeRequest {
+  version: number;
+  type: 'query-range';
+  requestId: string;
+  sensor: SensorRef;
+  source: TelemetryQuerySource;
+  /** Inclusive, Unix ms */
+  from: number;
+  /** Inclusive, Unix ms */
+  to: number;
+  maxPoints: number;
+}
+
+/**
+ * Downsample a series the caller already holds (e.g. history loaded from
+ * IndexedDB) off the UI thread. Items must be sorted by timestamp.
+ */
+export type DownsampleRequest = {
+  version: number;
+  type: 'downsample';
+  requestId: string;
+  maxPoints: number;
+} & (
+  | { source: 'readings'; items: TelemetryReading[] }
+  | { source: 'aggregates'; items: TelemetryAggregate[] }
+);
+
+/** Drop buffered data for one sensor, or for every sensor if omitted */
+export interface ClearRequest {
+  version: number;
+  type: 'clear';
+  sensor?: SensorRef;
+}
+
+export type TelemetryWorkerRequest =
+  | IngestRequest
+  | IngestFrameRequest
+  | SubscribeRequest
+  | UnsubscribeRequest
+  | QueryLastRequest
+  | QueryRangeRequest
+  | DownsampleRequest
+  | ClearRequest;
+
+// ---------------------------------------------------------------------------
+// Worker → UI
+// ---------------------------------------------------------------------------
+
+/** Aggregates closed since the previous snapshot, sent on a fixed cadence */
+export interface SnapshotResponse {
+  version: number;
+  type: 'snapshot';
+  subscriptionId: string;
+  aggregates: TelemetryAggregate[];
+  /** Worker clock when the snapshot was taken */
+  timestamp: number;
+}
+
+/** Fields shared by every query answer; matched to its request by requestId */
+interface QueryResultFields {
+  version: number;
+  type: 'query-result';
+  requestId: string;
+  source: TelemetryQuerySource;
+  items: TelemetryReading[] | TelemetryAggregate[];
+}
+
+/** Answer to query-last */
+export interface QueryLastResponse extends QueryResultFields {
+  query: 'query-last';
+}
+
+/** Answer to query-range */
+export interface QueryRangeResponse extends QueryResultFields {
+  query: 'query-range';
+}
+
+/** Answer to downsample */
+export interface DownsampleResponse extends QueryResultFields {
+  query: 'downsample';
+}
+
+export type QueryResultResponse = QueryLastResponse | QueryRangeResponse | DownsampleResponse;
+
+export type TelemetryWorkerErrorCode =
+  | 'version-mismatch'
+  | 'invalid-message'
+  | 'unknown-subscription'
+  | 'invalid-query'
+  | 'invalid-frame';
+
+export interface ErrorResponse {
+  version: number;
+  type: 'error';
+  code: TelemetryWorkerErrorCode;
+  message: string;
+  /** Echoed from the request when it had one */
+  requestId?: string;
+}
+
+export type TelemetryWorkerResponse =
+  | SnapshotResponse
+  | QueryResultResponse
+  | ErrorResponse;
+
+/**
+ * Type guard for messages arriving at the worker. Checks the envelope, any
+ * SensorRefs, query-last counts (whole, non-negative) and downsample items; ingested readings are validated
+ * individually during ingest instead, so one bad reading doesn't drop a batch.
+ */
+export function isTelemetryWorkerRequest(obj: unknown): obj is TelemetryWorkerRequest {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const msg = obj as Record<string, unknown>;
+  if (typeof msg.version !== 'number') return false;
+
+  switch (msg.type) {
+    case 'ingest':
+      return Array.isArray(msg.readings);
+    case 'ingest-frame':
+      return (
+        msg.frame instanceof ArrayBuffer &&
+        (msg.reset === undefined || typeof msg.reset === 'boolean')
+      );
+    case 'subscribe':
+      return (
+        typeof msg.subscriptionId === 'string' &&
+        (msg.sensors === undefined || (Array.isArray(msg.sensors) && msg.sensors.every(isSensorRef)))
+      );
+    case 'unsubscribe':
+      return typeof msg.subscriptionId === 'string';
+    case 'query-last':
+      return (
+        typeof msg.requestId === 'string' &&
+        isSensorRef(msg.sensor) &&
+        isQuerySource(msg.source) &&
+        Number.isInteger(msg.n) &&
+        (msg.n as number) >= 0
+      );
+    case 'query-range':
+      return (
+        typeof msg.requestId === 'string' &&
+        isSensorRef(msg.sensor) &&
+        isQuerySource(msg.source) &&
+        typeof msg.from === 'number' &&
+        typeof msg.to === 'number' &&
+        typeof msg.maxPoints === 'number'
+      );
+    case 'downsample':
+      return (
+        typeof msg.requestId === 'string' &&
+        isQuerySource(msg.source) &&
+        Array.isArray(msg.items) &&
+        msg.items.every(msg.source === 'readings' ? isTelemetryReading : isTelemetryAggregate) &&
+        typeof msg.maxPoints === 'number'
+      );
+    case 'clear':
+      return msg.sensor === undefined || isSensorRef(msg.sensor);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Type guard for messages arriving at the UI thread
+ */
+export function isTelemetryWorkerResponse(obj: unknown): obj is TelemetryWorkerResponse {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const msg = obj as Record<string, unknown>;
+  return (
+    typeof msg.version === 'number' &&
+    (msg.type === 'snapshot' || msg.type === 'query-result' || msg.type === 'error')
+  );
+}
+
+function isQuerySource(obj: unknown): obj is TelemetryQuerySource {
+  return obj === 'readings' || obj === 'aggregates';
+}
+
+function isSensorRef(obj: unknown): obj is SensorRef {
+  if (typeof obj !== 'object' || obj === null) return false;
+  const ref = obj as Record<string, unknown>;
+  return typeof ref.equipmentId === 'string' && typeof ref.sensorType === 'string';
+}
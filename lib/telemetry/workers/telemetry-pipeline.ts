@@ -0,0 +1,387 @@
+/**
+ * TelemetryPipeline - Worker-side owner of all telemetry buffers
+ *
+ * Holds one raw-reading CircularBuffer per sensor plus the TelemetryAggregator,
+ * answers protocol requests, and posts batched aggregate snapshots to
+ * subscribers on a fixed cadence. It has no dependency on the worker global
+ * scope so it can run in Jest behind a fake worker.
+ *
+ * Aggregates are kept in DEFAULT_ROLLUP_TIERS (1s → 1m → 15m → 1h) unless
+ * the aggregator options set their own window, capacity or tiers, so range
+ * queries over hours come from the coarse tiers.
+ *
+ * CAUTION:
+ * - Never throw out of handleMessage(); an uncaught error kills the worker
+ * - Snapshots only carry aggregates closed since the previous tick
+ */
+
+import { DEFAULT_ROLLUP_TIERS } from '../aggregation/aggregate-rollup';
+import {
+  downsampleAggregates,
+  downsampleReadings,
+  MIN_DOWNSAMPLE_POINTS,
+} from '../aggregation/downsampling';
+import {
+  TelemetryAggregator,
+  TelemetryAggregatorOptions,
+} from '../aggregation/telemetry-aggregator';
+import { TelemetryFrameDecoder } from '../codec/telemetry-frame-codec';
+import { CircularBuffer, createTelemetryBuffer } from '../stores/circular-buffer';
+import { getSensorKey, TelemetryAggregate, TelemetryReading } from '../types';
+import {
+  QuarantineReason,
+  ReadingValidator,
+  ReadingValidatorOptions,
+} from '../validation/reading-validator';
+import {
+  DownsampleRequest,
+  isTelemetryWorkerRequest,
+  QueryLastRequest,
+  QueryRangeRequest,
+  SensorRef,
+  TELEMETRY_PROTOCOL_VERSION,
+  TelemetryWorkerErrorCode,
+  TelemetryWorkerResponse,
+} from './protocol';
+
+export interface TelemetryPipelineOptions {
+  /** Snapshot cadence in milliseconds (default: 1000) */
+  snapshotIntervalMs?: number;
+
+  /** Raw readings retained per sensor (default: 300) */
+  readingCapacity?: number;
+
+  /** Passed through to the TelemetryAggregator */
+  aggregator?: TelemetryAggregatorOptions;
+
+  /** Passed through to the ReadingValidator (its clock defaults to `now`) */
+  validation?: ReadingValidatorOptions;
+
+  /** Clock source, injectable for tests */
+  now?: () => number;
+}
+
+export interface TelemetryPipelineStats {
+  /** Readings that passed validation and were buffered */
+  ingested: number;
+
+  /** Readings that failed validation and were quarantined */
+  rejected: number;
+
+  /** `rejected` by reason */
+  quarantined: Record<QuarantineReason, number>;
+
+  /** Snapshot messages posted */
+  snapshotsSent: number;
+}
+
+/**
+ * Minimal slice of DedicatedWorkerGlobalScope the pipeline needs
+ */
+export interface TelemetryWorkerScope {
+  postMessage(message: TelemetryWorkerResponse): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<unknown>) => void): void;
+}
+
+export const DEFAULT_SNAPSHOT_INTERVAL_MS = 1000;
+export const DEFAULT_READING_CAPACITY = 300;
+
+export class TelemetryPipeline {
+  private readonly readings = new Map<string, CircularBuffer<TelemetryReading>>();
+  /** Subscription ID → sensor keys, or null for every sensor */
+  private readonly subscriptions = new Map<string, Set<string> | null>();
+  private readonly aggregator: TelemetryAggregator;
+  private readonly validator: ReadingValidator;
+  private readonly frameDecoder = new TelemetryFrameDecoder();
+  private readonly snapshotIntervalMs: number;
+  private readonly readingCapacity: number;
+  private readonly now: () => number;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private snapshotsSent = 0;
+
+  constructor(
+    private readonly post: (message: TelemetryWorkerResponse) => void,
+    options: TelemetryPipelineOptions = {}
+  ) {
+    this.snapshotIntervalMs = options.snapshotIntervalMs ?? DEFAULT_SNAPSHOT_INTERVAL_MS;
+    this.readingCapacity = options.readingCapacity ?? DEFAULT_READING_CAPACITY;
+    this.now = options.now ?? Date.now;
+    this.aggregator = new TelemetryAggregator(withDefaultRollup(options.aggregator));
+    this.validator = new ReadingValidator({ now: this.now, ...options.validation });
+  }
+
+  /**
+   * Start posting snapshots every snapshotIntervalMs
+   */
+  start(): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => this.tick(), this.snapshotIntervalMs);
+  }
+
+  /**
+   * Stop the snapshot timer (buffers are kept)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Dispatch one incoming message. Invalid or mismatched messages are
+   * answered with an error response rather than thrown.
+   */
+  handleMessage(data: unknown): void {
+    if (!isTelemetryWorkerRequest(data)) {
+      // Echo a request id if there is one, so the caller's query fails now
+      // instead of timing out
+      const requestId = (data as { requestId?: unknown } | null)?.requestId;
+      this.postError(
+        'invalid-message',
+        'Unrecognised telemetry worker message',
+        typeof requestId === 'string' ? requestId : undefined
+      );
+      return;
+    }
+
+    if (data.version !== TELEMETRY_PROTOCOL_VERSION) {
+      this.postError(
+        'version-mismatch',
+        `Expected protocol v${TELEMETRY_PROTOCOL_VERSION}, received v${data.version}`,
+        'requestId' in data ? data.requestId : undefined
+      );
+      return;
+    }
+
+    switch (data.type) {
+      case 'ingest':
+        this.ingest(data.readings);
+        break;
+
+      case 'ingest-frame':
+        this.ingestFrame(data.frame, data.reset === true);
+        break;
+
+      case 'subscribe':
+        this.subscriptions.set(
+          data.subscriptionId,
+          data.sensors
+            ? new Set(data.sensors.map((s) => getSensorKey(s.equipmentId, s.sensorType)))
+            : null
+        );
+        break;
+
+      case 'unsubscribe':
+        if (!this.subscriptions.delete(data.subscriptionId)) {
+          this.postError(
+            'unknown-subscription',
+            `No subscription with id ${data.subscriptionId}`
+          );
+        }
+        break;
+
+      case 'query-last':
+        this.queryLast(data);
+        break;
+
+      case 'query-range':
+        this.queryRange(data);
+        break;
+
+      case 'downsample':
+        this.downsample(data);
+        break;
+
+      case 'clear':
+        this.clear(data.sensor);
+        break;
+    }
+  }
+
+  /**
+   * Flush closed aggregation windows and post one snapshot per subscription
+   * that has new data
+   */
+  tick(): void {
+    const timestamp = this.now();
+    const aggregates = this.aggregator.flush(timestamp);
+    if (aggregates.length === 0) return;
+
+    this.subscriptions.forEach((keys, subscriptionId) => {
+      const matching = keys
+        ? aggregates.filter((a) => keys.has(getSensorKey(a.equipmentId, a.sensorType)))
+        : aggregates;
+      if (matching.length === 0) return;
+
+      this.post({
+        version: TELEMETRY_PROTOCOL_VERSION,
+        type: 'snapshot',
+        subscriptionId,
+        aggregates: matching,
+        timestamp,
+      });
+      this.snapshotsSent++;
+    });
+  }
+
+  /**
+   * Snapshot of pipeline counters
+   */
+  get stats(): TelemetryPipelineStats {
+    const { accepted, quarantined, byReason } = this.validator.stats;
+    return { ingested: accepted, rejected: quarantined, quarantined: byReason, snapshotsSent: this.snapshotsSent };
+  }
+
+  private ingest(batch: unknown[]): void {
+    for (const reading of this.validator.validate(batch)) {
+      const key = getSensorKey(reading.equipmentId, reading.sensorType);
+      let buffer = this.readings.get(key);
+      if (!buffer) {
+        buffer = createTelemetryBuffer(this.readingCapacity);
+        this.readings.set(key, buffer);
+      }
+      buffer.push(reading);
+      this.aggregator.add(reading);
+    }
+  }
+
+  private ingestFrame(frame: ArrayBuffer, reset: boolean): void {
+    if (reset) this.frameDecoder.reset();
+    let readings: TelemetryReading[];
+    try {
+      ({ readings } = this.frameDecoder.decode(frame));
+    } catch (error) {
+      this.postError('invalid-frame', (error as Error).message);
+      return;
+    }
+    this.ingest(readings);
+  }
+
+  private queryLast({ requestId, sensor, source, n }: QueryLastRequest): void {
+    const items: TelemetryReading[] | TelemetryAggregate[] =
+      source === 'readings'
+        ? this.readings.get(getSensorKey(sensor.equipmentId, sensor.sensorType))?.getLast(n) ?? []
+        : this.aggregator.getBuffer(sensor.equipmentId, sensor.sensorType)?.getLast(n) ?? [];
+
+    this.post({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'query-result',
+      query: 'query-last',
+      requestId,
+      source,
+      items,
+    });
+  }
+
+  private queryRange({ requestId, sensor, source, from, to, maxPoints }: QueryRangeRequest): void {
+    if (!this.checkMaxPoints(requestId, maxPoints)) return;
+
+    // Buffers are time-ordered, so the range is found without copying them
+    const items: TelemetryReading[] | TelemetryAggregate[] =
+      source === 'readings'
+        ? downsampleReadings(
+            this.readings.get(getSensorKey(sensor.equipmentId, sensor.sensorType))?.getRange(from, to) ?? [],
+            maxPoints
+          )
+        : downsampleAggregates(this.queryAggregates(sensor, from, to, maxPoints), maxPoints);
+
+    this.post({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'query-result',
+      query: 'query-range',
+      requestId,
+      source,
+      items,
+    });
+  }
+
+  /**
+   * Aggregates over [from, to] from the rollup tier that suits maxPoints,
+   * or the aggregator's single buffer without a rollup
+   */
+  private queryAggregates(sensor: SensorRef, from: number, to: number, maxPoints: number): TelemetryAggregate[] {
+    const { equipmentId, sensorType } = sensor;
+    const rollup = this.aggregator.getRollup(equipmentId, sensorType);
+    if (rollup) return rollup.query(from, to, maxPoints).aggregates;
+    return this.aggregator.getBuffer(equipmentId, sensorType)?.getRange(from, to) ?? [];
+  }
+
+  private downsample(request: DownsampleRequest): void {
+    if (!this.checkMaxPoints(request.requestId, request.maxPoints)) return;
+
+    this.post({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'query-result',
+      query: 'downsample',
+      requestId: request.requestId,
+      source: request.source,
+      items:
+        request.source === 'readings'
+          ? downsampleReadings(request.items, request.maxPoints)
+          : downsampleAggregates(request.items, request.maxPoints),
+    });
+  }
+
+  /**
+   * Answer invalid point budgets with an error instead of letting the
+   * downsampler throw inside the worker
+   */
+  private checkMaxPoints(requestId: string, maxPoints: number): boolean {
+    if (Number.isInteger(maxPoints) && maxPoints >= MIN_DOWNSAMPLE_POINTS) return true;
+    this.postError(
+      'invalid-query',
+      `maxPoints must be an integer of at least ${MIN_DOWNSAMPLE_POINTS}`,
+      requestId
+    );
+    return false;
+  }
+
+  private clear(sensor?: SensorRef): void {
+    if (sensor) {
+      this.readings.delete(getSensorKey(sensor.equipmentId, sensor.sensorType));
+      this.aggregator.remove(sensor.equipmentId, sensor.sensorType);
+      return;
+    }
+    this.readings.clear();
+    this.aggregator.clear();
+  }
+
+  private postError(
+    code: TelemetryWorkerErrorCode,
+    message: string,
+    requestId?: string
+  ): void {
+    this.post({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'error',
+      code,
+      message,
+      ...(requestId !== undefined && { requestId }),
+    });
+  }
+}
+
+/**
+ * Add DEFAULT_ROLLUP_TIERS unless the caller sized the aggregator's history
+ * themselves (the tiers assume 1s windows)
+ */
+function withDefaultRollup(options: TelemetryAggregatorOptions = {}): TelemetryAggregatorOptions {
+  const customised =
+    options.rollup !== undefined || options.windowMs !== undefined || options.bufferCapacity !== undefined;
+  return customised ? options : { ...options, rollup: DEFAULT_ROLLUP_TIERS };
+}
+
+/**
+ * Wire a pipeline to a worker scope. Used by the real worker entry and by
+ * FakeWorker in tests so both exercise the same message path.
+ * @returns The pipeline (not yet started)
+ */
+export function attachTelemetryPipeline(
+  scope: TelemetryWorkerScope,
+  options?: TelemetryPipelineOptions
+): TelemetryPipeline {
+  const pipeline = new TelemetryPipeline((message) => scope.postMessage(message), options);
+  scope.addEventListener('message', (event) => pipeline.handleMessage(event.data));
+  return pipeline;
+}
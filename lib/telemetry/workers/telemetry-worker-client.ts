@@ -0,0 +1,274 @@
+/**
+ * TelemetryWorkerClient - Main-thread side of the telemetry worker protocol
+ *
+ * Wraps a Worker (or anything shaped like one) with typed methods so UI code
+ * never builds protocol messages by hand. Queries resolve from the matching
+ * query-result; snapshots fan out to the listener that subscribed.
+ *
+ * CAUTION:
+ * - Call terminate() when the owning component unmounts; pending queries are
+ *   rejected so callers don't hang on a dead worker
+ */
+
+import { DownsampleRangeOptions } from '../aggregation/downsampling';
+import { TelemetryAggregate, TelemetryReading } from '../types';
+import {
+  isTelemetryWorkerResponse,
+  SensorRef,
+  TELEMETRY_PROTOCOL_VERSION,
+  TelemetryQuerySource,
+  TelemetryWorkerErrorCode,
+  TelemetryWorkerRequest,
+  TelemetryWorkerResponse,
+} from './protocol';
+
+/**
+ * The subset of the Worker API the client relies on
+ */
+export interface WorkerLike {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent<unknown>) => void): void;
+  removeEventListener(type: 'message', listener: (event: MessageEvent<unknown>) => void): void;
+  terminate(): void;
+}
+
+export type SnapshotListener = (aggregates: TelemetryAggregate[], timestamp: number) => void;
+
+export type WorkerErrorListener = (code: TelemetryWorkerErrorCode, message: string) => void;
+
+export interface TelemetryWorkerClientOptions {
+  /** Reject queries that get no answer within this many ms (default: 5000) */
+  queryTimeoutMs?: number;
+}
+
+interface PendingQuery {
+  resolve: (items: TelemetryReading[] | TelemetryAggregate[]) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+export const DEFAULT_QUERY_TIMEOUT_MS = 5000;
+
+export class TelemetryWorkerClient {
+  private readonly snapshotListeners = new Map<string, SnapshotListener>();
+  private readonly errorListeners = new Set<WorkerErrorListener>();
+  private readonly pending = new Map<string, PendingQuery>();
+  private readonly queryTimeoutMs: number;
+  private nextId = 0;
+  private terminated = false;
+
+  constructor(
+    private readonly worker: WorkerLike,
+    options: TelemetryWorkerClientOptions = {}
+  ) {
+    this.queryTimeoutMs = options.queryTimeoutMs ?? DEFAULT_QUERY_TIMEOUT_MS;
+    this.worker.addEventListener('message', this.handleMessage);
+  }
+
+  /**
+   * Send raw readings to the worker for buffering and aggregation
+   */
+  ingest(readings: TelemetryReading[]): void {
+    if (readings.length === 0) return;
+    this.send({ version: TELEMETRY_PROTOCOL_VERSION, type: 'ingest', readings });
+  }
+
+  /**
+   * Send a binary telemetry frame, as received from the server, for the
+   * worker to decode. Pass `reset` with the first frame of each connection.
+   * The frame is transferred, not copied: it is unusable here afterwards.
+   */
+  ingestFrame(frame: ArrayBuffer, options: { reset?: boolean } = {}): void {
+    this.send(
+      {
+        version: TELEMETRY_PROTOCOL_VERSION,
+        type: 'ingest-frame',
+        frame,
+        ...(options.reset && { reset: true }),
+      },
+      [frame]
+    );
+  }
+
+  /**
+   * Receive aggregate snapshots for the given sensors (all sensors if omitted)
+   * @returns Function that cancels the subscription
+   */
+  subscribe(listener: SnapshotListener, sensors?: SensorRef[]): () => void {
+    const subscriptionId = `sub-${this.nextId++}`;
+    this.snapshotListeners.set(subscriptionId, listener);
+    this.send({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'subscribe',
+      subscriptionId,
+      ...(sensors && { sensors }),
+    });
+
+    return () => {
+      if (!this.snapshotListeners.delete(subscriptionId)) return;
+      this.send({ version: TELEMETRY_PROTOCOL_VERSION, type: 'unsubscribe', subscriptionId });
+    };
+  }
+
+  /**
+   * Fetch the last n items of a sensor buffer
+   */
+  queryLast(sensor: SensorRef, n: number, source?: 'readings'): Promise<TelemetryReading[]>;
+  queryLast(sensor: SensorRef, n: number, source: 'aggregates'): Promise<TelemetryAggregate[]>;
+  queryLast(
+    sensor: SensorRef,
+    n: number,
+    source: TelemetryQuerySource = 'readings'
+  ): Promise<TelemetryReading[] | TelemetryAggregate[]> {
+    return this.query((requestId) => ({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'query-last',
+      requestId,
+      sensor,
+      source,
+      n,
+    }));
+  }
+
+  /**
+   * Fetch at most maxPoints of a sensor buffer over a time range,
+   * LTTB-downsampled in the worker
+   */
+  queryRange(sensor: SensorRef, range: DownsampleRangeOptions, source?: 'readings'): Promise<TelemetryReading[]>;
+  queryRange(sensor: SensorRef, range: DownsampleRangeOptions, source: 'aggregates'): Promise<TelemetryAggregate[]>;
+  queryRange(
+    sensor: SensorRef,
+    { from, to, maxPoints }: DownsampleRangeOptions,
+    source: TelemetryQuerySource = 'readings'
+  ): Promise<TelemetryReading[] | TelemetryAggregate[]> {
+    return this.query((requestId) => ({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'query-range',
+      requestId,
+      sensor,
+      source,
+      from,
+      to,
+      maxPoints,
+    }));
+  }
+
+  /**
+   * LTTB-downsample a series the caller holds (sorted by timestamp) in the
+   * worker instead of on the UI thread
+   */
+  downsample(items: TelemetryReading[], maxPoints: number): Promise<TelemetryReading[]>;
+  downsample(items: TelemetryAggregate[], maxPoints: number, source: 'aggregates'): Promise<TelemetryAggregate[]>;
+  downsample(
+    items: TelemetryReading[] | TelemetryAggregate[],
+    maxPoints: number,
+    source: TelemetryQuerySource = 'readings'
+  ): Promise<TelemetryReading[] | TelemetryAggregate[]> {
+    return this.query((requestId) => ({
+      version: TELEMETRY_PROTOCOL_VERSION,
+      type: 'downsample',
+      requestId,
+      maxPoints,
+      ...(source === 'readings'
+        ? { source, items: items as TelemetryReading[] }
+        : { source, items: items as TelemetryAggregate[] }),
+    }));
+  }
+
+  /**
+   * Drop buffered data for one sensor, or for every sensor if omitted
+   */
+  clear(sensor?: SensorRef): void {
+    this.send({ version: TELEMETRY_PROTOCOL_VERSION, type: 'clear', ...(sensor && { sensor }) });
+  }
+
+  /**
+   * Listen for protocol errors reported by the worker
+   * @returns Function that removes the listener
+   */
+  onError(listener: WorkerErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  /**
+   * Stop the worker and reject any outstanding queries
+   */
+  terminate(): void {
+    if (this.terminated) return;
+    this.terminated = true;
+    this.worker.removeEventListener('message', this.handleMessage);
+    this.worker.terminate();
+
+    this.pending.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error('Telemetry worker has been terminated'));
+    });
+    this.pending.clear();
+    this.snapshotListeners.clear();
+    this.errorListeners.clear();
+  }
+
+  private query(
+    build: (requestId: string) => TelemetryWorkerRequest
+  ): Promise<TelemetryReading[] | TelemetryAggregate[]> {
+    if (this.terminated) {
+      return Promise.reject(new Error('Telemetry worker has been terminated'));
+    }
+
+    const requestId = `req-${this.nextId++}`;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        reject(new Error(`Telemetry worker query ${requestId} timed out`));
+      }, this.queryTimeoutMs);
+
+      this.pending.set(requestId, { resolve, reject, timer });
+      this.send(build(requestId));
+    });
+  }
+
+  private send(message: TelemetryWorkerRequest, transfer?: Transferable[]): void {
+    if (this.terminated) return;
+    if (transfer) {
+      this.worker.postMessage(message, transfer);
+    } else {
+      this.worker.postMessage(message);
+    }
+  }
+
+  private handleMessage = (event: MessageEvent<unknown>): void => {
+    if (!isTelemetryWorkerResponse(event.data)) return;
+    const message: TelemetryWorkerResponse = event.data;
+
+    switch (message.type) {
+      case 'snapshot':
+        this.snapshotListeners.get(message.subscriptionId)?.(
+          message.aggregates,
+          message.timestamp
+        );
+        break;
+
+      case 'query-result':
+        this.settle(message.requestId, (query) => query.resolve(message.items));
+        break;
+
+      case 'error':
+        if (message.requestId) {
+          this.settle(message.requestId, (query) =>
+            query.reject(new Error(`${message.code}: ${message.message}`))
+          );
+        }
+        this.errorListeners.forEach((listener) => listener(message.code, message.message));
+        break;
+    }
+  };
+
+  private settle(requestId: string, fn: (query: PendingQuery) => void): void {
+    const query = this.pending.get(requestId);
+    if (!query) return;
+    clearTimeout(query.timer);
+    this.pending.delete(requestId);
+    fn(query);
+  }
+}
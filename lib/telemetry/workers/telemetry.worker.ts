@@ -0,0 +1,13 @@
+/**
+ * Telemetry Web Worker entry
+ *
+ * Keeps buffering and aggregation off the main thread so the UI stays
+ * responsive during data bursts. All logic lives in TelemetryPipeline; this
+ * file only binds it to the dedicated worker scope.
+ */
+
+import { attachTelemetryPipeline, TelemetryWorkerScope } from './telemetry-pipeline';
+
+declare const self: TelemetryWorkerScope;
+
+attachTelemetryPipeline(self).start();
@@ -0,0 +1,40 @@
+import { PerformanceMonitor } from '../../../../test/utils/performance-monitor';
+import { VirtualLayout } from '../../virtual-layout';
+
+// Skip in CI environments to avoid flaky tests
+const describePerf = process.env.CI ? describe.skip : describe;
+
+const ROWS = 5000;
+const VIEWPORT = 800;
+
+describePerf('Virtual layout performance', () => {
+  const monitor = new PerformanceMonitor();
+  const estimates = Array.from({ length: ROWS }, (_, i) => (i % 20 === 0 ? 36 : 96));
+
+  test('finds the visible range of 5,000 rows for one scroll frame', () => {
+    const layout = new VirtualLayout(estimates);
+    let scrollTop = 0;
+
+    const result = monitor.measure('virtualList.scroll5000', () => {
+      scrollTop = (scrollTop + 4999) % layout.totalSize;
+      layout.getRange(scrollTop, VIEWPORT, 4);
+    });
+
+    expect(result.pass).toBe(true);
+  });
+
+  test('re-lays out 5,000 rows after a live update and measures a screenful', () => {
+    const layout = new VirtualLayout(estimates);
+    let scrollTop = 0;
+
+    const result = monitor.measure('virtualList.update5000', () => {
+      scrollTop = (scrollTop + 4999) % layout.totalSize;
+      layout.reset(estimates);
+      const { start, end } = layout.getRange(scrollTop, VIEWPORT, 4);
+      for (let i = start; i < end; i++) layout.setSize(i, 100);
+      layout.getRange(scrollTop, VIEWPORT, 4);
+    });
+
+    expect(result.pass).toBe(true);
+  });
+});
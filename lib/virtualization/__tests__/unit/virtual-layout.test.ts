@@ -0,0 +1,94 @@
+import { findStickyIndex, VirtualLayout } from '../../virtual-layout';
+
+describe('VirtualLayout', () => {
+  test('offsets are running sums of row sizes', () => {
+    const layout = new VirtualLayout([10, 20, 30]);
+
+    expect(layout.count).toBe(3);
+    expect(layout.getStart(0)).toBe(0);
+    expect(layout.getStart(2)).toBe(30);
+    expect(layout.totalSize).toBe(60);
+  });
+
+  test('finds the row at an offset, clamped to the list', () => {
+    const layout = new VirtualLayout([10, 20, 30]);
+
+    expect(layout.findIndexAt(-5)).toBe(0);
+    expect(layout.findIndexAt(9.9)).toBe(0);
+    expect(layout.findIndexAt(10)).toBe(1);
+    expect(layout.findIndexAt(59)).toBe(2);
+    expect(layout.findIndexAt(500)).toBe(2);
+    expect(new VirtualLayout().findIndexAt(0)).toBe(-1);
+  });
+
+  test('range covers the viewport plus overscan', () => {
+    const layout = new VirtualLayout(new Array(100).fill(10));
+
+    expect(layout.getRange(0, 50)).toEqual({ start: 0, end: 5 });
+    expect(layout.getRange(105, 50)).toEqual({ start: 10, end: 16 });
+    expect(layout.getRange(105, 50, 3)).toEqual({ start: 7, end: 19 });
+    expect(layout.getRange(990, 50, 3)).toEqual({ start: 96, end: 100 });
+    expect(new VirtualLayout().getRange(0, 50)).toEqual({ start: 0, end: 0 });
+  });
+
+  test('measured sizes move every later row', () => {
+    const layout = new VirtualLayout(new Array(5).fill(10));
+    layout.getStart(5);
+
+    expect(layout.setSize(1, 25)).toBe(15);
+    expect(layout.setSize(1, 25)).toBe(0);
+    expect(layout.setSize(9, 25)).toBe(0);
+    expect(layout.getStart(1)).toBe(10);
+    expect(layout.getStart(2)).toBe(35);
+    expect(layout.totalSize).toBe(65);
+  });
+
+  test('reset replaces every size', () => {
+    const layout = new VirtualLayout([10, 10]);
+    layout.reset([5, 5, 5]);
+
+    expect(layout.count).toBe(3);
+    expect(layout.totalSize).toBe(15);
+  });
+
+  describe('getScrollOffset', () => {
+    // Rows of 10; viewport 30 tall; total 100, so the furthest scroll is 70
+    const layout = new VirtualLayout(new Array(10).fill(10));
+
+    test('aligns a row to the start, centre or end of the viewport', () => {
+      expect(layout.getScrollOffset(4, 'start', 0, 30)).toBe(40);
+      expect(layout.getScrollOffset(4, 'end', 0, 30)).toBe(20);
+      expect(layout.getScrollOffset(4, 'center', 0, 30)).toBe(30);
+    });
+
+    test('auto scrolls the least distance, or not at all', () => {
+      expect(layout.getScrollOffset(4, 'auto', 35, 30)).toBe(35);
+      expect(layout.getScrollOffset(2, 'auto', 35, 30)).toBe(20);
+      expect(layout.getScrollOffset(8, 'auto', 35, 30)).toBe(60);
+    });
+
+    test('keeps the row clear of a sticky header', () => {
+      expect(layout.getScrollOffset(4, 'start', 0, 30, 10)).toBe(30);
+      expect(layout.getScrollOffset(4, 'auto', 35, 30, 10)).toBe(30);
+    });
+
+    test('clamps to the scrollable range', () => {
+      expect(layout.getScrollOffset(0, 'end', 50, 30)).toBe(0);
+      expect(layout.getScrollOffset(9, 'start', 0, 30)).toBe(70);
+      expect(layout.getScrollOffset(99, 'start', 0, 30)).toBe(70);
+    });
+  });
+});
+
+describe('findStickyIndex', () => {
+  test('returns the last sticky row at or before an index', () => {
+    const sticky = [0, 5, 12];
+
+    expect(findStickyIndex(sticky, 0)).toBe(0);
+    expect(findStickyIndex(sticky, 4)).toBe(0);
+    expect(findStickyIndex(sticky, 5)).toBe(5);
+    expect(findStickyIndex(sticky, 100)).toBe(12);
+    expect(findStickyIndex([3], 2)).toBe(-1);
+    expect(findStickyIndex([], 2)).toBe(-1);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * VirtualLayout - Offsets and visible ranges for windowed lists
+ *
+ * Keeps every row's size (estimated until it is measured) and the running
+ * offsets, so a list of thousands of variable-height rows can render only
+ * what is on screen. Used by components/ui/virtual-list.tsx; kept free of
+ * React so it can be tested and benchmarked directly.
+ *
+ * TECHNICAL CONTEXT:
+ * - Offsets are prefix sums, recomputed lazily from the first row whose
+ *   size changed, so measuring a screenful of rows costs one pass at most
+ * - Lookups by scroll offset are binary searches over the offsets
+ *
+ * Performance characteristics:
+ * - reset(): O(n); setSize(): O(1)
+ * - getRange() / getStart(): O(log n), plus O(n - dirtyIndex) after a change
+ * - Memory: two Float64Arrays of ~n entries
+ */
+
+export type ScrollAlign = 'start' | 'center' | 'end' | 'auto';
+
+/** Rows [start, end) to render */
+export interface VirtualRange {
+  start: number;
+  end: number;
+}
+
+export class VirtualLayout {
+  private sizes: Float64Array = new Float64Array(0);
+  /** starts[i] = offset of row i; starts[count] = total size */
+  private starts: Float64Array = new Float64Array(1);
+  /** starts[0..validUntil] are up to date */
+  private validUntil = 0;
+
+  /**
+   * @param sizes Row sizes, estimated or measured
+   */
+  constructor(sizes: ArrayLike<number> = []) {
+    this.reset(sizes);
+  }
+
+  get count(): number {
+    return this.sizes.length;
+  }
+
+  get totalSize(): number {
+    return this.getStart(this.sizes.length);
+  }
+
+  /**
+   * Replace every row size, e.g. after the list's items change
+   */
+  reset(sizes: ArrayLike<number>): void {
+    this.sizes = Float64Array.from(sizes);
+    this.starts = new Float64Array(sizes.length + 1);
+    this.validUntil = 0;
+  }
+
+  /**
+   * Record a measured size
+   * @returns Change in size (0 if unchanged)
+   */
+  setSize(index: number, size: number): number {
+    const previous = this.sizes[index];
+    if (previous === undefined || previous === size) return 0;
+    this.sizes[index] = size;
+    this.validUntil = Math.min(this.validUntil, index);
+    return size - previous;
+  }
+
+  getSize(index: number): number {
+    return this.sizes[index] ?? 0;
+  }
+
+  /**
+   * Offset of a row's top edge (index === count gives the total size)
+   */
+  getStart(index: number): number {
+    const clamped = Math.max(0, Math.min(index, this.sizes.length));
+    if (clamped > this.validUntil) {
+      for (let i = this.validUntil; i < clamped; i++) {
+        this.starts[i + 1] = this.starts[i]! + this.sizes[i]!;
+      }
+      this.validUntil = clamped;
+    }
+    return this.starts[clamped]!;
+  }
+
+  /**
+   * Row containing an offset (clamped to the first/last row; -1 when empty)
+   */
+  findIndexAt(offset: number): number {
+    if (this.sizes.length === 0) return -1;
+    this.getStart(this.sizes.length);
+
+    let lo = 0;
+    let hi = this.sizes.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >>> 1;
+      if (this.starts[mid]! <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo;
+  }
+
+  /**
+   * Rows intersecting the viewport, extended by overscan rows each side
+   */
+  getRange(scrollTop: number, viewportSize: number, overscan = 0): VirtualRange {
+    if (this.sizes.length === 0) return { start: 0, end: 0 };
+    const first = this.findIndexAt(scrollTop);
+    const last = this.findIndexAt(scrollTop + Math.max(0, viewportSize - 1));
+    return {
+      start: Math.max(0, first - overscan),
+      end: Math.min(this.sizes.length, last + 1 + overscan),
+    };
+  }
+
+  /**
+   * Scroll offset that brings a row into view
+   * 'auto' scrolls the least distance, and not at all if it is fully visible
+   * @param inset Height covered at the top of the viewport (sticky rows)
+   */
+  getScrollOffset(index: number, align: ScrollAlign, scrollTop: number, viewportSize: number, inset = 0): number {
+    if (this.sizes.length === 0) return 0;
+    const clamped = Math.max(0, Math.min(index, this.sizes.length - 1));
+    const start = this.getStart(clamped);
+    const size = this.getSize(clamped);
+    const end = start + size;
+    const maxScroll = Math.max(0, this.totalSize - viewportSize);
+
+    let offset: number;
+    switch (align) {
+      case 'start':
+        offset = start - inset;
+        break;
+      case 'end':
+        offset = end - viewportSize;
+        break;
+      case 'center':
+        offset = start - inset - (viewportSize - inset - size) / 2;
+        break;
+      case 'auto':
+        if (start < scrollTop + inset) offset = start - inset;
+        else if (end > scrollTop + viewportSize) offset = end - viewportSize;
+        else offset = scrollTop;
+        break;
+    }
+    return Math.max(0, Math.min(offset, maxScroll));
+  }
+}
+
+/**
+ * Last sticky row at or before an index (-1 if none)
+ * @param stickyIndices Ascending
+ */
+export function findStickyIndex(stickyIndices: readonly number[], index: number): number {
+  let lo = 0;
+  let hi = stickyIndices.length - 1;
+  let found = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >>> 1;
+    const candidate = stickyIndices[mid]!;
+    if (candidate <= index) {
+      found = candidate;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return found;
+}
@@ -1,24 +1,83 @@
 "use client"
 
+import { useRouter } from "next/navigation"
 import * as React from "react"
 
+import { UpdateBanner } from "@/components/update-banner"
+import { loadAlertRules, startAlertMonitor } from "@/lib/alerts/alert-monitor"
+import { AlertPersistence, startAlertPersistence } from "@/lib/alerts/alert-persistence"
+import { DEFAULT_ALERT_RULE_SET } from "@/lib/alerts/default-alert-rules"
+import { startDiagnosticsJournal } from "@/lib/pwa/diagnostics/diagnostics-journal"
+import { startNotificationNavigation } from "@/lib/pwa/push/notification-navigation"
+import { startTelemetryPersistence, TelemetryPersistence } from "@/lib/telemetry/persistence/telemetry-persistence"
 import { FleetThemeProvider } from "@/lib/theme/fleet-theme-context"
 import { QueryProvider } from "@/providers/query-provider"
+import { SimulatorProvider } from "@/providers/simulator-provider"
 import { ThemeProvider } from "@/providers/theme-provider"
 
 export function Providers({ children }: { children: React.ReactNode }) {
+  const router = useRouter()
+  // Notification taps route in-app, after any critical operation finishes
+  React.useEffect(() => startNotificationNavigation((url) => router.push(url)), [router])
+  // Connectivity history and uncaught errors for the diagnostics bundle
+  React.useEffect(() => startDiagnosticsJournal(), [])
+  // Rules engine against live telemetry, feeding the alert inbox and counters.
+  // Stored alerts are restored first so none is missing while it runs.
+  React.useEffect(() => {
+    let persistence: AlertPersistence | null = null
+    let stopMonitor: (() => void) | null = null
+    let stopped = false
+    loadAlertRules(DEFAULT_ALERT_RULE_SET)
+    startAlertPersistence()
+      .then((started) => {
+        persistence = started
+        if (stopped) started.stop()
+      })
+      .catch(() => {
+        // No IndexedDB (private mode) - alerts live for this session only
+      })
+      .finally(() => {
+        if (!stopped) stopMonitor = startAlertMonitor()
+      })
+    return () => {
+      stopped = true
+      stopMonitor?.()
+      persistence?.stop()
+    }
+  }, [])
+  // Last 24h of aggregates in IndexedDB, for history and offline equipment pages
+  React.useEffect(() => {
+    let persistence: TelemetryPersistence | null = null
+    let stopped = false
+    startTelemetryPersistence()
+      .then((started) => {
+        persistence = started
+        if (stopped) started.stop()
+      })
+      .catch(() => {
+        // No IndexedDB (private mode) - the app works without stored history
+      })
+    return () => {
+      stopped = true
+      persistence?.stop()
+    }
+  }, [])
+
   return (
     <QueryProvider>
-      <ThemeProvider
-        attribute="class"
-        defaultTheme="system"
-        enableSystem
-        disableTransitionOnChange
-      >
-        <FleetThemeProvider>
-          {children}
-        </FleetThemeProvider>
-      </ThemeProvider>
+      <SimulatorProvider>
+        <ThemeProvider
+          attribute="class"
+          defaultTheme="system"
+          enableSystem
+          disableTransitionOnChange
+        >
+          <FleetThemeProvider>
+            {children}
+            <UpdateBanner />
+          </FleetThemeProvider>
+        </ThemeProvider>
+      </SimulatorProvider>
     </QueryProvider>
   )
 }
\ No newline at end of file
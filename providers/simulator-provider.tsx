@@ -0,0 +1,88 @@
+"use client"
+
+import { QueryClient, useQueryClient } from "@tanstack/react-query"
+import * as React from "react"
+
+import { equipmentClient } from "@/lib/equipment/equipment-client"
+import {
+  equipmentListQuery,
+  equipmentQuery,
+  equipmentQueryKeys,
+  maintenanceQuery,
+  sensorDefinitionsQuery,
+} from "@/lib/equipment/equipment-queries"
+import { connectTelemetryFeed, DEFAULT_WIRE_CODECS } from "@/lib/telemetry/connection/telemetry-feed"
+import { WebSocketManager } from "@/lib/telemetry/connection/websocket-manager"
+import { SIMULATOR_URL, SimulatorServer } from "@/lib/telemetry/simulator/simulator-server"
+import { telemetryStore } from "@/lib/telemetry/stores/telemetry-store"
+import { readingValidator } from "@/lib/telemetry/validation/reading-validator"
+import { createTelemetryWorker } from "@/lib/telemetry/workers/create-telemetry-worker"
+
+/** `pnpm dev:sim` - run the app against a simulated fleet */
+const SIMULATOR_ENABLED = process.env.NEXT_PUBLIC_TELEMETRY_SIMULATOR === "true"
+const SIMULATOR_SEED = Number(process.env.NEXT_PUBLIC_TELEMETRY_SIMULATOR_SEED) || 1
+
+/**
+ * Serve the equipment API from the simulator's fleet, so the fleet and
+ * equipment pages show the units the simulator is sending telemetry for
+ */
+function seedEquipmentQueries(queryClient: QueryClient, server: SimulatorServer) {
+  const fetchedAt = Date.now()
+  const resource = <T,>(data: T) => ({ data, source: "network" as const, fetchedAt })
+
+  // There is no equipment API behind the simulator; never refetch
+  queryClient.setQueryDefaults(equipmentQueryKeys.all, { staleTime: Infinity })
+  queryClient.setQueryData(equipmentListQuery(equipmentClient).queryKey, resource(server.simulator.equipment))
+  for (const unit of server.simulator.equipment) {
+    queryClient.setQueryData(equipmentQuery(equipmentClient, unit.id).queryKey, resource(unit))
+    queryClient.setQueryData(
+      sensorDefinitionsQuery(equipmentClient, unit.id).queryKey,
+      resource(server.simulator.getSensorDefinitions(unit.id))
+    )
+    queryClient.setQueryData(maintenanceQuery(equipmentClient, unit.id).queryKey, resource([]))
+  }
+}
+
+export function SimulatorProvider({ children }: { children: React.ReactNode }) {
+  const queryClient = useQueryClient()
+  // Seeded during the first render so child queries find the data
+  const [server] = React.useState(() => {
+    if (!SIMULATOR_ENABLED) return null
+    const created = new SimulatorServer({ seed: SIMULATOR_SEED })
+    seedEquipmentQueries(queryClient, created)
+    return created
+  })
+
+  React.useEffect(() => {
+    if (!server) return
+
+    const { registerSensor } = telemetryStore.getState()
+    for (const unit of server.simulator.equipment) {
+      const sensors = server.simulator.getSensorDefinitions(unit.id)
+      readingValidator.defineSensors(unit.id, sensors)
+      for (const sensor of sensors) {
+        registerSensor(unit.id, sensor.sensorType, sensor.priority)
+      }
+    }
+
+    const manager = new WebSocketManager({
+      url: SIMULATOR_URL,
+      createSocket: server.createSocket,
+      maxRetries: Infinity,
+    })
+    // Aggregates the feed's readings into the store's 1-second windows
+    const worker = createTelemetryWorker()
+    const stopFeed = connectTelemetryFeed(manager, telemetryStore, readingValidator, DEFAULT_WIRE_CODECS, worker)
+    server.start()
+    manager.connect()
+
+    return () => {
+      stopFeed()
+      manager.disconnect()
+      worker.terminate()
+      server.stop()
+    }
+  }, [server])
+
+  return <>{children}</>
+}
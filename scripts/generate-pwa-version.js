@@ -60,13 +60,15 @@ export const CACHE_NAMES = {
   // Data caches - persist across versions (critical for field operations)
   equipment: 'fleetops-equipment-v1',  // Equipment specs, manuals, procedures
   telemetry: 'fleetops-telemetry-v1',  // Last 24hr sensor readings
+  mapTiles: 'fleetops-map-tiles-v1',   // Site map tiles for offline navigation
 } as const;
 
 // Service Worker behavior configuration
 export const PWA_CONFIG = {
-  // Immediately activate new service worker
-  // RATIONALE: Safety updates must apply without waiting
-  skipWaiting: true,
+  // New service workers wait for the update manager's SKIP_WAITING
+  // RATIONALE: Safety updates apply within minutes, but never reload the
+  // page during a critical operation (see lib/pwa/update/update-manager.ts)
+  skipWaiting: false,
   
   // Take control of all pages immediately
   // RATIONALE: Consistent experience across all tabs
@@ -0,0 +1,391 @@
+/**
+ * FakeIndexedDB - Minimal in-memory IndexedDB for persistence tests
+ *
+ * Implements the subset of the API the telemetry database uses: open with
+ * upgrade, object stores with a keyPath (optionally auto-incremented),
+ * single-field indexes, and put/add/get/delete/getAll/getAllKeys/count/clear
+ * plus index getAllKeys. Requests complete on
+ * later microtasks and transactions commit on a later (real) macrotask,
+ * values are structured-cloned, and a failed request aborts its transaction
+ * and rolls back every write made in it.
+ *
+ * `quotaBytes` caps the total JSON size of all records so tests can trigger
+ * QuotaExceededError; `usageBytes` feeds a fake navigator.storage.estimate().
+ */
+
+type Key = IDBValidKey;
+type Handler = ((event: Event) => void) | null;
+
+interface StoreData {
+  keyPath: string;
+  autoIncrement: boolean;
+  nextKey: number;
+  records: Map<Key, unknown>;
+  indexes: Map<string, string>;
+}
+
+interface DatabaseData {
+  version: number;
+  stores: Map<string, StoreData>;
+}
+
+// Captured before tests install fake timers, which must not stall commits
+const realSetImmediate = globalThis.setImmediate;
+
+interface KeyRangeLike {
+  includes(key: Key): boolean;
+}
+
+function compareKeys(a: Key, b: Key): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+}
+
+function matches(key: Key, query: Key | KeyRangeLike | null | undefined): boolean {
+  if (query === null || query === undefined) return true;
+  if (typeof query === 'object' && 'includes' in query && typeof query.includes === 'function') {
+    return query.includes(key);
+  }
+  return compareKeys(key, query as Key) === 0;
+}
+
+function domError(name: string, message: string): DOMException {
+  return new DOMException(message, name);
+}
+
+export const FakeKeyRange = {
+  upperBound(upper: Key, open = false): KeyRangeLike {
+    return {
+      includes: (key) => {
+        const order = compareKeys(key, upper);
+        return open ? order < 0 : order <= 0;
+      },
+    };
+  },
+};
+
+class FakeRequest<T = unknown> {
+  result: T = undefined as T;
+  error: DOMException | null = null;
+  onsuccess: Handler = null;
+  onerror: Handler = null;
+  onupgradeneeded: Handler = null;
+  onblocked: Handler = null;
+}
+
+class FakeTransaction {
+  error: DOMException | null = null;
+  oncomplete: Handler = null;
+  onerror: Handler = null;
+  onabort: Handler = null;
+
+  private pending = 0;
+  private finished = false;
+  private readonly rollback = new Map<string, Map<Key, unknown>>();
+
+  constructor(
+    private readonly factory: FakeIndexedDB,
+    private readonly data: DatabaseData,
+    readonly mode: IDBTransactionMode
+  ) {
+    data.stores.forEach((store, name) => this.rollback.set(name, new Map(store.records)));
+    this.scheduleCompletion();
+  }
+
+  objectStore(name: string): FakeObjectStore {
+    const store = this.data.stores.get(name);
+    if (!store) throw domError('NotFoundError', `No object store named ${name}`);
+    return new FakeObjectStore(this, store);
+  }
+
+  /** Run an operation now and report its outcome on a later microtask */
+  request<T>(operation: () => T): FakeRequest<T> {
+    if (this.finished) throw domError('TransactionInactiveError', 'Transaction has finished');
+    const request = new FakeRequest<T>();
+    this.pending++;
+
+    let failure: DOMException | null = null;
+    try {
+      request.result = operation();
+    } catch (error) {
+      failure = error as DOMException;
+    }
+
+    void Promise.resolve().then(() => {
+      this.pending--;
+      if (this.finished) return;
+      if (failure) {
+        request.error = failure;
+        request.onerror?.({} as Event);
+        this.abort(failure);
+        return;
+      }
+      request.onsuccess?.({} as Event);
+      this.scheduleCompletion();
+    });
+    return request;
+  }
+
+  checkWritable(): void {
+    if (this.mode === 'readonly') throw domError('ReadOnlyError', 'Transaction is read-only');
+  }
+
+  checkQuota(): void {
+    if (this.factory.usageBytes > this.factory.quotaBytes) {
+      throw domError('QuotaExceededError', 'The quota has been exceeded');
+    }
+  }
+
+  abort(error: DOMException | null = null): void {
+    if (this.finished) return;
+    this.finished = true;
+    this.rollback.forEach((records, name) => {
+      const store = this.data.stores.get(name);
+      if (store) store.records = records;
+    });
+    this.error = error;
+    if (error) this.onerror?.({} as Event);
+    this.onabort?.({} as Event);
+  }
+
+  private scheduleCompletion(): void {
+    // Like browsers, stay active until the microtask queue drains so awaited
+    // success handlers can still queue follow-up requests
+    realSetImmediate(() => {
+      if (this.finished || this.pending > 0) return;
+      this.finished = true;
+      this.oncomplete?.({} as Event);
+    });
+  }
+}
+
+class FakeObjectStore {
+  constructor(
+    private readonly transaction: FakeTransaction,
+    private readonly store: StoreData
+  ) {}
+
+  put(value: unknown): FakeRequest<Key> {
+    return this.transaction.request(() => this.write(value, false));
+  }
+
+  add(value: unknown): FakeRequest<Key> {
+    return this.transaction.request(() => this.write(value, true));
+  }
+
+  get(key: Key): FakeRequest<unknown> {
+    return this.transaction.request(() => {
+      const value = this.store.records.get(key);
+      return value === undefined ? undefined : structuredClone(value);
+    });
+  }
+
+  delete(key: Key): FakeRequest<undefined> {
+    return this.transaction.request(() => {
+      this.transaction.checkWritable();
+      this.store.records.delete(key);
+      return undefined;
+    });
+  }
+
+  clear(): FakeRequest<undefined> {
+    return this.transaction.request(() => {
+      this.transaction.checkWritable();
+      this.store.records.clear();
+      return undefined;
+    });
+  }
+
+  getAll(query?: Key | KeyRangeLike | null, count?: number): FakeRequest<unknown[]> {
+    return this.transaction.request(() => {
+      const values = [...this.store.records.entries()]
+        .filter(([key]) => matches(key, query))
+        .sort(([a], [b]) => compareKeys(a, b))
+        .map(([, value]) => structuredClone(value));
+      return count === undefined ? values : values.slice(0, count);
+    });
+  }
+
+  getAllKeys(query?: Key | KeyRangeLike | null, count?: number): FakeRequest<Key[]> {
+    return this.transaction.request(() => {
+      const keys = [...this.store.records.keys()].filter((key) => matches(key, query)).sort(compareKeys);
+      return count === undefined ? keys : keys.slice(0, count);
+    });
+  }
+
+  count(): FakeRequest<number> {
+    return this.transaction.request(() => this.store.records.size);
+  }
+
+  index(name: string): FakeIndex {
+    const keyPath = this.store.indexes.get(name);
+    if (!keyPath) throw domError('NotFoundError', `No index named ${name}`);
+    return new FakeIndex(this.transaction, this.store, keyPath);
+  }
+
+  createIndex(name: string, keyPath: string): void {
+    this.store.indexes.set(name, keyPath);
+  }
+
+  private write(value: unknown, addOnly: boolean): Key {
+    this.transaction.checkWritable();
+    const clone = structuredClone(value) as Record<string, Key>;
+    if (clone[this.store.keyPath] === undefined && this.store.autoIncrement) {
+      clone[this.store.keyPath] = this.store.nextKey++;
+    }
+    const key = clone[this.store.keyPath];
+    if (key === undefined) throw domError('DataError', 'Missing key');
+    if (addOnly && this.store.records.has(key)) {
+      throw domError('ConstraintError', 'Key already exists');
+    }
+    if (typeof key === 'number' && key >= this.store.nextKey) {
+      this.store.nextKey = Math.floor(key) + 1;
+    }
+    this.store.records.set(key, clone);
+    this.transaction.checkQuota();
+    return key;
+  }
+}
+
+class FakeIndex {
+  constructor(
+    private readonly transaction: FakeTransaction,
+    private readonly store: StoreData,
+    private readonly keyPath: string
+  ) {}
+
+  getAllKeys(query?: Key | KeyRangeLike | null, count?: number): FakeRequest<Key[]> {
+    return this.transaction.request(() => {
+      const keys = [...this.store.records.entries()]
+        .map(([primaryKey, value]) => ({
+          primaryKey,
+          indexKey: (value as Record<string, Key>)[this.keyPath],
+        }))
+        .filter((entry): entry is { primaryKey: Key; indexKey: Key } => entry.indexKey !== undefined)
+        .filter((entry) => matches(entry.indexKey, query))
+        .sort((a, b) => compareKeys(a.indexKey, b.indexKey) || compareKeys(a.primaryKey, b.primaryKey))
+        .map((entry) => entry.primaryKey);
+      return count === undefined ? keys : keys.slice(0, count);
+    });
+  }
+}
+
+class FakeDatabase {
+  onversionchange: Handler = null;
+  private upgrade: FakeTransaction | null = null;
+
+  constructor(
+    private readonly factory: FakeIndexedDB,
+    private readonly data: DatabaseData
+  ) {}
+
+  get objectStoreNames(): { contains(name: string): boolean } {
+    return { contains: (name) => this.data.stores.has(name) };
+  }
+
+  createObjectStore(name: string, options: { keyPath: string; autoIncrement?: boolean }): FakeObjectStore {
+    if (!this.upgrade) throw domError('InvalidStateError', 'Not in a versionchange transaction');
+    const store: StoreData = {
+      keyPath: options.keyPath,
+      autoIncrement: options.autoIncrement ?? false,
+      nextKey: 1,
+      records: new Map(),
+      indexes: new Map(),
+    };
+    this.data.stores.set(name, store);
+    return new FakeObjectStore(this.upgrade, store);
+  }
+
+  transaction(_names: string | string[], mode: IDBTransactionMode = 'readonly'): FakeTransaction {
+    if (this.factory.isClosed(this)) throw domError('InvalidStateError', 'Database is closed');
+    return new FakeTransaction(this.factory, this.data, mode);
+  }
+
+  close(): void {
+    this.factory.markClosed(this);
+  }
+
+  /** Internal: run the upgrade callback inside a versionchange transaction */
+  runUpgrade(callback: () => void): void {
+    this.upgrade = new FakeTransaction(this.factory, this.data, 'versionchange');
+    try {
+      callback();
+    } finally {
+      this.upgrade = null;
+    }
+  }
+}
+
+export class FakeIndexedDB {
+  /** Total record size limit across all databases (JSON length) */
+  quotaBytes = Infinity;
+
+  private readonly databases = new Map<string, DatabaseData>();
+  private readonly closed = new WeakSet<FakeDatabase>();
+
+  open(name: string, version = 1): FakeRequest<FakeDatabase> {
+    const request = new FakeRequest<FakeDatabase>();
+    void Promise.resolve().then(() => {
+      const data = this.databases.get(name) ?? { version: 0, stores: new Map() };
+      this.databases.set(name, data);
+
+      if (version < data.version) {
+        request.error = domError('VersionError', 'Requested version is older than the database');
+        request.onerror?.({} as Event);
+        return;
+      }
+
+      const db = new FakeDatabase(this, data);
+      request.result = db;
+      if (version > data.version) {
+        db.runUpgrade(() => request.onupgradeneeded?.({} as Event));
+        data.version = version;
+      }
+      request.onsuccess?.({} as Event);
+    });
+    return request;
+  }
+
+  /** Current JSON size of every record in every database */
+  get usageBytes(): number {
+    let total = 0;
+    this.databases.forEach((db) =>
+      db.stores.forEach((store) => store.records.forEach((value) => (total += JSON.stringify(value).length)))
+    );
+    return total;
+  }
+
+  /** Number of records currently in a store (test inspection) */
+  recordCount(name: string, storeName: string): number {
+    return this.databases.get(name)?.stores.get(storeName)?.records.size ?? 0;
+  }
+
+  isClosed(db: FakeDatabase): boolean {
+    return this.closed.has(db);
+  }
+
+  markClosed(db: FakeDatabase): void {
+    this.closed.add(db);
+  }
+
+  /** Typed as the DOM factory for code under test */
+  asFactory(): IDBFactory {
+    return this as unknown as IDBFactory;
+  }
+}
+
+/**
+ * The fake key range, typed as the DOM constructor for code under test
+ */
+export const fakeKeyRange = FakeKeyRange as unknown as Pick<typeof IDBKeyRange, 'upperBound'>;
+
+/**
+ * Let pending transactions commit (works under jest fake timers)
+ */
+export async function settleTransactions(rounds = 10): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await new Promise<void>((resolve) => realSetImmediate(resolve));
+  }
+}
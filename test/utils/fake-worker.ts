@@ -0,0 +1,75 @@
+/**
+ * FakeWorker - In-process stand-in for a dedicated Web Worker
+ *
+ * Messages are structured-cloned and delivered on a later microtask in both
+ * directions, so tests see the same copy semantics and asynchrony as a real
+ * worker without a browser. Transferables are moved, detaching the sender's
+ * copy, as with a real worker.
+ */
+
+type Listener = (event: MessageEvent<unknown>) => void;
+
+export interface FakeWorkerScope {
+  postMessage(message: unknown, transfer?: Transferable[]): void;
+  addEventListener(type: 'message', listener: Listener): void;
+}
+
+export class FakeWorker {
+  private readonly clientListeners = new Set<Listener>();
+  private readonly workerListeners = new Set<Listener>();
+  private terminated = false;
+
+  /** Messages posted by the client, in order (already cloned) */
+  readonly sent: unknown[] = [];
+
+  /**
+   * @param setup Runs the "worker script" against the fake worker scope
+   */
+  constructor(setup: (scope: FakeWorkerScope) => void) {
+    setup({
+      postMessage: (message, transfer) => this.deliver(message, this.clientListeners, transfer),
+      addEventListener: (_type, listener) => this.workerListeners.add(listener),
+    });
+  }
+
+  postMessage(message: unknown, transfer?: Transferable[]): void {
+    if (this.terminated) return;
+    const data = this.deliver(message, this.workerListeners, transfer);
+    this.sent.push(structuredClone(data));
+  }
+
+  addEventListener(_type: 'message', listener: Listener): void {
+    this.clientListeners.add(listener);
+  }
+
+  removeEventListener(_type: 'message', listener: Listener): void {
+    this.clientListeners.delete(listener);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  get isTerminated(): boolean {
+    return this.terminated;
+  }
+
+  private deliver(message: unknown, listeners: Set<Listener>, transfer: Transferable[] = []): unknown {
+    if (this.terminated) return undefined;
+    const data = structuredClone(message, { transfer });
+    void Promise.resolve().then(() => {
+      if (this.terminated) return;
+      listeners.forEach((listener) => listener({ data } as MessageEvent<unknown>));
+    });
+    return data;
+  }
+}
+
+/**
+ * Let queued fake-worker messages (and their replies) drain
+ */
+export async function flushMessages(rounds = 5): Promise<void> {
+  for (let i = 0; i < rounds; i++) {
+    await Promise.resolve();
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * MockEquipmentServer - Local HTTP server for the equipment API
+ *
+ * Serves fixtures over real HTTP on 127.0.0.1 (a free port), so the
+ * equipment client's fetching, validation and React Query wiring run end
+ * to end. Point a client at it with createEquipmentClient({ baseUrl:
+ * server.url, caches: null }). Routes can be overridden per test to return
+ * errors or malformed data; every request path is recorded.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+import type { Equipment, MaintenanceRecord, SensorDefinition } from '../../lib/equipment/equipment-model';
+
+export interface MockFleet {
+  equipment: Equipment[];
+  sensors?: Record<string, SensorDefinition[]>;
+  maintenance?: Record<string, MaintenanceRecord[]>;
+}
+
+export interface MockResponse {
+  status?: number;
+  /** Serialised as JSON; a string is sent as-is */
+  body?: unknown;
+  /** HTTP Date header (default: now) */
+  date?: string;
+}
+
+export class MockEquipmentServer {
+  /** Paths requested, in order */
+  readonly requests: string[] = [];
+  private readonly routes = new Map<string, MockResponse>();
+
+  private constructor(private readonly server: Server) {}
+
+  static async start(fleet?: MockFleet): Promise<MockEquipmentServer> {
+    let mock: MockEquipmentServer | null = null;
+    const server = createServer((request, response) => mock!.handle(request, response));
+    mock = new MockEquipmentServer(server);
+    if (fleet) mock.serve(fleet);
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return mock;
+  }
+
+  get url(): string {
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  /** Routes for every endpoint of a fleet */
+  serve({ equipment, sensors = {}, maintenance = {} }: MockFleet): void {
+    this.route('/api/equipment', { body: equipment });
+    for (const unit of equipment) {
+      const base = `/api/equipment/${encodeURIComponent(unit.id)}`;
+      this.route(base, { body: unit });
+      this.route(`${base}/sensors`, { body: sensors[unit.id] ?? [] });
+      this.route(`${base}/maintenance`, { body: maintenance[unit.id] ?? [] });
+    }
+  }
+
+  route(path: string, response: MockResponse): void {
+    this.routes.set(path, response);
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve, reject) => this.server.close((error) => (error ? reject(error) : resolve())));
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse): void {
+    const path = new URL(request.url ?? '/', this.url).pathname;
+    this.requests.push(path);
+
+    const route = this.routes.get(path) ?? { status: 404, body: { error: 'Not found' } };
+    const body = typeof route.body === 'string' ? route.body : JSON.stringify(route.body ?? null);
+    response.writeHead(route.status ?? 200, {
+      'Content-Type': 'application/json',
+      Date: route.date ?? new Date().toUTCString(),
+    });
+    response.end(body);
+  }
+}
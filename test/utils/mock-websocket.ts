@@ -0,0 +1,152 @@
+/**
+ * MockWebSocketServer - In-process WebSocket server for connection tests
+ *
+ * Hand `server.createSocket` to anything that accepts a socket factory. The
+ * server decides whether each connection opens or is refused, answers
+ * heartbeat pings (unless told to go silent), and can push messages or drop
+ * clients. Events fire synchronously; combine with jest fake timers.
+ */
+
+import type { WebSocketLike, WebSocketPayload } from '../../lib/telemetry/connection/websocket-manager';
+
+const CONNECTING = 0;
+const OPEN = 1;
+const CLOSING = 2;
+const CLOSED = 3;
+
+export class MockWebSocket implements WebSocketLike {
+  readyState = CONNECTING;
+  binaryType = 'blob';
+  onopen: ((event: Event) => void) | null = null;
+  onclose: ((event: CloseEvent) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+
+  /** Everything the client sent, in order */
+  readonly sent: WebSocketPayload[] = [];
+
+  constructor(
+    readonly url: string,
+    private readonly server: MockWebSocketServer
+  ) {}
+
+  send(data: WebSocketPayload): void {
+    if (this.readyState !== OPEN) {
+      throw new Error('InvalidStateError: socket is not open');
+    }
+    this.sent.push(data);
+    this.server.receive(this, data);
+  }
+
+  close(code = 1000, reason = ''): void {
+    if (this.readyState === CLOSED) return;
+    if (this.server.stallCloses) {
+      this.readyState = CLOSING;
+      return;
+    }
+    this.readyState = CLOSED;
+    this.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+  }
+
+  /** Server side: complete the handshake */
+  open(): void {
+    this.readyState = OPEN;
+    this.onopen?.({} as Event);
+  }
+
+  /** Server side: fail the handshake like a browser does (error, then close) */
+  fail(): void {
+    this.onerror?.({} as Event);
+    this.close(1006, 'Connection failed');
+  }
+
+  /** Server side: deliver a message to the client */
+  deliver(data: unknown): void {
+    const payload = typeof data === 'string' || data instanceof ArrayBuffer ? data : JSON.stringify(data);
+    this.onmessage?.({ data: payload } as MessageEvent);
+  }
+}
+
+export class MockWebSocketServer {
+  /** Every socket ever created, in order */
+  readonly connections: MockWebSocket[] = [];
+
+  /** Messages received from clients (JSON already parsed) */
+  readonly received: unknown[] = [];
+
+  /** When false, new connections fail instead of opening */
+  accepting = true;
+
+  /** When false, pings are swallowed to simulate a silent dead link */
+  respondToPings = true;
+
+  /** When true, close() never completes (half-open link: onclose never fires) */
+  stallCloses = false;
+
+  /** Simulated one-way-and-back delay before a pong is sent */
+  pongDelayMs = 0;
+
+  createSocket = (url: string): MockWebSocket => {
+    const socket = new MockWebSocket(url, this);
+    this.connections.push(socket);
+    // Resolve the handshake after the caller has attached its handlers
+    void Promise.resolve().then(() => {
+      if (socket.readyState !== CONNECTING) return;
+      if (this.accepting) {
+        socket.open();
+      } else {
+        socket.fail();
+      }
+    });
+    return socket;
+  };
+
+  /** Most recently created socket */
+  get latest(): MockWebSocket | undefined {
+    return this.connections[this.connections.length - 1];
+  }
+
+  /** Push a message to every open client */
+  broadcast(data: unknown): void {
+    this.connections.filter((s) => s.readyState === OPEN).forEach((s) => s.deliver(data));
+  }
+
+  /** Drop every open client abnormally (network loss) */
+  dropAll(): void {
+    this.connections.filter((s) => s.readyState === OPEN).forEach((s) => s.close(1006, 'Network lost'));
+  }
+
+  receive(socket: MockWebSocket, data: WebSocketPayload): void {
+    const parsed = typeof data === 'string' ? safeParse(data) : data;
+    const message = parsed as { type?: string; id?: number };
+
+    if (message?.type === 'ping') {
+      if (!this.respondToPings) return;
+      const pong = () => socket.readyState === OPEN && socket.deliver({ type: 'pong', id: message.id });
+      if (this.pongDelayMs > 0) {
+        setTimeout(pong, this.pongDelayMs);
+      } else {
+        pong();
+      }
+      return;
+    }
+    this.received.push(parsed);
+  }
+}
+
+/**
+ * Let pending handshakes resolve
+ */
+export async function settleSockets(): Promise<void> {
+  for (let i = 0; i < 3; i++) {
+    await Promise.resolve();
+  }
+}
+
+function safeParse(data: string): unknown {
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Service Worker Environment - Minimal SW globals for strategy tests
+ *
+ * Installs what Serwist's strategies touch at import and at request time:
+ * `self`, `location`, `caches`, `ExtendableEvent` and `FetchEvent`. Import
+ * this module BEFORE anything that imports serwist.
+ *
+ * FakeCacheStorage keys entries by request URL (GET only, no Vary handling)
+ * and stores/returns clones, like the real Cache API. FetchEvent collects
+ * every `waitUntil` promise so tests can await background cache writes.
+ */
+
+export const SW_ORIGIN = 'https://fleetops.test';
+
+function cacheKey(request: RequestInfo | URL): string {
+  const url = request instanceof Request ? request.url : String(request);
+  return new URL(url, SW_ORIGIN).href;
+}
+
+export class FakeCache {
+  readonly entries = new Map<string, Response>();
+
+  async match(request: RequestInfo | URL): Promise<Response | undefined> {
+    return this.entries.get(cacheKey(request))?.clone();
+  }
+
+  async put(request: RequestInfo | URL, response: Response): Promise<void> {
+    this.entries.set(cacheKey(request), response.clone());
+  }
+
+  async delete(request: RequestInfo | URL): Promise<boolean> {
+    return this.entries.delete(cacheKey(request));
+  }
+
+  async keys(): Promise<Request[]> {
+    return [...this.entries.keys()].map((url) => new Request(url));
+  }
+}
+
+export class FakeCacheStorage {
+  readonly caches = new Map<string, FakeCache>();
+
+  async open(name: string): Promise<FakeCache> {
+    let cache = this.caches.get(name);
+    if (!cache) {
+      cache = new FakeCache();
+      this.caches.set(name, cache);
+    }
+    return cache;
+  }
+
+  async has(name: string): Promise<boolean> {
+    return this.caches.has(name);
+  }
+
+  async delete(name: string): Promise<boolean> {
+    return this.caches.delete(name);
+  }
+
+  async keys(): Promise<string[]> {
+    return [...this.caches.keys()];
+  }
+
+  async match(request: RequestInfo | URL): Promise<Response | undefined> {
+    for (const cache of this.caches.values()) {
+      const response = await cache.match(request);
+      if (response) return response;
+    }
+    return undefined;
+  }
+
+  /** Drop every cache (call between tests) */
+  reset(): void {
+    this.caches.clear();
+  }
+}
+
+export class FakeExtendableEvent extends Event {
+  readonly pending: Promise<unknown>[] = [];
+
+  waitUntil(promise: Promise<unknown>): void {
+    this.pending.push(promise);
+  }
+
+  /** Wait for every waitUntil promise, including ones added while waiting */
+  async settled(): Promise<void> {
+    for (let seen = 0; seen < this.pending.length; ) {
+      const batch = this.pending.slice(seen);
+      seen = this.pending.length;
+      await Promise.all(batch);
+    }
+  }
+}
+
+export class FakeFetchEvent extends FakeExtendableEvent {
+  readonly request: Request;
+  readonly preloadResponse = Promise.resolve(undefined);
+
+  constructor(type: string, init: { request: Request }) {
+    super(type);
+    this.request = init.request;
+  }
+}
+
+export const fakeCaches = new FakeCacheStorage();
+
+Object.assign(globalThis, {
+  self: globalThis,
+  location: new URL(`${SW_ORIGIN}/`),
+  caches: fakeCaches,
+  ExtendableEvent: FakeExtendableEvent,
+  FetchEvent: FakeFetchEvent,
+  __WB_DISABLE_DEV_LOGS: true,
+});
+
+/**
+ * Create a fetch event for a URL (relative URLs resolve against SW_ORIGIN)
+ */
+export function createFetchEvent(url: string, init?: RequestInit): FakeFetchEvent {
+  return new FakeFetchEvent('fetch', { request: new Request(new URL(url, SW_ORIGIN), init) });
+}